@@ -3,13 +3,23 @@ import Head from "next/head";
 type BrandHeadProps = {
   title?: string;
   description?: string;
+  canonicalUrl?: string | null;
+  imageUrl?: string | null;
+  ogType?: "website" | "profile" | "article";
 };
 
-export default function BrandHead({ title, description }: BrandHeadProps) {
+export default function BrandHead({ title, description, canonicalUrl, imageUrl, ogType }: BrandHeadProps) {
   return (
     <Head>
       {title ? <title>{title}</title> : null}
       {description ? <meta name="description" content={description} /> : null}
+      {canonicalUrl ? <link rel="canonical" href={canonicalUrl} /> : null}
+      {ogType ? <meta property="og:type" content={ogType} /> : null}
+      {ogType && title ? <meta property="og:title" content={title} /> : null}
+      {ogType && description ? <meta property="og:description" content={description} /> : null}
+      {ogType && canonicalUrl ? <meta property="og:url" content={canonicalUrl} /> : null}
+      {ogType && imageUrl ? <meta property="og:image" content={imageUrl} /> : null}
+      {ogType ? <meta name="twitter:card" content={imageUrl ? "summary_large_image" : "summary"} /> : null}
     </Head>
   );
 }
@@ -93,6 +93,9 @@ export default function AdminSidebar({ active }: AdminSidebarProps) {
                 <Link href="/admin/settings/security" className={subItemClass("/admin/settings/security")}>
                   Security
                 </Link>
+                <Link href="/admin/settings/audit" className={subItemClass("/admin/settings/audit")}>
+                  Audit Log
+                </Link>
               </div>
             )}
           </div>
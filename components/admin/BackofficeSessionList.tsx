@@ -0,0 +1,72 @@
+export type BackofficeSessionSummary = {
+  id: string;
+  device: string;
+  ip: string | null;
+  countryIso2: string | null;
+  countryName: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+};
+
+type BackofficeSessionListProps = {
+  sessions: BackofficeSessionSummary[];
+  loading: boolean;
+  busyId: string | null;
+  disabled?: boolean;
+  onRevoke: (session: BackofficeSessionSummary) => void;
+};
+
+function formatDate(value: string | null) {
+  if (!value) return "—";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "—";
+  return date.toLocaleString();
+}
+
+export default function BackofficeSessionList({ sessions, loading, busyId, disabled, onRevoke }: BackofficeSessionListProps) {
+  if (sessions.length === 0) {
+    return (
+      <div className="rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-6 text-sm text-neutral-500">
+        {loading ? "Loading…" : "No active sessions."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className="flex flex-col gap-3 rounded-2xl border border-neutral-200 px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+        >
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 text-sm font-semibold text-neutral-900">
+              {session.device}
+              {session.current ? (
+                <span className="inline-flex rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-xs font-semibold text-emerald-700">
+                  This device
+                </span>
+              ) : null}
+            </div>
+            <div className="mt-1 text-xs text-neutral-500">
+              {session.ip || "Unknown IP"}
+              {session.countryName ? ` · ${session.countryName}` : ""} · Signed in {formatDate(session.createdAt)} · Last seen{" "}
+              {formatDate(session.lastSeenAt)}
+            </div>
+          </div>
+          {session.current ? null : (
+            <button
+              type="button"
+              onClick={() => onRevoke(session)}
+              disabled={disabled || busyId !== null}
+              className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-800 hover:bg-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {busyId === session.id ? "Signing out…" : "Sign Out"}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
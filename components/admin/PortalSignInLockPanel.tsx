@@ -0,0 +1,145 @@
+import { useState } from "react";
+import LibraryCardHeader from "./LibraryCardHeader";
+import { fmtDate } from "./AccountsDirectoryPage";
+import { useToast } from "../ui/toast";
+
+type PortalScope = "partners" | "sponsors";
+
+type PortalSignInLock = {
+  scope: PortalScope;
+  email: string;
+  lockedUntil: string | null;
+};
+
+export default function PortalSignInLockPanel() {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<PortalScope>("partners");
+  const [email, setEmail] = useState("");
+  const [lock, setLock] = useState<PortalSignInLock | null>(null);
+  const [busy, setBusy] = useState<"lookup" | "unlock" | null>(null);
+  const [error, setError] = useState("");
+
+  async function lookup() {
+    setBusy("lookup");
+    setError("");
+    try {
+      const res = await fetch(
+        `/api/admin/portal-sign-in-locks?scope=${encodeURIComponent(scope)}&email=${encodeURIComponent(email)}`
+      );
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to look up sign-in lock");
+      setLock(body.lock);
+    } catch (nextError: any) {
+      setLock(null);
+      setError(nextError?.message || "Failed to look up sign-in lock");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function unlock() {
+    if (!lock) return;
+
+    setBusy("unlock");
+    setError("");
+    try {
+      const res = await fetch("/api/admin/portal-sign-in-locks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope: lock.scope, email: lock.email }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to unlock sign-in");
+      setLock(body.lock);
+      toast("success", "Portal sign-in unlocked.");
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to unlock sign-in";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
+      <LibraryCardHeader
+        title="Partner & Sponsor Sign-In Locks"
+        description="Portal sign-ins lock after repeated failed passwords. Look up the email the person signs in with to clear the lock early."
+      />
+
+      {error ? (
+        <div className="mt-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+      ) : null}
+
+      <form
+        className="mt-6 flex flex-col gap-3 sm:flex-row sm:items-end"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void lookup();
+        }}
+      >
+        <label className="block">
+          <span className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Portal</span>
+          <select
+            value={scope}
+            onChange={(event) => {
+              setScope(event.target.value as PortalScope);
+              setLock(null);
+            }}
+            className="mt-2 w-full rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm outline-none focus:border-neutral-500 focus:ring-2 focus:ring-neutral-200"
+          >
+            <option value="partners">Partners</option>
+            <option value="sponsors">Sponsors</option>
+          </select>
+        </label>
+        <label className="block flex-1">
+          <span className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Email</span>
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => {
+              setEmail(event.target.value);
+              setLock(null);
+            }}
+            placeholder="name@example.com"
+            className="mt-2 w-full rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm outline-none focus:border-neutral-500 focus:ring-2 focus:ring-neutral-200"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!email.trim() || busy !== null}
+          className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm font-semibold text-neutral-900 hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {busy === "lookup" ? "Checking…" : "Check Lock"}
+        </button>
+      </form>
+
+      {lock ? (
+        <div className="mt-4 flex flex-col gap-3 rounded-xl border border-neutral-200 bg-neutral-50 px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="text-sm text-neutral-700">
+            {lock.lockedUntil ? (
+              <>
+                <span className="font-semibold text-neutral-900">{lock.email}</span> is locked until {fmtDate(lock.lockedUntil)}.
+              </>
+            ) : (
+              <>
+                <span className="font-semibold text-neutral-900">{lock.email}</span> is not locked.
+              </>
+            )}
+          </div>
+          {lock.lockedUntil ? (
+            <button
+              type="button"
+              onClick={() => void unlock()}
+              disabled={busy !== null}
+              className="rounded-xl border border-neutral-900 bg-neutral-900 px-3 py-2 text-sm font-semibold text-white hover:bg-neutral-800 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {busy === "unlock" ? "Unlocking…" : "Unlock Sign-In"}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
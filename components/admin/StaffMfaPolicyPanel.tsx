@@ -0,0 +1,297 @@
+import { BackofficeMfaPolicyMode, BackofficeRole, BackofficeUserStatus, BrandStatus } from "@prisma/client";
+import { useEffect, useMemo, useState } from "react";
+import LibraryCardHeader from "./LibraryCardHeader";
+import { fmtDate } from "./AccountsDirectoryPage";
+import { useToast } from "../ui/toast";
+
+export type StaffMfaComplianceStatus = "NOT_REQUIRED" | "COMPLIANT" | "GRACE" | "OVERDUE";
+
+export type StaffMfaCompliance = {
+  required: boolean;
+  status: StaffMfaComplianceStatus;
+  deadline: string | null;
+};
+
+type StaffMfaPolicy = {
+  mode: BackofficeMfaPolicyMode;
+  requiredRoles: BackofficeRole[];
+  requiredBrandIds: string[];
+  gracePeriodDays: number;
+  enforcedSince: string | null;
+  updatedAt: string | null;
+};
+
+type StaffMfaPolicyPanelProps = {
+  users: Array<{
+    id: string;
+    username: string;
+    email: string | null;
+    status: BackofficeUserStatus;
+    mfaCompliance: StaffMfaCompliance;
+  }>;
+  brands: Array<{ id: string; name: string; status: BrandStatus }>;
+  canManage: boolean;
+  onSelectUser: (userId: string) => void;
+  onPolicySaved: () => void;
+};
+
+const MODE_OPTIONS: Array<{ value: BackofficeMfaPolicyMode; label: string; description: string }> = [
+  { value: BackofficeMfaPolicyMode.OPTIONAL, label: "Optional", description: "Staff choose whether to enable MFA." },
+  { value: BackofficeMfaPolicyMode.ALL_STAFF, label: "All staff", description: "Every backoffice account must enable MFA." },
+  {
+    value: BackofficeMfaPolicyMode.SCOPED,
+    label: "Specific roles or brands",
+    description: "Accounts with a selected role, or access to a selected brand, must enable MFA.",
+  },
+];
+
+export function MfaCompliancePill({ compliance }: { compliance: StaffMfaCompliance }) {
+  if (compliance.status !== "GRACE" && compliance.status !== "OVERDUE") return null;
+
+  const cls =
+    compliance.status === "OVERDUE"
+      ? "border-red-200 bg-red-50 text-red-700"
+      : "border-amber-200 bg-amber-50 text-amber-700";
+  return (
+    <span className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-semibold ${cls}`}>
+      {compliance.status === "OVERDUE" ? "MFA OVERDUE" : "MFA DUE"}
+    </span>
+  );
+}
+
+export default function StaffMfaPolicyPanel({ users, brands, canManage, onSelectUser, onPolicySaved }: StaffMfaPolicyPanelProps) {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<StaffMfaPolicy | null>(null);
+  const [draft, setDraft] = useState<StaffMfaPolicy | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch("/api/admin/mfa/policy");
+        const body = await res.json().catch(() => null);
+        if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to load MFA policy");
+        if (!cancelled) {
+          setPolicy(body.policy);
+          setDraft(body.policy);
+        }
+      } catch (nextError: any) {
+        if (!cancelled) setError(nextError?.message || "Failed to load MFA policy");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const activeUsers = useMemo(() => users.filter((user) => user.status !== BackofficeUserStatus.BLOCKED), [users]);
+  const outOfPolicy = useMemo(
+    () =>
+      activeUsers
+        .filter((user) => user.mfaCompliance.status === "GRACE" || user.mfaCompliance.status === "OVERDUE")
+        .sort((left, right) => String(left.mfaCompliance.deadline).localeCompare(String(right.mfaCompliance.deadline))),
+    [activeUsers]
+  );
+  const requiredCount = activeUsers.filter((user) => user.mfaCompliance.required).length;
+  const compliantCount = activeUsers.filter((user) => user.mfaCompliance.status === "COMPLIANT").length;
+  const overdueCount = outOfPolicy.filter((user) => user.mfaCompliance.status === "OVERDUE").length;
+  const selectableBrands = brands.filter((brand) => brand.status !== BrandStatus.DISABLED);
+  const isDirty = Boolean(policy && draft && JSON.stringify(policy) !== JSON.stringify(draft));
+
+  function toggleValue<T extends string>(values: T[], value: T): T[] {
+    return values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+  }
+
+  async function savePolicy() {
+    if (!draft) return;
+
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch("/api/admin/mfa/policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode: draft.mode,
+          requiredRoles: draft.requiredRoles,
+          requiredBrandIds: draft.requiredBrandIds,
+          gracePeriodDays: draft.gracePeriodDays,
+        }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to save MFA policy");
+
+      setPolicy(body.policy);
+      setDraft(body.policy);
+      toast("success", "MFA policy saved.");
+      onPolicySaved();
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to save MFA policy";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
+      <LibraryCardHeader
+        title="MFA Policy"
+        description="Require staff to enroll an authenticator app or security key. Accounts past the grace period are sent to Settings / Security until they comply."
+        actionsTop={
+          canManage ? (
+            <button
+              type="button"
+              onClick={() => void savePolicy()}
+              disabled={!isDirty || saving}
+              className="rounded-xl border border-neutral-900 bg-neutral-900 px-3 py-2 text-sm font-semibold text-white hover:bg-neutral-800 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save Policy"}
+            </button>
+          ) : null
+        }
+      />
+
+      {error ? (
+        <div className="mt-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+      ) : null}
+
+      {!draft ? (
+        <div className="mt-6 rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-6 text-sm text-neutral-500">
+          {error ? "MFA policy unavailable." : "Loading…"}
+        </div>
+      ) : (
+        <div className="mt-6 grid gap-6 lg:grid-cols-2">
+          <fieldset disabled={!canManage || saving} className="space-y-4">
+            <div className="space-y-2">
+              {MODE_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className="flex cursor-pointer items-start gap-3 rounded-xl border border-neutral-200 px-3 py-2 hover:bg-neutral-50"
+                >
+                  <input
+                    type="radio"
+                    name="mfa-policy-mode"
+                    className="mt-1"
+                    checked={draft.mode === option.value}
+                    onChange={() => setDraft({ ...draft, mode: option.value })}
+                  />
+                  <span>
+                    <span className="block text-sm font-semibold text-neutral-900">{option.label}</span>
+                    <span className="block text-xs text-neutral-600">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {draft.mode === BackofficeMfaPolicyMode.SCOPED ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Roles</div>
+                  <div className="mt-2 space-y-1">
+                    {[BackofficeRole.SUPERADMIN, BackofficeRole.STAFF].map((role) => (
+                      <label key={role} className="flex items-center gap-2 text-sm text-neutral-800">
+                        <input
+                          type="checkbox"
+                          checked={draft.requiredRoles.includes(role)}
+                          onChange={() => setDraft({ ...draft, requiredRoles: toggleValue(draft.requiredRoles, role) })}
+                        />
+                        {role}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Brands</div>
+                  <div className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+                    {selectableBrands.length === 0 ? (
+                      <div className="text-sm text-neutral-500">No active brands.</div>
+                    ) : (
+                      selectableBrands.map((brand) => (
+                        <label key={brand.id} className="flex items-center gap-2 text-sm text-neutral-800">
+                          <input
+                            type="checkbox"
+                            checked={draft.requiredBrandIds.includes(brand.id)}
+                            onChange={() =>
+                              setDraft({ ...draft, requiredBrandIds: toggleValue(draft.requiredBrandIds, brand.id) })
+                            }
+                          />
+                          {brand.name}
+                        </label>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </div>
+            ) : null}
+
+            {draft.mode !== BackofficeMfaPolicyMode.OPTIONAL ? (
+              <label className="block">
+                <span className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Grace period (days)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={90}
+                  value={draft.gracePeriodDays}
+                  onChange={(event) => setDraft({ ...draft, gracePeriodDays: Number(event.target.value) || 0 })}
+                  className="mt-2 w-32 rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm outline-none focus:border-neutral-500 focus:ring-2 focus:ring-neutral-200"
+                />
+              </label>
+            ) : null}
+
+            {policy?.enforcedSince ? (
+              <div className="text-xs text-neutral-500">Enforced since {fmtDate(policy.enforcedSince)}.</div>
+            ) : null}
+          </fieldset>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-xl border border-neutral-200 bg-neutral-50 px-3 py-2">
+                <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Required</div>
+                <div className="mt-1 text-lg font-semibold text-neutral-900">{requiredCount}</div>
+              </div>
+              <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2">
+                <div className="text-xs font-semibold uppercase tracking-wide text-emerald-700">Compliant</div>
+                <div className="mt-1 text-lg font-semibold text-emerald-900">{compliantCount}</div>
+              </div>
+              <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2">
+                <div className="text-xs font-semibold uppercase tracking-wide text-red-700">Overdue</div>
+                <div className="mt-1 text-lg font-semibold text-red-900">{overdueCount}</div>
+              </div>
+            </div>
+
+            {outOfPolicy.length === 0 ? (
+              <div className="rounded-xl border border-neutral-200 bg-neutral-50 px-4 py-3 text-sm text-neutral-600">
+                {requiredCount === 0 ? "No accounts are covered by the current policy." : "Every covered account has MFA enabled."}
+              </div>
+            ) : (
+              <div className="divide-y divide-neutral-200 rounded-xl border border-neutral-200">
+                {outOfPolicy.map((user) => (
+                  <button
+                    key={user.id}
+                    type="button"
+                    onClick={() => onSelectUser(user.id)}
+                    className="flex w-full items-center justify-between gap-3 px-4 py-2 text-left hover:bg-neutral-50"
+                  >
+                    <span className="min-w-0">
+                      <span className="block truncate text-sm font-semibold text-neutral-900">{user.username}</span>
+                      <span className="block text-xs text-neutral-500">
+                        {user.mfaCompliance.status === "OVERDUE" ? "Overdue since" : "Due"} {fmtDate(user.mfaCompliance.deadline)}
+                      </span>
+                    </span>
+                    <MfaCompliancePill compliance={user.mfaCompliance} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
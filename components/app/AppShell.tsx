@@ -2,7 +2,7 @@ import type { ReactNode } from "react";
 import BrandHead from "../BrandHead";
 import BrandMetaHead from "../BrandMetaHead";
 import { ToastProvider } from "../ui/toast";
-import { getAppArea } from "../../lib/appArea";
+import { getAppArea, isChromelessPathname, shouldRenderPublicChat } from "../../lib/appArea";
 import BackofficeShell from "./BackofficeShell";
 import PublicSiteShell from "./PublicSiteShell";
 
@@ -22,7 +22,11 @@ export default function AppShell({ pathname, children }: AppShellProps) {
         <>
           <BrandMetaHead />
           <BrandHead />
-          <PublicSiteShell>{children}</PublicSiteShell>
+          {/* Chromeless routes also skip analytics: its fixed consent banner would
+              cover venue screens, and framed embeds can never store the consent cookie. */}
+          <PublicSiteShell showChat={shouldRenderPublicChat(pathname)} showAnalytics={!isChromelessPathname(pathname)}>
+            {children}
+          </PublicSiteShell>
         </>
       )}
     </ToastProvider>
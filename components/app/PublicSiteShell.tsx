@@ -5,15 +5,17 @@ const ChatWidget = dynamic(() => import("../ChatWidget"), { ssr: false });
 const WebsiteAnalyticsManager = dynamic(() => import("./WebsiteAnalyticsManager"), { ssr: false });
 
 type PublicSiteShellProps = {
+  showChat?: boolean;
+  showAnalytics?: boolean;
   children: ReactNode;
 };
 
-export default function PublicSiteShell({ children }: PublicSiteShellProps) {
+export default function PublicSiteShell({ showChat = true, showAnalytics = true, children }: PublicSiteShellProps) {
   return (
     <>
       {children}
-      <WebsiteAnalyticsManager />
-      <ChatWidget />
+      {showAnalytics ? <WebsiteAnalyticsManager /> : null}
+      {showChat ? <ChatWidget /> : null}
     </>
   );
 }
@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import type {
+  CommandPartnerApplicationMessage,
+  CommandPartnerAssetAccess,
+  CommandPartnerAssetSummary,
+  CommandPartnerPortalApplication,
+  CommandPartnerPortalScope,
+} from "../../lib/commandPublicApi";
+import { PORTAL_MESSAGES_READ_EVENT } from "./portalConfig";
+
+function formatFileSize(sizeBytes: number) {
+  if (sizeBytes >= 1024 * 1024) return `${(sizeBytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(sizeBytes / 1024))} KB`;
+}
+
+export default function PortalApplicationThread(props: {
+  scope: CommandPartnerPortalScope;
+  application: CommandPartnerPortalApplication;
+  onRead?: (applicationId: string) => void;
+  readOnly?: boolean;
+}) {
+  const [messages, setMessages] = useState<CommandPartnerApplicationMessage[] | null>(null);
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const [openingAssetId, setOpeningAssetId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const threadBase = `/api/bff/${props.scope}/applications/${encodeURIComponent(props.application.id)}/messages`;
+  const withdrawn = props.application.status === "WITHDRAWN";
+  const canReply = !withdrawn && !props.readOnly;
+
+  function handleUnauthorized(response: Response) {
+    if (response.status !== 401) return false;
+    window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+    return true;
+  }
+
+  async function markRead() {
+    try {
+      const response = await fetch(`${threadBase}/read`, { method: "POST" });
+      if (!response.ok) return;
+      props.onRead?.(props.application.id);
+      window.dispatchEvent(new Event(PORTAL_MESSAGES_READ_EVENT));
+    } catch {
+      // The badge just stays until the next successful read.
+    }
+  }
+
+  async function load() {
+    setError("");
+    try {
+      const response = await fetch(threadBase);
+      const payload = await response.json().catch(() => ({}));
+      if (handleUnauthorized(response)) return;
+      if (!response.ok || !payload?.ok) {
+        throw new Error(payload?.error || "Failed to load messages.");
+      }
+      setMessages((payload.messages || []) as CommandPartnerApplicationMessage[]);
+      setLastReadAt(payload.lastReadAt || null);
+      void markRead();
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to load messages.");
+    }
+  }
+
+  useEffect(() => {
+    void load();
+  }, [props.application.id]);
+
+  async function uploadAttachment(file: File): Promise<CommandPartnerAssetSummary | null> {
+    const sessionResponse = await fetch(`${threadBase}/attachments/upload-session`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: file.name, mimeType: file.type, sizeBytes: file.size }),
+    });
+    const sessionBody = await sessionResponse.json().catch(() => ({}));
+    if (handleUnauthorized(sessionResponse)) return null;
+    if (!sessionResponse.ok || !sessionBody?.ok || !sessionBody?.upload) {
+      throw new Error(sessionBody?.error || `Failed to start uploading ${file.name}.`);
+    }
+
+    const uploadResult = await fetch(String(sessionBody.upload.uploadUrl), {
+      method: String(sessionBody.upload.uploadMethod || "PUT"),
+      headers: sessionBody.upload.uploadHeaders || {},
+      body: file,
+    });
+    if (!uploadResult.ok) {
+      throw new Error(`Upload failed for ${file.name}.`);
+    }
+
+    const finalizeResponse = await fetch(`${threadBase}/attachments/finalize`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        objectKey: sessionBody.upload.objectKey,
+        fileName: file.name,
+        mimeType: file.type,
+        sizeBytes: file.size,
+      }),
+    });
+    const finalizeBody = await finalizeResponse.json().catch(() => ({}));
+    if (handleUnauthorized(finalizeResponse)) return null;
+    if (!finalizeResponse.ok || !finalizeBody?.ok || !finalizeBody?.asset) {
+      throw new Error(finalizeBody?.error || `Failed to attach ${file.name}.`);
+    }
+    return finalizeBody.asset as CommandPartnerAssetSummary;
+  }
+
+  async function onSend(event: React.FormEvent) {
+    event.preventDefault();
+    if (!body.trim() && files.length === 0) return;
+
+    setSending(true);
+    setError("");
+    try {
+      const attachmentAssetIds: string[] = [];
+      for (const file of files) {
+        const asset = await uploadAttachment(file);
+        if (!asset) return;
+        attachmentAssetIds.push(asset.id);
+      }
+
+      const response = await fetch(threadBase, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: body.trim(), attachmentAssetIds }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (handleUnauthorized(response)) return;
+      if (!response.ok || !payload?.ok) {
+        throw new Error(payload?.error || "Failed to send message.");
+      }
+      setMessages((current) => [...(current || []), payload.message as CommandPartnerApplicationMessage]);
+      setBody("");
+      setFiles([]);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to send message.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function openAttachment(assetId: string) {
+    setOpeningAssetId(assetId);
+    setError("");
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/assets/${encodeURIComponent(assetId)}/access`);
+      const payload = await response.json().catch(() => ({}));
+      if (handleUnauthorized(response)) return;
+      if (!response.ok || !payload?.ok || !payload?.access?.url) {
+        throw new Error(payload?.error || "Failed to open attachment.");
+      }
+      window.open((payload.access as CommandPartnerAssetAccess).url, "_blank", "noopener,noreferrer");
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to open attachment.");
+    } finally {
+      setOpeningAssetId(null);
+    }
+  }
+
+  return (
+    <div className="grid gap-3 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
+      <div className="text-sm font-semibold text-neutral-900">Messages with the event team</div>
+
+      {messages === null && !error ? <div className="text-sm text-neutral-600">Loading messages...</div> : null}
+      {messages && messages.length === 0 ? (
+        <div className="text-sm text-neutral-600">No messages yet. Questions about this application can be asked here.</div>
+      ) : null}
+
+      {(messages || []).map((message) => {
+        const fromPartner = Boolean(message.authorPartnerUserId);
+        const isUnread = !fromPartner && (!lastReadAt || message.createdAt > lastReadAt);
+        return (
+          <div
+            key={message.id}
+            className={`rounded-xl border p-3 ${fromPartner ? "border-neutral-200 bg-white md:ml-12" : "border-blue-200 bg-blue-50 md:mr-12"}`}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-neutral-500">
+                {fromPartner ? "You" : message.authorDisplayName || "Event team"}
+                {isUnread ? <span className="rounded-full bg-red-600 px-2 py-0.5 text-[10px] font-semibold normal-case text-white">New</span> : null}
+              </div>
+              <div className="text-xs text-neutral-500">{new Date(message.createdAt).toLocaleString()}</div>
+            </div>
+            {message.body ? <div className="mt-2 whitespace-pre-wrap text-sm leading-6 text-neutral-800">{message.body}</div> : null}
+            {message.attachments.length > 0 ? (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {message.attachments.map((attachment) => (
+                  <button
+                    key={attachment.id}
+                    type="button"
+                    onClick={() => void openAttachment(attachment.id)}
+                    disabled={openingAssetId === attachment.id}
+                    className="rounded-lg border border-neutral-300 bg-white px-2.5 py-1 text-xs font-medium text-neutral-800 disabled:opacity-60"
+                  >
+                    {openingAssetId === attachment.id ? "Opening..." : `${attachment.fileName} (${formatFileSize(attachment.sizeBytes)})`}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {error ? <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+      {canReply ? (
+        <form className="grid gap-2" onSubmit={onSend}>
+          <textarea
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            placeholder="Reply to the event team..."
+            className="min-h-[90px] w-full rounded-xl border border-neutral-300 bg-white p-3 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+          />
+          <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="application/pdf,image/*"
+              onChange={(event) => setFiles(Array.from(event.target.files || []))}
+              className="text-xs text-neutral-700"
+            />
+            <button
+              type="submit"
+              disabled={sending || (!body.trim() && files.length === 0)}
+              className="rounded-xl bg-black px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              {sending ? "Sending..." : "Send message"}
+            </button>
+          </div>
+        </form>
+      ) : withdrawn ? (
+        <div className="text-xs text-neutral-500">This application was withdrawn, so the thread is closed.</div>
+      ) : (
+        <div className="text-xs text-neutral-500">You have view-only access, so you cannot reply here.</div>
+      )}
+    </div>
+  );
+}
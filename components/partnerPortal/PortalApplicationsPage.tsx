@@ -1,10 +1,12 @@
 import type { ReactNode } from "react";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import type {
   CommandEntertainmentPartnerApplicationPayload,
   CommandFoodPartnerApplicationPayload,
   CommandMarketPartnerApplicationPayload,
+  CommandPartnerApplicationDraft,
   CommandPartnerApplicationPayload,
+  CommandPartnerApplicationVersion,
   CommandPartnerEntertainmentGenre,
   CommandPartnerPortalAccount,
   CommandPartnerPortalApplication,
@@ -20,11 +22,20 @@ import {
   COMMAND_PARTNER_ENTERTAINMENT_ACT_TYPE_OPTIONS,
   COMMAND_PARTNER_ENTERTAINMENT_GENRE_OPTIONS,
 } from "../../lib/commandPublicApi";
+import { diffPartnerApplicationPayloads } from "../../lib/partnerApplicationDiff";
+import PortalApplicationThread from "./PortalApplicationThread";
 import PortalNav from "./PortalNav";
 import PortalPhoneField, { buildPortalPhoneInputState, serializePortalPhoneInputState } from "./PortalPhoneField";
 import PortalShell from "./PortalShell";
 import { PORTAL_CONFIG } from "./portalConfig";
 
+const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+// Applications the partner can still change or take back; once reviewed the
+// decision stands.
+const PENDING_APPLICATION_STATUSES = ["SUBMITTED", "IN_REVIEW"];
+
+type DraftSaveState = "idle" | "saving" | "saved" | "error";
+
 function statusTone(status: string) {
   if (status === "APPROVED") return "bg-green-100 text-green-800";
   if (status === "REJECTED") return "bg-red-100 text-red-700";
@@ -150,6 +161,23 @@ function buildApplicationDraft(
   return marketBaseline;
 }
 
+// Saved drafts are layered over a fresh baseline so fields added to the form
+// after the draft was written still get their profile defaults.
+function applySavedDraft(
+  baseline: CommandPartnerApplicationPayload,
+  savedDraft: CommandPartnerApplicationDraft | null
+): CommandPartnerApplicationPayload {
+  if (!savedDraft || savedDraft.formType !== baseline.formType) return baseline;
+  return { ...baseline, ...savedDraft.applicationPayload } as CommandPartnerApplicationPayload;
+}
+
+function serializeDraftForSave(draft: CommandPartnerApplicationPayload, phoneState: ReturnType<typeof buildPortalPhoneInputState>) {
+  return {
+    ...draft,
+    phone: serializePortalPhoneInputState(phoneState) || "",
+  } as CommandPartnerApplicationPayload;
+}
+
 function toggleListValue(values: string[], nextValue: string) {
   return values.includes(nextValue) ? values.filter((value) => value !== nextValue) : [...values, nextValue];
 }
@@ -289,6 +317,104 @@ function applicationSections(application: CommandPartnerPortalApplication): Appl
   ];
 }
 
+function ApplicationVersionHistory(props: {
+  scope: CommandPartnerPortalScope;
+  application: CommandPartnerPortalApplication;
+}) {
+  const [versions, setVersions] = useState<CommandPartnerApplicationVersion[] | null>(null);
+  const [compareFromVersion, setCompareFromVersion] = useState(props.application.applicationVersion - 1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadVersions() {
+    setLoading(true);
+    setError("");
+    try {
+      const response = await fetch(
+        `/api/bff/${props.scope}/applications?applicationId=${encodeURIComponent(props.application.id)}`
+      );
+      const body = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+        return;
+      }
+      if (!response.ok || !body?.ok) {
+        throw new Error(body?.error || "Failed to load earlier versions.");
+      }
+      const nextVersions = ((body.versions || []) as CommandPartnerApplicationVersion[])
+        .slice()
+        .sort((a, b) => a.applicationVersion - b.applicationVersion);
+      setVersions(nextVersions);
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to load earlier versions.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (!versions) {
+    return (
+      <div className="grid gap-2">
+        <button
+          type="button"
+          onClick={() => void loadVersions()}
+          disabled={loading}
+          className="justify-self-start rounded-xl border border-neutral-300 bg-white px-3 py-2 text-xs font-semibold text-neutral-700 disabled:opacity-60"
+        >
+          {loading ? "Loading versions..." : "Compare with earlier versions"}
+        </button>
+        {error ? <div className="text-sm text-red-700">{error}</div> : null}
+      </div>
+    );
+  }
+
+  const currentVersion = versions.find((version) => version.applicationVersion === props.application.applicationVersion) || null;
+  const earlierVersions = versions.filter((version) => version.applicationVersion < props.application.applicationVersion);
+  const compareFrom = earlierVersions.find((version) => version.applicationVersion === compareFromVersion) || null;
+
+  if (!currentVersion || earlierVersions.length === 0) {
+    return <div className="text-sm text-neutral-600">No earlier versions are available for this application.</div>;
+  }
+
+  const changes = diffPartnerApplicationPayloads(compareFrom?.applicationPayload || null, currentVersion.applicationPayload);
+
+  return (
+    <div className="grid gap-3 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div className="text-sm font-semibold text-neutral-900">Changes in version {currentVersion.applicationVersion}</div>
+        <label className="flex items-center gap-2 text-xs text-neutral-600">
+          Compared with
+          <select
+            value={compareFromVersion}
+            onChange={(event) => setCompareFromVersion(Number(event.target.value))}
+            className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-xs"
+          >
+            {earlierVersions.map((version) => (
+              <option key={version.applicationVersion} value={version.applicationVersion}>
+                Version {version.applicationVersion}
+                {version.submittedAt ? ` (${new Date(version.submittedAt).toLocaleDateString()})` : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {changes.length === 0 ? (
+        <div className="text-sm text-neutral-600">No field changes between these versions.</div>
+      ) : (
+        <div className="grid gap-2">
+          {changes.map((change) => (
+            <div key={change.field} className="grid gap-2 rounded-xl border border-neutral-200 bg-white p-3 md:grid-cols-[180px_1fr_1fr]">
+              <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">{change.label}</div>
+              <div className="whitespace-pre-wrap text-sm text-red-700 line-through decoration-red-300">{change.previous}</div>
+              <div className="whitespace-pre-wrap text-sm text-green-800">{change.next}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function RequirementSummary(props: { requirements: CommandPartnerPortalRequirement[] }) {
   const outstanding = props.requirements.filter((entry) => entry.state !== "APPROVED");
 
@@ -332,12 +458,25 @@ export default function PortalApplicationsPage(props: {
   const [requirementsPayload, setRequirementsPayload] = useState<CommandPartnerPortalRequirementsPayload | null>(null);
   const [selectedEventId, setSelectedEventId] = useState("");
   const [draft, setDraft] = useState<CommandPartnerApplicationPayload | null>(null);
+  const [savedDrafts, setSavedDrafts] = useState<CommandPartnerApplicationDraft[]>([]);
+  const [draftSaveState, setDraftSaveState] = useState<DraftSaveState>("idle");
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const savedDraftsRef = useRef<CommandPartnerApplicationDraft[]>([]);
+  const lastSavedDraftRef = useRef("");
+  const pendingDraftSaveRef = useRef<Promise<void> | null>(null);
+  const draftAutosaveTimerRef = useRef<number | null>(null);
+  const submittingDraftRef = useRef(false);
+  const formRef = useRef<HTMLFormElement | null>(null);
   const [applicationPhoneState, setApplicationPhoneState] = useState(() => buildPortalPhoneInputState(""));
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [signingOut, setSigningOut] = useState(false);
   const [error, setError] = useState("");
   const [notice, setNotice] = useState("");
+  const [editingApplication, setEditingApplication] = useState<CommandPartnerPortalApplication | null>(null);
+  const [busyApplicationId, setBusyApplicationId] = useState("");
+  const [openApplicationIds, setOpenApplicationIds] = useState<string[]>([]);
+  const [unreadByApplicationId, setUnreadByApplicationId] = useState<Record<string, number>>({});
 
   async function load() {
     setLoading(true);
@@ -373,6 +512,7 @@ export default function PortalApplicationsPage(props: {
       setAvailableEvents(((payloads[0] as any).availableEvents || []) as CommandPartnerPortalEventOption[]);
       setProfile((payloads[1] as any).profile as CommandPartnerPortalProfile);
       setRequirementsPayload(props.scope === "partners" ? ((payloads[2] as any) as CommandPartnerPortalRequirementsPayload) : null);
+      await Promise.all([loadSavedDrafts(), loadUnreadCounts()]);
     } catch (nextError: any) {
       setError(nextError?.message || "Failed to load applications.");
     } finally {
@@ -380,6 +520,106 @@ export default function PortalApplicationsPage(props: {
     }
   }
 
+  // Drafts are a convenience; failing to load them should not block applying.
+  async function loadSavedDrafts() {
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/application-drafts`);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok || !body?.ok) {
+        throw new Error(body?.error || "Failed to load saved drafts.");
+      }
+      updateSavedDrafts((body.drafts || []) as CommandPartnerApplicationDraft[]);
+    } catch (nextError) {
+      console.warn(`[${props.scope}-applications] saved drafts unavailable`, nextError);
+    }
+  }
+
+  async function loadUnreadCounts() {
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/messages/unread`);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok || !body?.ok) return;
+      setUnreadByApplicationId(
+        Object.fromEntries(
+          ((body.applications || []) as Array<{ applicationId: string; unreadCount: number }>).map((entry) => [
+            entry.applicationId,
+            entry.unreadCount,
+          ])
+        )
+      );
+    } catch {
+      setUnreadByApplicationId({});
+    }
+  }
+
+  function toggleApplicationOpen(applicationId: string, open: boolean) {
+    setOpenApplicationIds((current) =>
+      open ? Array.from(new Set([...current, applicationId])) : current.filter((id) => id !== applicationId)
+    );
+  }
+
+  function updateSavedDrafts(nextDrafts: CommandPartnerApplicationDraft[]) {
+    savedDraftsRef.current = nextDrafts;
+    setSavedDrafts(nextDrafts);
+  }
+
+  async function saveDraft(eventSeriesId: string, payload: CommandPartnerApplicationPayload, serialized: string) {
+    // A save that starts while the application is being submitted would
+    // recreate the draft the submission is about to discard.
+    if (submittingDraftRef.current) return;
+    setDraftSaveState("saving");
+    const request = (async () => {
+      try {
+        const response = await fetch(`/api/bff/${props.scope}/application-drafts`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            scheduleEventSeriesId: eventSeriesId,
+            formType: payload.formType,
+            applicationPayload: payload,
+          }),
+        });
+        const body = await response.json().catch(() => ({}));
+        if (response.status === 401) {
+          window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+          return;
+        }
+        if (!response.ok || !body?.ok) {
+          throw new Error(body?.error || "Failed to save draft.");
+        }
+        const saved = body.draft as CommandPartnerApplicationDraft;
+        lastSavedDraftRef.current = serialized;
+        updateSavedDrafts([saved, ...savedDraftsRef.current.filter((entry) => entry.id !== saved.id)]);
+        setDraftSavedAt(saved.updatedAt);
+        setDraftSaveState("saved");
+      } catch {
+        setDraftSaveState("error");
+      }
+    })();
+    pendingDraftSaveRef.current = request;
+    await request;
+  }
+
+  async function discardDraft(savedDraft: CommandPartnerApplicationDraft) {
+    const query = new URLSearchParams({
+      scheduleEventSeriesId: savedDraft.scheduleEventSeriesId,
+      formType: savedDraft.formType,
+    });
+    const response = await fetch(`/api/bff/${props.scope}/application-drafts?${query.toString()}`, { method: "DELETE" });
+    if (response.status === 401) {
+      window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+      return;
+    }
+    if (!response.ok) return;
+    updateSavedDrafts(savedDraftsRef.current.filter((entry) => entry.id !== savedDraft.id));
+  }
+
+  function continueDraft(savedDraft: CommandPartnerApplicationDraft) {
+    setEditingApplication(null);
+    setSelectedEventId(savedDraft.scheduleEventSeriesId);
+    formRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+
   useEffect(() => {
     void load();
   }, [props.scope]);
@@ -393,14 +633,16 @@ export default function PortalApplicationsPage(props: {
   }, [applications]);
 
   const selectedEvent = useMemo(() => {
+    // An application keeps its event even after the event leaves the open list.
+    if (editingApplication) return editingApplication.event;
     return availableEvents.find((event) => event.id === selectedEventId) || null;
-  }, [availableEvents, selectedEventId]);
+  }, [availableEvents, editingApplication, selectedEventId]);
 
   useEffect(() => {
-    if (!selectedEventId) return;
+    if (!selectedEventId || editingApplication) return;
     if (availableEvents.some((event) => event.id === selectedEventId)) return;
     setSelectedEventId("");
-  }, [availableEvents, selectedEventId]);
+  }, [availableEvents, editingApplication, selectedEventId]);
 
   useEffect(() => {
     if (!profile || !selectedEvent) {
@@ -408,10 +650,58 @@ export default function PortalApplicationsPage(props: {
       setApplicationPhoneState(buildPortalPhoneInputState(""));
       return;
     }
-    const nextDraft = buildApplicationDraft(profile, selectedEvent);
+    const baseline = buildApplicationDraft(profile, selectedEvent);
+    if (editingApplication?.applicationPayload) {
+      const nextDraft = { ...baseline, ...editingApplication.applicationPayload } as CommandPartnerApplicationPayload;
+      setDraft(nextDraft);
+      setApplicationPhoneState(buildPortalPhoneInputState(nextDraft.phone));
+      setDraftSaveState("idle");
+      setDraftSavedAt(null);
+      return;
+    }
+    const savedDraft =
+      savedDraftsRef.current.find(
+        (entry) => entry.scheduleEventSeriesId === selectedEvent.id && entry.formType === baseline.formType
+      ) || null;
+    const nextDraft = applySavedDraft(baseline, savedDraft);
+    const nextPhoneState = buildPortalPhoneInputState(nextDraft.phone);
+    lastSavedDraftRef.current = JSON.stringify(serializeDraftForSave(nextDraft, nextPhoneState));
     setDraft(nextDraft);
-    setApplicationPhoneState(buildPortalPhoneInputState(nextDraft.phone));
-  }, [profile, selectedEvent]);
+    setApplicationPhoneState(nextPhoneState);
+    setDraftSaveState(savedDraft ? "saved" : "idle");
+    setDraftSavedAt(savedDraft?.updatedAt || null);
+  }, [profile, selectedEvent, editingApplication]);
+
+  useEffect(() => {
+    // Edits to a submitted application go straight to resubmission, not drafts.
+    if (!selectedEventId || !draft || editingApplication) return;
+    const payload = serializeDraftForSave(draft, applicationPhoneState);
+    const serialized = JSON.stringify(payload);
+    if (serialized === lastSavedDraftRef.current) return;
+
+    const timer = window.setTimeout(() => {
+      draftAutosaveTimerRef.current = null;
+      void saveDraft(selectedEventId, payload, serialized);
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+    draftAutosaveTimerRef.current = timer;
+    return () => {
+      window.clearTimeout(timer);
+      if (draftAutosaveTimerRef.current === timer) draftAutosaveTimerRef.current = null;
+    };
+  }, [draft, applicationPhoneState, selectedEventId, editingApplication]);
+
+  const resumableDrafts = useMemo(() => {
+    return savedDrafts
+      .map((savedDraft) => ({
+        savedDraft,
+        event: availableEvents.find((event) => event.id === savedDraft.scheduleEventSeriesId) || null,
+      }))
+      .filter(
+        (entry): entry is { savedDraft: CommandPartnerApplicationDraft; event: CommandPartnerPortalEventOption } =>
+          Boolean(entry.event) && !blockedEventIds.has(entry.savedDraft.scheduleEventSeriesId)
+      )
+      .sort((a, b) => b.savedDraft.updatedAt.localeCompare(a.savedDraft.updatedAt));
+  }, [availableEvents, blockedEventIds, savedDrafts]);
 
   async function handleSignOut() {
     setSigningOut(true);
@@ -422,6 +712,51 @@ export default function PortalApplicationsPage(props: {
     }
   }
 
+  function startEditing(application: CommandPartnerPortalApplication) {
+    setError("");
+    setNotice("");
+    setEditingApplication(application);
+    setSelectedEventId(application.event.id);
+    formRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+
+  function cancelEditing() {
+    setEditingApplication(null);
+    setSelectedEventId("");
+  }
+
+  async function withdrawApplication(application: CommandPartnerPortalApplication) {
+    if (!confirm(`Withdraw your application for ${application.event.name}? You can apply again later.`)) return;
+
+    setBusyApplicationId(application.id);
+    setError("");
+    setNotice("");
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/applications`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ applicationId: application.id, action: "withdraw" }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+        return;
+      }
+      if (!response.ok || !body?.ok) {
+        throw new Error(body?.error || "Failed to withdraw application.");
+      }
+      if (editingApplication?.id === application.id) {
+        cancelEditing();
+      }
+      setNotice("Application withdrawn.");
+      await load();
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to withdraw application.");
+    } finally {
+      setBusyApplicationId("");
+    }
+  }
+
   function updateDraftField(field: string, value: unknown) {
     setDraft((current) => (current ? ({ ...current, [field]: value } as CommandPartnerApplicationPayload) : current));
   }
@@ -464,8 +799,21 @@ export default function PortalApplicationsPage(props: {
       phone: serializedPhone,
     } as CommandPartnerApplicationPayload;
 
+    if (editingApplication) {
+      await resubmitApplication(editingApplication, payload);
+      return;
+    }
+
+    if (draftAutosaveTimerRef.current !== null) {
+      window.clearTimeout(draftAutosaveTimerRef.current);
+      draftAutosaveTimerRef.current = null;
+    }
+    submittingDraftRef.current = true;
     setSaving(true);
     try {
+      // Let an in-flight autosave land first so it cannot recreate the draft
+      // after submission clears it.
+      await pendingDraftSaveRef.current;
       const response = await fetch(`/api/bff/${props.scope}/applications`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -482,6 +830,12 @@ export default function PortalApplicationsPage(props: {
       if (!response.ok || !body?.ok) {
         throw new Error(body?.error || "Failed to submit application.");
       }
+      const submittedDraft = savedDraftsRef.current.find(
+        (entry) => entry.scheduleEventSeriesId === selectedEventId && entry.formType === payload.formType
+      );
+      if (submittedDraft) {
+        await discardDraft(submittedDraft).catch(() => undefined);
+      }
       setSelectedEventId("");
       setDraft(null);
       setApplicationPhoneState(buildPortalPhoneInputState(""));
@@ -489,12 +843,49 @@ export default function PortalApplicationsPage(props: {
       await load();
     } catch (nextError: any) {
       setError(nextError?.message || "Failed to submit application.");
+    } finally {
+      submittingDraftRef.current = false;
+      setSaving(false);
+    }
+  }
+
+  async function resubmitApplication(application: CommandPartnerPortalApplication, payload: CommandPartnerApplicationPayload) {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/applications`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          applicationId: application.id,
+          action: "resubmit",
+          expectedVersion: application.applicationVersion,
+          applicationPayload: payload,
+        }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+        return;
+      }
+      if (response.status === 409) {
+        throw new Error("This application changed since you opened it. Reload the page to edit the latest version.");
+      }
+      if (!response.ok || !body?.ok) {
+        throw new Error(body?.error || "Failed to resubmit application.");
+      }
+      const updated = body.application as CommandPartnerPortalApplication;
+      cancelEditing();
+      setNotice(`Application resubmitted as version ${updated.applicationVersion}.`);
+      await load();
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to resubmit application.");
     } finally {
       setSaving(false);
     }
   }
 
   const participantProfile = profile?.kind === "PARTICIPANT" ? (profile as CommandParticipantPortalProfile) : null;
+  const readOnly = props.account.teamRole === "VIEWER";
 
   return (
     <PortalShell title={config.applicationsHeading} subtitle={config.subtitle} width="wide">
@@ -513,25 +904,80 @@ export default function PortalApplicationsPage(props: {
 
         {requirementsPayload ? <RequirementSummary requirements={requirementsPayload.requirements} /> : null}
 
-        <form className="grid gap-4 rounded-2xl border border-neutral-200 bg-neutral-50 p-4" onSubmit={onSubmit}>
-          <div className="grid gap-2">
-            <label className="text-sm font-medium">Active event</label>
-            <select
-              value={selectedEventId}
-              onChange={(event) => setSelectedEventId(event.target.value)}
-              className="rounded-xl border border-neutral-300 p-3 focus:outline-none focus:ring-2 focus:ring-black"
-            >
-              <option value="">Select an event</option>
-              {availableEvents.map((event) => (
-                <option key={event.id} value={event.id} disabled={blockedEventIds.has(event.id)}>
-                  {event.name}
-                </option>
+        {!readOnly && resumableDrafts.length > 0 ? (
+          <div className="rounded-2xl border border-amber-200 bg-amber-50 p-4">
+            <div className="text-sm font-semibold text-amber-900">Continue your draft</div>
+            <div className="mt-3 grid gap-2">
+              {resumableDrafts.map(({ savedDraft, event }) => (
+                <div key={savedDraft.id} className="flex flex-col gap-2 rounded-xl border border-amber-200 bg-white px-3 py-2 md:flex-row md:items-center md:justify-between">
+                  <div className="grid gap-0.5">
+                    <span className="text-sm font-medium text-neutral-900">{event.name}</span>
+                    <span className="text-xs text-neutral-600">Last saved {new Date(savedDraft.updatedAt).toLocaleString()}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => continueDraft(savedDraft)}
+                      className="rounded-xl bg-black px-3 py-2 text-xs font-semibold text-white"
+                    >
+                      Continue
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void discardDraft(savedDraft)}
+                      disabled={selectedEventId === savedDraft.scheduleEventSeriesId}
+                      className="rounded-xl border border-neutral-300 px-3 py-2 text-xs font-semibold text-neutral-700 disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
               ))}
-            </select>
-            <div className="text-xs text-neutral-600">
-              All active events in the current brand are available in v1. Existing submitted, in-review, or approved applications for the same event cannot be duplicated.
             </div>
           </div>
+        ) : null}
+
+        {readOnly ? (
+          <div className="rounded-2xl border border-neutral-200 bg-neutral-50 p-4 text-sm text-neutral-700">
+            You have view-only access to this team. Ask an owner or editor to submit or change applications.
+          </div>
+        ) : (
+        <form ref={formRef} className="grid gap-4 rounded-2xl border border-neutral-200 bg-neutral-50 p-4" onSubmit={onSubmit}>
+          {editingApplication ? (
+            <div className="flex flex-col gap-3 rounded-xl border border-blue-200 bg-blue-50 p-3 md:flex-row md:items-center md:justify-between">
+              <div className="text-sm text-blue-900">
+                Editing your {editingApplication.event.name} application (version {editingApplication.applicationVersion}). Resubmitting sends version{" "}
+                {editingApplication.applicationVersion + 1} back for review.
+              </div>
+              <button
+                type="button"
+                onClick={cancelEditing}
+                disabled={saving}
+                className="rounded-xl border border-blue-300 bg-white px-3 py-2 text-xs font-semibold text-blue-900 disabled:opacity-60"
+              >
+                Cancel editing
+              </button>
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Active event</label>
+              <select
+                value={selectedEventId}
+                onChange={(event) => setSelectedEventId(event.target.value)}
+                className="rounded-xl border border-neutral-300 p-3 focus:outline-none focus:ring-2 focus:ring-black"
+              >
+                <option value="">Select an event</option>
+                {availableEvents.map((event) => (
+                  <option key={event.id} value={event.id} disabled={blockedEventIds.has(event.id)}>
+                    {event.name}
+                  </option>
+                ))}
+              </select>
+              <div className="text-xs text-neutral-600">
+                All active events in the current brand are available in v1. Existing submitted, in-review, or approved applications for the same event cannot be duplicated.
+              </div>
+            </div>
+          )}
 
           {selectedEvent && draft ? (
             <div className="grid gap-4 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm">
@@ -859,9 +1305,19 @@ export default function PortalApplicationsPage(props: {
             disabled={saving || !selectedEventId || !draft}
             className="rounded-2xl bg-black px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
           >
-            {saving ? "Submitting..." : config.applicationCtaLabel}
+            {saving ? "Submitting..." : editingApplication ? "Resubmit application" : config.applicationCtaLabel}
           </button>
+
+          {selectedEvent && draft && !editingApplication ? (
+            <div className={`text-xs ${draftSaveState === "error" ? "text-red-700" : "text-neutral-500"}`}>
+              {draftSaveState === "saving" ? "Saving draft..." : null}
+              {draftSaveState === "saved" && draftSavedAt ? `Draft saved ${new Date(draftSavedAt).toLocaleTimeString()}.` : null}
+              {draftSaveState === "error" ? "Draft could not be saved. Your changes are kept on this page; keep editing to retry." : null}
+              {draftSaveState === "idle" ? "Changes are saved as a draft while you type." : null}
+            </div>
+          ) : null}
         </form>
+        )}
 
         <div className="grid gap-3">
           {applications.length === 0 ? (
@@ -870,7 +1326,11 @@ export default function PortalApplicationsPage(props: {
             </div>
           ) : (
             applications.map((application) => (
-              <details key={application.id} className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm">
+              <details
+                key={application.id}
+                onToggle={(event) => toggleApplicationOpen(application.id, event.currentTarget.open)}
+                className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm"
+              >
                 <summary className="cursor-pointer list-none">
                   <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
                     <div className="grid gap-1">
@@ -879,15 +1339,55 @@ export default function PortalApplicationsPage(props: {
                         Submitted {application.submittedAt ? new Date(application.submittedAt).toLocaleDateString() : "not yet"}
                         {application.approvedAt ? ` · Approved ${new Date(application.approvedAt).toLocaleDateString()}` : ""}
                         {application.rejectedAt ? ` · Rejected ${new Date(application.rejectedAt).toLocaleDateString()}` : ""}
+                        {application.withdrawnAt ? ` · Withdrawn ${new Date(application.withdrawnAt).toLocaleDateString()}` : ""}
+                        {application.applicationVersion > 1 ? ` · Version ${application.applicationVersion}` : ""}
                       </div>
                     </div>
-                    <span className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${statusTone(application.status)}`}>
-                      {application.status.replaceAll("_", " ")}
-                    </span>
+                    <div className="flex items-center gap-2">
+                      {unreadByApplicationId[application.id] ? (
+                        <span className="inline-flex rounded-full bg-red-600 px-3 py-1 text-xs font-semibold text-white">
+                          {unreadByApplicationId[application.id]} new message{unreadByApplicationId[application.id] === 1 ? "" : "s"}
+                        </span>
+                      ) : null}
+                      <span className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${statusTone(application.status)}`}>
+                        {application.status.replaceAll("_", " ")}
+                      </span>
+                    </div>
                   </div>
                 </summary>
 
                 <div className="mt-4 grid gap-4">
+                  {!readOnly && PENDING_APPLICATION_STATUSES.includes(application.status) ? (
+                    <div className="flex flex-wrap gap-2">
+                      {application.applicationPayload ? (
+                        <button
+                          type="button"
+                          onClick={() => startEditing(application)}
+                          disabled={saving || busyApplicationId === application.id || editingApplication?.id === application.id}
+                          className="rounded-xl bg-black px-3 py-2 text-xs font-semibold text-white disabled:opacity-60"
+                        >
+                          Edit and resubmit
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        onClick={() => void withdrawApplication(application)}
+                        disabled={saving || busyApplicationId === application.id}
+                        className="rounded-xl border border-red-200 bg-white px-3 py-2 text-xs font-semibold text-red-700 disabled:opacity-60"
+                      >
+                        {busyApplicationId === application.id ? "Withdrawing..." : "Withdraw application"}
+                      </button>
+                    </div>
+                  ) : null}
+
+                  {application.applicationVersion > 1 ? (
+                    <ApplicationVersionHistory
+                      key={`${application.id}:${application.applicationVersion}`}
+                      scope={props.scope}
+                      application={application}
+                    />
+                  ) : null}
+
                   {applicationSections(application).map((section) => (
                     <div key={section.title} className="grid gap-3 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
                       <div className="text-sm font-semibold text-neutral-900">{section.title}</div>
@@ -902,24 +1402,16 @@ export default function PortalApplicationsPage(props: {
                     </div>
                   ))}
 
-                  <div className="grid gap-3 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
-                    <div className="text-sm font-semibold text-neutral-900">External Notes</div>
-                    {application.externalNotes.length === 0 ? (
-                      <div className="text-sm text-neutral-600">No external notes yet.</div>
-                    ) : (
-                      application.externalNotes.map((note) => (
-                        <div key={note.id} className="rounded-xl border border-neutral-200 bg-white p-3">
-                          <div className="flex items-center justify-between gap-3">
-                            <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">
-                              {note.authorDisplayName || "Event team"}
-                            </div>
-                            <div className="text-xs text-neutral-500">{new Date(note.createdAt).toLocaleString()}</div>
-                          </div>
-                          <div className="mt-2 whitespace-pre-wrap text-sm leading-6 text-neutral-800">{note.body}</div>
-                        </div>
-                      ))
-                    )}
-                  </div>
+                  {openApplicationIds.includes(application.id) ? (
+                    <PortalApplicationThread
+                      scope={props.scope}
+                      application={application}
+                      readOnly={readOnly}
+                      onRead={(applicationId) =>
+                        setUnreadByApplicationId((current) => ({ ...current, [applicationId]: 0 }))
+                      }
+                    />
+                  ) : null}
                 </div>
               </details>
             ))
@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import type {
+  CommandPartnerAvailabilityUpdate,
+  CommandPartnerPortalEventOption,
+} from "../../lib/commandPublicApi";
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+const ALL_WEEKDAYS = WEEKDAYS.map((day) => day.value);
+const WEEKEND_DAYS = [6, 0];
+
+// Dates are handled as YYYY-MM-DD strings in UTC so browser time zones never
+// shift a day.
+function toDateKey(value: string) {
+  return value.slice(0, 10);
+}
+
+export function addDaysToDateKey(dateKey: string, days: number) {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function weekdayOf(dateKey: string) {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+function formatDateKey(dateKey: string) {
+  return new Date(`${dateKey}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Every date from start to end (inclusive), clipped to the event's season and
+// limited to the chosen weekdays.
+function matchingDates(params: {
+  start: string;
+  end: string;
+  seasonStart: string;
+  seasonEnd: string;
+  weekdays: number[];
+}) {
+  const from = params.start > params.seasonStart ? params.start : params.seasonStart;
+  const to = params.end < params.seasonEnd ? params.end : params.seasonEnd;
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDaysToDateKey(date, 1)) {
+    if (params.weekdays.includes(weekdayOf(date))) dates.push(date);
+  }
+  return dates;
+}
+
+export default function PortalAvailabilityBulkTools(props: {
+  event: CommandPartnerPortalEventOption;
+  copySources: CommandPartnerPortalEventOption[];
+  selection: { start: string; end: string } | null;
+  busy: boolean;
+  undoLabel: string | null;
+  onApply: (updates: CommandPartnerAvailabilityUpdate[], label: string) => Promise<void>;
+  onCopy: (sourceEventId: string) => Promise<void>;
+  onUndo: () => Promise<void>;
+}) {
+  const seasonStart = toDateKey(props.event.seasonStartsOn);
+  const seasonEnd = toDateKey(props.event.seasonEndsOn);
+  const [rangeStart, setRangeStart] = useState(seasonStart);
+  const [rangeEnd, setRangeEnd] = useState(seasonEnd);
+  const [weekdays, setWeekdays] = useState<number[]>(ALL_WEEKDAYS);
+  const [copySourceId, setCopySourceId] = useState("");
+
+  useEffect(() => {
+    setRangeStart(seasonStart);
+    setRangeEnd(seasonEnd);
+    setWeekdays(ALL_WEEKDAYS);
+    setCopySourceId("");
+  }, [props.event.id, seasonStart, seasonEnd]);
+
+  // A range dragged on the calendar replaces the form's range.
+  useEffect(() => {
+    if (!props.selection) return;
+    setRangeStart(props.selection.start);
+    setRangeEnd(props.selection.end);
+    setWeekdays(ALL_WEEKDAYS);
+  }, [props.selection]);
+
+  const dates =
+    rangeStart && rangeEnd && rangeStart <= rangeEnd
+      ? matchingDates({ start: rangeStart, end: rangeEnd, seasonStart, seasonEnd, weekdays })
+      : [];
+
+  function toggleWeekday(value: number) {
+    setWeekdays((current) => (current.includes(value) ? current.filter((day) => day !== value) : [...current, value]));
+  }
+
+  function selectWholeSeason(days: number[]) {
+    setRangeStart(seasonStart);
+    setRangeEnd(seasonEnd);
+    setWeekdays(days);
+  }
+
+  function apply(available: boolean) {
+    const range = `${formatDateKey(dates[0])} – ${formatDateKey(dates[dates.length - 1])}`;
+    void props.onApply(
+      dates.map((date) => ({ date, available })),
+      `${available ? "Marked available" : "Marked unavailable"} ${range}`
+    );
+  }
+
+  return (
+    <div className="grid gap-4 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="grid gap-1">
+          <div className="text-base font-semibold text-neutral-900">Bulk Availability</div>
+          <div className="text-sm text-neutral-600">
+            Season runs {formatDateKey(seasonStart)} – {formatDateKey(seasonEnd)}. Drag across the calendar to pick a range,
+            or start from a preset.
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => void props.onUndo()}
+          disabled={!props.undoLabel || props.busy}
+          title={props.undoLabel ? `Undo: ${props.undoLabel}` : undefined}
+          className="rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 disabled:opacity-50"
+        >
+          Undo
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => selectWholeSeason(WEEKEND_DAYS)}
+          className="rounded-xl border border-neutral-300 bg-white px-3 py-1.5 text-xs font-semibold text-neutral-800"
+        >
+          Every weekend
+        </button>
+        <button
+          type="button"
+          onClick={() => selectWholeSeason(ALL_WEEKDAYS)}
+          className="rounded-xl border border-neutral-300 bg-white px-3 py-1.5 text-xs font-semibold text-neutral-800"
+        >
+          Whole season
+        </button>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className="grid gap-1 text-sm text-neutral-800">
+          From
+          <input
+            type="date"
+            value={rangeStart}
+            min={seasonStart}
+            max={seasonEnd}
+            onChange={(event) => setRangeStart(event.target.value)}
+            className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+          />
+        </label>
+        <label className="grid gap-1 text-sm text-neutral-800">
+          To
+          <input
+            type="date"
+            value={rangeEnd}
+            min={seasonStart}
+            max={seasonEnd}
+            onChange={(event) => setRangeEnd(event.target.value)}
+            className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+          />
+        </label>
+      </div>
+
+      <fieldset className="flex flex-wrap gap-3">
+        <legend className="mb-2 text-sm font-medium text-neutral-900">Days of the week</legend>
+        {WEEKDAYS.map((day) => (
+          <label key={day.value} className="flex items-center gap-1.5 text-sm text-neutral-800">
+            <input
+              type="checkbox"
+              checked={weekdays.includes(day.value)}
+              onChange={() => toggleWeekday(day.value)}
+              className="h-4 w-4 rounded border-neutral-300"
+            />
+            {day.label}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => apply(true)}
+          disabled={props.busy || dates.length === 0}
+          className="rounded-2xl bg-black px-4 py-2.5 text-sm font-semibold text-white disabled:opacity-60"
+        >
+          Mark Available
+        </button>
+        <button
+          type="button"
+          onClick={() => apply(false)}
+          disabled={props.busy || dates.length === 0}
+          className="rounded-2xl border border-neutral-300 bg-white px-4 py-2.5 text-sm font-semibold text-neutral-800 disabled:opacity-60"
+        >
+          Mark Unavailable
+        </button>
+        <span className="text-xs text-neutral-500">
+          {dates.length === 0
+            ? "No season dates match this range."
+            : `${dates.length} date${dates.length === 1 ? "" : "s"} selected. Assigned dates are never cleared.`}
+        </span>
+      </div>
+
+      <div className="grid gap-2 border-t border-neutral-200 pt-4">
+        <div className="text-sm font-medium text-neutral-900">Copy from another event</div>
+        {props.copySources.length === 0 ? (
+          <div className="text-xs text-neutral-500">Copying needs another approved event.</div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={copySourceId}
+              onChange={(event) => setCopySourceId(event.target.value)}
+              className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-800 focus:outline-none focus:ring-2 focus:ring-black"
+            >
+              <option value="">Select an event…</option>
+              {props.copySources.map((source) => (
+                <option key={source.id} value={source.id}>
+                  {source.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void props.onCopy(copySourceId)}
+              disabled={props.busy || !copySourceId}
+              className="rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 disabled:opacity-60"
+            >
+              Copy Availability
+            </button>
+            <span className="text-xs text-neutral-500">Replaces this event&apos;s availability on dates both seasons share.</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
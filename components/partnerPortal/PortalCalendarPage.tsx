@@ -3,11 +3,14 @@ import { useCallback, useEffect, useState } from "react";
 import dynamic from "next/dynamic";
 import type {
   CommandPartnerAvailabilityEntry,
+  CommandPartnerAvailabilityUpdate,
   CommandPartnerPortalAccount,
   CommandPartnerPortalApplication,
   CommandPartnerPortalEventOption,
   CommandPartnerPortalScope,
 } from "../../lib/commandPublicApi";
+import { chunkAvailabilityUpdates } from "../../lib/partnerAvailability";
+import PortalAvailabilityBulkTools, { addDaysToDateKey } from "./PortalAvailabilityBulkTools";
 import PortalNav from "./PortalNav";
 import PortalShell from "./PortalShell";
 
@@ -22,6 +25,14 @@ function statusTone(status: string) {
   return "bg-neutral-100 text-neutral-700";
 }
 
+// Each undo step stores the updates that restore the dates it changed.
+type UndoStep = {
+  label: string;
+  updates: CommandPartnerAvailabilityUpdate[];
+};
+
+const MAX_UNDO_STEPS = 20;
+
 type CalendarEvent = {
   id: string;
   title: string;
@@ -36,6 +47,7 @@ export default function PortalCalendarPage(props: {
   scope: CommandPartnerPortalScope;
   account: CommandPartnerPortalAccount;
 }) {
+  const readOnly = props.account.teamRole === "VIEWER";
   const [applications, setApplications] = useState<CommandPartnerPortalApplication[]>([]);
   const [availableEvents, setAvailableEvents] = useState<CommandPartnerPortalEventOption[]>([]);
   const [selectedEventId, setSelectedEventId] = useState("");
@@ -48,6 +60,8 @@ export default function PortalCalendarPage(props: {
   const [notice, setNotice] = useState("");
   const [calendarReady, setCalendarReady] = useState(false);
   const [calendarPlugins, setCalendarPlugins] = useState<any[]>([]);
+  const [undoSteps, setUndoSteps] = useState<UndoStep[]>([]);
+  const [selection, setSelection] = useState<{ start: string; end: string } | null>(null);
 
   // Load FullCalendar plugins on client side
   useEffect(() => {
@@ -98,6 +112,8 @@ export default function PortalCalendarPage(props: {
 
   // Load availability when event selection changes
   useEffect(() => {
+    setUndoSteps([]);
+    setSelection(null);
     if (!selectedEventId) {
       setEntries([]);
       return;
@@ -131,7 +147,7 @@ export default function PortalCalendarPage(props: {
   // Toggle a date's availability
   const handleDateClick = useCallback(
     async (info: { dateStr: string }) => {
-      if (!selectedEventId || saving) return;
+      if (!selectedEventId || saving || readOnly) return;
       const dateStr = info.dateStr;
 
       const existing = entries.find((e) => e.date === dateStr);
@@ -166,6 +182,10 @@ export default function PortalCalendarPage(props: {
         if (!response.ok || !payload?.ok) {
           throw new Error(payload?.error || "Failed to update availability.");
         }
+        pushUndoStep({
+          label: `${isCurrentlyAvailable ? "Removed" : "Added"} ${dateStr}`,
+          updates: [{ date: dateStr, available: isCurrentlyAvailable }],
+        });
         setNotice(isCurrentlyAvailable ? "Date removed from availability." : "Date added to availability.");
       } catch (nextError: any) {
         // Revert optimistic update
@@ -184,9 +204,147 @@ export default function PortalCalendarPage(props: {
         setSaving(false);
       }
     },
-    [selectedEventId, entries, saving, props.scope]
+    [selectedEventId, entries, saving, readOnly, props.scope]
   );
 
+  function pushUndoStep(step: UndoStep) {
+    setUndoSteps((current) => [...current, step].slice(-MAX_UNDO_STEPS));
+  }
+
+  // Posts updates in batches the BFF accepts and replaces local entries with
+  // Command's result after each one. onSaved hears about every batch that
+  // landed, so a failure part way through can still be undone. Returns false
+  // when the session expired and the page is redirecting to sign in.
+  async function postAvailabilityBatch(
+    updates: CommandPartnerAvailabilityUpdate[],
+    onSaved?: (saved: CommandPartnerAvailabilityUpdate[]) => void
+  ) {
+    for (const chunk of chunkAvailabilityUpdates(updates)) {
+      const response = await fetch(`/api/bff/${props.scope}/availability`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventSeriesId: selectedEventId, entries: chunk }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+        return false;
+      }
+      if (!response.ok || !payload?.ok) {
+        throw new Error(payload?.error || "Failed to update availability.");
+      }
+      setEntries(payload.entries || []);
+      onSaved?.(chunk);
+    }
+    return true;
+  }
+
+  // Drops no-op updates and never clears an assigned date, then records the
+  // inverse of what actually changed so it can be undone.
+  async function applyAvailabilityUpdates(updates: CommandPartnerAvailabilityUpdate[], label: string) {
+    if (!selectedEventId || saving || readOnly) return;
+    const current = new Map(entries.map((entry) => [entry.date, entry]));
+    const changes = updates.filter((update) => {
+      const existing = current.get(update.date);
+      if (!update.available && existing?.assigned) return false;
+      return (existing?.available || false) !== update.available;
+    });
+    if (changes.length === 0) {
+      setError("");
+      setNotice("Those dates already match. Nothing changed.");
+      return;
+    }
+
+    const saved: CommandPartnerAvailabilityUpdate[] = [];
+    const inverse = (list: CommandPartnerAvailabilityUpdate[]) =>
+      list.map((change) => ({ date: change.date, available: !change.available }));
+
+    setSaving(true);
+    setNotice("");
+    setError("");
+    try {
+      if (!(await postAvailabilityBatch(changes, (chunk) => saved.push(...chunk)))) return;
+      pushUndoStep({ label, updates: inverse(changes) });
+      setNotice(`${label}: ${changes.length} date${changes.length === 1 ? "" : "s"} updated.`);
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to update availability.";
+      if (saved.length > 0) {
+        pushUndoStep({ label, updates: inverse(saved) });
+        setError(`${message} ${saved.length} of ${changes.length} dates were saved before the failure; Undo reverts them.`);
+      } else {
+        setError(message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function copyAvailabilityFrom(sourceEventId: string) {
+    const source = availableEvents.find((event) => event.id === sourceEventId);
+    const target = availableEvents.find((event) => event.id === selectedEventId);
+    if (!source || !target || saving) return;
+
+    setError("");
+    setNotice("");
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/availability?eventSeriesId=${encodeURIComponent(sourceEventId)}`);
+      const payload = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+        return;
+      }
+      if (!response.ok || !payload?.ok) {
+        throw new Error(payload?.error || "Failed to load availability to copy.");
+      }
+
+      // Only dates inside both seasons are copied.
+      const from = [source.seasonStartsOn, target.seasonStartsOn].map((value) => value.slice(0, 10)).sort()[1];
+      const to = [source.seasonEndsOn, target.seasonEndsOn].map((value) => value.slice(0, 10)).sort()[0];
+      const inOverlap = (date: string) => date >= from && date <= to;
+      const sourceAvailable = new Set(
+        ((payload.entries || []) as CommandPartnerAvailabilityEntry[])
+          .filter((entry) => entry.available && inOverlap(entry.date))
+          .map((entry) => entry.date)
+      );
+      const dates = new Set([...Array.from(sourceAvailable), ...entries.filter((entry) => inOverlap(entry.date)).map((entry) => entry.date)]);
+      if (dates.size === 0) {
+        setNotice(`${source.name} has no availability on dates this event shares.`);
+        return;
+      }
+      await applyAvailabilityUpdates(
+        Array.from(dates).map((date) => ({ date, available: sourceAvailable.has(date) })),
+        `Copied from ${source.name}`
+      );
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to copy availability.");
+    }
+  }
+
+  async function undoLastStep() {
+    const step = undoSteps[undoSteps.length - 1];
+    if (!step || saving) return;
+    setSaving(true);
+    setNotice("");
+    setError("");
+    const undone = new Set<string>();
+    try {
+      if (!(await postAvailabilityBatch(step.updates, (chunk) => chunk.forEach((update) => undone.add(update.date))))) return;
+      setUndoSteps((current) => current.slice(0, -1));
+      setNotice(`Undid: ${step.label}.`);
+    } catch (nextError: any) {
+      // Keep only the dates that were not restored so Undo can finish the job.
+      if (undone.size > 0) {
+        setUndoSteps((current) => [
+          ...current.slice(0, -1),
+          { ...step, updates: step.updates.filter((update) => !undone.has(update.date)) },
+        ]);
+      }
+      setError(nextError?.message || "Failed to undo.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
   async function handleSignOut() {
     setSigningOut(true);
     try {
@@ -227,11 +385,12 @@ export default function PortalCalendarPage(props: {
     applications.filter((a) => a.status === "APPROVED").map((a) => a.event.id)
   );
   const eventOptions = availableEvents.filter((e) => approvedEventIds.has(e.id));
+  const selectedEvent = eventOptions.find((e) => e.id === selectedEventId) || null;
 
   return (
     <PortalShell
       title="Availability Calendar"
-      subtitle="Select dates you are available for each event."
+      subtitle="Select dates you are available for each event, one at a time or in bulk."
       width="wide"
     >
       <PortalNav
@@ -297,7 +456,11 @@ export default function PortalCalendarPage(props: {
                         right: "",
                       }}
                       editable={false}
-                      selectable={false}
+                      selectable={!saving && !readOnly}
+                      selectMinDistance={5}
+                      select={(info: { startStr: string; endStr: string }) =>
+                        setSelection({ start: info.startStr, end: addDaysToDateKey(info.endStr, -1) })
+                      }
                     />
                     {saving ? (
                       <div className="mt-3 text-xs text-neutral-500">Saving…</div>
@@ -315,12 +478,29 @@ export default function PortalCalendarPage(props: {
                     <span className="inline-block h-4 w-4 rounded" style={{ backgroundColor: "rgba(239, 68, 68, 0.35)" }} />
                     <span className="text-xs text-neutral-600">Assigned</span>
                   </div>
-                  <div className="text-xs text-neutral-500">Click a date to toggle your availability.</div>
+                  <div className="text-xs text-neutral-500">
+                    {readOnly
+                      ? "You have view-only access. Ask an owner or editor to change availability."
+                      : "Click a date to toggle your availability, or drag across dates to select a range."}
+                  </div>
                 </div>
               </div>
             ) : selectedEventId ? (
               <div className="text-sm text-neutral-600">Loading calendar…</div>
             ) : null}
+
+            {selectedEvent && !loadingAvailability && !readOnly ? (
+              <PortalAvailabilityBulkTools
+                event={selectedEvent}
+                copySources={eventOptions.filter((e) => e.id !== selectedEvent.id)}
+                selection={selection}
+                busy={saving}
+                undoLabel={undoSteps.length > 0 ? undoSteps[undoSteps.length - 1].label : null}
+                onApply={applyAvailabilityUpdates}
+                onCopy={copyAvailabilityFrom}
+                onUndo={undoLastStep}
+              />
+            ) : null}
           </>
         )}
       </div>
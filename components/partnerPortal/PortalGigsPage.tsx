@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useState } from "react";
+import type { CommandPartnerPortalAccount, CommandPublicScheduleResourceType } from "../../lib/commandPublicApi";
+import { buildPartnerGigsIcal, type PartnerGig } from "../../lib/partnerGigs";
+import PortalNav from "./PortalNav";
+import PortalShell from "./PortalShell";
+
+const RESOURCE_TYPE_LABELS: Record<CommandPublicScheduleResourceType, string> = {
+  STAGE: "Stage",
+  FOOD_SPOT: "Food spot",
+  MARKET_SPOT: "Market spot",
+  OTHER: "Location",
+};
+
+function formatDateLabel(value: string) {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  }).format(date);
+}
+
+function GigDetail(props: { label: string; value: string }) {
+  return (
+    <div className="grid gap-0.5">
+      <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">{props.label}</div>
+      <div className="text-sm text-neutral-900">{props.value}</div>
+    </div>
+  );
+}
+
+export default function PortalGigsPage(props: { account: CommandPartnerPortalAccount }) {
+  const [gigs, setGigs] = useState<PartnerGig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [signingOut, setSigningOut] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError("");
+      try {
+        const response = await fetch("/api/bff/partners/gigs");
+        const payload = await response.json().catch(() => ({}));
+        if (response.status === 401) {
+          window.location.assign("/partners/signin?error=SessionExpired");
+          return;
+        }
+        if (!response.ok || !payload?.ok) {
+          throw new Error(payload?.error || "Failed to load your gigs.");
+        }
+        if (!cancelled) setGigs((payload.gigs || []) as PartnerGig[]);
+      } catch (nextError: any) {
+        if (!cancelled) setError(nextError?.message || "Failed to load your gigs.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const groupedGigs = useMemo(() => {
+    const map = new Map<string, PartnerGig[]>();
+    for (const gig of gigs) {
+      const list = map.get(gig.item.occursOn) || [];
+      list.push(gig);
+      map.set(gig.item.occursOn, list);
+    }
+    return Array.from(map.entries());
+  }, [gigs]);
+
+  async function handleSignOut() {
+    setSigningOut(true);
+    try {
+      await fetch("/api/bff/partners/auth/logout", { method: "POST" });
+    } finally {
+      window.location.assign("/partners/signin");
+    }
+  }
+
+  function downloadIcs() {
+    const body = buildPartnerGigsIcal(gigs, {
+      calendarName: `${props.account.displayName} — Gigs`,
+      uidDomain: window.location.host,
+    });
+    const url = URL.createObjectURL(new Blob([body], { type: "text/calendar;charset=utf-8" }));
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = "my-gigs.ics";
+    anchor.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <PortalShell
+      title="My Gigs"
+      subtitle="Your confirmed assignments, with load-in and soundcheck times where the event team has set them. Export your set times to your calendar or save a PDF for your crew."
+      width="wide"
+    >
+      <div className="print:hidden">
+        <PortalNav
+          scope="partners"
+          active="gigs"
+          displayName={props.account.displayName}
+          onSignOut={handleSignOut}
+          busy={signingOut}
+        />
+      </div>
+
+      <div className="mt-6 grid gap-6 print:mt-0">
+        {error ? (
+          <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+        ) : null}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+          <div className="text-sm text-neutral-600">
+            {loading ? "Loading gigs…" : `${gigs.length} upcoming gig${gigs.length === 1 ? "" : "s"}`}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => window.print()}
+              disabled={gigs.length === 0}
+              className="rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 disabled:opacity-50"
+            >
+              Save PDF
+            </button>
+            <button
+              type="button"
+              onClick={downloadIcs}
+              disabled={gigs.length === 0}
+              className="rounded-2xl bg-black px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+            >
+              Download .ics
+            </button>
+          </div>
+        </div>
+
+        {!loading && !error && gigs.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-neutral-300 bg-white p-6 text-sm text-neutral-600">
+            No upcoming gigs yet. Assignments show up here once the event team publishes the schedule.
+          </div>
+        ) : null}
+
+        {groupedGigs.map(([date, dayGigs]) => (
+          <section key={date} className="grid gap-3 break-inside-avoid">
+            <h2 className="text-base font-semibold text-neutral-900">{formatDateLabel(date)}</h2>
+            {dayGigs.map((gig) => (
+              <div
+                key={gig.item.id}
+                className="grid gap-4 rounded-2xl border border-neutral-200 bg-neutral-50 p-4 print:border-neutral-400 print:bg-white"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm font-semibold text-neutral-900">{gig.item.eventSeries.name}</div>
+                  <span className="rounded-full bg-green-100 px-2.5 py-1 text-xs font-semibold text-green-800">Confirmed</span>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                  <GigDetail label={RESOURCE_TYPE_LABELS[gig.item.resource.type] || "Location"} value={gig.item.resource.name} />
+                  <GigDetail label={gig.item.allDay ? "Timeslot" : "Set time"} value={gig.item.timeLabel} />
+                  <GigDetail label="Event hours" value={gig.item.occurrenceWindowLabel} />
+                  {gig.loadIn ? <GigDetail label="Load-in" value={gig.loadIn.label} /> : null}
+                  {gig.soundcheck ? <GigDetail label="Soundcheck" value={gig.soundcheck.label} /> : null}
+                  <GigDetail label="Where" value={gig.item.locationLabel} />
+                </div>
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+    </PortalShell>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from "react";
+import { PROFILE_IMAGE_OUTPUT_SIZE } from "../../lib/partnerAssetUpload";
+
+const PREVIEW_SIZE = 280;
+
+export type CroppedImage = {
+  blob: Blob;
+  fileName: string;
+  mimeType: string;
+  width: number;
+  height: number;
+};
+
+// Square crop: the image always covers the frame, zoom scales past that and
+// dragging pans within the overflow.
+export default function PortalImageCropper(props: {
+  file: File;
+  onCancel: () => void;
+  onCropped: (image: CroppedImage) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [error, setError] = useState("");
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(props.file);
+    const next = new Image();
+    next.onload = () => {
+      setImage(next);
+      setZoom(1);
+      setOffset({ x: 0, y: 0 });
+    };
+    next.onerror = () => setError("This image could not be read. Try a different file.");
+    next.src = objectUrl;
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [props.file]);
+
+  // Source-pixel square that is currently inside the frame.
+  function cropRect(current: HTMLImageElement) {
+    const side = Math.min(current.naturalWidth, current.naturalHeight) / zoom;
+    const maxX = (current.naturalWidth - side) / 2;
+    const maxY = (current.naturalHeight - side) / 2;
+    const x = maxX + Math.max(-maxX, Math.min(maxX, offset.x));
+    const y = maxY + Math.max(-maxY, Math.min(maxY, offset.y));
+    return { x, y, side };
+  }
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    const rect = cropRect(image);
+    context.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+    context.drawImage(image, rect.x, rect.y, rect.side, rect.side, 0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+  }, [image, zoom, offset]);
+
+  function onPointerDown(event: React.PointerEvent<HTMLCanvasElement>) {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  }
+
+  function onPointerMove(event: React.PointerEvent<HTMLCanvasElement>) {
+    if (!dragRef.current || !image) return;
+    const sourcePerPreviewPixel = Math.min(image.naturalWidth, image.naturalHeight) / zoom / PREVIEW_SIZE;
+    const dx = (event.clientX - dragRef.current.x) * sourcePerPreviewPixel;
+    const dy = (event.clientY - dragRef.current.y) * sourcePerPreviewPixel;
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    const side = Math.min(image.naturalWidth, image.naturalHeight) / zoom;
+    const maxX = (image.naturalWidth - side) / 2;
+    const maxY = (image.naturalHeight - side) / 2;
+    setOffset((current) => ({
+      x: Math.max(-maxX, Math.min(maxX, current.x - dx)),
+      y: Math.max(-maxY, Math.min(maxY, current.y - dy)),
+    }));
+  }
+
+  async function applyCrop() {
+    if (!image) return;
+    setWorking(true);
+    setError("");
+    try {
+      const rect = cropRect(image);
+      const outputSize = Math.min(PROFILE_IMAGE_OUTPUT_SIZE, Math.floor(rect.side));
+      const canvas = document.createElement("canvas");
+      canvas.width = outputSize;
+      canvas.height = outputSize;
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("Image cropping is not supported in this browser.");
+      context.imageSmoothingQuality = "high";
+      context.drawImage(image, rect.x, rect.y, rect.side, rect.side, 0, 0, outputSize, outputSize);
+
+      // PNG keeps transparency; everything else is re-encoded as JPEG. GIFs
+      // lose their animation here.
+      const mimeType = props.file.type === "image/png" ? "image/png" : "image/jpeg";
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, 0.9));
+      if (!blob) throw new Error("Failed to prepare the cropped image.");
+      const baseName = props.file.name.replace(/\.[^.]+$/, "") || "profile-image";
+      props.onCropped({
+        blob,
+        fileName: `${baseName}.${mimeType === "image/png" ? "png" : "jpg"}`,
+        mimeType,
+        width: outputSize,
+        height: outputSize,
+      });
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to crop image.");
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <div className="grid gap-3 rounded-2xl border border-neutral-200 bg-white p-4">
+      <div className="text-sm font-semibold text-neutral-900">Crop image</div>
+      <div className="text-xs text-neutral-600">
+        Drag to reposition and use the slider to zoom. The image is saved square, up to {PROFILE_IMAGE_OUTPUT_SIZE} ×{" "}
+        {PROFILE_IMAGE_OUTPUT_SIZE}.
+      </div>
+      {error ? <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+      <canvas
+        ref={canvasRef}
+        width={PREVIEW_SIZE}
+        height={PREVIEW_SIZE}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={() => {
+          dragRef.current = null;
+        }}
+        className="cursor-move touch-none rounded-xl border border-neutral-200 bg-neutral-100"
+        style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+      />
+      <label className="grid gap-1 text-xs text-neutral-700" style={{ maxWidth: PREVIEW_SIZE }}>
+        Zoom
+        <input type="range" min={1} max={3} step={0.05} value={zoom} onChange={(event) => setZoom(Number(event.target.value))} />
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => void applyCrop()}
+          disabled={!image || working}
+          className="rounded-2xl bg-black px-4 py-2.5 text-sm font-semibold text-white disabled:opacity-60"
+        >
+          {working ? "Preparing..." : "Use This Crop"}
+        </button>
+        <button
+          type="button"
+          onClick={props.onCancel}
+          className="rounded-2xl border border-neutral-300 px-4 py-2.5 text-sm font-semibold text-neutral-800"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import PortalShell from "./PortalShell";
+import { PORTAL_CONFIG, TEAM_ROLE_LABELS } from "./portalConfig";
+import type { CommandPartnerPortalScope, CommandPartnerTeamInvitationPreview } from "../../lib/commandPublicApi";
+
+export default function PortalJoinPage(props: { scope: CommandPartnerPortalScope }) {
+  const config = PORTAL_CONFIG[props.scope];
+  const router = useRouter();
+  const [token, setToken] = useState("");
+  const [invitation, setInvitation] = useState<CommandPartnerTeamInvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [memberName, setMemberName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    const value = router.query.token;
+    const nextToken = (Array.isArray(value) ? value[0] : value)?.trim() || "";
+    setToken(nextToken);
+    if (!nextToken) {
+      setLoading(false);
+      setError("Missing invitation token. Please use the link from your email.");
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/bff/${props.scope}/auth/accept-invitation?token=${encodeURIComponent(nextToken)}`);
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok || !payload?.ok) {
+          throw new Error(payload?.error || "This invitation is invalid or has expired.");
+        }
+        if (!cancelled) setInvitation(payload.invitation as CommandPartnerTeamInvitationPreview);
+      } catch (nextError: any) {
+        if (!cancelled) setError(nextError?.message || "This invitation is invalid or has expired.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [props.scope, router.isReady, router.query.token]);
+
+  async function onSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+
+    if (!memberName.trim()) {
+      setError("Please enter your name.");
+      return;
+    }
+    if (password.length < 8) {
+      setError("Password must be at least 8 characters.");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/auth/accept-invitation`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, memberName: memberName.trim(), password }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload?.ok) {
+        throw new Error(payload?.error || "Could not accept the invitation. Please try again.");
+      }
+      window.location.assign(`/${props.scope}/profile`);
+    } catch (nextError: any) {
+      setError(nextError?.message || "Could not accept the invitation. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <PortalShell title="Join your team" subtitle={config.subtitle}>
+      <div className="grid gap-4">
+        {loading ? <p className="text-sm text-neutral-700">Loading invitation...</p> : null}
+        {error ? <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+        {invitation ? (
+          <form className="grid gap-4" onSubmit={onSubmit}>
+            <div className="rounded-xl border border-neutral-200 bg-neutral-50 p-3 text-sm text-neutral-700">
+              {invitation.invitedByName ? `${invitation.invitedByName} invited you` : "You have been invited"} to{" "}
+              <span className="font-semibold text-neutral-900">{invitation.profileDisplayName}</span> as{" "}
+              {TEAM_ROLE_LABELS[invitation.role].label.toLowerCase()}. {TEAM_ROLE_LABELS[invitation.role].description}
+            </div>
+            <div>
+              <label className="text-sm font-medium">Email</label>
+              <div className="mt-1 rounded-xl border border-neutral-200 bg-neutral-50 p-3 text-sm text-neutral-700">
+                {invitation.email}
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Your name</label>
+              <input
+                className="mt-1 w-full rounded-xl border border-neutral-300 p-3 focus:outline-none focus:ring-2 focus:ring-black"
+                value={memberName}
+                onChange={(event) => setMemberName(event.target.value)}
+                placeholder="First and last name"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Password</label>
+              <input
+                type="password"
+                className="mt-1 w-full rounded-xl border border-neutral-300 p-3 focus:outline-none focus:ring-2 focus:ring-black"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                placeholder="At least 8 characters"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Confirm password</label>
+              <input
+                type="password"
+                className="mt-1 w-full rounded-xl border border-neutral-300 p-3 focus:outline-none focus:ring-2 focus:ring-black"
+                value={confirmPassword}
+                onChange={(event) => setConfirmPassword(event.target.value)}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-2xl bg-black px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              {busy ? "Joining..." : "Accept invitation"}
+            </button>
+          </form>
+        ) : null}
+
+        {!loading && !invitation ? (
+          <p className="text-sm text-neutral-600">
+            Already joined?{" "}
+            <Link href={`/${props.scope}/signin`} className="font-semibold underline">
+              {config.signinLinkLabel}
+            </Link>
+          </p>
+        ) : null}
+      </div>
+    </PortalShell>
+  );
+}
@@ -1,14 +1,59 @@
 import Link from "next/link";
+import { useEffect, useState } from "react";
 import type { CommandPartnerPortalScope } from "../../lib/commandPublicApi";
+import { PORTAL_MESSAGES_READ_EVENT, PORTAL_NOTIFICATIONS_READ_EVENT } from "./portalConfig";
+
+// Polls an endpoint returning { ok, unreadCount } on mount, when the tab
+// becomes visible again and whenever readEvent fires on window.
+function useUnreadBadgeCount(path: string, readEvent: string) {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function refresh() {
+      try {
+        const response = await fetch(path);
+        const body = await response.json().catch(() => ({}));
+        if (!cancelled && response.ok && body?.ok) {
+          setUnreadCount(Number(body.unreadCount) || 0);
+        }
+      } catch {
+        // Leave the last known count; the badge is advisory.
+      }
+    }
+
+    function onVisibilityChange() {
+      if (document.visibilityState === "visible") void refresh();
+    }
+
+    void refresh();
+    window.addEventListener(readEvent, refresh);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(readEvent, refresh);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [path, readEvent]);
+
+  return unreadCount;
+}
 
 export default function PortalNav(props: {
   scope: CommandPartnerPortalScope;
   // HUMAN-REVIEW: Wave 12 — added "calendar" tab
-  active: "profile" | "applications" | "calendar";
+  active: "profile" | "applications" | "calendar" | "gigs" | "notifications" | "team";
   displayName: string;
   onSignOut: () => Promise<void> | void;
   busy?: boolean;
 }) {
+  const unreadCount = useUnreadBadgeCount(`/api/bff/${props.scope}/messages/unread`, PORTAL_MESSAGES_READ_EVENT);
+  const unreadNotificationCount = useUnreadBadgeCount(
+    `/api/bff/${props.scope}/notifications?unreadOnly=1&limit=1`,
+    PORTAL_NOTIFICATIONS_READ_EVENT
+  );
+
   return (
     <div className="flex flex-col gap-4 rounded-2xl border border-neutral-200 bg-neutral-50 p-4 md:flex-row md:items-center md:justify-between">
       <div>
@@ -31,6 +76,14 @@ export default function PortalNav(props: {
           }`}
         >
           Applications
+          {unreadCount > 0 ? (
+            <span
+              className="ml-2 inline-flex min-w-[20px] justify-center rounded-full bg-red-600 px-1.5 py-0.5 text-[11px] font-semibold text-white"
+              aria-label={`${unreadCount} unread message${unreadCount === 1 ? "" : "s"}`}
+            >
+              {unreadCount}
+            </span>
+          ) : null}
         </Link>
         {/* HUMAN-REVIEW: Wave 12 — calendar tab for availability management */}
         <Link
@@ -41,6 +94,40 @@ export default function PortalNav(props: {
         >
           Calendar
         </Link>
+        {props.scope === "partners" ? (
+          <Link
+            href="/partners/gigs"
+            className={`rounded-xl px-3 py-2 text-sm font-semibold ${
+              props.active === "gigs" ? "bg-black text-white" : "border border-neutral-300 text-neutral-800"
+            }`}
+          >
+            My Gigs
+          </Link>
+        ) : null}
+        <Link
+          href={`/${props.scope}/notifications`}
+          className={`rounded-xl px-3 py-2 text-sm font-semibold ${
+            props.active === "notifications" ? "bg-black text-white" : "border border-neutral-300 text-neutral-800"
+          }`}
+        >
+          Notifications
+          {unreadNotificationCount > 0 ? (
+            <span
+              className="ml-2 inline-flex min-w-[20px] justify-center rounded-full bg-red-600 px-1.5 py-0.5 text-[11px] font-semibold text-white"
+              aria-label={`${unreadNotificationCount} unread notification${unreadNotificationCount === 1 ? "" : "s"}`}
+            >
+              {unreadNotificationCount}
+            </span>
+          ) : null}
+        </Link>
+        <Link
+          href={`/${props.scope}/team`}
+          className={`rounded-xl px-3 py-2 text-sm font-semibold ${
+            props.active === "team" ? "bg-black text-white" : "border border-neutral-300 text-neutral-800"
+          }`}
+        >
+          Team
+        </Link>
         <button
           type="button"
           onClick={() => void props.onSignOut()}
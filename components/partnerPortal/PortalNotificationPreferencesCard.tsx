@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import type {
+  CommandPartnerNotificationDigestFrequency,
+  CommandPartnerNotificationPreferences,
+  CommandPartnerNotificationType,
+  CommandPartnerPortalScope,
+} from "../../lib/commandPublicApi";
+import { COMMAND_PARTNER_NOTIFICATION_TYPE_OPTIONS } from "../../lib/commandPublicApi";
+import { NOTIFICATION_TYPE_LABELS } from "./portalConfig";
+
+const FREQUENCY_OPTIONS: Array<{ value: CommandPartnerNotificationDigestFrequency; label: string }> = [
+  { value: "OFF", label: "Off" },
+  { value: "DAILY", label: "Daily digest" },
+  { value: "WEEKLY", label: "Weekly digest (Mondays)" },
+];
+
+export default function PortalNotificationPreferencesCard(props: {
+  scope: CommandPartnerPortalScope;
+}) {
+  const [preferences, setPreferences] = useState<CommandPartnerNotificationPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError("");
+      try {
+        const response = await fetch(`/api/bff/${props.scope}/notification-preferences`);
+        const payload = await response.json().catch(() => ({}));
+        if (response.status === 401) {
+          window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+          return;
+        }
+        if (!response.ok || !payload?.ok) {
+          throw new Error(payload?.error || "Failed to load notification preferences.");
+        }
+        if (!cancelled) setPreferences(payload.preferences as CommandPartnerNotificationPreferences);
+      } catch (nextError: any) {
+        if (!cancelled) setError(nextError?.message || "Failed to load notification preferences.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [props.scope]);
+
+  function toggleType(type: CommandPartnerNotificationType) {
+    setPreferences((current) => {
+      if (!current) return current;
+      const emailTypes = current.emailTypes.includes(type)
+        ? current.emailTypes.filter((entry) => entry !== type)
+        : [...current.emailTypes, type];
+      return { ...current, emailTypes };
+    });
+    setNotice("");
+  }
+
+  async function save() {
+    if (!preferences) return;
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      const response = await fetch(`/api/bff/${props.scope}/notification-preferences`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preferences),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+        return;
+      }
+      if (!response.ok || !payload?.ok) {
+        throw new Error(payload?.error || "Failed to save notification preferences.");
+      }
+      setPreferences(payload.preferences as CommandPartnerNotificationPreferences);
+      setNotice("Notification preferences saved.");
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to save notification preferences.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const emailOff = preferences?.emailDigestFrequency === "OFF";
+
+  return (
+    <div className="grid gap-4 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
+      <div className="grid gap-1">
+        <div className="text-base font-semibold text-neutral-900">Email Notifications</div>
+        <div className="text-sm text-neutral-600">
+          Everything always shows up in the portal notification center. Choose whether you also want a summary by email.
+        </div>
+      </div>
+
+      {loading ? <div className="text-sm text-neutral-600">Loading preferences...</div> : null}
+      {error ? <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+      {notice ? <div className="rounded-xl border border-green-200 bg-green-50 p-3 text-sm text-green-700">{notice}</div> : null}
+
+      {preferences ? (
+        <>
+          <label className="grid gap-2 md:max-w-sm">
+            <span className="text-sm font-medium text-neutral-900">Email digest</span>
+            <select
+              value={preferences.emailDigestFrequency}
+              onChange={(event) => {
+                setPreferences({
+                  ...preferences,
+                  emailDigestFrequency: event.target.value as CommandPartnerNotificationDigestFrequency,
+                });
+                setNotice("");
+              }}
+              className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-800 focus:outline-none focus:ring-2 focus:ring-black"
+            >
+              {FREQUENCY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className="grid gap-2">
+            <legend className="text-sm font-medium text-neutral-900">Include in emails</legend>
+            {COMMAND_PARTNER_NOTIFICATION_TYPE_OPTIONS.map((type) => {
+              // Expiry reminders are emailed on their lead days, not via the digest.
+              const disabled = emailOff && type !== "REQUIREMENT_EXPIRING";
+              return (
+                <label key={type} className={`flex items-center gap-2 text-sm ${disabled ? "text-neutral-400" : "text-neutral-800"}`}>
+                  <input
+                    type="checkbox"
+                    checked={preferences.emailTypes.includes(type)}
+                    disabled={disabled}
+                    onChange={() => toggleType(type)}
+                    className="h-4 w-4 rounded border-neutral-300"
+                  />
+                  {NOTIFICATION_TYPE_LABELS[type]}
+                </label>
+              );
+            })}
+            <div className="text-xs text-neutral-500">
+              Expiry reminders are sent as their own email ahead of each expiry date, even when the digest is off.
+            </div>
+          </fieldset>
+
+          <div>
+            <button
+              type="button"
+              onClick={() => void save()}
+              disabled={saving}
+              className="rounded-2xl bg-black px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              {saving ? "Saving..." : "Save Preferences"}
+            </button>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type {
+  CommandPartnerNotification,
+  CommandPartnerPortalAccount,
+  CommandPartnerPortalScope,
+} from "../../lib/commandPublicApi";
+import PortalNav from "./PortalNav";
+import PortalShell from "./PortalShell";
+import { PORTAL_CONFIG, PORTAL_NOTIFICATIONS_READ_EVENT } from "./portalConfig";
+
+function notificationTone(notification: CommandPartnerNotification) {
+  if (notification.type === "REQUIREMENT_EXPIRED" || notification.type === "REQUIREMENT_REJECTED") {
+    return "bg-red-100 text-red-700";
+  }
+  if (notification.type === "REQUIREMENT_EXPIRING") return "bg-amber-100 text-amber-800";
+  if (notification.type === "APPLICATION_MESSAGE") return "bg-blue-100 text-blue-800";
+  return "bg-neutral-100 text-neutral-700";
+}
+
+function notificationTag(notification: CommandPartnerNotification) {
+  if (notification.type === "APPLICATION_STATUS_CHANGED") return "Application";
+  if (notification.type === "APPLICATION_MESSAGE") return "Message";
+  if (notification.type === "REQUIREMENT_EXPIRING") return "Expiring";
+  if (notification.type === "REQUIREMENT_EXPIRED") return "Expired";
+  return "Requirement";
+}
+
+export default function PortalNotificationsPage(props: {
+  scope: CommandPartnerPortalScope;
+  account: CommandPartnerPortalAccount;
+}) {
+  const config = PORTAL_CONFIG[props.scope];
+  const [notifications, setNotifications] = useState<CommandPartnerNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [markingAll, setMarkingAll] = useState(false);
+  const [signingOut, setSigningOut] = useState(false);
+  const [error, setError] = useState("");
+
+  function handleUnauthorized(response: Response) {
+    if (response.status !== 401) return false;
+    window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+    return true;
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError("");
+      try {
+        const response = await fetch(`/api/bff/${props.scope}/notifications`);
+        const payload = await response.json().catch(() => ({}));
+        if (handleUnauthorized(response)) return;
+        if (!response.ok || !payload?.ok) {
+          throw new Error(payload?.error || "Failed to load notifications.");
+        }
+        if (!cancelled) setNotifications((payload.notifications || []) as CommandPartnerNotification[]);
+      } catch (nextError: any) {
+        if (!cancelled) setError(nextError?.message || "Failed to load notifications.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [props.scope]);
+
+  async function markRead(notificationIds?: string[]) {
+    const response = await fetch(`/api/bff/${props.scope}/notifications`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ notificationIds }),
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (handleUnauthorized(response)) return false;
+    if (!response.ok || !payload?.ok) {
+      throw new Error(payload?.error || "Failed to update notifications.");
+    }
+
+    const readAt = new Date().toISOString();
+    const targetIds = notificationIds ? new Set(notificationIds) : null;
+    setNotifications((current) =>
+      current.map((notification) =>
+        !notification.readAt && (!targetIds || targetIds.has(notification.id)) ? { ...notification, readAt } : notification
+      )
+    );
+    window.dispatchEvent(new Event(PORTAL_NOTIFICATIONS_READ_EVENT));
+    return true;
+  }
+
+  async function markAllRead() {
+    setMarkingAll(true);
+    setError("");
+    try {
+      await markRead();
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to update notifications.");
+    } finally {
+      setMarkingAll(false);
+    }
+  }
+
+  async function openNotification(notification: CommandPartnerNotification) {
+    if (!notification.readAt) {
+      // Navigation should still happen if the read receipt fails.
+      await markRead([notification.id]).catch(() => false);
+    }
+    if (notification.linkPath) window.location.assign(notification.linkPath);
+  }
+
+  async function handleSignOut() {
+    setSigningOut(true);
+    try {
+      await fetch(`/api/bff/${props.scope}/auth/logout`, { method: "POST" });
+    } finally {
+      window.location.assign(`/${props.scope}/signin`);
+    }
+  }
+
+  const unreadCount = notifications.filter((notification) => !notification.readAt).length;
+
+  return (
+    <PortalShell title="Notifications" subtitle={config.subtitle} width="wide">
+      <div className="grid gap-6">
+        <PortalNav
+          scope={props.scope}
+          active="notifications"
+          displayName={props.account.displayName}
+          onSignOut={handleSignOut}
+          busy={signingOut}
+        />
+
+        {error ? <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div className="text-sm text-neutral-600">
+            {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up."} Email digests can be set up on your{" "}
+            <Link href={`/${props.scope}/profile`} className="font-semibold text-neutral-900 underline">
+              profile
+            </Link>
+            .
+          </div>
+          <button
+            type="button"
+            onClick={() => void markAllRead()}
+            disabled={markingAll || unreadCount === 0}
+            className="rounded-xl border border-neutral-300 px-3 py-2 text-sm font-semibold text-neutral-800 disabled:opacity-60"
+          >
+            {markingAll ? "Updating..." : "Mark all as read"}
+          </button>
+        </div>
+
+        {loading ? <div className="text-sm text-neutral-600">Loading notifications...</div> : null}
+
+        {!loading && notifications.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-neutral-300 bg-white p-6 text-sm text-neutral-600">
+            No notifications yet. Application decisions, messages from the event team and document reminders will show up here.
+          </div>
+        ) : null}
+
+        <div className="grid gap-3">
+          {notifications.map((notification) => (
+            <button
+              key={notification.id}
+              type="button"
+              onClick={() => void openNotification(notification)}
+              className={`grid gap-1 rounded-2xl border p-4 text-left ${
+                notification.readAt ? "border-neutral-200 bg-white" : "border-blue-200 bg-blue-50"
+              }`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${notificationTone(notification)}`}>
+                    {notificationTag(notification)}
+                  </span>
+                  <span className="text-sm font-semibold text-neutral-900">{notification.title}</span>
+                </div>
+                <span className="text-xs text-neutral-500">{new Date(notification.createdAt).toLocaleString()}</span>
+              </div>
+              {notification.body ? <div className="text-sm leading-6 text-neutral-700">{notification.body}</div> : null}
+            </button>
+          ))}
+        </div>
+      </div>
+    </PortalShell>
+  );
+}
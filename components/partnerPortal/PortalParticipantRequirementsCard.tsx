@@ -1,10 +1,20 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import type {
   CommandPartnerAssetAccess,
+  CommandPartnerAssetUploadSession,
   CommandPartnerPortalRequirement,
   CommandPartnerPortalRequirementsPayload,
   CommandParticipantRequirementType,
 } from "../../lib/commandPublicApi";
+import {
+  PARTNER_UPLOAD_RULES,
+  clearPartnerUploadResume,
+  partnerUploadAcceptAttribute,
+  partnerUploadResumeKey,
+  runPartnerAssetUpload,
+  validatePartnerUploadFile,
+} from "../../lib/partnerAssetUpload";
+import PortalUploadProgress from "./PortalUploadProgress";
 
 function humanize(value: string) {
   return value.replaceAll("_", " ");
@@ -17,6 +27,64 @@ function requirementStateTone(state: CommandPartnerPortalRequirement["state"]) {
   return "bg-neutral-100 text-neutral-700";
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Matches the earliest default reminder lead time, so the card turns amber
+// around when the first reminder email goes out.
+const EXPIRING_SOON_DAYS = 30;
+
+function daysUntil(value: string) {
+  return Math.ceil((new Date(value).getTime() - Date.now()) / DAY_MS);
+}
+
+function describeExpiry(days: number) {
+  if (days < 0) return `Expired ${Math.abs(days)} day${days === -1 ? "" : "s"} ago`;
+  if (days === 0) return "Expires today";
+  return `Expires in ${days} day${days === 1 ? "" : "s"}`;
+}
+
+function expiryTone(days: number) {
+  if (days < 0) return { dot: "bg-red-600", text: "text-red-700" };
+  if (days <= EXPIRING_SOON_DAYS) return { dot: "bg-amber-500", text: "text-amber-800" };
+  return { dot: "bg-green-600", text: "text-green-800" };
+}
+
+// Renewing keeps the approved document in force until the new one is reviewed.
+function isRenewal(requirement: CommandPartnerPortalRequirement) {
+  return requirement.state === "APPROVED";
+}
+
+function RequirementExpiryTimeline(props: { requirements: CommandPartnerPortalRequirement[] }) {
+  const dated = props.requirements
+    .filter((entry) => entry.expiresAt)
+    .sort((a, b) => new Date(a.expiresAt!).getTime() - new Date(b.expiresAt!).getTime());
+  if (dated.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 bg-white p-4">
+      <div className="text-sm font-semibold text-neutral-900">Expiry timeline</div>
+      <ol className="mt-3 grid gap-3 border-l border-neutral-200 pl-4">
+        {dated.map((requirement) => {
+          const days = daysUntil(requirement.expiresAt!);
+          const tone = expiryTone(days);
+          return (
+            <li key={requirement.requirementType} className="relative grid gap-0.5">
+              <span className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${tone.dot}`} />
+              <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                <span className="font-medium text-neutral-900">{humanize(requirement.requirementType)}</span>
+                <span className="text-neutral-500">{new Date(requirement.expiresAt!).toLocaleDateString()}</span>
+              </div>
+              <div className={`text-xs font-medium ${tone.text}`}>
+                {describeExpiry(days)}
+                {requirement.pendingRenewal?.state === "PENDING_REVIEW" ? " · renewal in review" : ""}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
 type RequirementDraft = {
   file: File | null;
   expiresAt: string;
@@ -90,12 +158,13 @@ function DocumentLightbox(props: {
   );
 }
 
-export default function PortalParticipantRequirementsCard() {
+export default function PortalParticipantRequirementsCard(props: { readOnly?: boolean }) {
   const [payload, setPayload] = useState<CommandPartnerPortalRequirementsPayload | null>(null);
   const [drafts, setDrafts] = useState<Record<string, RequirementDraft>>({});
   const [loading, setLoading] = useState(true);
   const [openingAssetId, setOpeningAssetId] = useState<string | null>(null);
   const [uploadingType, setUploadingType] = useState<CommandParticipantRequirementType | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [error, setError] = useState("");
   const [notice, setNotice] = useState("");
   // HUMAN-REVIEW: Wave 12 — asset access cache for thumbnails and lightbox
@@ -123,7 +192,8 @@ export default function PortalParticipantRequirementsCard() {
             entry.requirementType,
             {
               file: null,
-              expiresAt: entry.expiresAt ? entry.expiresAt.slice(0, 10) : "",
+              // A renewal needs the new document's date, not the current one.
+              expiresAt: entry.expiresAt && !isRenewal(entry) ? entry.expiresAt.slice(0, 10) : "",
             },
           ])
         )
@@ -203,41 +273,52 @@ export default function PortalParticipantRequirementsCard() {
       setNotice("");
       return;
     }
+    const renewal = isRenewal(requirement);
+    if (renewal && requirement.expiresAt && draft.expiresAt <= requirement.expiresAt.slice(0, 10)) {
+      setError("A renewal must expire later than the document currently on file.");
+      setNotice("");
+      return;
+    }
 
     setUploadingType(requirement.requirementType);
     setError("");
     setNotice("");
 
     try {
-      const uploadSessionResponse = await fetch(
-        `/api/bff/partners/requirements/${requirement.requirementType}/upload-session`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            fileName: draft.file.name,
-            mimeType: draft.file.type,
-            sizeBytes: draft.file.size,
-          }),
+      const file = draft.file;
+      const createSession = async (): Promise<CommandPartnerAssetUploadSession | null> => {
+        const uploadSessionResponse = await fetch(
+          `/api/bff/partners/requirements/${requirement.requirementType}/upload-session`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              fileName: file.name,
+              mimeType: file.type,
+              sizeBytes: file.size,
+            }),
+          }
+        );
+        const uploadSessionBody = await uploadSessionResponse.json().catch(() => ({}));
+        if (uploadSessionResponse.status === 401) {
+          window.location.assign("/partners/signin?error=SessionExpired");
+          return null;
         }
-      );
-      const uploadSessionBody = await uploadSessionResponse.json().catch(() => ({}));
-      if (uploadSessionResponse.status === 401) {
-        window.location.assign("/partners/signin?error=SessionExpired");
-        return;
-      }
-      if (!uploadSessionResponse.ok || !uploadSessionBody?.ok || !uploadSessionBody?.upload) {
-        throw new Error(uploadSessionBody?.error || "Failed to create requirement upload session.");
-      }
+        if (!uploadSessionResponse.ok || !uploadSessionBody?.ok || !uploadSessionBody?.upload) {
+          throw new Error(uploadSessionBody?.error || "Failed to create requirement upload session.");
+        }
+        return uploadSessionBody.upload as CommandPartnerAssetUploadSession;
+      };
 
-      const uploadResult = await fetch(String(uploadSessionBody.upload.uploadUrl), {
-        method: String(uploadSessionBody.upload.uploadMethod || "PUT"),
-        headers: uploadSessionBody.upload.uploadHeaders || {},
-        body: draft.file,
+      const resumeKey = partnerUploadResumeKey(`requirement:${requirement.requirementType}`, file);
+      const upload = await runPartnerAssetUpload({
+        file,
+        resumeKey,
+        createSession,
+        onProgress: setUploadProgress,
+        onSessionRestart: () => setNotice("The upload link expired, so the upload was restarted from the beginning."),
       });
-      if (!uploadResult.ok) {
-        throw new Error("Direct requirement upload failed.");
-      }
+      if (!upload) return;
 
       const finalizeResponse = await fetch(
         `/api/bff/partners/requirements/${requirement.requirementType}/finalize`,
@@ -245,11 +326,14 @@ export default function PortalParticipantRequirementsCard() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            objectKey: uploadSessionBody.upload.objectKey,
-            fileName: draft.file.name,
-            mimeType: draft.file.type,
-            sizeBytes: draft.file.size,
+            objectKey: upload.session.objectKey,
+            fileName: file.name,
+            mimeType: file.type,
+            sizeBytes: file.size,
             expiresAt: draft.expiresAt,
+            renewal,
+            multipartUploadId: upload.session.multipart?.uploadId || null,
+            multipartParts: upload.multipartParts,
           }),
         }
       );
@@ -261,6 +345,7 @@ export default function PortalParticipantRequirementsCard() {
       if (!finalizeResponse.ok || !finalizeBody?.ok || !finalizeBody?.requirement) {
         throw new Error(finalizeBody?.error || "Failed to finalize requirement upload.");
       }
+      clearPartnerUploadResume(resumeKey);
 
       setPayload((current) => {
         if (!current) return current;
@@ -277,15 +362,21 @@ export default function PortalParticipantRequirementsCard() {
         ...current,
         [requirement.requirementType]: {
           file: null,
-          expiresAt: draft.expiresAt,
+          expiresAt: renewal ? "" : draft.expiresAt,
         },
       }));
-      setNotice(`${humanize(requirement.requirementType)} uploaded and submitted for review.`);
+      setNotice(
+        renewal
+          ? `${humanize(requirement.requirementType)} renewal submitted. Your current document stays on file until it is reviewed.`
+          : `${humanize(requirement.requirementType)} uploaded and submitted for review.`
+      );
     } catch (nextError: any) {
-      setError(nextError?.message || "Failed to upload requirement document.");
+      // Large documents resume from the last uploaded part on the next try.
+      setError(`${nextError?.message || "Failed to upload requirement document."} Your file is still selected, so you can try again.`);
       setNotice("");
     } finally {
       setUploadingType(null);
+      setUploadProgress(null);
     }
   }
 
@@ -315,9 +406,14 @@ export default function PortalParticipantRequirementsCard() {
         </div>
       ) : null}
 
+      {payload?.requirements.length ? <RequirementExpiryTimeline requirements={payload.requirements} /> : null}
+
       <div className="grid gap-3">
         {payload?.requirements.map((requirement) => {
           const draft = drafts[requirement.requirementType] || { file: null, expiresAt: "" };
+          const renewal = isRenewal(requirement);
+          const pendingRenewal = requirement.pendingRenewal;
+          const expiryDays = requirement.expiresAt ? daysUntil(requirement.expiresAt) : null;
           return (
             <div key={requirement.requirementType} className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm">
               <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
@@ -327,6 +423,9 @@ export default function PortalParticipantRequirementsCard() {
                     {requirement.asset?.fileName || "No document uploaded"} ·{" "}
                     {requirement.expiresAt ? `Expires ${new Date(requirement.expiresAt).toLocaleDateString()}` : "No expiry date"}
                   </div>
+                  {expiryDays !== null && expiryDays <= EXPIRING_SOON_DAYS ? (
+                    <div className={`text-xs font-medium ${expiryTone(expiryDays).text}`}>{describeExpiry(expiryDays)}</div>
+                  ) : null}
                 </div>
                 <span className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${requirementStateTone(requirement.state)}`}>
                   {humanize(requirement.state)}
@@ -340,6 +439,34 @@ export default function PortalParticipantRequirementsCard() {
                 </div>
               ) : null}
 
+              {pendingRenewal ? (
+                <div
+                  className={`mt-3 flex flex-col gap-2 rounded-xl border p-3 text-sm md:flex-row md:items-center md:justify-between ${
+                    pendingRenewal.state === "REJECTED" ? "border-red-200 bg-red-50 text-red-800" : "border-amber-200 bg-amber-50 text-amber-900"
+                  }`}
+                >
+                  <div className="grid gap-1">
+                    <div className="font-medium">
+                      {pendingRenewal.state === "REJECTED" ? "Renewal rejected" : "Renewal in review"} · {pendingRenewal.asset.fileName}
+                    </div>
+                    <div className="text-xs">
+                      Submitted {new Date(pendingRenewal.submittedAt).toLocaleDateString()}, new expiry{" "}
+                      {new Date(pendingRenewal.expiresAt).toLocaleDateString()}. The approved document above stays on file until a
+                      renewal is approved.
+                    </div>
+                    {pendingRenewal.reviewerNotes ? <div className="text-xs">Reviewer notes: {pendingRenewal.reviewerNotes}</div> : null}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void openAsset(pendingRenewal.asset.id)}
+                    disabled={openingAssetId === pendingRenewal.asset.id}
+                    className="rounded-xl border border-current px-3 py-2 text-xs font-semibold disabled:opacity-60"
+                  >
+                    {openingAssetId === pendingRenewal.asset.id ? "Opening..." : "Open Renewal"}
+                  </button>
+                </div>
+              ) : null}
+
               {/* HUMAN-REVIEW: Wave 12 — compact document thumbnail, left-aligned under name */}
               {requirement.asset?.id && assetAccessCache[requirement.asset.id] ? (
                 <div
@@ -356,43 +483,9 @@ export default function PortalParticipantRequirementsCard() {
                 </div>
               ) : null}
 
-              <div className="mt-4 grid gap-4 md:grid-cols-[minmax(0,1fr)_180px_auto] md:items-end">
-                <label className="grid gap-2">
-                  <span className="text-sm font-medium text-neutral-900">Replace document</span>
-                  <input
-                    type="file"
-                    accept="application/pdf,image/jpeg,image/png,image/webp,image/gif"
-                    onChange={(event) =>
-                      setDrafts((current) => ({
-                        ...current,
-                        [requirement.requirementType]: {
-                          ...(current[requirement.requirementType] || { expiresAt: "" }),
-                          file: event.target.files?.[0] || null,
-                        },
-                      }))
-                    }
-                    className="w-full rounded-xl border border-neutral-300 bg-white p-3 text-sm focus:outline-none focus:ring-2 focus:ring-black"
-                  />
-                </label>
-                <label className="grid gap-2">
-                  <span className="text-sm font-medium text-neutral-900">Expiry date</span>
-                  <input
-                    type="date"
-                    value={draft.expiresAt}
-                    onChange={(event) =>
-                      setDrafts((current) => ({
-                        ...current,
-                        [requirement.requirementType]: {
-                          ...(current[requirement.requirementType] || { file: null }),
-                          expiresAt: event.target.value,
-                        },
-                      }))
-                    }
-                    className="w-full rounded-xl border border-neutral-300 bg-white p-3 text-sm focus:outline-none focus:ring-2 focus:ring-black"
-                  />
-                </label>
-                <div className="flex flex-wrap gap-2">
-                  {requirement.asset?.id ? (
+              {props.readOnly ? (
+                requirement.asset?.id ? (
+                  <div className="mt-4">
                     <button
                       type="button"
                       onClick={() => void openAsset(requirement.asset!.id)}
@@ -401,19 +494,91 @@ export default function PortalParticipantRequirementsCard() {
                     >
                       {openingAssetId === requirement.asset.id ? "Opening..." : "Open Current"}
                     </button>
-                  ) : null}
-                  <button
-                    type="button"
-                    onClick={() => void uploadRequirement(requirement)}
-                    disabled={uploadingType === requirement.requirementType || !draft.file || !draft.expiresAt}
-                    className="rounded-2xl bg-black px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
-                  >
-                    {uploadingType === requirement.requirementType ? "Uploading..." : requirement.asset ? "Replace" : "Upload"}
-                  </button>
+                  </div>
+                ) : null
+              ) : (
+                <>
+                <div className="mt-4 grid gap-4 md:grid-cols-[minmax(0,1fr)_180px_auto] md:items-end">
+                  <label className="grid gap-2">
+                    <span className="text-sm font-medium text-neutral-900">{renewal ? "Renewed document" : "Replace document"}</span>
+                    <input
+                      type="file"
+                      accept={partnerUploadAcceptAttribute("DOCUMENT")}
+                      onChange={(event) => {
+                        const file = event.target.files?.[0] || null;
+                        const validationError = file ? validatePartnerUploadFile(file, "DOCUMENT") : null;
+                        if (validationError) {
+                          event.target.value = "";
+                          setError(validationError);
+                          setNotice("");
+                        }
+                        setDrafts((current) => ({
+                          ...current,
+                          [requirement.requirementType]: {
+                            ...(current[requirement.requirementType] || { expiresAt: "" }),
+                            file: validationError ? null : file,
+                          },
+                        }));
+                      }}
+                      className="w-full rounded-xl border border-neutral-300 bg-white p-3 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                  </label>
+                  <label className="grid gap-2">
+                    <span className="text-sm font-medium text-neutral-900">{renewal ? "New expiry date" : "Expiry date"}</span>
+                    <input
+                      type="date"
+                      value={draft.expiresAt}
+                      onChange={(event) =>
+                        setDrafts((current) => ({
+                          ...current,
+                          [requirement.requirementType]: {
+                            ...(current[requirement.requirementType] || { file: null }),
+                            expiresAt: event.target.value,
+                          },
+                        }))
+                      }
+                      className="w-full rounded-xl border border-neutral-300 bg-white p-3 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {requirement.asset?.id ? (
+                      <button
+                        type="button"
+                        onClick={() => void openAsset(requirement.asset!.id)}
+                        disabled={openingAssetId === requirement.asset.id}
+                        className="rounded-2xl border border-neutral-300 px-4 py-3 text-sm font-semibold text-neutral-800 disabled:opacity-60"
+                      >
+                        {openingAssetId === requirement.asset.id ? "Opening..." : "Open Current"}
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      onClick={() => void uploadRequirement(requirement)}
+                      disabled={uploadingType === requirement.requirementType || !draft.file || !draft.expiresAt}
+                      className="rounded-2xl bg-black px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
+                    >
+                      {uploadingType === requirement.requirementType
+                        ? "Uploading..."
+                        : renewal
+                          ? pendingRenewal
+                            ? "Replace Renewal"
+                            : "Renew"
+                          : requirement.asset
+                            ? "Replace"
+                            : "Upload"}
+                    </button>
+                  </div>
                 </div>
-              </div>
 
-              {draft.file ? <div className="mt-2 text-xs text-neutral-600">Selected: {draft.file.name}</div> : null}
+                {draft.file ? <div className="mt-2 text-xs text-neutral-600">Selected: {draft.file.name}</div> : null}
+                {uploadingType === requirement.requirementType && uploadProgress !== null ? (
+                  <div className="mt-3">
+                    <PortalUploadProgress fraction={uploadProgress} label={`Uploading ${draft.file?.name || "document"}`} />
+                  </div>
+                ) : null}
+                <div className="mt-2 text-xs text-neutral-500">{PARTNER_UPLOAD_RULES.DOCUMENT.description}.</div>
+                </>
+              )}
             </div>
           );
         })}
@@ -1,30 +1,29 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import type {
   CommandPartnerAssetSummary,
+  CommandPartnerAssetUploadSession,
   CommandPartnerPortalScope,
 } from "../../lib/commandPublicApi";
-
-function readImageDimensions(file: File): Promise<{ width: number; height: number } | null> {
-  return new Promise((resolve) => {
-    const objectUrl = URL.createObjectURL(file);
-    const image = new Image();
-    image.onload = () => {
-      resolve({ width: image.width, height: image.height });
-      URL.revokeObjectURL(objectUrl);
-    };
-    image.onerror = () => {
-      resolve(null);
-      URL.revokeObjectURL(objectUrl);
-    };
-    image.src = objectUrl;
-  });
-}
+import {
+  PARTNER_UPLOAD_RULES,
+  partnerUploadAcceptAttribute,
+  readImageDimensions,
+  runPartnerAssetUpload,
+  validatePartnerUploadFile,
+} from "../../lib/partnerAssetUpload";
+import PortalImageCropper, { type CroppedImage } from "./PortalImageCropper";
+import PortalUploadProgress from "./PortalUploadProgress";
 
 export default function PortalProfileImageCard(props: {
   scope: CommandPartnerPortalScope;
+  readOnly?: boolean;
 }) {
   const [asset, setAsset] = useState<CommandPartnerAssetSummary | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [croppedImage, setCroppedImage] = useState<CroppedImage | null>(null);
+  const [croppedPreviewUrl, setCroppedPreviewUrl] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState("");
@@ -59,56 +58,107 @@ export default function PortalProfileImageCard(props: {
     return props.scope === "partners" ? "Profile Image" : "Sponsor Image";
   }, [props.scope]);
 
-  async function uploadSelectedFile() {
-    if (!selectedFile) {
-      setError("Choose an image file first.");
+  useEffect(() => {
+    if (!croppedImage) {
+      setCroppedPreviewUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(croppedImage.blob);
+    setCroppedPreviewUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [croppedImage]);
+
+  function resetSelection() {
+    setSelectedFile(null);
+    setCroppedImage(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  }
+
+  async function selectFile(file: File | null) {
+    setError("");
+    setNotice("");
+    setCroppedImage(null);
+    if (!file) {
+      setSelectedFile(null);
+      return;
+    }
+
+    const validationError = validatePartnerUploadFile(file, "PROFILE_IMAGE");
+    if (validationError) {
+      setError(validationError);
+      resetSelection();
+      return;
+    }
+    const rule = PARTNER_UPLOAD_RULES.PROFILE_IMAGE;
+    const dimensions = await readImageDimensions(file);
+    if (!dimensions) {
+      setError(`${file.name} could not be read as an image.`);
+      resetSelection();
+      return;
+    }
+    if (dimensions.width < (rule.minImageWidth || 0) || dimensions.height < (rule.minImageHeight || 0)) {
+      setError(
+        `${file.name} is ${dimensions.width} × ${dimensions.height}. Images must be at least ${rule.minImageWidth} × ${rule.minImageHeight}.`
+      );
+      resetSelection();
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  async function createUploadSession(image: CroppedImage): Promise<CommandPartnerAssetUploadSession | null> {
+    const sessionResponse = await fetch(`/api/bff/${props.scope}/profile/image/upload-session`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        fileName: image.fileName,
+        mimeType: image.mimeType,
+        sizeBytes: image.blob.size,
+      }),
+    });
+    const sessionPayload = await sessionResponse.json().catch(() => ({}));
+    if (sessionResponse.status === 401) {
+      window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+      return null;
+    }
+    if (!sessionResponse.ok || !sessionPayload?.ok || !sessionPayload?.upload) {
+      throw new Error(sessionPayload?.error || "Failed to create image upload session.");
+    }
+    return sessionPayload.upload as CommandPartnerAssetUploadSession;
+  }
+
+  async function uploadCroppedImage() {
+    if (!croppedImage) {
+      setError("Choose and crop an image first.");
       setNotice("");
       return;
     }
 
     setUploading(true);
+    setProgress(0);
     setError("");
     setNotice("");
 
     try {
-      const sessionResponse = await fetch(`/api/bff/${props.scope}/profile/image/upload-session`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fileName: selectedFile.name,
-          mimeType: selectedFile.type,
-          sizeBytes: selectedFile.size,
-        }),
-      });
-      const sessionPayload = await sessionResponse.json().catch(() => ({}));
-      if (sessionResponse.status === 401) {
-        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
-        return;
-      }
-      if (!sessionResponse.ok || !sessionPayload?.ok || !sessionPayload?.upload) {
-        throw new Error(sessionPayload?.error || "Failed to create image upload session.");
-      }
-
-      const uploadResult = await fetch(String(sessionPayload.upload.uploadUrl), {
-        method: String(sessionPayload.upload.uploadMethod || "PUT"),
-        headers: sessionPayload.upload.uploadHeaders || {},
-        body: selectedFile,
+      const upload = await runPartnerAssetUpload({
+        file: croppedImage.blob,
+        resumeKey: null,
+        createSession: () => createUploadSession(croppedImage),
+        onProgress: setProgress,
+        onSessionRestart: () => setNotice("The upload link expired, so the upload was restarted."),
       });
-      if (!uploadResult.ok) {
-        throw new Error("Direct image upload failed.");
-      }
+      if (!upload) return;
 
-      const dimensions = await readImageDimensions(selectedFile);
       const finalizeResponse = await fetch(`/api/bff/${props.scope}/profile/image/finalize`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          objectKey: sessionPayload.upload.objectKey,
-          fileName: selectedFile.name,
-          mimeType: selectedFile.type,
-          sizeBytes: selectedFile.size,
-          imageWidth: dimensions?.width ?? null,
-          imageHeight: dimensions?.height ?? null,
+          objectKey: upload.session.objectKey,
+          fileName: croppedImage.fileName,
+          mimeType: croppedImage.mimeType,
+          sizeBytes: croppedImage.blob.size,
+          imageWidth: croppedImage.width,
+          imageHeight: croppedImage.height,
         }),
       });
       const finalizePayload = await finalizeResponse.json().catch(() => ({}));
@@ -121,13 +171,14 @@ export default function PortalProfileImageCard(props: {
       }
 
       setAsset(finalizePayload.asset as CommandPartnerAssetSummary);
-      setSelectedFile(null);
+      resetSelection();
       setNotice("Profile image uploaded.");
     } catch (nextError: any) {
-      setError(nextError?.message || "Failed to upload profile image.");
+      setError(`${nextError?.message || "Failed to upload profile image."} Your crop is kept, so you can try again.`);
       setNotice("");
     } finally {
       setUploading(false);
+      setProgress(null);
     }
   }
 
@@ -164,26 +215,59 @@ export default function PortalProfileImageCard(props: {
         </div>
       ) : null}
 
-      <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_auto] md:items-end">
-        <label className="grid gap-2">
-          <span className="text-sm font-medium text-neutral-900">Choose image</span>
-          <input
-            type="file"
-            accept="image/jpeg,image/png,image/webp,image/gif"
-            onChange={(event) => setSelectedFile(event.target.files?.[0] || null)}
-            className="w-full rounded-xl border border-neutral-300 bg-white p-3 text-sm focus:outline-none focus:ring-2 focus:ring-black"
-          />
-        </label>
-        <button
-          type="button"
-          onClick={() => void uploadSelectedFile()}
-          disabled={uploading || !selectedFile}
-          className="rounded-2xl bg-black px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
-        >
-          {uploading ? "Uploading..." : asset ? "Replace Image" : "Upload Image"}
-        </button>
-      </div>
-      {selectedFile ? <div className="text-xs text-neutral-600">Selected: {selectedFile.name}</div> : null}
+      {props.readOnly ? null : (
+        <>
+          <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_auto] md:items-end">
+            <label className="grid gap-2">
+              <span className="text-sm font-medium text-neutral-900">Choose image</span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={partnerUploadAcceptAttribute("PROFILE_IMAGE")}
+                onChange={(event) => void selectFile(event.target.files?.[0] || null)}
+                disabled={uploading}
+                className="w-full rounded-xl border border-neutral-300 bg-white p-3 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => void uploadCroppedImage()}
+              disabled={uploading || !croppedImage}
+              className="rounded-2xl bg-black px-4 py-3 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              {uploading ? "Uploading..." : asset ? "Replace Image" : "Upload Image"}
+            </button>
+          </div>
+          <div className="text-xs text-neutral-500">{PARTNER_UPLOAD_RULES.PROFILE_IMAGE.description}.</div>
+
+          {selectedFile && !croppedImage ? (
+            <PortalImageCropper file={selectedFile} onCancel={resetSelection} onCropped={setCroppedImage} />
+          ) : null}
+
+          {croppedImage && croppedPreviewUrl ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <img
+                src={croppedPreviewUrl}
+                alt="Cropped image preview"
+                className="h-20 w-20 rounded-xl border border-neutral-200 bg-white object-cover"
+              />
+              <div className="text-xs text-neutral-600">
+                {croppedImage.width} × {croppedImage.height} · ready to upload
+              </div>
+              <button
+                type="button"
+                onClick={() => setCroppedImage(null)}
+                disabled={uploading}
+                className="rounded-xl border border-neutral-300 px-3 py-1.5 text-xs font-semibold text-neutral-800 disabled:opacity-60"
+              >
+                Adjust Crop
+              </button>
+            </div>
+          ) : null}
+
+          {progress !== null ? <PortalUploadProgress fraction={progress} label="Uploading image" /> : null}
+        </>
+      )}
     </div>
   );
 }
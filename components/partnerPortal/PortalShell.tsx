@@ -8,13 +8,15 @@ export default function PortalShell(props: {
   width?: "narrow" | "wide";
 }) {
   return (
-    <div className="min-h-screen bg-neutral-50 text-neutral-900">
-      <PublicSiteHeader />
-      <main className="px-4 py-10">
+    <div className="min-h-screen bg-neutral-50 text-neutral-900 print:bg-white">
+      <div className="print:hidden">
+        <PublicSiteHeader />
+      </div>
+      <main className="px-4 py-10 print:p-0">
         <div
           className={`mx-auto w-full ${
             props.width === "wide" ? "max-w-5xl" : "max-w-2xl"
-          } rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm`}
+          } rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm print:border-0 print:p-0 print:shadow-none`}
         >
           <div className="grid gap-2 border-b border-neutral-200 pb-4">
             <h1 className="text-2xl font-semibold">{props.title}</h1>
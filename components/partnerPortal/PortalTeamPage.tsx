@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  CommandPartnerActivityEntry,
+  CommandPartnerPortalAccount,
+  CommandPartnerPortalScope,
+  CommandPartnerTeamInvitation,
+  CommandPartnerTeamMember,
+  CommandPartnerTeamRole,
+} from "../../lib/commandPublicApi";
+import { COMMAND_PARTNER_TEAM_ROLE_OPTIONS } from "../../lib/commandPublicApi";
+import PortalNav from "./PortalNav";
+import PortalShell from "./PortalShell";
+import { PORTAL_CONFIG, TEAM_ROLE_LABELS } from "./portalConfig";
+
+const ACTIVITY_LIMIT = 50;
+
+function describeActor(entry: CommandPartnerActivityEntry) {
+  if (!entry.actor) return "Event team";
+  return entry.actor.memberName || entry.actor.email;
+}
+
+export default function PortalTeamPage(props: {
+  scope: CommandPartnerPortalScope;
+  account: CommandPartnerPortalAccount;
+}) {
+  const config = PORTAL_CONFIG[props.scope];
+  const isOwner = props.account.teamRole === "OWNER";
+  const [members, setMembers] = useState<CommandPartnerTeamMember[]>([]);
+  const [invitations, setInvitations] = useState<CommandPartnerTeamInvitation[]>([]);
+  const [activity, setActivity] = useState<CommandPartnerActivityEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<CommandPartnerTeamRole>("EDITOR");
+  const [inviting, setInviting] = useState(false);
+  const [signingOut, setSigningOut] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  function handleUnauthorized(response: Response) {
+    if (response.status !== 401) return false;
+    window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+    return true;
+  }
+
+  const load = useCallback(async () => {
+    setError("");
+    try {
+      const [teamResponse, activityResponse] = await Promise.all([
+        fetch(`/api/bff/${props.scope}/team`),
+        fetch(`/api/bff/${props.scope}/activity?limit=${ACTIVITY_LIMIT}`),
+      ]);
+      const [teamPayload, activityPayload] = await Promise.all([
+        teamResponse.json().catch(() => ({})),
+        activityResponse.json().catch(() => ({})),
+      ]);
+      if (teamResponse.status === 401 || activityResponse.status === 401) {
+        window.location.assign(`/${props.scope}/signin?error=SessionExpired`);
+        return;
+      }
+      if (!teamResponse.ok || !teamPayload?.ok) {
+        throw new Error(teamPayload?.error || "Failed to load your team.");
+      }
+      if (!activityResponse.ok || !activityPayload?.ok) {
+        throw new Error(activityPayload?.error || "Failed to load recent activity.");
+      }
+      setMembers((teamPayload.members || []) as CommandPartnerTeamMember[]);
+      setInvitations((teamPayload.invitations || []) as CommandPartnerTeamInvitation[]);
+      setActivity((activityPayload.activity || []) as CommandPartnerActivityEntry[]);
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to load your team.");
+    } finally {
+      setLoading(false);
+    }
+  }, [props.scope]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function sendTeamRequest(init: RequestInit & { query?: string }, fallbackError: string) {
+    const response = await fetch(`/api/bff/${props.scope}/team${init.query || ""}`, {
+      ...init,
+      headers: init.body ? { "Content-Type": "application/json" } : undefined,
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (handleUnauthorized(response)) return false;
+    if (!response.ok || !payload?.ok) {
+      throw new Error(payload?.error || fallbackError);
+    }
+    return true;
+  }
+
+  async function invite(event: React.FormEvent) {
+    event.preventDefault();
+    const email = inviteEmail.trim().toLowerCase();
+    if (!email) {
+      setError("Enter an email address to invite.");
+      return;
+    }
+    setInviting(true);
+    setError("");
+    setNotice("");
+    try {
+      const sent = await sendTeamRequest(
+        { method: "POST", body: JSON.stringify({ email, role: inviteRole }) },
+        "Failed to send the invitation."
+      );
+      if (!sent) return;
+      setInviteEmail("");
+      setNotice(`Invitation sent to ${email}.`);
+      await load();
+    } catch (nextError: any) {
+      setError(nextError?.message || "Failed to send the invitation.");
+    } finally {
+      setInviting(false);
+    }
+  }
+
+  async function runMemberAction(id: string, action: () => Promise<boolean>, successNotice: string, fallbackError: string) {
+    setBusyId(id);
+    setError("");
+    setNotice("");
+    try {
+      if (!(await action())) return;
+      setNotice(successNotice);
+      await load();
+    } catch (nextError: any) {
+      setError(nextError?.message || fallbackError);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function changeRole(member: CommandPartnerTeamMember, role: CommandPartnerTeamRole) {
+    void runMemberAction(
+      member.partnerUserId,
+      () =>
+        sendTeamRequest(
+          { method: "PATCH", body: JSON.stringify({ partnerUserId: member.partnerUserId, role }) },
+          "Failed to change the role."
+        ),
+      `${member.memberName || member.email} is now ${TEAM_ROLE_LABELS[role].label.toLowerCase()}.`,
+      "Failed to change the role."
+    );
+  }
+
+  function removeMember(member: CommandPartnerTeamMember) {
+    if (!confirm(`Remove ${member.memberName || member.email} from the team? They will be signed out.`)) return;
+    void runMemberAction(
+      member.partnerUserId,
+      () =>
+        sendTeamRequest(
+          { method: "DELETE", query: `?partnerUserId=${encodeURIComponent(member.partnerUserId)}` },
+          "Failed to remove the team member."
+        ),
+      `${member.memberName || member.email} was removed from the team.`,
+      "Failed to remove the team member."
+    );
+  }
+
+  function revokeInvitation(invitation: CommandPartnerTeamInvitation) {
+    void runMemberAction(
+      invitation.id,
+      () =>
+        sendTeamRequest(
+          { method: "DELETE", query: `?invitationId=${encodeURIComponent(invitation.id)}` },
+          "Failed to revoke the invitation."
+        ),
+      `Invitation for ${invitation.email} revoked.`,
+      "Failed to revoke the invitation."
+    );
+  }
+
+  async function handleSignOut() {
+    setSigningOut(true);
+    try {
+      await fetch(`/api/bff/${props.scope}/auth/logout`, { method: "POST" });
+    } finally {
+      window.location.assign(`/${props.scope}/signin`);
+    }
+  }
+
+  return (
+    <PortalShell title="Team" subtitle={config.subtitle} width="wide">
+      <div className="grid gap-6">
+        <PortalNav
+          scope={props.scope}
+          active="team"
+          displayName={props.account.displayName}
+          onSignOut={handleSignOut}
+          busy={signingOut}
+        />
+
+        {loading ? <div className="text-sm text-neutral-600">Loading team...</div> : null}
+        {error ? <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+        {notice ? <div className="rounded-xl border border-green-200 bg-green-50 p-3 text-sm text-green-700">{notice}</div> : null}
+
+        <div className="grid gap-3 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
+          <div className="grid gap-1">
+            <div className="text-base font-semibold text-neutral-900">Members</div>
+            <div className="text-sm text-neutral-600">
+              Everyone here signs in with their own email and password.{" "}
+              {isOwner ? "Owners can invite people and change roles." : "Ask an owner to invite people or change roles."}
+            </div>
+          </div>
+
+          {members.map((member) => {
+            const isSelf = member.partnerUserId === props.account.id;
+            return (
+              <div
+                key={member.partnerUserId}
+                className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-white p-3 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="grid gap-0.5">
+                  <div className="text-sm font-medium text-neutral-900">
+                    {member.memberName || member.email}
+                    {isSelf ? <span className="ml-2 text-xs font-normal text-neutral-500">(you)</span> : null}
+                  </div>
+                  <div className="text-xs text-neutral-600">
+                    {member.email} · {member.lastLoginAt ? `Last signed in ${new Date(member.lastLoginAt).toLocaleDateString()}` : "Never signed in"}
+                  </div>
+                </div>
+                {isOwner && !isSelf ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={member.role}
+                      disabled={busyId === member.partnerUserId}
+                      onChange={(event) => changeRole(member, event.target.value as CommandPartnerTeamRole)}
+                      className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-800 focus:outline-none focus:ring-2 focus:ring-black"
+                    >
+                      {COMMAND_PARTNER_TEAM_ROLE_OPTIONS.map((role) => (
+                        <option key={role} value={role}>
+                          {TEAM_ROLE_LABELS[role].label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeMember(member)}
+                      disabled={busyId === member.partnerUserId}
+                      className="rounded-xl border border-red-200 bg-white px-3 py-2 text-xs font-semibold text-red-700 disabled:opacity-60"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <span className="inline-flex w-fit rounded-full bg-neutral-100 px-3 py-1 text-xs font-semibold text-neutral-700">
+                    {TEAM_ROLE_LABELS[member.role].label}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          {invitations.map((invitation) => (
+            <div
+              key={invitation.id}
+              className="flex flex-col gap-3 rounded-xl border border-dashed border-neutral-300 bg-white p-3 md:flex-row md:items-center md:justify-between"
+            >
+              <div className="grid gap-0.5">
+                <div className="text-sm font-medium text-neutral-900">{invitation.email}</div>
+                <div className="text-xs text-neutral-600">
+                  Invited as {TEAM_ROLE_LABELS[invitation.role].label.toLowerCase()} · Expires{" "}
+                  {new Date(invitation.expiresAt).toLocaleDateString()}
+                </div>
+              </div>
+              {isOwner ? (
+                <button
+                  type="button"
+                  onClick={() => revokeInvitation(invitation)}
+                  disabled={busyId === invitation.id}
+                  className="w-fit rounded-xl border border-neutral-300 bg-white px-3 py-2 text-xs font-semibold text-neutral-800 disabled:opacity-60"
+                >
+                  Revoke
+                </button>
+              ) : (
+                <span className="inline-flex w-fit rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-800">Pending</span>
+              )}
+            </div>
+          ))}
+
+          {isOwner ? (
+            <form className="grid gap-3 border-t border-neutral-200 pt-3 md:grid-cols-[1fr_auto_auto] md:items-end" onSubmit={invite}>
+              <label className="grid gap-1 text-sm font-medium text-neutral-900">
+                Invite by email
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(event) => setInviteEmail(event.target.value)}
+                  placeholder="teammate@example.com"
+                  className="rounded-xl border border-neutral-300 bg-white p-2.5 text-sm font-normal focus:outline-none focus:ring-2 focus:ring-black"
+                />
+              </label>
+              <label className="grid gap-1 text-sm font-medium text-neutral-900">
+                Role
+                <select
+                  value={inviteRole}
+                  onChange={(event) => setInviteRole(event.target.value as CommandPartnerTeamRole)}
+                  className="rounded-xl border border-neutral-300 bg-white px-3 py-2.5 text-sm font-normal text-neutral-800 focus:outline-none focus:ring-2 focus:ring-black"
+                >
+                  {COMMAND_PARTNER_TEAM_ROLE_OPTIONS.map((role) => (
+                    <option key={role} value={role}>
+                      {TEAM_ROLE_LABELS[role].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="submit"
+                disabled={inviting}
+                className="rounded-2xl bg-black px-4 py-2.5 text-sm font-semibold text-white disabled:opacity-60"
+              >
+                {inviting ? "Sending..." : "Send Invite"}
+              </button>
+              <div className="text-xs text-neutral-500 md:col-span-3">{TEAM_ROLE_LABELS[inviteRole].description}</div>
+            </form>
+          ) : null}
+        </div>
+
+        <div className="grid gap-3 rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
+          <div className="grid gap-1">
+            <div className="text-base font-semibold text-neutral-900">Recent Activity</div>
+            <div className="text-sm text-neutral-600">Who changed the profile, uploaded documents or submitted applications.</div>
+          </div>
+          {!loading && activity.length === 0 ? <div className="text-sm text-neutral-600">No activity yet.</div> : null}
+          {activity.length > 0 ? (
+            <ul className="grid gap-2">
+              {activity.map((entry) => (
+                <li key={entry.id} className="flex flex-col gap-1 rounded-xl border border-neutral-200 bg-white p-3 md:flex-row md:justify-between">
+                  <div className="text-sm text-neutral-800">
+                    <span className="font-semibold text-neutral-900">{describeActor(entry)}</span> {entry.summary}
+                  </div>
+                  <div className="shrink-0 text-xs text-neutral-500">{new Date(entry.occurredAt).toLocaleString()}</div>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      </div>
+    </PortalShell>
+  );
+}
@@ -0,0 +1,20 @@
+export default function PortalUploadProgress(props: { fraction: number; label?: string }) {
+  const percent = Math.round(Math.max(0, Math.min(1, props.fraction)) * 100);
+  return (
+    <div className="grid gap-1">
+      <div
+        className="h-2 w-full overflow-hidden rounded-full bg-neutral-200"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="h-full rounded-full bg-black transition-[width]" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="text-xs text-neutral-600">
+        {props.label ? `${props.label} · ` : ""}
+        {percent}%
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
-import type { CommandPartnerPortalScope } from "../../lib/commandPublicApi";
+import type {
+  CommandPartnerNotificationType,
+  CommandPartnerPortalScope,
+  CommandPartnerTeamRole,
+} from "../../lib/commandPublicApi";
 
 export type PortalConfig = {
   scope: CommandPartnerPortalScope;
@@ -55,6 +59,10 @@ export const PORTAL_CONFIG: Record<CommandPartnerPortalScope, PortalConfig> = {
   },
 };
 
+// Dispatched on window after an application thread is marked read so PortalNav
+// can refresh its unread badge.
+export const PORTAL_MESSAGES_READ_EVENT = "partner-portal:messages-read";
+
 export const SOCIAL_LINK_FIELDS = [
   "instagram",
   "youtube",
@@ -65,3 +73,20 @@ export const SOCIAL_LINK_FIELDS = [
   "x",
   "tiktok",
 ] as const;
+
+// Same idea as PORTAL_MESSAGES_READ_EVENT, for the notification center badge.
+export const PORTAL_NOTIFICATIONS_READ_EVENT = "partner-portal:notifications-read";
+
+export const NOTIFICATION_TYPE_LABELS: Record<CommandPartnerNotificationType, string> = {
+  APPLICATION_STATUS_CHANGED: "Application status changes",
+  APPLICATION_MESSAGE: "New messages from the event team",
+  REQUIREMENT_REJECTED: "Rejected requirement documents",
+  REQUIREMENT_EXPIRING: "Requirement documents about to expire",
+  REQUIREMENT_EXPIRED: "Expired requirement documents",
+};
+
+export const TEAM_ROLE_LABELS: Record<CommandPartnerTeamRole, { label: string; description: string }> = {
+  OWNER: { label: "Owner", description: "Full access, including managing the team." },
+  EDITOR: { label: "Editor", description: "Can edit the profile, upload documents and submit applications." },
+  VIEWER: { label: "Viewer", description: "Can see everything but cannot make changes." },
+};
@@ -0,0 +1,253 @@
+import { useEffect } from "react";
+import Link from "next/link";
+import BrandHead from "../BrandHead";
+import PublicSiteHeader from "../PublicSiteHeader";
+import PublicProfileInteractionAnchor from "./PublicProfileInteractionAnchor";
+import PublicScheduleUpcomingList from "./PublicScheduleUpcomingList";
+import { buildProfileInteractionEvent, type ProfileFeedInteractionMetadata } from "./profileFeedAnalytics";
+import type { CommandPartnerParticipantType } from "../../lib/commandPublicApi";
+import { resolveProfileVideoEmbed, type PublicPartnerProfilePageProps } from "../../lib/publicPartnerProfile";
+import { queueWebsiteAnalyticsEvents } from "../../lib/websiteAnalyticsClient";
+
+const participantTypeLabels: Record<CommandPartnerParticipantType, string> = {
+  ENTERTAINMENT: "Entertainment",
+  FOOD_VENDOR: "Food Vendor",
+  MARKET_VENDOR: "Market Vendor",
+};
+
+function formatEnumLabel(value: string) {
+  return value
+    .split("_")
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(" ");
+}
+
+function formatSocialLabel(key: string) {
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+function ProfileUnavailable() {
+  return (
+    <>
+      <BrandHead title="Profile — X Dragon" />
+
+      <div className="min-h-screen bg-neutral-50 text-neutral-900">
+        <PublicSiteHeader />
+
+        <main className="mx-auto grid max-w-7xl gap-6 px-4 py-6 sm:px-6 lg:px-8">
+          <Link href="/schedule" className="text-sm font-semibold text-red-600 hover:text-red-700">
+            ← Back to schedule
+          </Link>
+          <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            This profile is temporarily unavailable. Please check back shortly.
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
+
+export default function PublicPartnerProfilePage({ profile, items, canonicalUrl }: PublicPartnerProfilePageProps) {
+  const isSponsor = profile?.partnerKind === "SPONSOR";
+  const analytics: Omit<ProfileFeedInteractionMetadata, "targetType"> | null = profile
+    ? {
+        feedId: null,
+        feedSource: isSponsor ? "SPONSORS" : "PARTNER_PROFILES",
+        partnerProfileId: profile.partnerProfileId,
+        partnerKind: profile.partnerKind,
+        eventSeriesId: profile.eventSeries[0]?.id || items[0]?.eventSeries.id || "",
+        surfaceKey: isSponsor ? "SPONSOR_PROFILE_PAGE" : "PARTNER_PROFILE_PAGE",
+      }
+    : null;
+
+  useEffect(() => {
+    if (!analytics?.eventSeriesId) return;
+    queueWebsiteAnalyticsEvents([
+      buildProfileInteractionEvent({
+        eventType: "PROFILE_IMPRESSION",
+        metadata: { ...analytics, targetType: "PROFILE" },
+      }),
+    ]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [analytics?.partnerProfileId]);
+
+  if (!profile || !analytics) {
+    return <ProfileUnavailable />;
+  }
+
+  const kindLabel = isSponsor
+    ? "Sponsor"
+    : (profile.participantType && participantTypeLabels[profile.participantType]) || "Partner";
+  const tags = [
+    ...profile.entertainmentGenres.map(formatEnumLabel),
+    profile.foodStyle,
+    profile.marketType ? formatEnumLabel(profile.marketType) : null,
+    profile.productServiceType,
+  ].filter((tag): tag is string => Boolean(tag));
+  const description =
+    profile.summary ||
+    profile.description ||
+    (isSponsor
+      ? `${profile.displayName} is a sponsor of X Dragon events.`
+      : `${profile.displayName} (${kindLabel}) — ${items.length} upcoming appearance${items.length === 1 ? "" : "s"} on the X Dragon schedule.`);
+  const socialLinks = Object.entries(profile.socialLinks || {}).filter(([, url]) => Boolean(url));
+  const video = resolveProfileVideoEmbed(profile.livePerformanceVideoUrl);
+
+  return (
+    <>
+      <BrandHead
+        title={`${profile.displayName} — X Dragon`}
+        description={description}
+        canonicalUrl={canonicalUrl}
+        imageUrl={profile.profileImageUrl}
+        ogType="profile"
+      />
+
+      <div className="min-h-screen bg-neutral-50 text-neutral-900">
+        <PublicSiteHeader />
+
+        <main className="mx-auto grid max-w-7xl gap-6 px-4 py-6 sm:px-6 lg:px-8">
+          <Link href="/schedule" className="text-sm font-semibold text-red-600 hover:text-red-700">
+            ← Back to schedule
+          </Link>
+
+          <section className="grid gap-6 rounded-[2rem] border border-neutral-200 bg-white p-8 shadow-sm md:grid-cols-[auto_minmax(0,1fr)] md:items-start">
+            {profile.profileImageUrl ? (
+              <PublicProfileInteractionAnchor
+                href={profile.profileImageUrl}
+                target="_blank"
+                rel="noreferrer"
+                title="Open full-size image"
+                className="block w-fit"
+                {...analytics}
+                clickEventType="PROFILE_IMAGE_OPEN"
+                clickTargetType="PROFILE_IMAGE"
+              >
+                <img
+                  src={profile.profileImageUrl}
+                  alt={profile.displayName}
+                  className="h-40 w-40 rounded-3xl border border-neutral-200 object-cover"
+                />
+              </PublicProfileInteractionAnchor>
+            ) : null}
+
+            <div className="grid gap-4">
+              <div>
+                <div className="text-sm font-semibold uppercase tracking-[0.16em] text-red-600">{kindLabel}</div>
+                <h1 className="mt-2 text-3xl font-semibold text-neutral-900">{profile.displayName}</h1>
+                {profile.summary ? <div className="mt-2 text-base text-neutral-700">{profile.summary}</div> : null}
+              </div>
+
+              {tags.length > 0 ? (
+                <div className="flex flex-wrap gap-2 text-xs font-semibold text-neutral-600">
+                  {tags.map((tag) => (
+                    <span key={tag} className="rounded-full border border-neutral-200 bg-neutral-50 px-3 py-1">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              ) : null}
+
+              {profile.description ? (
+                <div className="whitespace-pre-line text-sm leading-6 text-neutral-700">{profile.description}</div>
+              ) : null}
+
+              {profile.websiteUrl || socialLinks.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {profile.websiteUrl ? (
+                    <PublicProfileInteractionAnchor
+                      href={profile.websiteUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex w-fit rounded-2xl bg-black px-4 py-2 text-sm font-semibold text-white hover:opacity-90"
+                      {...analytics}
+                      clickEventType="PROFILE_WEBSITE_CLICK"
+                      clickTargetType="WEBSITE"
+                    >
+                      Open website
+                    </PublicProfileInteractionAnchor>
+                  ) : null}
+                  {socialLinks.map(([key, url]) => (
+                    <PublicProfileInteractionAnchor
+                      key={key}
+                      href={url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex w-fit rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                      {...analytics}
+                      clickEventType="PROFILE_SOCIAL_LINK_CLICK"
+                      clickTargetType="SOCIAL_LINK"
+                      socialPlatform={key}
+                    >
+                      {formatSocialLabel(key)}
+                    </PublicProfileInteractionAnchor>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          </section>
+
+          {profile.livePerformanceVideoUrl ? (
+            <section className="grid gap-4 rounded-[2rem] border border-neutral-200 bg-white p-6 shadow-sm">
+              <h2 className="text-xl font-semibold text-neutral-900">Live Performance</h2>
+              {video ? (
+                <div className="aspect-video w-full overflow-hidden rounded-2xl bg-black">
+                  <iframe
+                    src={video.embedUrl}
+                    title={`${profile.displayName} live performance`}
+                    className="h-full w-full"
+                    loading="lazy"
+                    allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+                    allowFullScreen
+                  />
+                </div>
+              ) : (
+                <PublicProfileInteractionAnchor
+                  href={profile.livePerformanceVideoUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex w-fit rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                  {...analytics}
+                  clickEventType="PROFILE_SOCIAL_LINK_CLICK"
+                  clickTargetType="SOCIAL_LINK"
+                  socialPlatform="video"
+                >
+                  Watch performance video
+                </PublicProfileInteractionAnchor>
+              )}
+            </section>
+          ) : null}
+
+          {isSponsor ? (
+            <section className="rounded-[2rem] border border-neutral-200 bg-white p-6 shadow-sm">
+              <h2 className="text-xl font-semibold text-neutral-900">Sponsoring</h2>
+              {profile.eventSeries.length === 0 ? (
+                <div className="mt-6 rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-5 text-sm text-neutral-600">
+                  No current event sponsorships.
+                </div>
+              ) : (
+                <div className="mt-6 flex flex-wrap gap-2">
+                  {profile.eventSeries.map((series) => (
+                    <span
+                      key={series.id}
+                      className="rounded-full border border-neutral-200 bg-neutral-50 px-3 py-1 text-sm font-semibold text-neutral-700"
+                    >
+                      {series.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </section>
+          ) : (
+            <PublicScheduleUpcomingList
+              title="Upcoming Appearances"
+              items={items}
+              linkTo="resource"
+              emptyMessage="No upcoming appearances are scheduled right now."
+            />
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
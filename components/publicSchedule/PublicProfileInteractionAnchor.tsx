@@ -16,14 +16,14 @@ type PublicProfileInteractionAnchorProps = {
   className: string;
   children: ReactNode;
   enableImpression?: boolean;
-  feedId: string;
+  feedId: string | null;
   feedSource: CommandPublicAnalyticsProfileInteractionFeedSource;
   partnerProfileId: string;
   partnerKind: CommandPartnerKind;
   eventSeriesId: string;
   surfaceKey: ProfileFeedInteractionSurfaceKey;
-  clickEventType?: "PROFILE_WEBSITE_CLICK" | "PROFILE_SOCIAL_LINK_CLICK";
-  clickTargetType?: "WEBSITE" | "SOCIAL_LINK";
+  clickEventType?: "PROFILE_IMAGE_OPEN" | "PROFILE_WEBSITE_CLICK" | "PROFILE_SOCIAL_LINK_CLICK";
+  clickTargetType?: "PROFILE_IMAGE" | "WEBSITE" | "SOCIAL_LINK";
   clickTargetUrl?: string | null;
   socialPlatform?: string | null;
   onClick?: (event: MouseEvent<HTMLAnchorElement>) => void;
@@ -0,0 +1,12 @@
+import Head from "next/head";
+
+export default function PublicScheduleAppHead() {
+  return (
+    <Head>
+      <link rel="manifest" href="/schedule.webmanifest" />
+      <link rel="apple-touch-icon" href="/android-chrome-192x192.png" />
+      <meta name="apple-mobile-web-app-capable" content="yes" />
+      <meta name="apple-mobile-web-app-title" content="Schedule" />
+    </Head>
+  );
+}
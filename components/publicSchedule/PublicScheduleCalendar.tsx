@@ -20,11 +20,13 @@ type CalendarView = "dayGridMonth" | "timeGridWeek" | "timeGridDay";
 export default function PublicScheduleCalendar({
   events,
   loading,
+  initialDate,
   onRangeChange,
   onEventOpen,
 }: {
   events: PublicScheduleCalendarEvent[];
   loading: boolean;
+  initialDate?: string;
   onRangeChange: (range: { from: string; to: string; title: string; view: CalendarView }) => void;
   onEventOpen: (id: string) => void;
 }) {
@@ -127,6 +129,7 @@ export default function PublicScheduleCalendar({
           ref={calendarRef}
           plugins={[dayGridPlugin, timeGridPlugin]}
           initialView="dayGridMonth"
+          initialDate={initialDate}
           timeZone="UTC"
           headerToolbar={false}
           editable={false}
@@ -0,0 +1,24 @@
+import Link from "next/link";
+import BrandHead from "../BrandHead";
+import PublicSiteHeader from "../PublicSiteHeader";
+
+export default function PublicScheduleDetailUnavailable() {
+  return (
+    <>
+      <BrandHead title="Schedule — X Dragon" />
+
+      <div className="min-h-screen bg-neutral-50 text-neutral-900">
+        <PublicSiteHeader />
+
+        <main className="mx-auto grid max-w-7xl gap-6 px-4 py-6 sm:px-6 lg:px-8">
+          <Link href="/schedule" className="text-sm font-semibold text-red-600 hover:text-red-700">
+            ← Back to schedule
+          </Link>
+          <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            The live schedule is temporarily unavailable. Please check back shortly.
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
@@ -4,10 +4,12 @@ import {
   resolvePublicScheduleFeedSource,
 } from "./feedRuntime";
 import PublicProfileInteractionAnchor from "./PublicProfileInteractionAnchor";
+import type { ProfileFeedInteractionSurfaceKey } from "./profileFeedAnalytics";
 
 type PublicScheduleSponsorImageTickerProps = {
   title?: string;
   feed: CommandPublicScheduleFeedResponse | null;
+  surfaceKey?: ProfileFeedInteractionSurfaceKey;
 };
 
 function isInformationalSponsorItem(item: CommandPublicScheduleSponsorFeedItem) {
@@ -35,6 +37,7 @@ function sponsorHoverTitle(item: CommandPublicScheduleSponsorFeedItem) {
 export default function PublicScheduleSponsorImageTicker({
   title,
   feed,
+  surfaceKey = "SCHEDULE_SPONSOR_IMAGE_TICKER",
 }: PublicScheduleSponsorImageTickerProps) {
   const feedSource = resolvePublicScheduleFeedSource(feed);
   const includeProfileImages = resolvePublicScheduleFeedIncludesProfileImages(feed);
@@ -107,7 +110,7 @@ export default function PublicScheduleSponsorImageTicker({
                   partnerProfileId={item.partnerProfileId}
                   partnerKind={item.partnerKind}
                   eventSeriesId={item.eventSeriesId}
-                  surfaceKey="SCHEDULE_SPONSOR_IMAGE_TICKER"
+                  surfaceKey={surfaceKey}
                   clickEventType="PROFILE_WEBSITE_CLICK"
                   clickTargetType="WEBSITE"
                   clickTargetUrl={item.sponsorWebsite}
@@ -1,10 +1,12 @@
 import type { CommandPublicScheduleFeedResponse, CommandPublicScheduleSponsorFeedItem } from "../../lib/commandPublicApi";
 import { resolvePublicScheduleFeedSource } from "./feedRuntime";
 import PublicProfileInteractionAnchor from "./PublicProfileInteractionAnchor";
+import type { ProfileFeedInteractionSurfaceKey } from "./profileFeedAnalytics";
 
 type PublicScheduleSponsorNameTickerProps = {
   title: string;
   feed: CommandPublicScheduleFeedResponse | null;
+  surfaceKey?: ProfileFeedInteractionSurfaceKey;
 };
 
 function isInformationalSponsorItem(item: CommandPublicScheduleSponsorFeedItem) {
@@ -14,6 +16,7 @@ function isInformationalSponsorItem(item: CommandPublicScheduleSponsorFeedItem)
 export default function PublicScheduleSponsorNameTicker({
   title,
   feed,
+  surfaceKey = "SCHEDULE_SPONSOR_NAME_TICKER",
 }: PublicScheduleSponsorNameTickerProps) {
   const feedSource = resolvePublicScheduleFeedSource(feed);
 
@@ -85,7 +88,7 @@ export default function PublicScheduleSponsorNameTicker({
                   partnerProfileId={item.partnerProfileId}
                   partnerKind={item.partnerKind}
                   eventSeriesId={item.eventSeriesId}
-                  surfaceKey="SCHEDULE_SPONSOR_NAME_TICKER"
+                  surfaceKey={surfaceKey}
                   clickEventType="PROFILE_WEBSITE_CLICK"
                   clickTargetType="WEBSITE"
                   clickTargetUrl={item.sponsorWebsite}
@@ -0,0 +1,83 @@
+import Link from "next/link";
+import type { CommandPublicScheduleItem } from "../../lib/commandPublicApi";
+
+type PublicScheduleUpcomingListProps = {
+  title: string;
+  items: CommandPublicScheduleItem[];
+  linkTo: "participant" | "resource";
+  emptyMessage: string;
+};
+
+function formatDateLabel(value: string) {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  }).format(date);
+}
+
+export default function PublicScheduleUpcomingList({ title, items, linkTo, emptyMessage }: PublicScheduleUpcomingListProps) {
+  const grouped = new Map<string, CommandPublicScheduleItem[]>();
+  for (const item of items) {
+    const list = grouped.get(item.occursOn) || [];
+    list.push(item);
+    grouped.set(item.occursOn, list);
+  }
+
+  return (
+    <section className="rounded-[2rem] border border-neutral-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold text-neutral-900">{title}</h2>
+        <div className="text-sm text-neutral-600">{items.length} upcoming</div>
+      </div>
+
+      <div className="mt-6 grid gap-6">
+        {items.length === 0 ? (
+          <div className="rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-5 text-sm text-neutral-600">
+            {emptyMessage}
+          </div>
+        ) : (
+          Array.from(grouped.entries()).map(([occursOn, dayItems]) => (
+            <div key={occursOn} className="grid gap-3">
+              <div className="text-sm font-semibold uppercase tracking-[0.16em] text-neutral-500">{formatDateLabel(occursOn)}</div>
+              <div className="grid gap-3">
+                {dayItems.map((item) => (
+                  <div key={item.id} className="grid gap-2 rounded-3xl border border-neutral-200 bg-white p-5 shadow-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <div className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">{item.eventSeries.name}</div>
+                        <div className="mt-1 text-lg font-semibold text-neutral-900">
+                          {linkTo === "participant" ? (
+                            <Link href={`/schedule/participants/${encodeURIComponent(item.participant.slug)}`} className="hover:text-red-600">
+                              {item.participant.displayName}
+                            </Link>
+                          ) : (
+                            item.title
+                          )}
+                        </div>
+                        {item.subtitle ? <div className="mt-1 text-sm text-neutral-600">{item.subtitle}</div> : null}
+                      </div>
+                      <div className="text-right text-sm text-neutral-600">
+                        <div className="font-semibold text-neutral-900">{item.timeLabel}</div>
+                        {linkTo === "resource" ? (
+                          <Link href={`/schedule/resources/${encodeURIComponent(item.resource.slug)}`} className="hover:text-red-600">
+                            {item.locationLabel}
+                          </Link>
+                        ) : (
+                          <div>{item.locationLabel}</div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
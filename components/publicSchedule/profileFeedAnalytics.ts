@@ -10,7 +10,11 @@ import { buildWebsiteAnalyticsEvent } from "../../lib/websiteAnalyticsClient";
 export type ProfileFeedInteractionSurfaceKey =
   | "SCHEDULE_SPONSOR_NAME_TICKER"
   | "SCHEDULE_SPONSOR_IMAGE_TICKER"
-  | "SCHEDULE_PARTNER_PROFILE_FEED";
+  | "SCHEDULE_PARTNER_PROFILE_FEED"
+  | "EMBED_SPONSOR_NAME_TICKER"
+  | "EMBED_SPONSOR_IMAGE_TICKER"
+  | "PARTNER_PROFILE_PAGE"
+  | "SPONSOR_PROFILE_PAGE";
 
 export type ProfileFeedInteractionEventType =
   | "PROFILE_IMPRESSION"
@@ -19,7 +23,9 @@ export type ProfileFeedInteractionEventType =
   | "PROFILE_SOCIAL_LINK_CLICK";
 
 export type ProfileFeedInteractionMetadata = {
-  feedId: string;
+  // Null on surfaces not backed by a schedule feed, such as the public
+  // profile pages.
+  feedId: string | null;
   feedSource: CommandPublicAnalyticsProfileInteractionFeedSource;
   partnerProfileId: string;
   partnerKind: CommandPartnerKind;
@@ -51,9 +57,9 @@ export function buildProfileInteractionEvent(args: {
 }
 
 export function profileFeedInteractionKey(metadata: {
-  feedId: string;
+  feedId: string | null;
   partnerProfileId: string;
   surfaceKey: ProfileFeedInteractionSurfaceKey;
 }) {
-  return `${metadata.surfaceKey}:${metadata.feedId}:${metadata.partnerProfileId}`;
+  return `${metadata.surfaceKey}:${metadata.feedId || ""}:${metadata.partnerProfileId}`;
 }
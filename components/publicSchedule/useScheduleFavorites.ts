@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CommandPublicScheduleItem } from "../../lib/commandPublicApi";
+
+export type ScheduleFavorite = {
+  scheduleItemId: string;
+  occursOn: string;
+};
+
+const LS_KEY = "xdragon_schedule_favorites_v1";
+const LS_SYNC_KEY = "xdragon_schedule_favorites_sync_v1";
+
+// `merged`: this device's stars have been folded into an account once, so the
+// account is authoritative from then on. `pending`: a local change has not
+// reached the account yet and should win on the next load.
+type FavoritesSyncState = {
+  merged: boolean;
+  pending: boolean;
+};
+
+function readLocalFavorites(): ScheduleFavorite[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LS_KEY) || "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (entry): entry is ScheduleFavorite =>
+        Boolean(entry) && typeof entry.scheduleItemId === "string" && typeof entry.occursOn === "string"
+    );
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalFavorites(favorites: ScheduleFavorite[]) {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(favorites));
+  } catch {
+    // Private browsing / quota errors: favorites just won't survive a reload.
+  }
+}
+
+function readSyncState(): FavoritesSyncState {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LS_SYNC_KEY) || "{}");
+    return { merged: parsed?.merged === true, pending: parsed?.pending === true };
+  } catch {
+    return { merged: false, pending: false };
+  }
+}
+
+function writeSyncState(state: FavoritesSyncState) {
+  try {
+    localStorage.setItem(LS_SYNC_KEY, JSON.stringify(state));
+  } catch {
+    // Without the marker the next load merges again, which only re-adds stars.
+  }
+}
+
+function mergeFavorites(a: ScheduleFavorite[], b: ScheduleFavorite[]) {
+  const merged = new Map<string, ScheduleFavorite>();
+  for (const favorite of [...a, ...b]) {
+    if (!merged.has(favorite.scheduleItemId)) merged.set(favorite.scheduleItemId, favorite);
+  }
+  return Array.from(merged.values());
+}
+
+async function pushAccountFavorites(favorites: ScheduleFavorite[]) {
+  const res = await fetch("/api/bff/schedule/favorites", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ favorites }),
+  });
+  const payload = await res.json().catch(() => null);
+  if (!res.ok || !payload?.ok) {
+    throw new Error(payload?.error || "Failed to sync favorites");
+  }
+  return (payload.favorites as ScheduleFavorite[]).map((entry) => ({
+    scheduleItemId: entry.scheduleItemId,
+    occursOn: entry.occursOn,
+  }));
+}
+
+// Favorites always live in localStorage. When the visitor has an external
+// account session, the local set is merged into the account the first time
+// this device syncs; after that the account is the source of truth (so a star
+// removed elsewhere stays removed) and every change is written through to it.
+// A change that failed to reach the account is pushed on the next load.
+export function useScheduleFavorites() {
+  const [favorites, setFavorites] = useState<ScheduleFavorite[]>([]);
+  const [ready, setReady] = useState(false);
+  const [accountSynced, setAccountSynced] = useState(false);
+  const [syncError, setSyncError] = useState("");
+  const accountSyncedRef = useRef(false);
+  const pushSeqRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const local = readLocalFavorites();
+    setFavorites(local);
+    setReady(true);
+
+    (async () => {
+      try {
+        const res = await fetch("/api/bff/schedule/favorites");
+        if (res.status === 401 || res.status === 503) return;
+        const payload = await res.json().catch(() => null);
+        if (!res.ok || !payload?.ok) throw new Error(payload?.error || "Failed to load account favorites");
+
+        const remote = (payload.favorites as ScheduleFavorite[]).map((entry) => ({
+          scheduleItemId: entry.scheduleItemId,
+          occursOn: entry.occursOn,
+        }));
+        const syncState = readSyncState();
+        let synced = remote;
+        if (syncState.pending) {
+          synced = await pushAccountFavorites(readLocalFavorites());
+        } else if (!syncState.merged) {
+          const merged = mergeFavorites(remote, readLocalFavorites());
+          if (merged.length !== remote.length) synced = await pushAccountFavorites(merged);
+        }
+        writeSyncState({ merged: true, pending: false });
+        if (cancelled) return;
+
+        accountSyncedRef.current = true;
+        setAccountSynced(true);
+        setFavorites(synced);
+        writeLocalFavorites(synced);
+      } catch (error: any) {
+        if (!cancelled) setSyncError(error?.message || "Failed to sync favorites");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = useCallback((next: ScheduleFavorite[]) => {
+    setFavorites(next);
+    writeLocalFavorites(next);
+    setSyncError("");
+
+    if (!accountSyncedRef.current) return;
+    const pushId = ++pushSeqRef.current;
+    writeSyncState({ merged: true, pending: true });
+    void pushAccountFavorites(next)
+      .then(() => {
+        // An older push finishing late must not clear a newer pending change.
+        if (pushId === pushSeqRef.current) writeSyncState({ merged: true, pending: false });
+      })
+      .catch((error: any) => {
+        setSyncError(error?.message || "Failed to sync favorites");
+      });
+  }, []);
+
+  const isFavorite = useCallback(
+    (scheduleItemId: string) => favorites.some((entry) => entry.scheduleItemId === scheduleItemId),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback(
+    (item: Pick<CommandPublicScheduleItem, "id" | "occursOn">) => {
+      const exists = favorites.some((entry) => entry.scheduleItemId === item.id);
+      update(
+        exists
+          ? favorites.filter((entry) => entry.scheduleItemId !== item.id)
+          : [...favorites, { scheduleItemId: item.id, occursOn: item.occursOn }]
+      );
+    },
+    [favorites, update]
+  );
+
+  const removeFavorites = useCallback(
+    (scheduleItemIds: string[]) => {
+      const removed = new Set(scheduleItemIds);
+      update(favorites.filter((entry) => !removed.has(entry.scheduleItemId)));
+    },
+    [favorites, update]
+  );
+
+  return {
+    favorites,
+    ready,
+    accountSynced,
+    syncError,
+    isFavorite,
+    toggleFavorite,
+    removeFavorites,
+  };
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from "react";
+
+// Set by public/schedule-sw.js on responses it serves from its offline cache.
+export const SCHEDULE_CACHED_AT_HEADER = "X-Schedule-Cached-At";
+
+const SERVICE_WORKER_URL = "/schedule-sw.js";
+const SERVICE_WORKER_SCOPE = "/schedule";
+
+export function readScheduleCachedAt(response: Response) {
+  return response.headers.get(SCHEDULE_CACHED_AT_HEADER);
+}
+
+export function useScheduleOfflineSupport(options: { onReconnect: () => void }) {
+  const [online, setOnline] = useState(true);
+  const onReconnectRef = useRef(options.onReconnect);
+  onReconnectRef.current = options.onReconnect;
+
+  useEffect(() => {
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE }).catch((error) => {
+        console.warn("[schedule-offline] service worker registration failed", error);
+      });
+    }
+
+    setOnline(navigator.onLine);
+
+    function handleOnline() {
+      setOnline(true);
+      onReconnectRef.current();
+    }
+
+    function handleOffline() {
+      setOnline(false);
+    }
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  return { online };
+}
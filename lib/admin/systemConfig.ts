@@ -5,6 +5,7 @@ import {
   getConfiguredProtectedBackofficeEmail,
   getProtectedBackofficeEmailEnvKey,
 } from "../backofficeBootstrap";
+import { getCommandPublicCircuitSnapshot } from "../commandPublicResilience";
 import { authCookieDomain } from "../siteConfig";
 import { getRuntimeHostConfig } from "../runtimeHostConfig";
 import { prisma } from "../prisma";
@@ -51,6 +52,7 @@ type ProtectedBackofficeDiagnostics = {
     mfaEnabledAt: Date | null;
     lastLoginAt: Date | null;
     brandAccesses: Array<{ brandId: string }>;
+    webauthnCredentials: Array<{ id: string }>;
   };
   configuredBrandCount: number;
   error: string | null;
@@ -148,6 +150,24 @@ const ENV_GROUPS: Array<{
         description: "Issuer label used for authenticator-app enrollment.",
         kind: "plain",
       },
+      {
+        key: "BACKOFFICE_WEBAUTHN_RP_ID",
+        label: "Backoffice WebAuthn RP ID",
+        description: "Optional parent domain for security keys and passkeys. Defaults to the admin host the request arrived on.",
+        kind: "plain",
+      },
+      {
+        key: "AUTH_RATE_LIMIT_REDIS_REST_URL",
+        label: "Sign-In Rate Limit Store URL",
+        description: "Optional Upstash-compatible REST URL so sign-in throttling and lockouts are shared across instances.",
+        kind: "plain",
+      },
+      {
+        key: "AUTH_RATE_LIMIT_REDIS_REST_TOKEN",
+        label: "Sign-In Rate Limit Store Token",
+        description: "Bearer token for the shared sign-in rate limit store.",
+        kind: "secret",
+      },
       {
         key: "BACKOFFICE_MFA_ENCRYPTION_KEY",
         label: "Backoffice MFA Encryption Key",
@@ -186,6 +206,49 @@ const ENV_GROUPS: Array<{
         description: "Dedicated secret required for encrypting the website-side BFF session envelope.",
         kind: "secret",
       },
+      {
+        key: "COMMAND_PUBLIC_API_TIMEOUT_MS",
+        label: "Command Request Timeout",
+        description: "Optional default per-request timeout in milliseconds for Command calls. Defaults to 8000.",
+        kind: "plain",
+      },
+      {
+        key: "COMMAND_PUBLIC_API_ROUTE_TIMEOUTS_MS",
+        label: "Command Route Timeouts",
+        description:
+          'Optional JSON map of Command path prefix to timeout in milliseconds, e.g. {"/api/v1/chat": 45000}. Overrides or adds to the built-in chat, analytics, host lookup and requirement upload timeouts.',
+        kind: "plain",
+      },
+      {
+        key: "COMMAND_PUBLIC_API_BREAKER_THRESHOLD",
+        label: "Command Breaker Threshold",
+        description: "Optional number of consecutive upstream failures before Command calls fail fast. Defaults to 5.",
+        kind: "plain",
+      },
+      {
+        key: "COMMAND_PUBLIC_API_BREAKER_COOLDOWN_MS",
+        label: "Command Breaker Cool-Down",
+        description: "Optional milliseconds Command calls fail fast once the breaker opens. Defaults to 30000.",
+        kind: "plain",
+      },
+      {
+        key: "COMMAND_PUBLIC_CACHE_DISABLED",
+        label: "Command Read Cache Disabled",
+        description: "Set to 1 to bypass the cache for anonymous Command public reads.",
+        kind: "plain",
+      },
+      {
+        key: "COMMAND_PUBLIC_CACHE_REDIS_REST_URL",
+        label: "Command Read Cache Store URL",
+        description: "Optional Upstash-compatible REST URL so instances share cached Command public reads.",
+        kind: "plain",
+      },
+      {
+        key: "COMMAND_PUBLIC_CACHE_REDIS_REST_TOKEN",
+        label: "Command Read Cache Store Token",
+        description: "Bearer token for the shared Command read cache store.",
+        kind: "secret",
+      },
     ],
   },
   {
@@ -370,6 +433,11 @@ export async function collectRuntimeStatus(requestHost?: string | null): Promise
               brandId: true,
             },
           },
+          webauthnCredentials: {
+            select: {
+              id: true,
+            },
+          },
         },
       }),
       prisma.brand.count(),
@@ -414,7 +482,7 @@ export async function collectRuntimeStatus(requestHost?: string | null): Promise
       `Role ${protectedAccountDiagnostics.user.role}`,
       `Status ${protectedAccountDiagnostics.user.status}`,
       `MFA ${
-        protectedAccountDiagnostics.user.mfaEnabledAt
+        protectedAccountDiagnostics.user.mfaEnabledAt || protectedAccountDiagnostics.user.webauthnCredentials.length > 0
           ? "enabled"
           : protectedAccountDiagnostics.user.mfaMethod
             ? "pending"
@@ -430,6 +498,25 @@ export async function collectRuntimeStatus(requestHost?: string | null): Promise
     return details.join(". ");
   })();
 
+  const commandCircuit = getCommandPublicCircuitSnapshot();
+  const commandCircuitNote = (() => {
+    const details = [
+      `Consecutive upstream failures ${commandCircuit.consecutiveFailures}/${commandCircuit.failureThreshold}`,
+      `Short-circuited requests ${commandCircuit.shortCircuitedCount}`,
+    ];
+
+    if (commandCircuit.retryAt) {
+      details.push(`Trial request after ${commandCircuit.retryAt}`);
+    }
+
+    if (commandCircuit.lastFailureAt) {
+      details.push(`Last failure ${commandCircuit.lastFailureAt}: ${commandCircuit.lastFailureMessage || "unknown"}`);
+    }
+
+    details.push("State is per server instance.");
+    return details.join(". ");
+  })();
+
   return [
     {
       label: "Request Host",
@@ -467,6 +554,12 @@ export async function collectRuntimeStatus(requestHost?: string | null): Promise
       value: runtimeHost.allowedHosts.length ? runtimeHost.allowedHosts.join(", ") : "None configured",
       note: "Loaded from BrandHost rows. The current request host is included so this diagnostics page can still reason about unmapped hosts.",
     },
+    {
+      label: "Command API Circuit Breaker",
+      value:
+        commandCircuit.state === "open" ? "Open" : commandCircuit.state === "half-open" ? "Half-open" : "Closed",
+      note: commandCircuitNote,
+    },
     {
       label: "Auth Cookie Domain",
       value: authCookieDomain() || "Host-only",
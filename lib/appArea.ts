@@ -2,6 +2,10 @@ export type AppArea = "public" | "backoffice";
 
 const BACKOFFICE_PATH_PREFIXES = ["/admin", "/auth", "/tools", "/prompts", "/guides", "/resources"] as const;
 
+// Public pages rendered without the chat overlay or analytics consent banner:
+// unattended venue screens and widgets framed on partner sites.
+const CHROMELESS_PATH_PREFIXES = ["/schedule/board", "/embed"] as const;
+
 export function isBackofficePathname(pathname: string): boolean {
   return BACKOFFICE_PATH_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
 }
@@ -10,6 +14,10 @@ export function getAppArea(pathname: string): AppArea {
   return isBackofficePathname(pathname) ? "backoffice" : "public";
 }
 
+export function isChromelessPathname(pathname: string): boolean {
+  return CHROMELESS_PATH_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
 export function shouldRenderPublicChat(pathname: string): boolean {
-  return getAppArea(pathname) === "public";
+  return getAppArea(pathname) === "public" && !isChromelessPathname(pathname);
 }
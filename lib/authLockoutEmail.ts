@@ -0,0 +1,90 @@
+import type { IncomingMessage } from "http";
+import { resolvePublicBrandContextForHost } from "./brandContext";
+import { resolveBrandEmailConfig, sendBrandEmail } from "./brandEmail";
+import { getApiRequestHost } from "./requestHost";
+import { getClientIp } from "./requestIdentity";
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function buildAuthLockoutEmail(params: {
+  brandName: string;
+  accountLabel: string;
+  lockedUntil: Date;
+  ip: string | null;
+}) {
+  const subject = `${params.brandName}: sign-in temporarily locked`;
+  const until = params.lockedUntil.toUTCString();
+  const source = params.ip ? ` from ${params.ip}` : "";
+
+  const textLines = [
+    "Hi,",
+    "",
+    `We temporarily locked sign-in for ${params.accountLabel} after repeated failed attempts${source}.`,
+    `You can try again after ${until}.`,
+    "",
+    "If this was not you, reset your password once the lock lifts and let your administrator know.",
+  ];
+  const html = [
+    "<p>Hi,</p>",
+    `<p>We temporarily locked sign-in for <strong>${escapeHtml(params.accountLabel)}</strong> after repeated failed attempts${escapeHtml(
+      source
+    )}.</p>`,
+    `<p>You can try again after ${escapeHtml(until)}.</p>`,
+    `<p style="font-size:12px;color:#666">If this was not you, reset your password once the lock lifts and let your administrator know.</p>`,
+  ].join("");
+
+  return { subject, text: textLines.join("\n"), html };
+}
+
+// Sent through the email config of the brand whose host the attempt came in
+// on. Failures are logged and swallowed: the sign-in response must not depend
+// on the email going out.
+export async function sendAuthLockoutEmail(params: {
+  req: Pick<IncomingMessage, "headers">;
+  to: string | null | undefined;
+  accountLabel: string;
+  lockedUntil: Date;
+}) {
+  const to = String(params.to || "").trim();
+  if (!to) return;
+
+  try {
+    const brand = await resolvePublicBrandContextForHost(getApiRequestHost(params.req));
+    if (!brand) {
+      console.warn("[auth-lockout] no brand for request host; lockout email skipped");
+      return;
+    }
+
+    const emailConfig = await resolveBrandEmailConfig(brand, "auth");
+    if (!emailConfig.ok) {
+      console.warn("[auth-lockout] brand email unavailable; lockout email skipped", { code: emailConfig.code });
+      return;
+    }
+
+    const ip = getClientIp(params.req);
+    const email = buildAuthLockoutEmail({
+      brandName: emailConfig.config.brandName,
+      accountLabel: params.accountLabel,
+      lockedUntil: params.lockedUntil,
+      ip: ip && ip !== "unknown" ? ip : null,
+    });
+    const result = await sendBrandEmail({
+      config: emailConfig.config,
+      to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+    if (result.error) throw new Error(result.error.message);
+  } catch (error) {
+    console.error("[auth-lockout] failed to send lockout email", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
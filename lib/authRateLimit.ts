@@ -0,0 +1,351 @@
+// lib/authRateLimit.ts
+// Failed-attempt limiter for sign-in style endpoints (backoffice password and
+// MFA code checks, partner/sponsor portal logins).
+//
+// - Each limiter tracks failures per identifier (account) and per client IP.
+//   Past a few free attempts every further failure doubles the wait before
+//   the next attempt is accepted, up to a cap.
+// - Identifier policies can also lock the account for a fixed period after
+//   repeated failures. Callers are told when a failure caused the lock so they
+//   can notify the account owner.
+// - Success clears the identifier's failures; the IP counter only decays, so
+//   one valid account cannot be used to reset throttling for a sprayed IP.
+// - A process-local memory store is used unless
+//   AUTH_RATE_LIMIT_REDIS_REST_URL/_TOKEN is set, in which case an
+//   Upstash-compatible REST store is shared by all instances. Reads and writes
+//   are not atomic, so concurrent failures may be undercounted slightly.
+
+import crypto from "crypto";
+
+export type AuthRateLimitPolicy = {
+  freeAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  lockoutAfter: number | null;
+  lockoutSeconds: number;
+  // Failures are forgotten once this long has passed without a new one.
+  windowSeconds: number;
+};
+
+export type AuthRateLimitEntry = {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+  lockedUntil: number;
+};
+
+export interface AuthRateLimitStore {
+  get(key: string): Promise<AuthRateLimitEntry | null>;
+  set(key: string, entry: AuthRateLimitEntry, retainSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type AuthRateLimitSubject = {
+  identifier: string | null;
+  ip: string | null;
+};
+
+export type AuthRateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "THROTTLED" | "LOCKED"; retryAfterSeconds: number };
+
+export type AuthRateLimitFailureResult = {
+  lockedNow: boolean;
+  lockedUntil: Date | null;
+};
+
+export type AuthRateLimiter = {
+  check(subject: AuthRateLimitSubject): Promise<AuthRateLimitDecision>;
+  recordFailure(subject: AuthRateLimitSubject): Promise<AuthRateLimitFailureResult>;
+  recordSuccess(identifier: string): Promise<void>;
+  getLockedUntil(identifier: string): Promise<Date | null>;
+  unlock(identifier: string): Promise<void>;
+};
+
+const MEMORY_STORE_MAX_ENTRIES = 10_000;
+const KEY_PREFIX = "auth-rate-limit:v1";
+
+export function createMemoryAuthRateLimitStore(maxEntries = MEMORY_STORE_MAX_ENTRIES): AuthRateLimitStore {
+  const entries = new Map<string, { entry: AuthRateLimitEntry; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const hit = entries.get(key);
+      if (!hit) return null;
+      if (hit.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return { ...hit.entry };
+    },
+    async set(key, entry, retain) {
+      entries.delete(key);
+      entries.set(key, { entry: { ...entry }, expiresAt: Date.now() + retain * 1000 });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (typeof oldest !== "string") break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createRedisRestAuthRateLimitStore(config: { url: string; token: string }): AuthRateLimitStore {
+  const baseUrl = config.url.replace(/\/+$/, "");
+  const headers = { Authorization: `Bearer ${config.token}` };
+
+  return {
+    async get(key) {
+      const res = await fetch(`${baseUrl}/get/${encodeURIComponent(key)}`, { headers, cache: "no-store" });
+      if (!res.ok) throw new Error(`Shared rate limit read failed (${res.status})`);
+      const payload = (await res.json()) as { result?: string | null };
+      if (!payload.result) return null;
+      return JSON.parse(payload.result) as AuthRateLimitEntry;
+    },
+    async set(key, entry, retain) {
+      const res = await fetch(`${baseUrl}/set/${encodeURIComponent(key)}?EX=${Math.ceil(retain)}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(entry),
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(`Shared rate limit write failed (${res.status})`);
+    },
+    async delete(key) {
+      const res = await fetch(`${baseUrl}/del/${encodeURIComponent(key)}`, {
+        method: "POST",
+        headers,
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(`Shared rate limit delete failed (${res.status})`);
+    },
+  };
+}
+
+let memoryStore: AuthRateLimitStore | null = null;
+let sharedStore: AuthRateLimitStore | null | undefined;
+
+function getMemoryStore() {
+  if (!memoryStore) memoryStore = createMemoryAuthRateLimitStore();
+  return memoryStore;
+}
+
+function getSharedStore() {
+  if (typeof sharedStore !== "undefined") return sharedStore;
+  const url = String(process.env.AUTH_RATE_LIMIT_REDIS_REST_URL || "").trim();
+  const token = String(process.env.AUTH_RATE_LIMIT_REDIS_REST_TOKEN || "").trim();
+  sharedStore = url && token ? createRedisRestAuthRateLimitStore({ url, token }) : null;
+  return sharedStore;
+}
+
+// Lets deployments plug in a different shared store (or null to run memory-only).
+export function setAuthRateLimitSharedStore(store: AuthRateLimitStore | null) {
+  sharedStore = store;
+}
+
+// The shared store is authoritative when configured. If it is unreachable the
+// memory store keeps throttling this instance rather than failing open.
+async function withStore<T>(operation: string, run: (store: AuthRateLimitStore) => Promise<T>): Promise<T> {
+  const shared = getSharedStore();
+  if (shared) {
+    try {
+      return await run(shared);
+    } catch (error) {
+      console.error(`[auth-rate-limit] shared store ${operation} failed`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return run(getMemoryStore());
+}
+
+function normalizeIdentifier(value: string | null | undefined) {
+  return String(value || "")
+    .trim()
+    .toLowerCase();
+}
+
+function normalizeIp(value: string | null | undefined) {
+  const ip = String(value || "").trim();
+  return ip && ip !== "unknown" ? ip : "";
+}
+
+// Hashed so account emails and client IPs are not stored as readable keys.
+function buildKey(limiterName: string, kind: "id" | "ip", value: string) {
+  const digest = crypto.createHash("sha256").update(value).digest("hex").slice(0, 32);
+  return `${KEY_PREFIX}:${limiterName}:${kind}:${digest}`;
+}
+
+function backoffSeconds(policy: AuthRateLimitPolicy, failures: number) {
+  const excess = failures - policy.freeAttempts;
+  if (excess <= 0) return 0;
+  return Math.min(policy.maxDelaySeconds, policy.baseDelaySeconds * 2 ** (excess - 1));
+}
+
+function evaluateEntry(entry: AuthRateLimitEntry | null, now: number): AuthRateLimitDecision {
+  if (!entry) return { allowed: true };
+  if (entry.lockedUntil > now) {
+    return { allowed: false, reason: "LOCKED", retryAfterSeconds: Math.ceil((entry.lockedUntil - now) / 1000) };
+  }
+  if (entry.blockedUntil > now) {
+    return { allowed: false, reason: "THROTTLED", retryAfterSeconds: Math.ceil((entry.blockedUntil - now) / 1000) };
+  }
+  return { allowed: true };
+}
+
+function mergeDecisions(decisions: AuthRateLimitDecision[]): AuthRateLimitDecision {
+  let merged: AuthRateLimitDecision = { allowed: true };
+  for (const decision of decisions) {
+    if (decision.allowed) continue;
+    if (merged.allowed) {
+      merged = decision;
+      continue;
+    }
+    merged = {
+      allowed: false,
+      reason: merged.reason === "LOCKED" || decision.reason === "LOCKED" ? "LOCKED" : "THROTTLED",
+      retryAfterSeconds: Math.max(merged.retryAfterSeconds, decision.retryAfterSeconds),
+    };
+  }
+  return merged;
+}
+
+export function createAuthRateLimiter(
+  name: string,
+  policies: { identifier: AuthRateLimitPolicy; ip: AuthRateLimitPolicy }
+): AuthRateLimiter {
+  function targets(subject: AuthRateLimitSubject) {
+    const identifier = normalizeIdentifier(subject.identifier);
+    const ip = normalizeIp(subject.ip);
+    return [
+      ...(identifier ? [{ key: buildKey(name, "id", identifier), policy: policies.identifier }] : []),
+      ...(ip ? [{ key: buildKey(name, "ip", ip), policy: policies.ip }] : []),
+    ];
+  }
+
+  async function registerFailure(key: string, policy: AuthRateLimitPolicy, now: number) {
+    const existing = await withStore("read", (store) => store.get(key));
+    const expired = !existing || now - existing.lastFailureAt > policy.windowSeconds * 1000;
+    const entry: AuthRateLimitEntry =
+      existing && !expired ? existing : { failures: 0, lastFailureAt: now, blockedUntil: 0, lockedUntil: 0 };
+
+    const wasLocked = entry.lockedUntil > now;
+    entry.failures += 1;
+    entry.lastFailureAt = now;
+
+    let lockedNow = false;
+    if (!wasLocked && policy.lockoutAfter !== null && entry.failures >= policy.lockoutAfter) {
+      entry.lockedUntil = now + policy.lockoutSeconds * 1000;
+      // The lock replaces backoff; once it lifts the account starts over.
+      entry.failures = 0;
+      entry.blockedUntil = 0;
+      lockedNow = true;
+    } else {
+      entry.blockedUntil = Math.max(entry.blockedUntil, now + backoffSeconds(policy, entry.failures) * 1000);
+    }
+
+    const retain = Math.max(policy.windowSeconds, Math.ceil((Math.max(entry.lockedUntil, entry.blockedUntil) - now) / 1000));
+    await withStore("write", (store) => store.set(key, entry, retain));
+
+    return { lockedNow, lockedUntil: entry.lockedUntil > now ? new Date(entry.lockedUntil) : null };
+  }
+
+  return {
+    async check(subject) {
+      const now = Date.now();
+      const decisions = await Promise.all(
+        targets(subject).map(async ({ key }) => evaluateEntry(await withStore("read", (store) => store.get(key)), now))
+      );
+      return mergeDecisions(decisions);
+    },
+
+    async recordFailure(subject) {
+      const now = Date.now();
+      const identifier = normalizeIdentifier(subject.identifier);
+      const results = await Promise.all(targets(subject).map(({ key, policy }) => registerFailure(key, policy, now)));
+      // Only the identifier entry can lock; it is always first when present.
+      return identifier ? results[0] : { lockedNow: false, lockedUntil: null };
+    },
+
+    async recordSuccess(identifier) {
+      const normalized = normalizeIdentifier(identifier);
+      if (!normalized) return;
+      await withStore("delete", (store) => store.delete(buildKey(name, "id", normalized)));
+    },
+
+    async getLockedUntil(identifier) {
+      const normalized = normalizeIdentifier(identifier);
+      if (!normalized) return null;
+      const entry = await withStore("read", (store) => store.get(buildKey(name, "id", normalized)));
+      return entry && entry.lockedUntil > Date.now() ? new Date(entry.lockedUntil) : null;
+    },
+
+    async unlock(identifier) {
+      const normalized = normalizeIdentifier(identifier);
+      if (!normalized) return;
+      await withStore("delete", (store) => store.delete(buildKey(name, "id", normalized)));
+    },
+  };
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+export function describeAuthRateLimitDecision(decision: Exclude<AuthRateLimitDecision, { allowed: true }>) {
+  if (decision.reason === "LOCKED") {
+    return `This account is temporarily locked after repeated failed sign-in attempts. Try again in ${formatWait(
+      decision.retryAfterSeconds
+    )}.`;
+  }
+  return `Too many failed attempts. Try again in ${formatWait(decision.retryAfterSeconds)}.`;
+}
+
+export function lockoutDecision(lockedUntil: Date): Exclude<AuthRateLimitDecision, { allowed: true }> {
+  return {
+    allowed: false,
+    reason: "LOCKED",
+    retryAfterSeconds: Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)),
+  };
+}
+
+const ACCOUNT_PASSWORD_POLICY: AuthRateLimitPolicy = {
+  freeAttempts: 3,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 5 * 60,
+  lockoutAfter: 10,
+  lockoutSeconds: 15 * 60,
+  windowSeconds: 60 * 60,
+};
+
+const CLIENT_IP_POLICY: AuthRateLimitPolicy = {
+  freeAttempts: 20,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 15 * 60,
+  lockoutAfter: null,
+  lockoutSeconds: 0,
+  windowSeconds: 60 * 60,
+};
+
+// Backoffice identifiers are the user id when the account exists, so the
+// admin unlock can clear them without knowing what was typed.
+export const backofficeSignInLimiter = createAuthRateLimiter("backoffice-signin", {
+  identifier: ACCOUNT_PASSWORD_POLICY,
+  ip: CLIENT_IP_POLICY,
+});
+
+// Six-digit codes need a tighter budget than passwords.
+export const backofficeMfaLimiter = createAuthRateLimiter("backoffice-mfa", {
+  identifier: { ...ACCOUNT_PASSWORD_POLICY, lockoutAfter: 6 },
+  ip: CLIENT_IP_POLICY,
+});
+
+export const partnerPortalLoginLimiters = {
+  partners: createAuthRateLimiter("partners-login", { identifier: ACCOUNT_PASSWORD_POLICY, ip: CLIENT_IP_POLICY }),
+  sponsors: createAuthRateLimiter("sponsors-login", { identifier: ACCOUNT_PASSWORD_POLICY, ip: CLIENT_IP_POLICY }),
+};
@@ -2,6 +2,7 @@ export const BACKOFFICE_AUTH_SCOPE = "BACKOFFICE" as const;
 export const EXTERNAL_AUTH_SCOPE = "EXTERNAL" as const;
 export const EXTERNAL_LEGACY_AUTH_SCOPE = "EXTERNAL_LEGACY" as const;
 export const BACKOFFICE_CREDENTIALS_PROVIDER_ID = "backoffice-credentials" as const;
+export const BACKOFFICE_PASSKEY_PROVIDER_ID = "backoffice-passkey" as const;
 export const EXTERNAL_CREDENTIALS_PROVIDER_ID = "credentials" as const;
 
 export type AuthScope =
@@ -53,6 +54,18 @@ export function getBackofficeMfaChallenge(source: any): string | null {
   return typeof value === "string" && value ? value : null;
 }
 
+// Set when the session was opened with a passkey, which already counts as the
+// second factor for that challenge.
+export function getBackofficeMfaPasskeyChallenge(source: any): string | null {
+  const value = readValue(source, "backofficeMfaPasskeyChallenge");
+  return typeof value === "string" && value ? value : null;
+}
+
+export function getBackofficeSessionId(source: any): string | null {
+  const value = readValue(source, "backofficeSessionId");
+  return typeof value === "string" && value ? value : null;
+}
+
 export function getSessionUserId(source: any): string | null {
   const id = readValue(source, "id");
   return typeof id === "string" && id ? id : null;
@@ -7,8 +7,22 @@ import {
   BrandStatus,
   type Prisma,
 } from "@prisma/client";
+import { backofficeMfaLimiter, backofficeSignInLimiter } from "./authRateLimit";
+import { recordBackofficeAuditEvent, type BackofficeAuditActor } from "./backofficeAudit";
 import { isProtectedBackofficeIdentity } from "./backofficeIdentity";
-import { deriveBackofficeMfaState, type BackofficeMfaState } from "./backofficeMfa";
+import {
+  listBackofficeSessions,
+  revokeAllBackofficeSessions,
+  revokeBackofficeSession,
+  type BackofficeSessionRecord,
+} from "./backofficeSessions";
+import { deriveBackofficeMfaEnabledAt, deriveBackofficeMfaState, type BackofficeMfaState } from "./backofficeMfa";
+import {
+  evaluateBackofficeMfaCompliance,
+  getBackofficeMfaPolicy,
+  type BackofficeMfaCompliance,
+  type BackofficeMfaPolicyRecord,
+} from "./backofficeMfaPolicy";
 import { MIN_BACKOFFICE_PASSWORD_LENGTH } from "./backofficePasswordPolicy";
 import { prisma } from "./prisma";
 
@@ -30,6 +44,11 @@ type ManagedBackofficeUserPayload = Prisma.BackofficeUserGetPayload<{
         };
       };
     };
+    webauthnCredentials: {
+      select: {
+        createdAt: true;
+      };
+    };
   };
 }>;
 
@@ -49,10 +68,13 @@ export type ManagedBackofficeUserRecord = {
   mfaMethod: BackofficeMfaMethod | null;
   mfaState: BackofficeMfaState;
   mfaEnabledAt: string | null;
+  webauthnCredentialCount: number;
+  mfaCompliance: BackofficeMfaCompliance;
   mfaRecoveryCodesGeneratedAt: string | null;
   createdAt: string;
   updatedAt: string;
   lastLoginAt: string | null;
+  signInLockedUntil: string | null;
   brandAccessCount: number;
   brandAccesses: BrandAccessRecord[];
   brandIds: string[];
@@ -120,10 +142,15 @@ function randomPassword(length = 32) {
   return crypto.randomBytes(length).toString("base64url");
 }
 
-function toManagedBackofficeUserRecord(user: ManagedBackofficeUserPayload): ManagedBackofficeUserRecord {
+function toManagedBackofficeUserRecord(
+  user: ManagedBackofficeUserPayload,
+  policy: BackofficeMfaPolicyRecord,
+  signInLockedUntil: Date | null
+): ManagedBackofficeUserRecord {
   const brandAccesses = user.brandAccesses
     .map((access) => access.brand)
     .filter((brand): brand is BrandAccessRecord => Boolean(brand));
+  const mfaState = deriveBackofficeMfaState(user);
 
   return {
     id: user.id,
@@ -132,17 +159,20 @@ function toManagedBackofficeUserRecord(user: ManagedBackofficeUserPayload): Mana
     role: user.role,
     status: user.status,
     mfaMethod: user.mfaMethod || null,
-    mfaState: deriveBackofficeMfaState({
-      mfaMethod: user.mfaMethod,
-      mfaEnabledAt: user.mfaEnabledAt,
-      mfaSecretEncrypted: user.mfaSecretEncrypted,
-      mfaRecoveryCodesEncrypted: user.mfaRecoveryCodesEncrypted,
+    mfaState,
+    mfaEnabledAt: deriveBackofficeMfaEnabledAt(user)?.toISOString() || null,
+    webauthnCredentialCount: user.webauthnCredentials.length,
+    mfaCompliance: evaluateBackofficeMfaCompliance(policy, {
+      role: user.role,
+      createdAt: user.createdAt,
+      brandIds: brandAccesses.filter((brand) => brand.status !== BrandStatus.DISABLED).map((brand) => brand.id),
+      mfaState,
     }),
-    mfaEnabledAt: user.mfaEnabledAt ? user.mfaEnabledAt.toISOString() : null,
     mfaRecoveryCodesGeneratedAt: user.mfaRecoveryCodesGeneratedAt ? user.mfaRecoveryCodesGeneratedAt.toISOString() : null,
     createdAt: user.createdAt.toISOString(),
     updatedAt: user.updatedAt.toISOString(),
     lastLoginAt: user.lastLoginAt ? user.lastLoginAt.toISOString() : null,
+    signInLockedUntil: signInLockedUntil ? signInLockedUntil.toISOString() : null,
     brandAccessCount: brandAccesses.length,
     brandAccesses,
     brandIds: brandAccesses.map((brand) => brand.id),
@@ -152,6 +182,27 @@ function toManagedBackofficeUserRecord(user: ManagedBackofficeUserPayload): Mana
   };
 }
 
+// Password and MFA code failures lock separately; whichever lifts later wins.
+async function getBackofficeSignInLockedUntil(userId: string): Promise<Date | null> {
+  const [passwordLock, mfaLock] = await Promise.all([
+    backofficeSignInLimiter.getLockedUntil(userId),
+    backofficeMfaLimiter.getLockedUntil(userId),
+  ]);
+  if (!passwordLock || !mfaLock) return passwordLock || mfaLock;
+  return passwordLock > mfaLock ? passwordLock : mfaLock;
+}
+
+function toStaffAuditSnapshot(user: ManagedBackofficeUserPayload) {
+  return {
+    username: user.username,
+    email: user.email || null,
+    role: user.role,
+    status: user.status,
+    mfaState: deriveBackofficeMfaState(user),
+    brandKeys: user.brandAccesses.map((access) => access.brand.brandKey).sort(),
+  };
+}
+
 async function findManagedBackofficeUserById(id: string): Promise<ManagedBackofficeUserPayload | null> {
   return prisma.backofficeUser.findUnique({
     where: { id },
@@ -168,6 +219,11 @@ async function findManagedBackofficeUserById(id: string): Promise<ManagedBackoff
           },
         },
       },
+      webauthnCredentials: {
+        select: {
+          createdAt: true,
+        },
+      },
     },
   });
 }
@@ -286,18 +342,31 @@ export async function listManagedBackofficeUsers(): Promise<ManagedBackofficeUse
           },
         },
       },
+      webauthnCredentials: {
+        select: {
+          createdAt: true,
+        },
+      },
     },
   });
 
-  return users.map(toManagedBackofficeUserRecord);
+  const policy = await getBackofficeMfaPolicy();
+  return Promise.all(
+    users.map(async (user) => toManagedBackofficeUserRecord(user, policy, await getBackofficeSignInLockedUntil(user.id)))
+  );
 }
 
 export async function getManagedBackofficeUser(id: string): Promise<ManagedBackofficeUserRecord | null> {
   const user = await findManagedBackofficeUserById(id);
-  return user ? toManagedBackofficeUserRecord(user) : null;
+  return user
+    ? toManagedBackofficeUserRecord(user, await getBackofficeMfaPolicy(), await getBackofficeSignInLockedUntil(user.id))
+    : null;
 }
 
-export async function createManagedBackofficeUser(input: StaffUserInput): Promise<ManagedBackofficeUserRecord> {
+export async function createManagedBackofficeUser(
+  actor: BackofficeAuditActor,
+  input: StaffUserInput
+): Promise<ManagedBackofficeUserRecord> {
   const username = normalizeUsername(input.username);
   const email = normalizeOptionalEmail(input.email);
   const requestedRole = parseRole(input.role || BackofficeRole.STAFF);
@@ -343,6 +412,11 @@ export async function createManagedBackofficeUser(input: StaffUserInput): Promis
             },
           },
         },
+        webauthnCredentials: {
+          select: {
+            createdAt: true,
+          },
+        },
       },
     });
 
@@ -371,17 +445,32 @@ export async function createManagedBackofficeUser(input: StaffUserInput): Promis
             },
           },
         },
+        webauthnCredentials: {
+          select: {
+            createdAt: true,
+          },
+        },
       },
     });
 
     if (!reloaded) throw new Error("Failed to load created staff account");
+    await recordBackofficeAuditEvent(tx, actor, {
+      action: "STAFF_CREATED",
+      targetType: "BackofficeUser",
+      targetId: reloaded.id,
+      targetLabel: reloaded.username,
+      after: toStaffAuditSnapshot(reloaded),
+    });
     return reloaded;
   });
 
-  return toManagedBackofficeUserRecord(created);
+  return toManagedBackofficeUserRecord(created, await getBackofficeMfaPolicy(), null);
 }
 
-export async function createManagedBackofficeInvite(input: StaffUserInput): Promise<ManagedBackofficeUserRecord> {
+export async function createManagedBackofficeInvite(
+  actor: BackofficeAuditActor,
+  input: StaffUserInput
+): Promise<ManagedBackofficeUserRecord> {
   const username = normalizeUsername(input.username);
   const email = normalizeOptionalEmail(input.email);
   const requestedRole = parseRole(input.role || BackofficeRole.STAFF);
@@ -423,6 +512,11 @@ export async function createManagedBackofficeInvite(input: StaffUserInput): Prom
             },
           },
         },
+        webauthnCredentials: {
+          select: {
+            createdAt: true,
+          },
+        },
       },
     });
 
@@ -451,18 +545,30 @@ export async function createManagedBackofficeInvite(input: StaffUserInput): Prom
             },
           },
         },
+        webauthnCredentials: {
+          select: {
+            createdAt: true,
+          },
+        },
       },
     });
 
     if (!reloaded) throw new Error("Failed to load created staff account");
+    await recordBackofficeAuditEvent(tx, actor, {
+      action: "STAFF_INVITED",
+      targetType: "BackofficeUser",
+      targetId: reloaded.id,
+      targetLabel: reloaded.username,
+      after: toStaffAuditSnapshot(reloaded),
+    });
     return reloaded;
   });
 
-  return toManagedBackofficeUserRecord(created);
+  return toManagedBackofficeUserRecord(created, await getBackofficeMfaPolicy(), null);
 }
 
 export async function updateManagedBackofficeUser(
-  actorId: string,
+  actor: BackofficeAuditActor,
   userId: string,
   input: StaffUserInput
 ): Promise<ManagedBackofficeUserRecord> {
@@ -480,7 +586,7 @@ export async function updateManagedBackofficeUser(
   await ensureUniqueUsername(username, existing.id);
   await ensureUniqueEmail(email, existing.id);
 
-  const isSelf = actorId === existing.id;
+  const isSelf = actor.userId === existing.id;
   const isProtected = isProtectedBackofficeIdentity(existing.email, existing.username);
   const role = isProtected ? BackofficeRole.SUPERADMIN : requestedRole;
 
@@ -545,25 +651,65 @@ export async function updateManagedBackofficeUser(
             },
           },
         },
+        webauthnCredentials: {
+          select: {
+            createdAt: true,
+          },
+        },
       },
     });
 
     if (!reloaded) throw new Error("Failed to load updated staff account");
+
+    const before = toStaffAuditSnapshot(existing);
+    const after = toStaffAuditSnapshot(reloaded);
+    const changedFields = (["username", "email", "role"] as const).filter((field) => before[field] !== after[field]);
+    if (changedFields.length > 0 || passwordHash) {
+      await recordBackofficeAuditEvent(tx, actor, {
+        action: "STAFF_UPDATED",
+        targetType: "BackofficeUser",
+        targetId: reloaded.id,
+        targetLabel: reloaded.username,
+        before: Object.fromEntries(changedFields.map((field) => [field, before[field]])),
+        after: Object.fromEntries(changedFields.map((field) => [field, after[field]])),
+        metadata: { passwordChanged: Boolean(passwordHash) },
+      });
+    }
+
+    if (before.brandKeys.join(",") !== after.brandKeys.join(",")) {
+      await recordBackofficeAuditEvent(tx, actor, {
+        action: "STAFF_BRAND_ACCESS_CHANGED",
+        targetType: "BackofficeUser",
+        targetId: reloaded.id,
+        targetLabel: reloaded.username,
+        before: { brandKeys: before.brandKeys },
+        after: { brandKeys: after.brandKeys },
+        metadata: {
+          added: after.brandKeys.filter((brandKey) => !before.brandKeys.includes(brandKey)),
+          removed: before.brandKeys.filter((brandKey) => !after.brandKeys.includes(brandKey)),
+        },
+      });
+    }
+
     return reloaded;
   });
 
-  return toManagedBackofficeUserRecord(updated);
+  return toManagedBackofficeUserRecord(
+    updated,
+    await getBackofficeMfaPolicy(),
+    await getBackofficeSignInLockedUntil(updated.id)
+  );
 }
 
 export async function setManagedBackofficeUserStatus(
-  actorId: string,
+  actor: BackofficeAuditActor,
   userId: string,
   nextStatus: BackofficeUserStatus
 ): Promise<ManagedBackofficeUserRecord> {
   const existing = await findManagedBackofficeUserById(userId);
   if (!existing) throw new Error("Staff account not found");
 
-  if (actorId === existing.id) {
+  if (actor.userId === existing.id) {
     throw new Error("You cannot change your own status");
   }
 
@@ -573,33 +719,62 @@ export async function setManagedBackofficeUserStatus(
 
   await ensureNotLastActiveSuperadmin(existing, existing.role, nextStatus);
 
-  const updated = await prisma.backofficeUser.update({
-    where: { id: existing.id },
-    data: { status: nextStatus },
-    include: {
-      brandAccesses: {
-        include: {
-          brand: {
-            select: {
-              id: true,
-              brandKey: true,
-              name: true,
-              status: true,
+  const updated = await prisma.$transaction(async (tx) => {
+    const row = await tx.backofficeUser.update({
+      where: { id: existing.id },
+      data: { status: nextStatus },
+      include: {
+        brandAccesses: {
+          include: {
+            brand: {
+              select: {
+                id: true,
+                brandKey: true,
+                name: true,
+                status: true,
+              },
             },
           },
         },
+        webauthnCredentials: {
+          select: {
+            createdAt: true,
+          },
+        },
       },
-    },
+    });
+
+    // Blocking must end sessions that are already open, not just stop new sign-ins.
+    if (nextStatus === BackofficeUserStatus.BLOCKED) {
+      await revokeAllBackofficeSessions(row.id, tx);
+    }
+
+    if (existing.status !== row.status) {
+      await recordBackofficeAuditEvent(tx, actor, {
+        action: nextStatus === BackofficeUserStatus.BLOCKED ? "STAFF_BLOCKED" : "STAFF_UNBLOCKED",
+        targetType: "BackofficeUser",
+        targetId: row.id,
+        targetLabel: row.username,
+        before: { status: existing.status },
+        after: { status: row.status },
+      });
+    }
+
+    return row;
   });
 
-  return toManagedBackofficeUserRecord(updated);
+  return toManagedBackofficeUserRecord(
+    updated,
+    await getBackofficeMfaPolicy(),
+    await getBackofficeSignInLockedUntil(updated.id)
+  );
 }
 
-export async function deleteManagedBackofficeUser(actorId: string, userId: string) {
+export async function deleteManagedBackofficeUser(actor: BackofficeAuditActor, userId: string) {
   const existing = await findManagedBackofficeUserById(userId);
   if (!existing) throw new Error("Staff account not found");
 
-  if (actorId === existing.id) {
+  if (actor.userId === existing.id) {
     throw new Error("You cannot delete your own account");
   }
 
@@ -609,12 +784,23 @@ export async function deleteManagedBackofficeUser(actorId: string, userId: strin
 
   await ensureNotLastActiveSuperadmin(existing, BackofficeRole.STAFF, BackofficeUserStatus.BLOCKED);
 
-  await prisma.backofficeUser.delete({
-    where: { id: existing.id },
+  await prisma.$transaction(async (tx) => {
+    await tx.backofficeUser.delete({
+      where: { id: existing.id },
+    });
+
+    await recordBackofficeAuditEvent(tx, actor, {
+      action: "STAFF_DELETED",
+      targetType: "BackofficeUser",
+      targetId: existing.id,
+      targetLabel: existing.username,
+      before: toStaffAuditSnapshot(existing),
+    });
   });
 }
 
 export async function createManagedBackofficePasswordLink(
+  actor: BackofficeAuditActor,
   userId: string,
   kind: "invite" | "reset",
   baseUrl: string
@@ -638,16 +824,27 @@ export async function createManagedBackofficePasswordLink(
   const tokenHash = sha256(rawToken);
   const expiresAt = new Date(Date.now() + (kind === "invite" ? BACKOFFICE_INVITE_TTL_MS : BACKOFFICE_RESET_TTL_MS));
 
-  await prisma.backofficePasswordResetToken.deleteMany({
-    where: { identifier: user.id },
-  });
+  await prisma.$transaction(async (tx) => {
+    await tx.backofficePasswordResetToken.deleteMany({
+      where: { identifier: user.id },
+    });
 
-  await prisma.backofficePasswordResetToken.create({
-    data: {
-      identifier: user.id,
-      token: tokenHash,
-      expires: expiresAt,
-    },
+    await tx.backofficePasswordResetToken.create({
+      data: {
+        identifier: user.id,
+        token: tokenHash,
+        expires: expiresAt,
+      },
+    });
+
+    // The link itself is a credential, so only its kind and expiry are logged.
+    await recordBackofficeAuditEvent(tx, actor, {
+      action: "STAFF_PASSWORD_LINK_CREATED",
+      targetType: "BackofficeUser",
+      targetId: user.id,
+      targetLabel: user.username,
+      metadata: { kind, expiresAt: expiresAt.toISOString() },
+    });
   });
 
   const url = `${baseUrl}/admin/reset-password?id=${encodeURIComponent(user.id)}&token=${rawToken}`;
@@ -662,36 +859,122 @@ export async function createManagedBackofficePasswordLink(
   };
 }
 
-export async function resetManagedBackofficeUserMfa(userId: string): Promise<ManagedBackofficeUserRecord> {
+export async function resetManagedBackofficeUserMfa(
+  actor: BackofficeAuditActor,
+  userId: string
+): Promise<ManagedBackofficeUserRecord> {
   const existing = await findManagedBackofficeUserById(userId);
   if (!existing) throw new Error("Staff account not found");
 
-  const updated = await prisma.backofficeUser.update({
-    where: { id: existing.id },
-    data: {
-      mfaMethod: null,
-      mfaEnabledAt: null,
-      mfaSecretEncrypted: null,
-      mfaRecoveryCodesEncrypted: null,
-      mfaRecoveryCodesGeneratedAt: null,
-    },
-    include: {
-      brandAccesses: {
-        include: {
-          brand: {
-            select: {
-              id: true,
-              brandKey: true,
-              name: true,
-              status: true,
+  const updated = await prisma.$transaction(async (tx) => {
+    const row = await tx.backofficeUser.update({
+      where: { id: existing.id },
+      data: {
+        mfaMethod: null,
+        mfaEnabledAt: null,
+        mfaSecretEncrypted: null,
+        mfaRecoveryCodesEncrypted: null,
+        mfaRecoveryCodesGeneratedAt: null,
+        webauthnCredentials: { deleteMany: {} },
+      },
+      include: {
+        brandAccesses: {
+          include: {
+            brand: {
+              select: {
+                id: true,
+                brandKey: true,
+                name: true,
+                status: true,
+              },
             },
           },
         },
+        webauthnCredentials: {
+          select: {
+            createdAt: true,
+          },
+        },
       },
-    },
+    });
+
+    await recordBackofficeAuditEvent(tx, actor, {
+      action: "STAFF_MFA_RESET",
+      targetType: "BackofficeUser",
+      targetId: row.id,
+      targetLabel: row.username,
+      before: { mfaMethod: existing.mfaMethod || null, passkeyCount: existing.webauthnCredentials.length },
+      after: { mfaMethod: null, passkeyCount: 0 },
+    });
+
+    return row;
+  });
+
+  return toManagedBackofficeUserRecord(
+    updated,
+    await getBackofficeMfaPolicy(),
+    await getBackofficeSignInLockedUntil(updated.id)
+  );
+}
+
+export async function unlockManagedBackofficeUserSignIn(
+  actor: BackofficeAuditActor,
+  userId: string
+): Promise<ManagedBackofficeUserRecord> {
+  const existing = await findManagedBackofficeUserById(userId);
+  if (!existing) throw new Error("Staff account not found");
+
+  const lockedUntil = await getBackofficeSignInLockedUntil(existing.id);
+
+  // Locks live in the rate-limit store, outside the database transaction, so
+  // the audit row goes first: if it cannot be written nothing is unlocked.
+  await recordBackofficeAuditEvent(prisma, actor, {
+    action: "STAFF_SIGN_IN_UNLOCKED",
+    targetType: "BackofficeUser",
+    targetId: existing.id,
+    targetLabel: existing.username,
+    before: { signInLockedUntil: lockedUntil ? lockedUntil.toISOString() : null },
+    after: { signInLockedUntil: null },
+  });
+  await Promise.all([backofficeSignInLimiter.unlock(existing.id), backofficeMfaLimiter.unlock(existing.id)]);
+
+  return toManagedBackofficeUserRecord(existing, await getBackofficeMfaPolicy(), null);
+}
+
+export async function listManagedBackofficeUserSessions(userId: string): Promise<BackofficeSessionRecord[]> {
+  return listBackofficeSessions(userId, null);
+}
+
+// Without a sessionId every session for the account is ended.
+export async function revokeManagedBackofficeUserSessions(
+  actor: BackofficeAuditActor,
+  userId: string,
+  sessionId?: string | null
+): Promise<BackofficeSessionRecord[]> {
+  const existing = await prisma.backofficeUser.findUnique({
+    where: { id: userId },
+    select: { id: true, username: true },
+  });
+  if (!existing) throw new Error("Staff account not found");
+
+  await prisma.$transaction(async (tx) => {
+    let revokedCount = 1;
+    if (sessionId) {
+      await revokeBackofficeSession(existing.id, sessionId, tx);
+    } else {
+      revokedCount = await revokeAllBackofficeSessions(existing.id, tx);
+    }
+
+    await recordBackofficeAuditEvent(tx, actor, {
+      action: "STAFF_SESSIONS_REVOKED",
+      targetType: "BackofficeUser",
+      targetId: existing.id,
+      targetLabel: existing.username,
+      metadata: { sessionId: sessionId || null, revokedCount },
+    });
   });
 
-  return toManagedBackofficeUserRecord(updated);
+  return listBackofficeSessions(existing.id, null);
 }
 
 export async function consumeManagedBackofficePasswordReset(input: {
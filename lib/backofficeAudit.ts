@@ -0,0 +1,237 @@
+import type { NextApiRequest } from "next";
+import { Prisma } from "@prisma/client";
+import type { BackofficeIdentityState } from "./backofficeIdentity";
+import { prisma } from "./prisma";
+import { getClientIp, getUserAgent } from "./requestIdentity";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const EXPORT_PAGE_SIZE = 1_000;
+
+export const BACKOFFICE_AUDIT_ACTIONS = [
+  "STAFF_CREATED",
+  "STAFF_INVITED",
+  "STAFF_UPDATED",
+  "STAFF_BRAND_ACCESS_CHANGED",
+  "STAFF_BLOCKED",
+  "STAFF_UNBLOCKED",
+  "STAFF_DELETED",
+  "STAFF_PASSWORD_LINK_CREATED",
+  "STAFF_MFA_RESET",
+  "STAFF_SESSIONS_REVOKED",
+  "STAFF_SIGN_IN_UNLOCKED",
+  "PARTNER_PORTAL_SIGN_IN_UNLOCKED",
+  "MFA_POLICY_UPDATED",
+  "PROMPT_STATUS_BULK_CHANGED",
+  "LOGIN_GEO_BACKFILL_RUN",
+] as const;
+
+export type BackofficeAuditAction = (typeof BACKOFFICE_AUDIT_ACTIONS)[number];
+
+export type BackofficeAuditActor = {
+  userId: string;
+  username: string;
+  ip: string | null;
+  userAgent: string | null;
+};
+
+export type BackofficeAuditEntryInput = {
+  action: BackofficeAuditAction;
+  targetType?: string | null;
+  targetId?: string | null;
+  targetLabel?: string | null;
+  brandId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: unknown;
+};
+
+export type BackofficeAuditRecord = {
+  id: string;
+  action: string;
+  actorUserId: string | null;
+  actorUsername: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  targetLabel: string | null;
+  brandId: string | null;
+  before: unknown;
+  after: unknown;
+  metadata: unknown;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
+export type BackofficeAuditFilters = {
+  action?: unknown;
+  actorUserId?: unknown;
+  targetId?: unknown;
+  brandId?: unknown;
+  from?: unknown;
+  to?: unknown;
+  q?: unknown;
+};
+
+export function buildBackofficeAuditActor(
+  req: Pick<NextApiRequest, "headers" | "socket">,
+  principal: Pick<BackofficeIdentityState, "id" | "username">
+): BackofficeAuditActor {
+  const ip = getClientIp(req);
+  return {
+    userId: principal.id,
+    username: principal.username,
+    ip: ip && ip !== "unknown" ? ip : null,
+    userAgent: getUserAgent(req) || null,
+  };
+}
+
+function toJsonValue(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  if (value === undefined || value === null) return Prisma.JsonNull;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+// Pass the transaction that makes the audited change, so the change and its
+// audit row commit together. A failed write throws and rolls the change back;
+// nothing is changed without a record of it.
+export async function recordBackofficeAuditEvent(
+  tx: Prisma.TransactionClient,
+  actor: BackofficeAuditActor,
+  entry: BackofficeAuditEntryInput
+) {
+  await tx.backofficeAuditLog.create({
+    data: {
+      action: entry.action,
+      actorUserId: actor.userId,
+      actorUsername: actor.username,
+      targetType: entry.targetType ?? null,
+      targetId: entry.targetId ?? null,
+      targetLabel: entry.targetLabel ?? null,
+      brandId: entry.brandId ?? null,
+      before: toJsonValue(entry.before),
+      after: toJsonValue(entry.after),
+      metadata: toJsonValue(entry.metadata),
+      ip: actor.ip,
+      userAgent: actor.userAgent,
+    },
+  });
+}
+
+function readFilter(value: unknown): string {
+  return String((Array.isArray(value) ? value[0] : value) || "").trim();
+}
+
+function parseDateFilter(value: unknown, endOfDay: boolean): Date | null {
+  const raw = readFilter(value);
+  if (!raw) return null;
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(raw) ? `${raw}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z` : raw);
+  if (Number.isNaN(date.getTime())) throw new Error("Invalid date filter");
+  return date;
+}
+
+function buildWhere(filters: BackofficeAuditFilters): Prisma.BackofficeAuditLogWhereInput {
+  const action = readFilter(filters.action);
+  const actorUserId = readFilter(filters.actorUserId);
+  const targetId = readFilter(filters.targetId);
+  const brandId = readFilter(filters.brandId);
+  const q = readFilter(filters.q);
+  const from = parseDateFilter(filters.from, false);
+  const to = parseDateFilter(filters.to, true);
+
+  return {
+    ...(action ? { action } : {}),
+    ...(actorUserId ? { actorUserId } : {}),
+    ...(targetId ? { targetId } : {}),
+    ...(brandId ? { brandId } : {}),
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+    ...(q
+      ? {
+          OR: [
+            { actorUsername: { contains: q, mode: "insensitive" as const } },
+            { targetLabel: { contains: q, mode: "insensitive" as const } },
+            { targetId: q },
+            { ip: { startsWith: q } },
+          ],
+        }
+      : {}),
+  };
+}
+
+function mapAuditRecord(row: {
+  id: string;
+  action: string;
+  actorUserId: string | null;
+  actorUsername: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  targetLabel: string | null;
+  brandId: string | null;
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+  metadata: Prisma.JsonValue;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}): BackofficeAuditRecord {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function listBackofficeAuditEvents(
+  filters: BackofficeAuditFilters & { cursor?: unknown; limit?: unknown }
+): Promise<{ events: BackofficeAuditRecord[]; nextCursor: string | null }> {
+  const limit = Math.max(1, Math.min(MAX_PAGE_SIZE, Number(readFilter(filters.limit)) || DEFAULT_PAGE_SIZE));
+  const cursor = readFilter(filters.cursor);
+
+  const rows = await prisma.backofficeAuditLog.findMany({
+    where: buildWhere(filters),
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const page = rows.slice(0, limit);
+  return {
+    events: page.map(mapAuditRecord),
+    nextCursor: rows.length > limit ? page[page.length - 1]?.id || null : null,
+  };
+}
+
+// Hands every matching entry to onPage, newest first, one page at a time so
+// an export of any size can be streamed without holding it all in memory.
+// Invalid filters throw before the first page.
+export async function exportBackofficeAuditEvents(
+  filters: BackofficeAuditFilters,
+  onPage: (events: BackofficeAuditRecord[]) => void | Promise<void>
+) {
+  const where = buildWhere(filters);
+  let cursor: string | null = null;
+
+  do {
+    const events: BackofficeAuditRecord[] = (
+      await prisma.backofficeAuditLog.findMany({
+        where,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: EXPORT_PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      })
+    ).map(mapAuditRecord);
+    if (events.length > 0) await onPage(events);
+    cursor = events.length === EXPORT_PAGE_SIZE ? events[events.length - 1].id : null;
+  } while (cursor);
+}
+
+export async function listBackofficeAuditActors(): Promise<Array<{ id: string; username: string }>> {
+  const rows = await prisma.backofficeAuditLog.findMany({
+    where: { actorUserId: { not: null } },
+    distinct: ["actorUserId"],
+    orderBy: [{ actorUserId: "asc" }, { createdAt: "desc" }],
+    select: { actorUserId: true, actorUsername: true },
+  });
+  return rows
+    .map((row) => ({ id: row.actorUserId || "", username: row.actorUsername || row.actorUserId || "" }))
+    .filter((row) => row.id)
+    .sort((left, right) => left.username.localeCompare(right.username));
+}
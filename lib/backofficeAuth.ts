@@ -14,12 +14,16 @@ import {
   requiresBackofficeMfaChallenge,
 } from "./authScopes";
 import { hasSatisfiedBackofficeMfaChallenge } from "./backofficeMfaChallenge";
+import { resolveBackofficeMfaCompliance } from "./backofficeMfaPolicy";
 import { prisma } from "./prisma";
 
 type RequireBackofficeOptions = {
   callbackUrl?: string;
   superadminOnly?: boolean;
   allowPendingMfa?: boolean;
+  // Lets staff who are past the MFA policy deadline reach the enrollment
+  // screens; everything else sends them there.
+  allowMfaEnrollment?: boolean;
 };
 
 type BrandSelectionInput =
@@ -62,6 +66,25 @@ function buildAdminMfaRedirect(callbackUrl?: string) {
   } as const;
 }
 
+function buildAdminMfaEnrollmentRedirect() {
+  return {
+    redirect: {
+      destination: "/admin/settings/security?mfaRequired=1",
+      permanent: false,
+    },
+  } as const;
+}
+
+async function isBackofficeMfaEnrollmentOverdue(principal: BackofficeIdentityState) {
+  const compliance = await resolveBackofficeMfaCompliance({
+    role: principal.role,
+    createdAt: principal.createdAt,
+    brandIds: principal.allowedBrandIds,
+    mfaState: principal.mfaState,
+  });
+  return compliance.status === "OVERDUE";
+}
+
 async function loadResolvedPrincipal(
   session: any,
   options?: RequireBackofficeOptions
@@ -106,6 +129,10 @@ export async function requireBackofficeApi(
     return { ok: false as const, session, principal, reason: "MFA_REQUIRED" as const };
   }
 
+  if (!options?.allowMfaEnrollment && (await isBackofficeMfaEnrollmentOverdue(principal))) {
+    return { ok: false as const, session, principal, reason: "MFA_ENROLLMENT_REQUIRED" as const };
+  }
+
   return { ok: true as const, session, principal, reason: null };
 }
 
@@ -136,6 +163,16 @@ export async function requireBackofficePage(
     };
   }
 
+  if (!options?.allowMfaEnrollment && (await isBackofficeMfaEnrollmentOverdue(principal))) {
+    return {
+      ok: false as const,
+      session,
+      principal,
+      reason: "MFA_ENROLLMENT_REQUIRED" as const,
+      response: buildAdminMfaEnrollmentRedirect(),
+    };
+  }
+
   return {
     ok: true as const,
       session,
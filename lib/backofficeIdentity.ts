@@ -1,4 +1,5 @@
 import bcrypt from "bcryptjs";
+import type { IncomingMessage } from "http";
 import {
   BackofficeMfaMethod,
   BackofficeRole,
@@ -6,9 +7,16 @@ import {
   BrandStatus,
   type Prisma,
 } from "@prisma/client";
-import { deriveBackofficeMfaState, type BackofficeMfaState } from "./backofficeMfa";
+import { deriveBackofficeMfaEnabledAt, deriveBackofficeMfaState, type BackofficeMfaState } from "./backofficeMfa";
+import { sendAuthLockoutEmail } from "./authLockoutEmail";
+import { backofficeSignInLimiter, describeAuthRateLimitDecision, lockoutDecision } from "./authRateLimit";
 import { getConfiguredProtectedBackofficeEmail } from "./backofficeBootstrap";
+import { readBackofficeWebauthnChallengeCookie } from "./backofficeMfaChallenge";
+import { createBackofficeSession } from "./backofficeSessions";
+import { resolveBackofficeWebauthnRelyingParty } from "./backofficeWebauthn";
+import { verifyBackofficeWebauthnAssertion } from "./backofficeWebauthnService";
 import { prisma } from "./prisma";
+import { getClientIp } from "./requestIdentity";
 import { BACKOFFICE_AUTH_SCOPE, getAuthScope } from "./authScopes";
 
 type BrandAccessRow = {
@@ -30,6 +38,11 @@ type BackofficeUserWithAccess = Prisma.BackofficeUserGetPayload<{
         };
       };
     };
+    webauthnCredentials: {
+      select: {
+        createdAt: true;
+      };
+    };
   };
 }>;
 
@@ -46,6 +59,7 @@ export type BackofficeIdentityState = {
   allowedBrandKeys: string[];
   lastSelectedBrandKey: string | null;
   displayName: string;
+  createdAt: string;
 };
 
 export type BackofficeAuthUser = {
@@ -63,6 +77,10 @@ export type BackofficeAuthUser = {
   allowedBrandIds: string[];
   allowedBrandKeys: string[];
   lastSelectedBrandKey: string | null;
+  createdAt: string;
+  passkeyVerified?: boolean;
+  sessionId?: string;
+  sessionVersion?: number;
 };
 
 function normalizeEmail(value: unknown): string {
@@ -104,13 +122,8 @@ function toBackofficeIdentityState(user: BackofficeUserWithAccess): BackofficeId
     role,
     status: user.status,
     mfaMethod: user.mfaMethod || null,
-    mfaState: deriveBackofficeMfaState({
-      mfaMethod: user.mfaMethod,
-      mfaEnabledAt: user.mfaEnabledAt,
-      mfaSecretEncrypted: user.mfaSecretEncrypted,
-      mfaRecoveryCodesEncrypted: user.mfaRecoveryCodesEncrypted,
-    }),
-    mfaEnabledAt: user.mfaEnabledAt ? user.mfaEnabledAt.toISOString() : null,
+    mfaState: deriveBackofficeMfaState(user),
+    mfaEnabledAt: deriveBackofficeMfaEnabledAt(user)?.toISOString() || null,
     allowedBrandIds,
     allowedBrandKeys,
     lastSelectedBrandKey:
@@ -118,6 +131,7 @@ function toBackofficeIdentityState(user: BackofficeUserWithAccess): BackofficeId
         ? user.lastSelectedBrandKey
         : null,
     displayName: toDisplayName(user),
+    createdAt: user.createdAt.toISOString(),
   };
 }
 
@@ -137,6 +151,7 @@ function toBackofficeAuthUser(state: BackofficeIdentityState): BackofficeAuthUse
     allowedBrandIds: state.allowedBrandIds,
     allowedBrandKeys: state.allowedBrandKeys,
     lastSelectedBrandKey: state.lastSelectedBrandKey,
+    createdAt: state.createdAt,
   };
 }
 
@@ -163,6 +178,11 @@ async function fetchBackofficeUserByIdentifier(identifier: string): Promise<Back
           },
         },
       },
+      webauthnCredentials: {
+        select: {
+          createdAt: true,
+        },
+      },
     },
   });
 }
@@ -182,12 +202,18 @@ async function fetchBackofficeUserById(id: string): Promise<BackofficeUserWithAc
           },
         },
       },
+      webauthnCredentials: {
+        select: {
+          createdAt: true,
+        },
+      },
     },
   });
 }
 
 export async function authorizeBackofficeCredentials(
-  credentials: Record<string, unknown> | undefined
+  credentials: Record<string, unknown> | undefined,
+  req: Pick<IncomingMessage, "headers">
 ): Promise<BackofficeAuthUser | null> {
   if (!getConfiguredProtectedBackofficeEmail()) {
     console.warn(
@@ -204,9 +230,28 @@ export async function authorizeBackofficeCredentials(
 
   let user = await fetchBackofficeUserByIdentifier(identifier);
 
-  if (!user) return null;
+  // Thrown errors reach the sign-in form as its error message; returning null
+  // would show the generic invalid-credentials text instead.
+  const limiterSubject = { identifier: user ? user.id : `unknown:${identifier}`, ip: getClientIp(req) };
+  const decision = await backofficeSignInLimiter.check(limiterSubject);
+  if (!decision.allowed) throw new Error(describeAuthRateLimitDecision(decision));
+
+  if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+    const failure = await backofficeSignInLimiter.recordFailure(limiterSubject);
+    if (!failure.lockedNow || !failure.lockedUntil) return null;
+    if (user) {
+      await sendAuthLockoutEmail({
+        req,
+        to: user.email,
+        accountLabel: `the backoffice account ${user.username}`,
+        lockedUntil: failure.lockedUntil,
+      });
+    }
+    throw new Error(describeAuthRateLimitDecision(lockoutDecision(failure.lockedUntil)));
+  }
+
+  await backofficeSignInLimiter.recordSuccess(user.id);
   if (user.status === BackofficeUserStatus.BLOCKED) return null;
-  if (!(await bcrypt.compare(password, user.passwordHash))) return null;
 
   await prisma.backofficeUser.update({
     where: { id: user.id },
@@ -218,8 +263,52 @@ export async function authorizeBackofficeCredentials(
     return null;
   }
 
-  return toBackofficeAuthUser(state);
+  return { ...toBackofficeAuthUser(state), ...(await createBackofficeSession(user.id, req)) };
+}
+
+// Passwordless sign-in with a discoverable passkey. The passkey requires user
+// verification, so it also satisfies the MFA challenge for this session.
+export async function authorizeBackofficePasskey(
+  credentials: Record<string, unknown> | undefined,
+  req: Pick<IncomingMessage, "headers">
+): Promise<BackofficeAuthUser | null> {
+  if (!getConfiguredProtectedBackofficeEmail()) return null;
+
+  const challenge = readBackofficeWebauthnChallengeCookie(req, { ceremony: "authenticate", userId: null });
+  if (!challenge) return null;
+
+  let assertion: { userId: string };
+  try {
+    assertion = await verifyBackofficeWebauthnAssertion({
+      userId: null,
+      credential: JSON.parse(String(credentials?.credential || "")),
+      challenge: challenge.challenge,
+      challengeIssuedAt: challenge.issuedAt,
+      rp: resolveBackofficeWebauthnRelyingParty(req),
+    });
+  } catch (error) {
+    console.warn("[backoffice-auth] passkey sign-in rejected", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  const user = await fetchBackofficeUserById(assertion.userId);
+  if (!user || user.status === BackofficeUserStatus.BLOCKED) return null;
+
+  await prisma.backofficeUser.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  const state = toBackofficeIdentityState(user);
+  if (state.role !== BackofficeRole.SUPERADMIN && state.allowedBrandIds.length === 0) {
+    return null;
+  }
+
+  return { ...toBackofficeAuthUser(state), ...(await createBackofficeSession(user.id, req)), passkeyVerified: true };
 }
+
 export async function refreshBackofficeIdentity(sessionLike: { sub?: string | null; email?: string | null }): Promise<BackofficeAuthUser | null> {
   if (!getConfiguredProtectedBackofficeEmail()) {
     return null;
@@ -263,5 +352,6 @@ export async function getBackofficeIdentityFromSession(session: any): Promise<Ba
     allowedBrandKeys: hydrated.allowedBrandKeys,
     lastSelectedBrandKey: hydrated.lastSelectedBrandKey,
     displayName: hydrated.name,
+    createdAt: hydrated.createdAt,
   };
 }
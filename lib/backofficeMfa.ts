@@ -8,6 +8,7 @@ type BackofficeMfaStateInput = {
   mfaEnabledAt?: Date | string | null;
   mfaSecretEncrypted?: string | null;
   mfaRecoveryCodesEncrypted?: string | null;
+  webauthnCredentials?: Array<{ createdAt: Date | string }> | null;
 };
 
 const TOTP_PERIOD_SECONDS = 30;
@@ -164,7 +165,8 @@ export function decryptBackofficeMfaValue(payload: string): string {
   return decrypted.toString("utf8");
 }
 
-export function deriveBackofficeMfaState(input: BackofficeMfaStateInput): BackofficeMfaState {
+// Authenticator-app state only; security keys are tracked separately.
+export function deriveBackofficeAuthenticatorState(input: BackofficeMfaStateInput): BackofficeMfaState {
   const hasMethod = input.mfaMethod === BackofficeMfaMethod.AUTHENTICATOR_APP;
   const hasSecret = Boolean(input.mfaSecretEncrypted);
   const hasRecoveryCodes = Boolean(input.mfaRecoveryCodesEncrypted);
@@ -175,6 +177,27 @@ export function deriveBackofficeMfaState(input: BackofficeMfaStateInput): Backof
   return "DISABLED";
 }
 
+// A registered security key or passkey enables MFA on its own, even while an
+// authenticator app enrollment is still pending.
+export function deriveBackofficeMfaState(input: BackofficeMfaStateInput): BackofficeMfaState {
+  if (input.webauthnCredentials?.length) return "ENABLED";
+  return deriveBackofficeAuthenticatorState(input);
+}
+
+// The timestamp bound into the MFA challenge cookie, so the cookie stops
+// matching whenever the user's second factors are reset.
+export function deriveBackofficeMfaEnabledAt(input: BackofficeMfaStateInput): Date | null {
+  if (deriveBackofficeAuthenticatorState(input) === "ENABLED" && input.mfaEnabledAt) {
+    return new Date(input.mfaEnabledAt);
+  }
+
+  const earliest = (input.webauthnCredentials || [])
+    .map((credential) => new Date(credential.createdAt).getTime())
+    .filter((value) => Number.isFinite(value))
+    .sort((left, right) => left - right)[0];
+  return typeof earliest === "number" ? new Date(earliest) : null;
+}
+
 export function isBackofficeMfaEncryptionReady(): boolean {
   return Boolean(String(process.env.BACKOFFICE_MFA_ENCRYPTION_KEY || "").trim());
 }
@@ -9,6 +9,9 @@ import {
 import { authCookieDomain } from "./siteConfig";
 
 const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 12;
+const WEBAUTHN_COOKIE_MAX_AGE_SECONDS = 5 * 60;
+
+export type BackofficeWebauthnCeremony = "register" | "authenticate";
 
 type VerifiedBackofficeMfaPayload = {
   userId: string;
@@ -18,12 +21,26 @@ type VerifiedBackofficeMfaPayload = {
   expiresAt: number;
 };
 
+type BackofficeWebauthnChallengePayload = {
+  ceremony: BackofficeWebauthnCeremony;
+  userId: string | null;
+  challenge: string;
+  issuedAt: number;
+  expiresAt: number;
+};
+
 function backofficeMfaCookieName(): string {
   return process.env.VERCEL_ENV === "preview"
     ? "__Secure-stg-backoffice-mfa"
     : "__Secure-backoffice-mfa";
 }
 
+function backofficeWebauthnCookieName(): string {
+  return process.env.VERCEL_ENV === "preview"
+    ? "__Secure-stg-backoffice-webauthn"
+    : "__Secure-backoffice-webauthn";
+}
+
 function getCookieSigningKey(): Buffer {
   const secret = String(process.env.NEXTAUTH_SECRET || "").trim();
   if (!secret) {
@@ -65,7 +82,7 @@ function decodePayload(value: string | null | undefined): VerifiedBackofficeMfaP
   }
 }
 
-function readCookie(req: Pick<IncomingMessage, "headers"> & { cookies?: Record<string, string> }, name: string): string | null {
+function readCookie(req: Pick<IncomingMessage, "headers"> & { cookies?: Partial<Record<string, string>> }, name: string): string | null {
   const direct = req.cookies?.[name];
   if (typeof direct === "string" && direct) return direct;
 
@@ -164,3 +181,66 @@ export function hasSatisfiedBackofficeMfaChallenge(
 
   return payload.userId === userId && payload.challenge === challenge && payload.enabledAt === enabledAt;
 }
+
+// Security key ceremonies keep their random challenge in a short-lived signed
+// cookie so verification does not need a server-side store. Callers clear it
+// once the ceremony finishes; credential lastUsedAt guards against replays
+// while it is still set.
+export function setBackofficeWebauthnChallengeCookie(
+  res: Pick<ServerResponse, "getHeader" | "setHeader">,
+  params: { ceremony: BackofficeWebauthnCeremony; userId: string | null; challenge: string }
+) {
+  const issuedAt = Date.now();
+  const payload: BackofficeWebauthnChallengePayload = {
+    ceremony: params.ceremony,
+    userId: params.userId,
+    challenge: params.challenge,
+    issuedAt,
+    expiresAt: issuedAt + WEBAUTHN_COOKIE_MAX_AGE_SECONDS * 1000,
+  };
+  const raw = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+
+  appendSetCookie(
+    res,
+    serializeCookie(backofficeWebauthnCookieName(), `${raw}.${signPayload(`webauthn:${raw}`)}`, {
+      maxAge: WEBAUTHN_COOKIE_MAX_AGE_SECONDS,
+    })
+  );
+}
+
+export function clearBackofficeWebauthnChallengeCookie(res: Pick<ServerResponse, "getHeader" | "setHeader">) {
+  appendSetCookie(
+    res,
+    serializeCookie(backofficeWebauthnCookieName(), "", {
+      maxAge: 0,
+      expires: new Date(0),
+    })
+  );
+}
+
+export function readBackofficeWebauthnChallengeCookie(
+  req: Pick<IncomingMessage, "headers"> & { cookies?: Partial<Record<string, string>> },
+  expected: { ceremony: BackofficeWebauthnCeremony; userId: string | null }
+): { challenge: string; issuedAt: Date } | null {
+  const [raw, signature] = String(readCookie(req, backofficeWebauthnCookieName()) || "").split(".");
+  if (!raw || !signature) return null;
+  if (signPayload(`webauthn:${raw}`) !== signature) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      !parsed ||
+      typeof parsed.challenge !== "string" ||
+      typeof parsed.issuedAt !== "number" ||
+      typeof parsed.expiresAt !== "number"
+    ) {
+      return null;
+    }
+    if (parsed.expiresAt <= Date.now()) return null;
+    if (parsed.ceremony !== expected.ceremony || (parsed.userId ?? null) !== expected.userId) return null;
+
+    return { challenge: parsed.challenge, issuedAt: new Date(parsed.issuedAt) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,212 @@
+import { BackofficeMfaPolicyMode, BackofficeRole } from "@prisma/client";
+import { recordBackofficeAuditEvent, type BackofficeAuditActor } from "./backofficeAudit";
+import type { BackofficeMfaState } from "./backofficeMfa";
+import { prisma } from "./prisma";
+
+const POLICY_ID = "default";
+const POLICY_CACHE_TTL_MS = 30_000;
+const MAX_GRACE_PERIOD_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BackofficeMfaPolicyRecord = {
+  mode: BackofficeMfaPolicyMode;
+  requiredRoles: BackofficeRole[];
+  requiredBrandIds: string[];
+  gracePeriodDays: number;
+  enforcedSince: string | null;
+  updatedAt: string | null;
+};
+
+export type BackofficeMfaComplianceStatus = "NOT_REQUIRED" | "COMPLIANT" | "GRACE" | "OVERDUE";
+
+export type BackofficeMfaCompliance = {
+  required: boolean;
+  status: BackofficeMfaComplianceStatus;
+  deadline: string | null;
+};
+
+type ComplianceSubject = {
+  role: BackofficeRole;
+  createdAt: Date | string;
+  brandIds: string[];
+  mfaState: BackofficeMfaState;
+};
+
+const DEFAULT_POLICY: BackofficeMfaPolicyRecord = {
+  mode: BackofficeMfaPolicyMode.OPTIONAL,
+  requiredRoles: [],
+  requiredBrandIds: [],
+  gracePeriodDays: 7,
+  enforcedSince: null,
+  updatedAt: null,
+};
+
+// requireBackofficePage/Api read the policy on every request, so it is cached
+// briefly per server instance and dropped on update.
+let cachedPolicy: { value: BackofficeMfaPolicyRecord; expiresAt: number } | null = null;
+
+function mapPolicy(row: {
+  mode: BackofficeMfaPolicyMode;
+  requiredRoles: BackofficeRole[];
+  requiredBrandIds: string[];
+  gracePeriodDays: number;
+  enforcedSince: Date | null;
+  updatedAt: Date;
+}): BackofficeMfaPolicyRecord {
+  return {
+    mode: row.mode,
+    requiredRoles: row.requiredRoles,
+    requiredBrandIds: row.requiredBrandIds,
+    gracePeriodDays: row.gracePeriodDays,
+    enforcedSince: row.enforcedSince ? row.enforcedSince.toISOString() : null,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function parseMode(value: unknown): BackofficeMfaPolicyMode {
+  if (value === BackofficeMfaPolicyMode.OPTIONAL) return BackofficeMfaPolicyMode.OPTIONAL;
+  if (value === BackofficeMfaPolicyMode.ALL_STAFF) return BackofficeMfaPolicyMode.ALL_STAFF;
+  if (value === BackofficeMfaPolicyMode.SCOPED) return BackofficeMfaPolicyMode.SCOPED;
+  throw new Error("Policy mode must be OPTIONAL, ALL_STAFF or SCOPED");
+}
+
+function parseRoles(value: unknown): BackofficeRole[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(
+    new Set(
+      value.filter((entry): entry is BackofficeRole => entry === BackofficeRole.SUPERADMIN || entry === BackofficeRole.STAFF)
+    )
+  );
+}
+
+function parseGracePeriodDays(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_GRACE_PERIOD_DAYS) {
+    throw new Error(`Grace period must be a whole number of days between 0 and ${MAX_GRACE_PERIOD_DAYS}`);
+  }
+  return parsed;
+}
+
+export async function getBackofficeMfaPolicy(): Promise<BackofficeMfaPolicyRecord> {
+  if (cachedPolicy && cachedPolicy.expiresAt > Date.now()) return cachedPolicy.value;
+
+  const row = await prisma.backofficeMfaPolicy.findUnique({ where: { id: POLICY_ID } });
+  const value = row ? mapPolicy(row) : DEFAULT_POLICY;
+  cachedPolicy = { value, expiresAt: Date.now() + POLICY_CACHE_TTL_MS };
+  return value;
+}
+
+export async function updateBackofficeMfaPolicy(
+  input: { mode?: unknown; requiredRoles?: unknown; requiredBrandIds?: unknown; gracePeriodDays?: unknown },
+  actor: BackofficeAuditActor
+): Promise<BackofficeMfaPolicyRecord> {
+  const mode = parseMode(input.mode);
+  const requiredRoles = mode === BackofficeMfaPolicyMode.SCOPED ? parseRoles(input.requiredRoles) : [];
+  const requestedBrandIds =
+    mode === BackofficeMfaPolicyMode.SCOPED && Array.isArray(input.requiredBrandIds)
+      ? Array.from(new Set(input.requiredBrandIds.map((entry) => String(entry || "").trim()).filter(Boolean)))
+      : [];
+  const gracePeriodDays = parseGracePeriodDays(input.gracePeriodDays ?? DEFAULT_POLICY.gracePeriodDays);
+
+  const brands = requestedBrandIds.length
+    ? await prisma.brand.findMany({ where: { id: { in: requestedBrandIds } }, select: { id: true } })
+    : [];
+  if (brands.length !== requestedBrandIds.length) {
+    throw new Error("One or more selected brands do not exist");
+  }
+  if (mode === BackofficeMfaPolicyMode.SCOPED && requiredRoles.length === 0 && brands.length === 0) {
+    throw new Error("Choose at least one role or brand for a scoped policy");
+  }
+
+  const existing = await prisma.backofficeMfaPolicy.findUnique({ where: { id: POLICY_ID } });
+  // The grace clock starts when enforcement is first switched on. Tightening
+  // an existing policy keeps the original start so it cannot be reset by edits.
+  const enforcedSince =
+    mode === BackofficeMfaPolicyMode.OPTIONAL
+      ? null
+      : existing?.enforcedSince && existing.mode !== BackofficeMfaPolicyMode.OPTIONAL
+        ? existing.enforcedSince
+        : new Date();
+
+  const data = {
+    mode,
+    requiredRoles,
+    requiredBrandIds: brands.map((brand) => brand.id),
+    gracePeriodDays,
+    enforcedSince,
+    updatedByUserId: actor.userId,
+  };
+  const before = existing ? mapPolicy(existing) : DEFAULT_POLICY;
+  const updated = await prisma.$transaction(async (tx) => {
+    const row = mapPolicy(
+      await tx.backofficeMfaPolicy.upsert({
+        where: { id: POLICY_ID },
+        create: { id: POLICY_ID, ...data },
+        update: data,
+      })
+    );
+
+    await recordBackofficeAuditEvent(tx, actor, {
+      action: "MFA_POLICY_UPDATED",
+      targetType: "BackofficeMfaPolicy",
+      targetId: POLICY_ID,
+      before: {
+        mode: before.mode,
+        requiredRoles: before.requiredRoles,
+        requiredBrandIds: before.requiredBrandIds,
+        gracePeriodDays: before.gracePeriodDays,
+      },
+      after: {
+        mode: row.mode,
+        requiredRoles: row.requiredRoles,
+        requiredBrandIds: row.requiredBrandIds,
+        gracePeriodDays: row.gracePeriodDays,
+      },
+    });
+
+    return row;
+  });
+
+  cachedPolicy = null;
+  return updated;
+}
+
+export function isBackofficeMfaRequiredByPolicy(
+  policy: BackofficeMfaPolicyRecord,
+  subject: Pick<ComplianceSubject, "role" | "brandIds">
+): boolean {
+  if (policy.mode === BackofficeMfaPolicyMode.ALL_STAFF) return true;
+  if (policy.mode !== BackofficeMfaPolicyMode.SCOPED) return false;
+  if (policy.requiredRoles.includes(subject.role)) return true;
+  return subject.brandIds.some((brandId) => policy.requiredBrandIds.includes(brandId));
+}
+
+// Accounts created after enforcement started get their own grace period from
+// their creation date, so new hires are not locked out on day one.
+export function evaluateBackofficeMfaCompliance(
+  policy: BackofficeMfaPolicyRecord,
+  subject: ComplianceSubject,
+  now = new Date()
+): BackofficeMfaCompliance {
+  if (!isBackofficeMfaRequiredByPolicy(policy, subject)) {
+    return { required: false, status: "NOT_REQUIRED", deadline: null };
+  }
+  if (subject.mfaState === "ENABLED") {
+    return { required: true, status: "COMPLIANT", deadline: null };
+  }
+
+  const enforcedSince = policy.enforcedSince ? new Date(policy.enforcedSince).getTime() : now.getTime();
+  const createdAt = new Date(subject.createdAt).getTime();
+  const graceStart = Math.max(enforcedSince, Number.isFinite(createdAt) ? createdAt : 0);
+  const deadline = new Date(graceStart + policy.gracePeriodDays * DAY_MS);
+
+  return {
+    required: true,
+    status: deadline.getTime() <= now.getTime() ? "OVERDUE" : "GRACE",
+    deadline: deadline.toISOString(),
+  };
+}
+
+export async function resolveBackofficeMfaCompliance(subject: ComplianceSubject): Promise<BackofficeMfaCompliance> {
+  return evaluateBackofficeMfaCompliance(await getBackofficeMfaPolicy(), subject);
+}
@@ -3,6 +3,7 @@ import { prisma } from "./prisma";
 import {
   buildAuthenticatorOtpAuthUrl,
   decryptBackofficeMfaValue,
+  deriveBackofficeAuthenticatorState,
   deriveBackofficeMfaState,
   encryptBackofficeMfaValue,
   generateAuthenticatorSecret,
@@ -15,6 +16,8 @@ import {
 
 export type BackofficeMfaStatus = {
   state: BackofficeMfaState;
+  authenticatorState: BackofficeMfaState;
+  passkeyCount: number;
   method: BackofficeMfaMethod | null;
   enabledAt: string | null;
   recoveryCodesGeneratedAt: string | null;
@@ -25,11 +28,25 @@ export type BackofficeMfaStatus = {
   recoveryCodes: string[] | null;
 };
 
+export type BackofficeMfaFactors = {
+  authenticator: boolean;
+  passkeyCount: number;
+};
+
 export type BackofficeMfaChallengeResult = {
   usedRecoveryCode: boolean;
   recoveryCodesRemaining: number;
 };
 
+// Thrown only when the submitted code does not match, so callers can count
+// wrong guesses without counting configuration or account errors.
+export class BackofficeMfaInvalidCodeError extends Error {
+  constructor() {
+    super("Invalid authenticator or recovery code");
+    this.name = "BackofficeMfaInvalidCodeError";
+  }
+}
+
 function normalizeRecoveryCode(value: string): string {
   return String(value || "")
     .trim()
@@ -47,23 +64,20 @@ function mapMfaStatus(params: {
     mfaSecretEncrypted: string | null;
     mfaRecoveryCodesEncrypted: string | null;
     mfaRecoveryCodesGeneratedAt: Date | null;
+    webauthnCredentials: Array<{ createdAt: Date }>;
   };
   includePendingSecrets?: boolean;
 }): BackofficeMfaStatus {
   const { user, includePendingSecrets = false } = params;
-  const state = deriveBackofficeMfaState({
-    mfaMethod: user.mfaMethod,
-    mfaEnabledAt: user.mfaEnabledAt,
-    mfaSecretEncrypted: user.mfaSecretEncrypted,
-    mfaRecoveryCodesEncrypted: user.mfaRecoveryCodesEncrypted,
-  });
+  const state = deriveBackofficeMfaState(user);
+  const authenticatorState = deriveBackofficeAuthenticatorState(user);
   const issuer = getBackofficeMfaIssuer();
   const encryptionReady = isBackofficeMfaEncryptionReady();
 
   let setupSecret: string | null = null;
   let recoveryCodes: string[] | null = null;
 
-  if (includePendingSecrets && encryptionReady && state === "PENDING" && user.mfaSecretEncrypted) {
+  if (includePendingSecrets && encryptionReady && authenticatorState === "PENDING" && user.mfaSecretEncrypted) {
     setupSecret = decryptBackofficeMfaValue(user.mfaSecretEncrypted);
     if (user.mfaRecoveryCodesEncrypted) {
       recoveryCodes = JSON.parse(decryptBackofficeMfaValue(user.mfaRecoveryCodesEncrypted));
@@ -72,6 +86,8 @@ function mapMfaStatus(params: {
 
   return {
     state,
+    authenticatorState,
+    passkeyCount: user.webauthnCredentials.length,
     method: user.mfaMethod,
     enabledAt: user.mfaEnabledAt ? user.mfaEnabledAt.toISOString() : null,
     recoveryCodesGeneratedAt: user.mfaRecoveryCodesGeneratedAt ? user.mfaRecoveryCodesGeneratedAt.toISOString() : null,
@@ -96,6 +112,11 @@ async function getBackofficeMfaUser(userId: string) {
       mfaSecretEncrypted: true,
       mfaRecoveryCodesEncrypted: true,
       mfaRecoveryCodesGeneratedAt: true,
+      webauthnCredentials: {
+        select: {
+          createdAt: true,
+        },
+      },
     },
   });
 }
@@ -106,6 +127,16 @@ export async function getCurrentBackofficeMfaStatus(userId: string): Promise<Bac
   return mapMfaStatus({ user, includePendingSecrets: true });
 }
 
+// Which second factors the challenge page should offer.
+export async function getBackofficeMfaFactors(userId: string): Promise<BackofficeMfaFactors> {
+  const user = await getBackofficeMfaUser(userId);
+  if (!user) throw new Error("Backoffice user not found");
+  return {
+    authenticator: deriveBackofficeAuthenticatorState(user) === "ENABLED",
+    passkeyCount: user.webauthnCredentials.length,
+  };
+}
+
 export async function startBackofficeMfaEnrollment(userId: string): Promise<BackofficeMfaStatus> {
   if (!isBackofficeMfaEncryptionReady()) {
     throw new Error("Backoffice MFA encryption is not configured");
@@ -164,7 +195,7 @@ export async function verifyBackofficeMfaEnrollment(userId: string, code: string
 export async function cancelBackofficeMfaEnrollment(userId: string): Promise<BackofficeMfaStatus> {
   const user = await getBackofficeMfaUser(userId);
   if (!user) throw new Error("Backoffice user not found");
-  if (deriveBackofficeMfaState(user) !== "PENDING") {
+  if (deriveBackofficeAuthenticatorState(user) !== "PENDING") {
     throw new Error("Only pending MFA setup can be cancelled");
   }
 
@@ -208,7 +239,7 @@ export async function verifyBackofficeMfaChallenge(userId: string, code: string)
       throw new Error("Blocked staff accounts cannot complete MFA");
     }
     if (
-      deriveBackofficeMfaState(user) !== "ENABLED" ||
+      deriveBackofficeAuthenticatorState(user) !== "ENABLED" ||
       user.mfaMethod !== BackofficeMfaMethod.AUTHENTICATOR_APP ||
       !user.mfaSecretEncrypted
     ) {
@@ -227,14 +258,14 @@ export async function verifyBackofficeMfaChallenge(userId: string, code: string)
     }
 
     if (!user.mfaRecoveryCodesEncrypted) {
-      throw new Error("Invalid authenticator or recovery code");
+      throw new BackofficeMfaInvalidCodeError();
     }
 
     const recoveryCodes: string[] = JSON.parse(decryptBackofficeMfaValue(user.mfaRecoveryCodesEncrypted));
     const target = normalizeRecoveryCode(normalizedInput);
     const matchedIndex = recoveryCodes.findIndex((entry) => normalizeRecoveryCode(entry) === target);
     if (matchedIndex < 0) {
-      throw new Error("Invalid authenticator or recovery code");
+      throw new BackofficeMfaInvalidCodeError();
     }
 
     const nextRecoveryCodes = recoveryCodes.filter((_, index) => index !== matchedIndex);
@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import type { IncomingMessage } from "http";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getCfCountryIso2, getClientIp, getUserAgent, iso2ToCountryName } from "./requestIdentity";
+
+// Matches the NextAuth default session maxAge; JWTs are re-issued on use, so
+// the registry row is extended whenever the session is seen.
+const BACKOFFICE_SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// jwt runs on every session read, so lastSeenAt is only written this often.
+const LAST_SEEN_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+export type BackofficeSessionRecord = {
+  id: string;
+  device: string;
+  ip: string | null;
+  countryIso2: string | null;
+  countryName: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+};
+
+export type BackofficeSessionGrant = {
+  sessionId: string;
+  sessionVersion: number;
+};
+
+function describeBrowser(userAgent: string): string | null {
+  if (/Edg\//.test(userAgent)) return "Edge";
+  if (/OPR\/|Opera/.test(userAgent)) return "Opera";
+  if (/Firefox\//.test(userAgent)) return "Firefox";
+  if (/Chrome\/|CriOS\//.test(userAgent)) return "Chrome";
+  if (/Safari\//.test(userAgent)) return "Safari";
+  return null;
+}
+
+function describeOs(userAgent: string): string | null {
+  if (/iPhone|iPad|iPod/.test(userAgent)) return "iOS";
+  if (/Android/.test(userAgent)) return "Android";
+  if (/Mac OS X|Macintosh/.test(userAgent)) return "macOS";
+  if (/Windows/.test(userAgent)) return "Windows";
+  if (/CrOS/.test(userAgent)) return "ChromeOS";
+  if (/Linux/.test(userAgent)) return "Linux";
+  return null;
+}
+
+export function describeBackofficeSessionDevice(userAgent: string | null | undefined): string {
+  const value = String(userAgent || "");
+  const browser = describeBrowser(value);
+  const os = describeOs(value);
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
+
+export async function createBackofficeSession(
+  userId: string,
+  req: Pick<IncomingMessage, "headers">
+): Promise<BackofficeSessionGrant> {
+  const ip = getClientIp(req);
+  const countryIso2 = getCfCountryIso2(req);
+
+  const [session, user] = await prisma.$transaction([
+    prisma.backofficeSession.create({
+      data: {
+        backofficeUserId: userId,
+        // Required by the adapter-shaped table; JWT sessions reference the row by id.
+        sessionToken: crypto.randomBytes(32).toString("hex"),
+        expires: new Date(Date.now() + BACKOFFICE_SESSION_MAX_AGE_MS),
+        ip: ip && ip !== "unknown" ? ip : null,
+        countryIso2,
+        countryName: iso2ToCountryName(countryIso2),
+        userAgent: getUserAgent(req) || null,
+      },
+      select: { id: true },
+    }),
+    prisma.backofficeUser.findUniqueOrThrow({
+      where: { id: userId },
+      select: { sessionVersion: true },
+    }),
+  ]);
+
+  return { sessionId: session.id, sessionVersion: user.sessionVersion };
+}
+
+export async function isBackofficeSessionActive(input: {
+  userId: string;
+  sessionId: unknown;
+  sessionVersion: unknown;
+}): Promise<boolean> {
+  if (typeof input.sessionId !== "string" || !input.sessionId) return false;
+
+  const session = await prisma.backofficeSession.findUnique({
+    where: { id: input.sessionId },
+    select: {
+      backofficeUserId: true,
+      expires: true,
+      lastSeenAt: true,
+      revokedAt: true,
+      user: { select: { sessionVersion: true } },
+    },
+  });
+
+  if (!session || session.backofficeUserId !== input.userId) return false;
+  if (session.revokedAt || session.expires.getTime() <= Date.now()) return false;
+  if (session.user.sessionVersion !== input.sessionVersion) return false;
+
+  if (Date.now() - session.lastSeenAt.getTime() >= LAST_SEEN_WRITE_INTERVAL_MS) {
+    await prisma.backofficeSession.updateMany({
+      where: { id: input.sessionId, revokedAt: null },
+      data: {
+        lastSeenAt: new Date(),
+        expires: new Date(Date.now() + BACKOFFICE_SESSION_MAX_AGE_MS),
+      },
+    });
+  }
+
+  return true;
+}
+
+export async function listBackofficeSessions(userId: string, currentSessionId: string | null): Promise<BackofficeSessionRecord[]> {
+  const [sessions, user] = await Promise.all([
+    prisma.backofficeSession.findMany({
+      where: {
+        backofficeUserId: userId,
+        revokedAt: null,
+        expires: { gt: new Date() },
+      },
+      orderBy: [{ lastSeenAt: "desc" }],
+    }),
+    prisma.backofficeUser.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    }),
+  ]);
+
+  if (!user) throw new Error("Staff account not found");
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: describeBackofficeSessionDevice(session.userAgent),
+    ip: session.ip,
+    countryIso2: session.countryIso2,
+    countryName: session.countryName,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    current: session.id === currentSessionId,
+  }));
+}
+
+export async function revokeBackofficeSession(
+  userId: string,
+  sessionId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const result = await client.backofficeSession.updateMany({
+    where: { id: sessionId, backofficeUserId: userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (result.count === 0) throw new Error("Session not found");
+}
+
+export async function revokeOtherBackofficeSessions(userId: string, currentSessionId: string | null): Promise<number> {
+  const result = await prisma.backofficeSession.updateMany({
+    where: {
+      backofficeUserId: userId,
+      revokedAt: null,
+      ...(currentSessionId ? { id: { not: currentSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
+
+// Bumping sessionVersion also covers a sign-in racing with this call: its row
+// may land after the update below, but its token carries the old version.
+// Pass tx to run inside a caller's transaction; otherwise it opens its own.
+export async function revokeAllBackofficeSessions(userId: string, tx?: Prisma.TransactionClient): Promise<number> {
+  if (!tx) return prisma.$transaction((inner) => revokeAllBackofficeSessions(userId, inner));
+
+  const result = await tx.backofficeSession.updateMany({
+    where: { backofficeUserId: userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await tx.backofficeUser.update({
+    where: { id: userId },
+    data: { sessionVersion: { increment: 1 } },
+  });
+  return result.count;
+}
@@ -0,0 +1,331 @@
+import crypto from "crypto";
+import type { IncomingMessage } from "http";
+import { getBackofficeMfaIssuer } from "./backofficeMfa";
+import { buildOrigin, getApiRequestHost, getApiRequestProtocol } from "./requestHost";
+
+// Minimal WebAuthn relying-party verification for backoffice security keys and
+// passkeys. Registration asks for "none" attestation, so attestation statements
+// are not checked; only the credential's own signatures are trusted.
+
+export type BackofficeWebauthnRelyingParty = {
+  id: string;
+  name: string;
+  origin: string;
+};
+
+export type WebauthnRegistrationCredentialJSON = {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+};
+
+export type WebauthnAssertionCredentialJSON = {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+};
+
+export type VerifiedWebauthnRegistration = {
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+  transports: string[];
+  aaguid: string | null;
+  backedUp: boolean;
+};
+
+export type VerifiedWebauthnAssertion = {
+  signCount: number;
+  userVerified: boolean;
+  backedUp: boolean;
+};
+
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_RS256 = -257;
+
+export const BACKOFFICE_WEBAUTHN_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+export const BACKOFFICE_WEBAUTHN_TIMEOUT_MS = 60_000;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+type CborValue = number | string | boolean | null | undefined | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+function readCborLength(buffer: Buffer, offset: number, info: number): { value: number; offset: number } {
+  if (info < 24) return { value: info, offset };
+  if (info === 24) return { value: buffer.readUInt8(offset), offset: offset + 1 };
+  if (info === 25) return { value: buffer.readUInt16BE(offset), offset: offset + 2 };
+  if (info === 26) return { value: buffer.readUInt32BE(offset), offset: offset + 4 };
+  if (info === 27) return { value: Number(buffer.readBigUInt64BE(offset)), offset: offset + 8 };
+  throw new Error("Unsupported CBOR length");
+}
+
+// Covers the subset of CBOR that authenticators emit: integers, byte and text
+// strings, arrays, maps, tags and simple values. Returns the offset after the
+// item so callers can find where an embedded COSE key ends.
+function decodeCbor(buffer: Buffer, start = 0): { value: CborValue; offset: number } {
+  const initial = buffer.readUInt8(start);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  const { value: length, offset } = readCborLength(buffer, start + 1, info);
+
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+      return { value: Buffer.from(buffer.subarray(offset, offset + length)), offset: offset + length };
+    case 3:
+      return { value: buffer.subarray(offset, offset + length).toString("utf8"), offset: offset + length };
+    case 4: {
+      const items: CborValue[] = [];
+      let next = offset;
+      for (let index = 0; index < length; index += 1) {
+        const item = decodeCbor(buffer, next);
+        items.push(item.value);
+        next = item.offset;
+      }
+      return { value: items, offset: next };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let next = offset;
+      for (let index = 0; index < length; index += 1) {
+        const key = decodeCbor(buffer, next);
+        const entry = decodeCbor(buffer, key.offset);
+        map.set(key.value, entry.value);
+        next = entry.offset;
+      }
+      return { value: map, offset: next };
+    }
+    case 6:
+      return decodeCbor(buffer, offset);
+    default:
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22) return { value: null, offset };
+      if (info === 23) return { value: undefined, offset };
+      throw new Error("Unsupported CBOR value");
+  }
+}
+
+function decodeBase64Url(value: unknown, label: string): Buffer {
+  if (typeof value !== "string" || !value) throw new Error(`Missing ${label}`);
+  return Buffer.from(value, "base64url");
+}
+
+function sha256(value: Buffer | string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+function requireBuffer(value: CborValue, label: string): Buffer {
+  if (!Buffer.isBuffer(value)) throw new Error(`Invalid ${label}`);
+  return value;
+}
+
+function importCosePublicKey(coseKey: Buffer): { key: crypto.KeyObject; alg: number } {
+  const decoded = decodeCbor(coseKey).value;
+  if (!(decoded instanceof Map)) throw new Error("Invalid credential public key");
+
+  const kty = decoded.get(1);
+  const alg = decoded.get(3);
+  if (typeof alg !== "number" || !BACKOFFICE_WEBAUTHN_ALGORITHMS.includes(alg)) {
+    throw new Error("Unsupported credential algorithm");
+  }
+
+  if (kty === 2 && alg === COSE_ALG_ES256 && decoded.get(-1) === 1) {
+    const jwk = {
+      kty: "EC",
+      crv: "P-256",
+      x: requireBuffer(decoded.get(-2), "EC key").toString("base64url"),
+      y: requireBuffer(decoded.get(-3), "EC key").toString("base64url"),
+    };
+    return { key: crypto.createPublicKey({ key: jwk, format: "jwk" }), alg };
+  }
+
+  if (kty === 1 && alg === COSE_ALG_EDDSA && decoded.get(-1) === 6) {
+    const jwk = { kty: "OKP", crv: "Ed25519", x: requireBuffer(decoded.get(-2), "OKP key").toString("base64url") };
+    return { key: crypto.createPublicKey({ key: jwk, format: "jwk" }), alg };
+  }
+
+  if (kty === 3 && alg === COSE_ALG_RS256) {
+    const jwk = {
+      kty: "RSA",
+      n: requireBuffer(decoded.get(-1), "RSA key").toString("base64url"),
+      e: requireBuffer(decoded.get(-2), "RSA key").toString("base64url"),
+    };
+    return { key: crypto.createPublicKey({ key: jwk, format: "jwk" }), alg };
+  }
+
+  throw new Error("Unsupported credential public key");
+}
+
+function verifyCoseSignature(coseKey: Buffer, data: Buffer, signature: Buffer): boolean {
+  const { key, alg } = importCosePublicKey(coseKey);
+  if (alg === COSE_ALG_ES256) return crypto.verify("sha256", data, { key, dsaEncoding: "der" }, signature);
+  if (alg === COSE_ALG_RS256) return crypto.verify("sha256", data, key, signature);
+  return crypto.verify(null, data, key, signature);
+}
+
+function parseAuthenticatorData(data: Buffer) {
+  if (data.length < 37) throw new Error("Invalid authenticator data");
+
+  const flags = data.readUInt8(32);
+  const parsed = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: Boolean(flags & FLAG_USER_PRESENT),
+    userVerified: Boolean(flags & FLAG_USER_VERIFIED),
+    backedUp: Boolean(flags & FLAG_BACKED_UP),
+    signCount: data.readUInt32BE(33),
+    attested: null as { aaguid: Buffer; credentialId: Buffer; publicKey: Buffer } | null,
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    const idLength = data.readUInt16BE(53);
+    const idEnd = 55 + idLength;
+    const { offset: keyEnd } = decodeCbor(data, idEnd);
+    parsed.attested = {
+      aaguid: data.subarray(37, 53),
+      credentialId: data.subarray(55, idEnd),
+      publicKey: Buffer.from(data.subarray(idEnd, keyEnd)),
+    };
+  }
+
+  return parsed;
+}
+
+function verifyClientData(
+  clientDataJSON: Buffer,
+  expected: { type: "webauthn.create" | "webauthn.get"; challenge: string; origin: string }
+) {
+  let clientData: any;
+  try {
+    clientData = JSON.parse(clientDataJSON.toString("utf8"));
+  } catch {
+    throw new Error("Invalid client data");
+  }
+
+  if (clientData?.type !== expected.type) throw new Error("Unexpected WebAuthn ceremony type");
+  if (clientData?.challenge !== expected.challenge) throw new Error("Security key challenge did not match. Please try again.");
+  if (clientData?.origin !== expected.origin) throw new Error("Security key response came from an unexpected origin");
+  if (clientData?.crossOrigin === true) throw new Error("Cross-origin security key responses are not allowed");
+}
+
+export function generateWebauthnChallenge(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+// The RP ID defaults to the admin host the request arrived on. Set
+// BACKOFFICE_WEBAUTHN_RP_ID to a parent domain to share passkeys across hosts.
+export function resolveBackofficeWebauthnRelyingParty(req: Pick<IncomingMessage, "headers">): BackofficeWebauthnRelyingParty {
+  const host = getApiRequestHost(req);
+  if (!host) throw new Error("Unable to resolve the admin host for security keys");
+
+  const configured = String(process.env.BACKOFFICE_WEBAUTHN_RP_ID || "").trim().toLowerCase();
+  return {
+    id: configured || host.replace(/:\d+$/, ""),
+    name: getBackofficeMfaIssuer(),
+    origin: buildOrigin(getApiRequestProtocol(req), host),
+  };
+}
+
+export function verifyWebauthnRegistration(params: {
+  credential: WebauthnRegistrationCredentialJSON;
+  challenge: string;
+  rp: BackofficeWebauthnRelyingParty;
+}): VerifiedWebauthnRegistration {
+  const { credential } = params;
+  if (credential?.type !== "public-key") throw new Error("Invalid security key response");
+
+  verifyClientData(decodeBase64Url(credential.response?.clientDataJSON, "client data"), {
+    type: "webauthn.create",
+    challenge: params.challenge,
+    origin: params.rp.origin,
+  });
+
+  const attestation = decodeCbor(decodeBase64Url(credential.response?.attestationObject, "attestation object")).value;
+  if (!(attestation instanceof Map)) throw new Error("Invalid attestation object");
+
+  const authData = parseAuthenticatorData(requireBuffer(attestation.get("authData"), "authenticator data"));
+  if (!authData.rpIdHash.equals(sha256(params.rp.id))) throw new Error("Security key was registered for a different site");
+  if (!authData.userPresent) throw new Error("Security key did not confirm user presence");
+  if (!authData.attested) throw new Error("Security key did not return a credential");
+
+  const credentialId = authData.attested.credentialId.toString("base64url");
+  if (credentialId !== credential.rawId) throw new Error("Security key credential ID mismatch");
+
+  // Fails early for keys we could not verify later.
+  importCosePublicKey(authData.attested.publicKey);
+
+  const aaguid = authData.attested.aaguid.toString("hex");
+  return {
+    credentialId,
+    publicKey: authData.attested.publicKey.toString("base64url"),
+    signCount: authData.signCount,
+    transports: Array.isArray(credential.response.transports)
+      ? credential.response.transports.filter((value): value is string => typeof value === "string").slice(0, 8)
+      : [],
+    aaguid: /^0+$/.test(aaguid) ? null : aaguid,
+    backedUp: authData.backedUp,
+  };
+}
+
+export function verifyWebauthnAssertion(params: {
+  credential: WebauthnAssertionCredentialJSON;
+  challenge: string;
+  rp: BackofficeWebauthnRelyingParty;
+  publicKey: string;
+  storedSignCount: number;
+  requireUserVerification: boolean;
+}): VerifiedWebauthnAssertion {
+  const { credential } = params;
+  if (credential?.type !== "public-key") throw new Error("Invalid security key response");
+
+  const clientDataJSON = decodeBase64Url(credential.response?.clientDataJSON, "client data");
+  verifyClientData(clientDataJSON, {
+    type: "webauthn.get",
+    challenge: params.challenge,
+    origin: params.rp.origin,
+  });
+
+  const authenticatorData = decodeBase64Url(credential.response?.authenticatorData, "authenticator data");
+  const authData = parseAuthenticatorData(authenticatorData);
+  if (!authData.rpIdHash.equals(sha256(params.rp.id))) throw new Error("Security key belongs to a different site");
+  if (!authData.userPresent) throw new Error("Security key did not confirm user presence");
+  if (params.requireUserVerification && !authData.userVerified) {
+    throw new Error("This passkey did not verify your PIN or biometrics");
+  }
+
+  const signedData = Buffer.concat([authenticatorData, sha256(clientDataJSON)]);
+  const signature = decodeBase64Url(credential.response?.signature, "signature");
+  if (!verifyCoseSignature(Buffer.from(params.publicKey, "base64url"), signedData, signature)) {
+    throw new Error("Security key signature is invalid");
+  }
+
+  // Authenticators that keep a counter must increase it; a repeat suggests a
+  // cloned key. Synced passkeys report 0 and are exempt.
+  if ((authData.signCount > 0 || params.storedSignCount > 0) && authData.signCount <= params.storedSignCount) {
+    throw new Error("Security key counter did not advance. Remove and re-register this key.");
+  }
+
+  return {
+    signCount: authData.signCount,
+    userVerified: authData.userVerified,
+    backedUp: authData.backedUp,
+  };
+}
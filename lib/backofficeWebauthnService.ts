@@ -0,0 +1,286 @@
+import { BackofficeUserStatus, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  BACKOFFICE_WEBAUTHN_ALGORITHMS,
+  BACKOFFICE_WEBAUTHN_TIMEOUT_MS,
+  generateWebauthnChallenge,
+  type BackofficeWebauthnRelyingParty,
+  type WebauthnAssertionCredentialJSON,
+  type WebauthnRegistrationCredentialJSON,
+  verifyWebauthnAssertion,
+  verifyWebauthnRegistration,
+} from "./backofficeWebauthn";
+
+const MAX_CREDENTIALS_PER_USER = 10;
+const MAX_CREDENTIAL_NAME_LENGTH = 64;
+const DEFAULT_CREDENTIAL_NAME = "Security key";
+
+export type BackofficeWebauthnCredentialSummary = {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export type BackofficeWebauthnAssertionResult = {
+  userId: string;
+  credentialName: string;
+};
+
+function normalizeCredentialName(value: unknown): string {
+  const normalized = String(value || "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_CREDENTIAL_NAME_LENGTH);
+  return normalized || DEFAULT_CREDENTIAL_NAME;
+}
+
+function toUserHandle(userId: string): string {
+  return Buffer.from(userId, "utf8").toString("base64url");
+}
+
+function mapCredentialSummary(credential: {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}): BackofficeWebauthnCredentialSummary {
+  return {
+    id: credential.id,
+    name: credential.name,
+    transports: credential.transports,
+    backedUp: credential.backedUp,
+    createdAt: credential.createdAt.toISOString(),
+    lastUsedAt: credential.lastUsedAt ? credential.lastUsedAt.toISOString() : null,
+  };
+}
+
+async function getActiveWebauthnUser(userId: string) {
+  const user = await prisma.backofficeUser.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      username: true,
+      email: true,
+      status: true,
+      webauthnCredentials: {
+        select: {
+          credentialId: true,
+          transports: true,
+        },
+      },
+    },
+  });
+
+  if (!user) throw new Error("Backoffice user not found");
+  if (user.status === BackofficeUserStatus.BLOCKED) throw new Error("Blocked staff accounts cannot use security keys");
+  return user;
+}
+
+export async function listBackofficeWebauthnCredentials(userId: string): Promise<BackofficeWebauthnCredentialSummary[]> {
+  const credentials = await prisma.backofficeWebauthnCredential.findMany({
+    where: { backofficeUserId: userId },
+    orderBy: { createdAt: "asc" },
+  });
+  return credentials.map(mapCredentialSummary);
+}
+
+export async function buildBackofficeWebauthnRegistrationOptions(params: {
+  userId: string;
+  rp: BackofficeWebauthnRelyingParty;
+}) {
+  const user = await getActiveWebauthnUser(params.userId);
+  if (user.webauthnCredentials.length >= MAX_CREDENTIALS_PER_USER) {
+    throw new Error(`You can register up to ${MAX_CREDENTIALS_PER_USER} security keys`);
+  }
+
+  return {
+    challenge: generateWebauthnChallenge(),
+    rp: { id: params.rp.id, name: params.rp.name },
+    user: {
+      id: toUserHandle(user.id),
+      name: user.email || user.username,
+      displayName: user.email || user.username,
+    },
+    pubKeyCredParams: BACKOFFICE_WEBAUTHN_ALGORITHMS.map((alg) => ({ type: "public-key" as const, alg })),
+    timeout: BACKOFFICE_WEBAUTHN_TIMEOUT_MS,
+    attestation: "none" as const,
+    authenticatorSelection: {
+      residentKey: "preferred" as const,
+      userVerification: "preferred" as const,
+    },
+    excludeCredentials: user.webauthnCredentials.map((credential) => ({
+      type: "public-key" as const,
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+  };
+}
+
+export async function registerBackofficeWebauthnCredential(params: {
+  userId: string;
+  name: unknown;
+  credential: WebauthnRegistrationCredentialJSON;
+  challenge: string;
+  rp: BackofficeWebauthnRelyingParty;
+}): Promise<BackofficeWebauthnCredentialSummary> {
+  const user = await getActiveWebauthnUser(params.userId);
+  if (user.webauthnCredentials.length >= MAX_CREDENTIALS_PER_USER) {
+    throw new Error(`You can register up to ${MAX_CREDENTIALS_PER_USER} security keys`);
+  }
+
+  const verified = verifyWebauthnRegistration({
+    credential: params.credential,
+    challenge: params.challenge,
+    rp: params.rp,
+  });
+
+  try {
+    const created = await prisma.backofficeWebauthnCredential.create({
+      data: {
+        backofficeUserId: user.id,
+        name: normalizeCredentialName(params.name),
+        credentialId: verified.credentialId,
+        publicKey: verified.publicKey,
+        signCount: verified.signCount,
+        transports: verified.transports,
+        aaguid: verified.aaguid,
+        backedUp: verified.backedUp,
+      },
+    });
+    return mapCredentialSummary(created);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new Error("This security key is already registered");
+    }
+    throw error;
+  }
+}
+
+export async function renameBackofficeWebauthnCredential(
+  userId: string,
+  credentialId: string,
+  name: unknown
+): Promise<BackofficeWebauthnCredentialSummary> {
+  const existing = await prisma.backofficeWebauthnCredential.findFirst({
+    where: { id: credentialId, backofficeUserId: userId },
+  });
+  if (!existing) throw new Error("Security key not found");
+
+  const updated = await prisma.backofficeWebauthnCredential.update({
+    where: { id: existing.id },
+    data: { name: normalizeCredentialName(name) },
+  });
+  return mapCredentialSummary(updated);
+}
+
+export async function deleteBackofficeWebauthnCredential(userId: string, credentialId: string): Promise<void> {
+  const result = await prisma.backofficeWebauthnCredential.deleteMany({
+    where: { id: credentialId, backofficeUserId: userId },
+  });
+  if (result.count === 0) throw new Error("Security key not found");
+}
+
+// With a userId the browser is asked for one of that user's keys (second
+// factor). Without one the browser offers any discoverable passkey for this
+// site, and the assertion itself identifies the account.
+export async function buildBackofficeWebauthnAuthenticationOptions(params: {
+  userId: string | null;
+  rp: BackofficeWebauthnRelyingParty;
+}) {
+  let allowCredentials: Array<{ type: "public-key"; id: string; transports: string[] }> = [];
+
+  if (params.userId) {
+    const user = await getActiveWebauthnUser(params.userId);
+    if (user.webauthnCredentials.length === 0) {
+      throw new Error("No security keys are registered on this account");
+    }
+    allowCredentials = user.webauthnCredentials.map((credential) => ({
+      type: "public-key" as const,
+      id: credential.credentialId,
+      transports: credential.transports,
+    }));
+  }
+
+  return {
+    challenge: generateWebauthnChallenge(),
+    rpId: params.rp.id,
+    timeout: BACKOFFICE_WEBAUTHN_TIMEOUT_MS,
+    userVerification: params.userId ? ("preferred" as const) : ("required" as const),
+    allowCredentials,
+  };
+}
+
+export async function verifyBackofficeWebauthnAssertion(params: {
+  userId: string | null;
+  credential: WebauthnAssertionCredentialJSON;
+  challenge: string;
+  challengeIssuedAt: Date;
+  rp: BackofficeWebauthnRelyingParty;
+}): Promise<BackofficeWebauthnAssertionResult> {
+  const credentialId = typeof params.credential?.rawId === "string" ? params.credential.rawId : "";
+  if (!credentialId) throw new Error("Invalid security key response");
+
+  const stored = await prisma.backofficeWebauthnCredential.findUnique({
+    where: { credentialId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          status: true,
+        },
+      },
+    },
+  });
+
+  if (!stored || (params.userId && stored.backofficeUserId !== params.userId)) {
+    throw new Error("This security key is not registered on this account");
+  }
+  if (stored.user.status === BackofficeUserStatus.BLOCKED) {
+    throw new Error("Blocked staff accounts cannot use security keys");
+  }
+
+  const userHandle = params.credential.response?.userHandle;
+  if (userHandle && userHandle !== toUserHandle(stored.backofficeUserId)) {
+    throw new Error("Security key belongs to a different account");
+  }
+
+  // The ceremony challenge lives in a cookie until the caller clears it, so a
+  // credential that has signed in since the challenge was issued cannot reuse it.
+  if (stored.lastUsedAt && stored.lastUsedAt >= params.challengeIssuedAt) {
+    throw new Error("Security key challenge was already used. Please try again.");
+  }
+
+  const verified = verifyWebauthnAssertion({
+    credential: params.credential,
+    challenge: params.challenge,
+    rp: params.rp,
+    publicKey: stored.publicKey,
+    storedSignCount: stored.signCount,
+    requireUserVerification: !params.userId,
+  });
+
+  const claimed = await prisma.backofficeWebauthnCredential.updateMany({
+    where: {
+      id: stored.id,
+      OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: params.challengeIssuedAt } }],
+    },
+    data: {
+      signCount: verified.signCount,
+      backedUp: verified.backedUp,
+      lastUsedAt: new Date(),
+    },
+  });
+  if (claimed.count === 0) {
+    throw new Error("Security key challenge was already used. Please try again.");
+  }
+
+  return {
+    userId: stored.backofficeUserId,
+    credentialName: stored.name,
+  };
+}
@@ -1,5 +1,19 @@
 import type { IncomingMessage } from "http";
 import type { BrandStatus } from "@prisma/client";
+import {
+  buildCommandPublicCacheKey,
+  getCommandPublicCachePolicy,
+  readThroughCommandPublicCache,
+} from "./commandPublicCache";
+import {
+  acquireCommandPublicCircuit,
+  getCommandPublicMaxAttempts,
+  getCommandPublicRequestTimeoutMs,
+  isRetryableCommandPublicStatus,
+  recordCommandPublicCircuitFailure,
+  recordCommandPublicCircuitSuccess,
+  waitForCommandPublicRetry,
+} from "./commandPublicResilience";
 import { buildOrigin, getApiRequestHost, getApiRequestProtocol } from "./requestHost";
 import { getCfCountryIso2, getClientIp, getHeader, getUserAgent } from "./requestIdentity";
 import pkg from "../package.json";
@@ -25,6 +39,8 @@ export type CommandPublicAccount = {
 export type CommandPartnerPortalScope = "partners" | "sponsors";
 export type CommandPartnerKind = "PARTICIPANT" | "SPONSOR";
 export type CommandPartnerUserStatus = "ACTIVE" | "BLOCKED";
+export type CommandPartnerTeamRole = "OWNER" | "EDITOR" | "VIEWER";
+export const COMMAND_PARTNER_TEAM_ROLE_OPTIONS: CommandPartnerTeamRole[] = ["OWNER", "EDITOR", "VIEWER"];
 export type CommandPartnerParticipantType = "ENTERTAINMENT" | "FOOD_VENDOR" | "MARKET_VENDOR";
 export type CommandPartnerEntertainmentType = "LIVE_BAND" | "DJ" | "COMEDY" | "MAGIC";
 export type CommandPartnerEntertainmentActType = "SOLO_ARTIST" | "DUO" | "TRIO" | "FULL_BAND";
@@ -114,6 +130,9 @@ export type CommandPartnerPortalAccount = {
   passwordChangeRequired: boolean;
   displayName: string;
   slug: string;
+  // Each team member signs in with their own account on the shared profile.
+  teamRole: CommandPartnerTeamRole;
+  memberName: string | null;
 };
 
 export type CommandPartnerPortalEventOption = {
@@ -266,6 +285,34 @@ export type CommandPartnerPortalApplication = {
   externalNotes: CommandPartnerApplicationNote[];
 };
 
+export type CommandPartnerApplicationVersion = {
+  applicationVersion: number;
+  applicationPayload: CommandPartnerApplicationPayload | null;
+  submittedAt: string | null;
+};
+
+export type CommandPartnerApplicationVersionsPayload = {
+  ok: true;
+  applicationId: string;
+  versions: CommandPartnerApplicationVersion[];
+};
+
+export type CommandPartnerApplicationFormType = CommandPartnerApplicationPayload["formType"];
+
+export type CommandPartnerApplicationDraft = {
+  id: string;
+  scheduleEventSeriesId: string;
+  formType: CommandPartnerApplicationFormType;
+  applicationPayload: CommandPartnerApplicationPayload;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CommandPartnerApplicationDraftsPayload = {
+  ok: true;
+  drafts: CommandPartnerApplicationDraft[];
+};
+
 export type CommandPartnerAssetSummary = {
   id: string;
   kind: CommandPartnerAssetKind;
@@ -298,6 +345,87 @@ export type CommandPartnerAssetUploadSession = {
   uploadHeaders: Record<string, string>;
   expiresAt: string;
   anticipatedPublicUrl: string | null;
+  // Set for large documents: PUT each part to its own URL instead of uploadUrl,
+  // keep each response's ETag, and pass the parts to finalize.
+  multipart?: CommandPartnerAssetMultipartUpload | null;
+};
+
+export type CommandPartnerAssetMultipartUpload = {
+  uploadId: string;
+  partSizeBytes: number;
+  parts: Array<{ partNumber: number; uploadUrl: string }>;
+};
+
+export type CommandPartnerAssetUploadedPart = {
+  partNumber: number;
+  etag: string;
+};
+
+// Thread entries are the application's EXTERNAL notes: reviewer notes carry
+// authorBackofficeUserId, partner replies carry authorPartnerUserId.
+export type CommandPartnerApplicationMessage = CommandPartnerApplicationNote & {
+  attachments: CommandPartnerAssetSummary[];
+};
+
+export type CommandPartnerApplicationMessagesPayload = {
+  ok: true;
+  applicationId: string;
+  messages: CommandPartnerApplicationMessage[];
+  lastReadAt: string | null;
+};
+
+export type CommandPartnerUnreadMessagesPayload = {
+  ok: true;
+  unreadCount: number;
+  applications: Array<{ applicationId: string; unreadCount: number }>;
+};
+
+export type CommandPartnerNotificationType =
+  | "APPLICATION_STATUS_CHANGED"
+  | "APPLICATION_MESSAGE"
+  | "REQUIREMENT_REJECTED"
+  | "REQUIREMENT_EXPIRING"
+  | "REQUIREMENT_EXPIRED";
+
+export const COMMAND_PARTNER_NOTIFICATION_TYPE_OPTIONS: CommandPartnerNotificationType[] = [
+  "APPLICATION_STATUS_CHANGED",
+  "APPLICATION_MESSAGE",
+  "REQUIREMENT_REJECTED",
+  "REQUIREMENT_EXPIRING",
+  "REQUIREMENT_EXPIRED",
+];
+
+export type CommandPartnerNotificationDigestFrequency = "OFF" | "DAILY" | "WEEKLY";
+
+export type CommandPartnerNotification = {
+  id: string;
+  type: CommandPartnerNotificationType;
+  title: string;
+  body: string;
+  // Portal-relative path, e.g. "/partners/applications".
+  linkPath: string | null;
+  applicationId: string | null;
+  requirementType: CommandParticipantRequirementType | null;
+  createdAt: string;
+  readAt: string | null;
+};
+
+export type CommandPartnerNotificationsPayload = {
+  ok: true;
+  notifications: CommandPartnerNotification[];
+  unreadCount: number;
+};
+
+export type CommandPartnerNotificationPreferences = {
+  emailDigestFrequency: CommandPartnerNotificationDigestFrequency;
+  emailTypes: CommandPartnerNotificationType[];
+};
+
+export type CommandPartnerNotificationDigestRecipient = {
+  partnerUserId: string;
+  email: string;
+  displayName: string;
+  notifications: CommandPartnerNotification[];
 };
 
 export type CommandPartnerPortalRequirement = {
@@ -308,6 +436,28 @@ export type CommandPartnerPortalRequirement = {
   expiresAt: string | null;
   lastReviewedAt: string | null;
   asset: CommandPartnerAssetSummary | null;
+  // A renewal uploaded while the current document is still approved. The
+  // current asset and expiresAt stay in force until this one is approved.
+  pendingRenewal: CommandPartnerPortalRequirementRenewal | null;
+};
+
+export type CommandPartnerPortalRequirementRenewal = {
+  state: "PENDING_REVIEW" | "REJECTED";
+  reviewerNotes: string | null;
+  expiresAt: string;
+  submittedAt: string;
+  asset: CommandPartnerAssetSummary;
+};
+
+export type CommandParticipantRequirementReminderRecipient = {
+  partnerUserId: string;
+  email: string;
+  displayName: string;
+  reminders: Array<{
+    requirementType: CommandParticipantRequirementType;
+    expiresAt: string;
+    leadDays: number;
+  }>;
 };
 
 export type CommandPartnerPortalRequirementsPayload = {
@@ -413,6 +563,12 @@ export type CommandPublicScheduleParticipantType = "ENTERTAINMENT" | "FOOD_VENDO
 
 export type CommandPublicScheduleResourceType = "STAGE" | "FOOD_SPOT" | "MARKET_SPOT" | "OTHER";
 
+export type CommandPublicScheduleTimeWindow = {
+  startsAtMinutes: number;
+  endsAtMinutes: number;
+  label: string;
+};
+
 export type CommandPublicScheduleItem = {
   id: string;
   kind: "TIMED_SLOT" | "FULL_DAY";
@@ -454,12 +610,33 @@ export type CommandPublicScheduleItem = {
     displayName: string;
     type: CommandPublicScheduleParticipantType;
   };
+  // Entered by the event team per assignment; absent or null when none is set.
+  loadIn?: CommandPublicScheduleTimeWindow | null;
+  soundcheck?: CommandPublicScheduleTimeWindow | null;
 };
 
 export type CommandPublicScheduleResponse = {
   ok: true;
   range: CommandPublicScheduleRange;
   items: CommandPublicScheduleItem[];
+  // Set when `limit` cut the result short; pass it back as `cursor` for the rest.
+  nextCursor?: string | null;
+};
+
+export type CommandPublicScheduleParticipantResponse = {
+  ok: true;
+  participant: CommandPublicScheduleItem["participant"];
+};
+
+export type CommandPublicScheduleFavorite = {
+  scheduleItemId: string;
+  occursOn: string;
+  createdAt: string;
+};
+
+export type CommandPublicScheduleFavoritesPayload = {
+  ok: true;
+  favorites: CommandPublicScheduleFavorite[];
 };
 
 export type CommandPublicScheduleAssignmentFeedItem = {
@@ -517,6 +694,34 @@ export type CommandPublicScheduleFeedResponse = {
   items: CommandPublicScheduleFeedItem[];
 };
 
+export type CommandPublicPartnerProfile = {
+  partnerProfileId: string;
+  partnerKind: CommandPartnerKind;
+  slug: string;
+  displayName: string;
+  summary: string | null;
+  description: string | null;
+  websiteUrl: string | null;
+  socialLinks: Record<string, string> | null;
+  profileImageUrl: string | null;
+  hasProfileImage: boolean;
+  livePerformanceVideoUrl: string | null;
+  participantType: CommandPartnerParticipantType | null;
+  entertainmentGenres: CommandPartnerEntertainmentGenre[];
+  foodStyle: string | null;
+  marketType: CommandPartnerMarketType | null;
+  productServiceType: string | null;
+  eventSeries: Array<{
+    id: string;
+    name: string;
+  }>;
+};
+
+export type CommandPublicPartnerProfileResponse = {
+  ok: true;
+  profile: CommandPublicPartnerProfile;
+};
+
 export type CommandPublicAnalyticsProfileInteractionFeedSource =
   | "ASSIGNMENTS"
   | "SPONSORS"
@@ -528,7 +733,7 @@ export type CommandPublicAnalyticsProfileInteractionTargetType =
   | "SOCIAL_LINK";
 export type CommandPublicAnalyticsProfileInteractionRaw = {
   schema: "profile_interaction.v1";
-  feedId: string;
+  feedId: string | null;
   feedSource: CommandPublicAnalyticsProfileInteractionFeedSource;
   partnerProfileId: string;
   partnerKind: CommandPartnerKind;
@@ -805,18 +1010,23 @@ export function logCommandPublicApiError(
   );
 }
 
-async function requestCommandPublicApi<T>(
-  pathname: string,
-  options?: {
-    method?: "GET" | "POST" | "PATCH";
-    sessionToken?: string | null;
-    websiteSessionId?: string | null;
-    trackPerformance?: boolean;
-    body?: Record<string, unknown>;
-    query?: Record<string, string | number | null | undefined>;
-    request?: CommandPublicRequestSource;
-  }
-): Promise<T> {
+type CommandPublicRequestOptions = {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  sessionToken?: string | null;
+  websiteSessionId?: string | null;
+  trackPerformance?: boolean;
+  body?: Record<string, unknown>;
+  query?: Record<string, string | number | null | undefined>;
+  request?: CommandPublicRequestSource;
+};
+
+// 5xx responses and network failures (reported as 502) mean Command is
+// unhealthy; cached reads may stand in for them.
+function isCommandUpstreamFailure(error: unknown) {
+  return error instanceof CommandPublicApiError && error.status >= 500;
+}
+
+async function requestCommandPublicApi<T>(pathname: string, options?: CommandPublicRequestOptions): Promise<T> {
   const config = getCommandPublicApiConfig();
   if (!config.enabled) {
     throw new CommandPublicApiError(503, "Command public API is not configured");
@@ -828,9 +1038,30 @@ async function requestCommandPublicApi<T>(
     url.searchParams.set(key, String(value));
   }
 
+  // Only anonymous reads are shared between visitors.
+  const method = options?.method || "GET";
+  const cachePolicy = method === "GET" && !options?.sessionToken ? getCommandPublicCachePolicy(url.pathname) : null;
+  if (!cachePolicy) {
+    return sendCommandPublicApiRequest<T>(pathname, url, config.integrationKey, options);
+  }
+
+  return readThroughCommandPublicCache({
+    key: buildCommandPublicCacheKey({ brandScope: `${config.baseUrl}|${config.integrationKey}`, url }),
+    policy: cachePolicy,
+    load: () => sendCommandPublicApiRequest<T>(pathname, url, config.integrationKey, options),
+    isUpstreamFailure: isCommandUpstreamFailure,
+  });
+}
+
+async function sendCommandPublicApiRequest<T>(
+  pathname: string,
+  url: URL,
+  integrationKey: string,
+  options?: CommandPublicRequestOptions
+): Promise<T> {
   const headers: Record<string, string> = {
     "User-Agent": OUTBOUND_USER_AGENT,
-    "X-Command-Integration-Key": config.integrationKey,
+    "X-Command-Integration-Key": integrationKey,
     ...buildForwardedClientHeaders(options?.request),
   };
 
@@ -847,30 +1078,84 @@ async function requestCommandPublicApi<T>(
   }
 
   const method = options?.method || "GET";
-  const startedAt = performance.now();
-  let response: Response;
-  try {
-    response = await fetch(url.toString(), {
-      method,
-      headers,
-      body: options?.body ? JSON.stringify(options.body) : undefined,
-      cache: "no-store",
-    });
-  } catch (error) {
-    throw new CommandPublicApiError(502, "Command public API network request failed", {
+  if (!acquireCommandPublicCircuit()) {
+    throw new CommandPublicApiError(503, "Command public API is temporarily unavailable", {
       method,
       url: url.toString(),
       contentType: null,
       bodySnippet: null,
-      upstreamError: error instanceof Error ? error.message : null,
+      upstreamError: "Circuit breaker open",
     });
   }
 
+  const timeoutMs = getCommandPublicRequestTimeoutMs(pathname);
+  const maxAttempts = getCommandPublicMaxAttempts(method);
+  const startedAt = performance.now();
+  let response: Response | null = null;
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      response = await fetch(url.toString(), {
+        method,
+        headers,
+        body: options?.body ? JSON.stringify(options.body) : undefined,
+        cache: "no-store",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      if (attempt < maxAttempts) {
+        await waitForCommandPublicRetry(attempt);
+        continue;
+      }
+
+      const message = timedOut
+        ? `Command public API request timed out after ${timeoutMs}ms`
+        : "Command public API network request failed";
+      recordCommandPublicCircuitFailure(message);
+      throw new CommandPublicApiError(timedOut ? 504 : 502, message, {
+        method,
+        url: url.toString(),
+        contentType: null,
+        bodySnippet: null,
+        upstreamError: error instanceof Error ? error.message : null,
+      });
+    }
+
+    if (!isRetryableCommandPublicStatus(response.status) || attempt >= maxAttempts) break;
+    await response.body?.cancel().catch(() => undefined);
+    await waitForCommandPublicRetry(attempt);
+  }
+
+  if (response.status >= 500) {
+    recordCommandPublicCircuitFailure(`Command public API responded ${response.status}`);
+  } else {
+    recordCommandPublicCircuitSuccess();
+  }
+
   if (response.status === 204) {
     return undefined as T;
   }
 
-  const { payload, text } = await readResponseBodySafe(response);
+  // The timeout signal also covers the body, so a stalled stream fails here
+  // rather than at the headers.
+  let body: Awaited<ReturnType<typeof readResponseBodySafe>>;
+  try {
+    body = await readResponseBodySafe(response);
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    const message = timedOut
+      ? `Command public API request timed out after ${timeoutMs}ms`
+      : "Command public API response could not be read";
+    recordCommandPublicCircuitFailure(message);
+    throw new CommandPublicApiError(timedOut ? 504 : 502, message, {
+      method,
+      url: url.toString(),
+      contentType: response.headers.get("content-type"),
+      bodySnippet: null,
+      upstreamError: error instanceof Error ? error.message : null,
+    });
+  }
+  const { payload, text } = body;
   const requestDurationMs = Number((performance.now() - startedAt).toFixed(4));
 
   if (options?.trackPerformance !== false) {
@@ -1002,6 +1287,13 @@ export type CommandPartnerAvailabilityPayload = {
   entries: CommandPartnerAvailabilityEntry[];
 };
 
+// Bulk edits send the desired state per date; "assigned" is owned by Command.
+export type CommandPartnerAvailabilityUpdate = Pick<CommandPartnerAvailabilityEntry, "date" | "available">;
+
+export type CommandPartnerAvailabilityBatchPayload = CommandPartnerAvailabilityPayload & {
+  updated: number;
+};
+
 function commandPartnerScopeBase(scope: CommandPartnerPortalScope) {
   return scope === "sponsors" ? "/api/v1/sponsors" : "/api/v1/partners";
 }
@@ -1074,6 +1366,28 @@ export async function commandPartnerLogin(
   });
 }
 
+// Integration-key only. Command looks the address up and emails the lockout
+// notice to the account's verified address; unknown or unverified addresses
+// get the same response so the call does not reveal which accounts exist.
+export async function commandPartnerSendLockoutNotice(
+  scope: CommandPartnerPortalScope,
+  params: {
+    email: string;
+    lockedUntil: Date;
+    ip: string | null;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true }>(`${commandPartnerScopeBase(scope)}/auth/lockout-notice`, {
+    method: "POST",
+    trackPerformance: false,
+    body: {
+      email: params.email,
+      lockedUntil: params.lockedUntil.toISOString(),
+      ip: params.ip,
+    },
+  });
+}
+
 export async function commandPartnerGetSession(
   scope: CommandPartnerPortalScope,
   sessionToken: string
@@ -1184,84 +1498,59 @@ export async function commandPartnerSubmitApplication(
   );
 }
 
-export async function commandPartnerGetProfileImage(
-  scope: CommandPartnerPortalScope,
-  sessionToken: string
-) {
-  return requestCommandPublicApi<{ ok: true; asset: CommandPartnerAssetSummary | null }>(
-    `${commandPartnerScopeBase(scope)}/profile/image`,
-    {
-      sessionToken,
-      trackPerformance: false,
-    }
-  );
-}
-
-export async function commandPartnerCreateProfileImageUploadSession(
+export async function commandPartnerResubmitApplication(
   scope: CommandPartnerPortalScope,
   params: {
     sessionToken: string;
-    fileName: string;
-    mimeType: string;
-    sizeBytes: number;
+    applicationId: string;
+    expectedVersion: number;
+    applicationPayload: CommandPartnerApplicationPayload;
   }
 ) {
-  return requestCommandPublicApi<{ ok: true; upload: CommandPartnerAssetUploadSession }>(
-    `${commandPartnerScopeBase(scope)}/profile/image/upload-session`,
+  return requestCommandPublicApi<{ ok: true; application: CommandPartnerPortalApplication }>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}`,
     {
-      method: "POST",
+      method: "PATCH",
       sessionToken: params.sessionToken,
       trackPerformance: false,
       body: {
-        fileName: params.fileName,
-        mimeType: params.mimeType,
-        sizeBytes: params.sizeBytes,
+        expectedVersion: params.expectedVersion,
+        applicationPayload: params.applicationPayload,
       },
     }
   );
 }
 
-export async function commandPartnerFinalizeProfileImage(
+export async function commandPartnerWithdrawApplication(
   scope: CommandPartnerPortalScope,
   params: {
     sessionToken: string;
-    objectKey: string;
-    fileName: string;
-    mimeType: string;
-    sizeBytes: number;
-    checksumSha256?: string | null;
-    imageWidth?: number | null;
-    imageHeight?: number | null;
+    applicationId: string;
+    reason?: string | null;
   }
 ) {
-  return requestCommandPublicApi<{ ok: true; asset: CommandPartnerAssetSummary }>(
-    `${commandPartnerScopeBase(scope)}/profile/image/finalize`,
+  return requestCommandPublicApi<{ ok: true; application: CommandPartnerPortalApplication }>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}/withdraw`,
     {
       method: "POST",
       sessionToken: params.sessionToken,
       trackPerformance: false,
       body: {
-        objectKey: params.objectKey,
-        fileName: params.fileName,
-        mimeType: params.mimeType,
-        sizeBytes: params.sizeBytes,
-        checksumSha256: params.checksumSha256 || undefined,
-        imageWidth: params.imageWidth ?? undefined,
-        imageHeight: params.imageHeight ?? undefined,
+        reason: params.reason || undefined,
       },
     }
   );
 }
 
-export async function commandPartnerGetAssetAccess(
+export async function commandPartnerListApplicationVersions(
   scope: CommandPartnerPortalScope,
   params: {
     sessionToken: string;
-    assetId: string;
+    applicationId: string;
   }
 ) {
-  return requestCommandPublicApi<{ ok: true; access: CommandPartnerAssetAccess }>(
-    `${commandPartnerScopeBase(scope)}/assets/${encodeURIComponent(params.assetId)}/access`,
+  return requestCommandPublicApi<CommandPartnerApplicationVersionsPayload>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}/versions`,
     {
       sessionToken: params.sessionToken,
       trackPerformance: false,
@@ -1269,85 +1558,494 @@ export async function commandPartnerGetAssetAccess(
   );
 }
 
-export async function commandParticipantGetRequirements(sessionToken: string) {
-  return requestCommandPublicApi<CommandPartnerPortalRequirementsPayload>("/api/v1/partners/requirements", {
-    sessionToken,
-    trackPerformance: false,
-  });
-}
-
-export async function commandParticipantCreateRequirementUploadSession(params: {
-  sessionToken: string;
-  requirementType: CommandParticipantRequirementType;
-  fileName: string;
-  mimeType: string;
-  sizeBytes: number;
-}) {
-  return requestCommandPublicApi<{ ok: true; upload: CommandPartnerAssetUploadSession }>(
-    `/api/v1/partners/requirements/${encodeURIComponent(params.requirementType)}/upload-session`,
+export async function commandPartnerListApplicationMessages(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    applicationId: string;
+  }
+) {
+  return requestCommandPublicApi<CommandPartnerApplicationMessagesPayload>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}/messages`,
     {
-      method: "POST",
       sessionToken: params.sessionToken,
       trackPerformance: false,
-      body: {
-        fileName: params.fileName,
-        mimeType: params.mimeType,
-        sizeBytes: params.sizeBytes,
-      },
     }
   );
 }
 
-export async function commandParticipantFinalizeRequirement(params: {
-  sessionToken: string;
-  requirementType: CommandParticipantRequirementType;
-  objectKey: string;
-  fileName: string;
-  mimeType: string;
-  sizeBytes: number;
-  checksumSha256?: string | null;
-  expiresAt: string;
-}) {
-  return requestCommandPublicApi<{ ok: true; requirement: CommandPartnerPortalRequirement }>(
-    `/api/v1/partners/requirements/${encodeURIComponent(params.requirementType)}/finalize`,
+export async function commandPartnerPostApplicationMessage(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    applicationId: string;
+    body: string;
+    attachmentAssetIds: string[];
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; message: CommandPartnerApplicationMessage }>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}/messages`,
     {
       method: "POST",
       sessionToken: params.sessionToken,
       trackPerformance: false,
       body: {
-        objectKey: params.objectKey,
-        fileName: params.fileName,
-        mimeType: params.mimeType,
-        sizeBytes: params.sizeBytes,
-        checksumSha256: params.checksumSha256 || undefined,
-        expiresAt: params.expiresAt,
+        body: params.body,
+        attachmentAssetIds: params.attachmentAssetIds,
       },
     }
   );
 }
 
-// HUMAN-REVIEW: Wave 12 — partner availability calendar API wrappers
-export async function commandPartnerGetAvailability(
+export async function commandPartnerMarkApplicationMessagesRead(
   scope: CommandPartnerPortalScope,
   params: {
     sessionToken: string;
-    eventSeriesId: string;
+    applicationId: string;
   }
 ) {
-  return requestCommandPublicApi<CommandPartnerAvailabilityPayload>(
-    `${commandPartnerScopeBase(scope)}/availability?eventSeriesId=${encodeURIComponent(params.eventSeriesId)}`,
+  return requestCommandPublicApi<{ ok: true; lastReadAt: string }>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}/messages/read`,
     {
+      method: "POST",
       sessionToken: params.sessionToken,
       trackPerformance: false,
     }
   );
 }
 
-export async function commandPartnerSetAvailability(
+export async function commandPartnerCreateMessageAttachmentUploadSession(
   scope: CommandPartnerPortalScope,
   params: {
     sessionToken: string;
-    eventSeriesId: string;
+    applicationId: string;
+    fileName: string;
+    mimeType: string;
+    sizeBytes: number;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; upload: CommandPartnerAssetUploadSession }>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}/messages/attachments/upload-session`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        fileName: params.fileName,
+        mimeType: params.mimeType,
+        sizeBytes: params.sizeBytes,
+      },
+    }
+  );
+}
+
+export async function commandPartnerFinalizeMessageAttachment(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    applicationId: string;
+    objectKey: string;
+    fileName: string;
+    mimeType: string;
+    sizeBytes: number;
+    checksumSha256?: string | null;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; asset: CommandPartnerAssetSummary }>(
+    `${commandPartnerScopeBase(scope)}/applications/${encodeURIComponent(params.applicationId)}/messages/attachments/finalize`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        objectKey: params.objectKey,
+        fileName: params.fileName,
+        mimeType: params.mimeType,
+        sizeBytes: params.sizeBytes,
+        checksumSha256: params.checksumSha256 || undefined,
+      },
+    }
+  );
+}
+
+export async function commandPartnerGetUnreadMessages(
+  scope: CommandPartnerPortalScope,
+  sessionToken: string
+) {
+  return requestCommandPublicApi<CommandPartnerUnreadMessagesPayload>(
+    `${commandPartnerScopeBase(scope)}/messages/unread`,
+    {
+      sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPartnerListNotifications(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    limit?: number;
+    unreadOnly?: boolean;
+  }
+) {
+  return requestCommandPublicApi<CommandPartnerNotificationsPayload>(`${commandPartnerScopeBase(scope)}/notifications`, {
+    sessionToken: params.sessionToken,
+    trackPerformance: false,
+    query: {
+      limit: params.limit,
+      unreadOnly: params.unreadOnly ? "1" : undefined,
+    },
+  });
+}
+
+// Omitting notificationIds marks every notification read.
+export async function commandPartnerMarkNotificationsRead(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    notificationIds?: string[];
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; unreadCount: number }>(`${commandPartnerScopeBase(scope)}/notifications/read`, {
+    method: "POST",
+    sessionToken: params.sessionToken,
+    trackPerformance: false,
+    body: {
+      notificationIds: params.notificationIds,
+    },
+  });
+}
+
+export async function commandPartnerGetNotificationPreferences(
+  scope: CommandPartnerPortalScope,
+  sessionToken: string
+) {
+  return requestCommandPublicApi<{ ok: true; preferences: CommandPartnerNotificationPreferences }>(
+    `${commandPartnerScopeBase(scope)}/notification-preferences`,
+    {
+      sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPartnerUpdateNotificationPreferences(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    preferences: Partial<CommandPartnerNotificationPreferences>;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; preferences: CommandPartnerNotificationPreferences }>(
+    `${commandPartnerScopeBase(scope)}/notification-preferences`,
+    {
+      method: "PATCH",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: params.preferences,
+    }
+  );
+}
+
+// Integration-key only: partners opted into a digest at this frequency whose
+// notifications have not been emailed yet.
+export async function commandPartnerListNotificationDigestRecipients(
+  scope: CommandPartnerPortalScope,
+  params: {
+    frequency: Exclude<CommandPartnerNotificationDigestFrequency, "OFF">;
+    limit?: number;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; recipients: CommandPartnerNotificationDigestRecipient[] }>(
+    `${commandPartnerScopeBase(scope)}/notifications/digest`,
+    {
+      trackPerformance: false,
+      query: {
+        frequency: params.frequency,
+        limit: params.limit,
+      },
+    }
+  );
+}
+
+export async function commandPartnerAcknowledgeNotificationDigest(
+  scope: CommandPartnerPortalScope,
+  params: {
+    partnerUserId: string;
+    notificationIds: string[];
+  }
+) {
+  return requestCommandPublicApi<{ ok: true }>(`${commandPartnerScopeBase(scope)}/notifications/digest/ack`, {
+    method: "POST",
+    trackPerformance: false,
+    body: {
+      partnerUserId: params.partnerUserId,
+      notificationIds: params.notificationIds,
+    },
+  });
+}
+
+export async function commandPartnerListApplicationDrafts(
+  scope: CommandPartnerPortalScope,
+  sessionToken: string
+) {
+  return requestCommandPublicApi<CommandPartnerApplicationDraftsPayload>(
+    `${commandPartnerScopeBase(scope)}/applications/drafts`,
+    {
+      sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPartnerSaveApplicationDraft(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    scheduleEventSeriesId: string;
+    formType: CommandPartnerApplicationFormType;
+    applicationPayload: CommandPartnerApplicationPayload;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; draft: CommandPartnerApplicationDraft }>(
+    `${commandPartnerScopeBase(scope)}/applications/drafts`,
+    {
+      method: "PUT",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        scheduleEventSeriesId: params.scheduleEventSeriesId,
+        formType: params.formType,
+        applicationPayload: params.applicationPayload,
+      },
+    }
+  );
+}
+
+export async function commandPartnerDeleteApplicationDraft(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    scheduleEventSeriesId: string;
+    formType: CommandPartnerApplicationFormType;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; deleted: boolean }>(
+    `${commandPartnerScopeBase(scope)}/applications/drafts`,
+    {
+      method: "DELETE",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      query: {
+        scheduleEventSeriesId: params.scheduleEventSeriesId,
+        formType: params.formType,
+      },
+    }
+  );
+}
+
+export async function commandPartnerGetProfileImage(
+  scope: CommandPartnerPortalScope,
+  sessionToken: string
+) {
+  return requestCommandPublicApi<{ ok: true; asset: CommandPartnerAssetSummary | null }>(
+    `${commandPartnerScopeBase(scope)}/profile/image`,
+    {
+      sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPartnerCreateProfileImageUploadSession(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    fileName: string;
+    mimeType: string;
+    sizeBytes: number;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; upload: CommandPartnerAssetUploadSession }>(
+    `${commandPartnerScopeBase(scope)}/profile/image/upload-session`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        fileName: params.fileName,
+        mimeType: params.mimeType,
+        sizeBytes: params.sizeBytes,
+      },
+    }
+  );
+}
+
+export async function commandPartnerFinalizeProfileImage(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    objectKey: string;
+    fileName: string;
+    mimeType: string;
+    sizeBytes: number;
+    checksumSha256?: string | null;
+    imageWidth?: number | null;
+    imageHeight?: number | null;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; asset: CommandPartnerAssetSummary }>(
+    `${commandPartnerScopeBase(scope)}/profile/image/finalize`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        objectKey: params.objectKey,
+        fileName: params.fileName,
+        mimeType: params.mimeType,
+        sizeBytes: params.sizeBytes,
+        checksumSha256: params.checksumSha256 || undefined,
+        imageWidth: params.imageWidth ?? undefined,
+        imageHeight: params.imageHeight ?? undefined,
+      },
+    }
+  );
+}
+
+export async function commandPartnerGetAssetAccess(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    assetId: string;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; access: CommandPartnerAssetAccess }>(
+    `${commandPartnerScopeBase(scope)}/assets/${encodeURIComponent(params.assetId)}/access`,
+    {
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandParticipantGetRequirements(sessionToken: string) {
+  return requestCommandPublicApi<CommandPartnerPortalRequirementsPayload>("/api/v1/partners/requirements", {
+    sessionToken,
+    trackPerformance: false,
+  });
+}
+
+export async function commandParticipantCreateRequirementUploadSession(params: {
+  sessionToken: string;
+  requirementType: CommandParticipantRequirementType;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+}) {
+  return requestCommandPublicApi<{ ok: true; upload: CommandPartnerAssetUploadSession }>(
+    `/api/v1/partners/requirements/${encodeURIComponent(params.requirementType)}/upload-session`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        fileName: params.fileName,
+        mimeType: params.mimeType,
+        sizeBytes: params.sizeBytes,
+      },
+    }
+  );
+}
+
+export async function commandParticipantFinalizeRequirement(params: {
+  sessionToken: string;
+  requirementType: CommandParticipantRequirementType;
+  objectKey: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksumSha256?: string | null;
+  expiresAt: string;
+  renewal?: boolean;
+  multipartUploadId?: string | null;
+  multipartParts?: CommandPartnerAssetUploadedPart[] | null;
+}) {
+  return requestCommandPublicApi<{ ok: true; requirement: CommandPartnerPortalRequirement }>(
+    `/api/v1/partners/requirements/${encodeURIComponent(params.requirementType)}/finalize`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        objectKey: params.objectKey,
+        fileName: params.fileName,
+        mimeType: params.mimeType,
+        sizeBytes: params.sizeBytes,
+        checksumSha256: params.checksumSha256 || undefined,
+        expiresAt: params.expiresAt,
+        renewal: params.renewal || undefined,
+        multipartUploadId: params.multipartUploadId || undefined,
+        multipartParts: params.multipartParts || undefined,
+      },
+    }
+  );
+}
+
+// Integration-key only: approved requirements whose expiry falls on one of the
+// lead days and that have not been reminded for that lead day yet. Partners who
+// removed REQUIREMENT_EXPIRING from their email types are left out.
+export async function commandParticipantListRequirementReminders(params: { leadDays: number[] }) {
+  return requestCommandPublicApi<{ ok: true; recipients: CommandParticipantRequirementReminderRecipient[] }>(
+    "/api/v1/partners/requirements/reminders",
+    {
+      trackPerformance: false,
+      query: {
+        leadDays: params.leadDays.join(","),
+      },
+    }
+  );
+}
+
+// Also records a REQUIREMENT_EXPIRING notification for each acknowledged
+// reminder, so the portal notification center matches what was emailed.
+export async function commandParticipantAcknowledgeRequirementReminders(params: {
+  partnerUserId: string;
+  reminders: Array<{ requirementType: CommandParticipantRequirementType; leadDays: number }>;
+}) {
+  return requestCommandPublicApi<{ ok: true }>("/api/v1/partners/requirements/reminders/ack", {
+    method: "POST",
+    trackPerformance: false,
+    body: {
+      partnerUserId: params.partnerUserId,
+      reminders: params.reminders,
+    },
+  });
+}
+
+// HUMAN-REVIEW: Wave 12 — partner availability calendar API wrappers
+export async function commandPartnerGetAvailability(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    eventSeriesId: string;
+  }
+) {
+  return requestCommandPublicApi<CommandPartnerAvailabilityPayload>(
+    `${commandPartnerScopeBase(scope)}/availability?eventSeriesId=${encodeURIComponent(params.eventSeriesId)}`,
+    {
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPartnerSetAvailability(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    eventSeriesId: string;
     dates: string[];
     action: "set" | "remove";
   }
@@ -1367,6 +2065,232 @@ export async function commandPartnerSetAvailability(
   );
 }
 
+export type CommandPartnerTeamMember = {
+  partnerUserId: string;
+  email: string;
+  memberName: string | null;
+  role: CommandPartnerTeamRole;
+  status: CommandPartnerUserStatus;
+  joinedAt: string;
+  lastLoginAt: string | null;
+};
+
+export type CommandPartnerTeamInvitation = {
+  id: string;
+  email: string;
+  role: CommandPartnerTeamRole;
+  invitedByName: string | null;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type CommandPartnerTeamPayload = {
+  ok: true;
+  members: CommandPartnerTeamMember[];
+  invitations: CommandPartnerTeamInvitation[];
+};
+
+export type CommandPartnerTeamInvitationPreview = {
+  email: string;
+  role: CommandPartnerTeamRole;
+  profileDisplayName: string;
+  invitedByName: string | null;
+  expiresAt: string;
+};
+
+export type CommandPartnerActivityAction =
+  | "PROFILE_UPDATED"
+  | "PROFILE_IMAGE_UPDATED"
+  | "APPLICATION_SUBMITTED"
+  | "APPLICATION_RESUBMITTED"
+  | "APPLICATION_WITHDRAWN"
+  | "REQUIREMENT_UPLOADED"
+  | "TEAM_MEMBER_INVITED"
+  | "TEAM_MEMBER_JOINED"
+  | "TEAM_MEMBER_ROLE_CHANGED"
+  | "TEAM_MEMBER_REMOVED";
+
+export type CommandPartnerActivityEntry = {
+  id: string;
+  action: CommandPartnerActivityAction;
+  summary: string;
+  actor: {
+    partnerUserId: string;
+    email: string;
+    memberName: string | null;
+  } | null;
+  occurredAt: string;
+};
+
+export async function commandPartnerUpdateAvailabilityBatch(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    eventSeriesId: string;
+    entries: CommandPartnerAvailabilityUpdate[];
+  }
+) {
+  return requestCommandPublicApi<CommandPartnerAvailabilityBatchPayload>(
+    `${commandPartnerScopeBase(scope)}/availability/batch`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        eventSeriesId: params.eventSeriesId,
+        entries: params.entries,
+      },
+    }
+  );
+}
+
+export async function commandPartnerGetTeam(scope: CommandPartnerPortalScope, sessionToken: string) {
+  return requestCommandPublicApi<CommandPartnerTeamPayload>(`${commandPartnerScopeBase(scope)}/team`, {
+    sessionToken,
+    trackPerformance: false,
+  });
+}
+
+// Command emails the invitation with a link to /{scope}/join?token=...
+export async function commandPartnerInviteTeamMember(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    email: string;
+    role: CommandPartnerTeamRole;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; invitation: CommandPartnerTeamInvitation }>(
+    `${commandPartnerScopeBase(scope)}/team/invitations`,
+    {
+      method: "POST",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: {
+        email: params.email,
+        role: params.role,
+      },
+    }
+  );
+}
+
+export async function commandPartnerRevokeTeamInvitation(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    invitationId: string;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true }>(
+    `${commandPartnerScopeBase(scope)}/team/invitations/${encodeURIComponent(params.invitationId)}`,
+    {
+      method: "DELETE",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPartnerUpdateTeamMember(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    partnerUserId: string;
+    role: CommandPartnerTeamRole;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; member: CommandPartnerTeamMember }>(
+    `${commandPartnerScopeBase(scope)}/team/members/${encodeURIComponent(params.partnerUserId)}`,
+    {
+      method: "PATCH",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      body: { role: params.role },
+    }
+  );
+}
+
+export async function commandPartnerRemoveTeamMember(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    partnerUserId: string;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true }>(
+    `${commandPartnerScopeBase(scope)}/team/members/${encodeURIComponent(params.partnerUserId)}`,
+    {
+      method: "DELETE",
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPartnerGetTeamInvitation(
+  scope: CommandPartnerPortalScope,
+  params: {
+    token: string;
+    request?: CommandPublicRequestSource;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; invitation: CommandPartnerTeamInvitationPreview }>(
+    `${commandPartnerScopeBase(scope)}/team/invitations/lookup`,
+    {
+      request: params.request,
+      trackPerformance: false,
+      query: { token: params.token },
+    }
+  );
+}
+
+export async function commandPartnerAcceptTeamInvitation(
+  scope: CommandPartnerPortalScope,
+  params: {
+    token: string;
+    memberName: string;
+    password: string;
+    request?: CommandPublicRequestSource;
+    websiteSessionId?: string | null;
+  }
+) {
+  return requestCommandPublicApi<{
+    ok: true;
+    session: {
+      token: string;
+      expiresAt: string;
+    };
+    account: CommandPartnerPortalAccount;
+  }>(`${commandPartnerScopeBase(scope)}/team/invitations/accept`, {
+    method: "POST",
+    request: params.request,
+    websiteSessionId: params.websiteSessionId,
+    trackPerformance: false,
+    body: {
+      token: params.token,
+      memberName: params.memberName,
+      password: params.password,
+    },
+  });
+}
+
+export async function commandPartnerListActivity(
+  scope: CommandPartnerPortalScope,
+  params: {
+    sessionToken: string;
+    limit?: number;
+  }
+) {
+  return requestCommandPublicApi<{ ok: true; activity: CommandPartnerActivityEntry[] }>(
+    `${commandPartnerScopeBase(scope)}/activity`,
+    {
+      sessionToken: params.sessionToken,
+      trackPerformance: false,
+      query: { limit: params.limit },
+    }
+  );
+}
+
 export async function commandPublicListPrompts(sessionToken: string, params?: { q?: string; category?: string; limit?: number }) {
   return requestCommandPublicApi<{ ok: true; items: CommandPublicPromptItem[] }>("/api/v1/resources/prompts", {
     sessionToken,
@@ -1452,9 +2376,16 @@ type CommandPublicScheduleQuery = {
   resourceType?: CommandPublicScheduleResourceType | string;
   q?: string;
   sequence?: number | string;
+  participant?: string;
+  participantId?: string;
+  ids?: string[];
   limit?: number;
+  cursor?: string;
 };
 
+const SCHEDULE_LIST_PAGE_SIZE = 500;
+const SCHEDULE_LIST_MAX_PAGES = 40;
+
 export async function commandPublicListScheduleCalendar(params?: CommandPublicScheduleQuery) {
   return requestCommandPublicApi<CommandPublicScheduleResponse>("/api/v1/schedule/calendar", {
     query: {
@@ -1487,11 +2418,37 @@ export async function commandPublicListScheduleList(params?: CommandPublicSchedu
       resourceType: params?.resourceType,
       q: params?.q,
       sequence: params?.sequence ?? undefined,
+      participant: params?.participant,
+      participantId: params?.participantId,
+      ids: params?.ids && params.ids.length > 0 ? params.ids.join(",") : undefined,
       limit: params?.limit,
+      cursor: params?.cursor,
     },
   });
 }
 
+// Follows nextCursor until the range is exhausted. Runaway paging throws
+// rather than returning a silently truncated list.
+export async function commandPublicListAllScheduleList(params: Omit<CommandPublicScheduleQuery, "limit" | "cursor">) {
+  const items: CommandPublicScheduleItem[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < SCHEDULE_LIST_MAX_PAGES; page += 1) {
+    const response = await commandPublicListScheduleList({ ...params, limit: SCHEDULE_LIST_PAGE_SIZE, cursor });
+    items.push(...response.items);
+    if (!response.nextCursor) return items;
+    cursor = response.nextCursor;
+  }
+
+  throw new Error(`Schedule list did not finish within ${SCHEDULE_LIST_MAX_PAGES} pages`);
+}
+
+export async function commandPublicGetScheduleParticipant(slug: string) {
+  return requestCommandPublicApi<CommandPublicScheduleParticipantResponse>(
+    `/api/v1/schedule/participants/${encodeURIComponent(slug)}`
+  );
+}
+
 export async function commandPublicGetScheduleFeed(params: {
   feedId: string;
   request?: CommandPublicRequestSource;
@@ -1505,6 +2462,41 @@ export async function commandPublicGetScheduleFeed(params: {
   );
 }
 
+export async function commandPublicGetPartnerProfile(params: {
+  scope: CommandPartnerPortalScope;
+  slug: string;
+  request?: CommandPublicRequestSource;
+}) {
+  return requestCommandPublicApi<CommandPublicPartnerProfileResponse>(
+    `${commandPartnerScopeBase(params.scope)}/public-profiles/${encodeURIComponent(params.slug)}`,
+    {
+      request: params.request,
+      trackPerformance: false,
+    }
+  );
+}
+
+export async function commandPublicListScheduleFavorites(sessionToken: string) {
+  return requestCommandPublicApi<CommandPublicScheduleFavoritesPayload>("/api/v1/account/schedule-favorites", {
+    sessionToken,
+    trackPerformance: false,
+  });
+}
+
+export async function commandPublicReplaceScheduleFavorites(params: {
+  sessionToken: string;
+  favorites: Array<Pick<CommandPublicScheduleFavorite, "scheduleItemId" | "occursOn">>;
+}) {
+  return requestCommandPublicApi<CommandPublicScheduleFavoritesPayload>("/api/v1/account/schedule-favorites", {
+    method: "POST",
+    sessionToken: params.sessionToken,
+    trackPerformance: false,
+    body: {
+      favorites: params.favorites,
+    },
+  });
+}
+
 export async function commandPublicGetAnalyticsConsentNotice(params?: {
   request?: CommandPublicRequestSource;
 }) {
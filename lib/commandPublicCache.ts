@@ -0,0 +1,247 @@
+// lib/commandPublicCache.ts
+// Read-through cache for anonymous Command public API GETs (schedule, feeds,
+// guides, prompts, runtime host config).
+//
+// - Entries are keyed by brand scope + path + sorted query. The brand scope is
+//   derived from the integration key, which Command resolves to one brand.
+// - Each endpoint has its own fresh window; after that the cached value is
+//   served while one background refresh runs (stale-while-revalidate).
+// - When the upstream fails with a 5xx (including the client's synthetic 502
+//   for network errors) any cached value is served instead, up to a day old.
+// - A process-local memory store is always used. Setting
+//   COMMAND_PUBLIC_CACHE_REDIS_REST_URL/_TOKEN adds an Upstash-compatible REST
+//   store behind it so instances share warm entries.
+
+export type CommandPublicCachePolicy = {
+  ttlSeconds: number;
+  staleWhileRevalidateSeconds: number;
+  staleIfErrorSeconds: number;
+};
+
+export type CommandPublicCacheEntry = {
+  value: unknown;
+  storedAt: number;
+};
+
+export interface CommandPublicCacheStore {
+  get(key: string): Promise<CommandPublicCacheEntry | null>;
+  set(key: string, entry: CommandPublicCacheEntry, retainSeconds: number): Promise<void>;
+}
+
+const STALE_IF_ERROR_SECONDS = 24 * 60 * 60;
+const MEMORY_STORE_MAX_ENTRIES = 500;
+const KEY_PREFIX = "cmd-public-cache:v1";
+
+// Longest matching prefix wins. Paths not listed here are never cached.
+const COMMAND_PUBLIC_CACHE_POLICIES: Array<{ prefix: string; policy: CommandPublicCachePolicy }> = [
+  { prefix: "/api/v1/runtime/host", policy: { ttlSeconds: 60, staleWhileRevalidateSeconds: 600, staleIfErrorSeconds: STALE_IF_ERROR_SECONDS } },
+  { prefix: "/api/v1/schedule/calendar", policy: { ttlSeconds: 60, staleWhileRevalidateSeconds: 300, staleIfErrorSeconds: STALE_IF_ERROR_SECONDS } },
+  { prefix: "/api/v1/schedule/list", policy: { ttlSeconds: 60, staleWhileRevalidateSeconds: 300, staleIfErrorSeconds: STALE_IF_ERROR_SECONDS } },
+  { prefix: "/api/v1/schedule/participants/", policy: { ttlSeconds: 300, staleWhileRevalidateSeconds: 3600, staleIfErrorSeconds: STALE_IF_ERROR_SECONDS } },
+  { prefix: "/api/v1/schedule/feeds/", policy: { ttlSeconds: 120, staleWhileRevalidateSeconds: 600, staleIfErrorSeconds: STALE_IF_ERROR_SECONDS } },
+  { prefix: "/api/v1/resources/guides", policy: { ttlSeconds: 300, staleWhileRevalidateSeconds: 3600, staleIfErrorSeconds: STALE_IF_ERROR_SECONDS } },
+  { prefix: "/api/v1/resources/prompts", policy: { ttlSeconds: 300, staleWhileRevalidateSeconds: 3600, staleIfErrorSeconds: STALE_IF_ERROR_SECONDS } },
+];
+
+function retainSeconds(policy: CommandPublicCachePolicy) {
+  return policy.ttlSeconds + Math.max(policy.staleWhileRevalidateSeconds, policy.staleIfErrorSeconds);
+}
+
+export function createMemoryCommandPublicCacheStore(maxEntries = MEMORY_STORE_MAX_ENTRIES): CommandPublicCacheStore {
+  const entries = new Map<string, { entry: CommandPublicCacheEntry; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const hit = entries.get(key);
+      if (!hit) return null;
+      if (hit.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      // Re-insert so Map iteration order tracks recency for eviction.
+      entries.delete(key);
+      entries.set(key, hit);
+      // Callers own what they get back and may mutate it.
+      return structuredClone(hit.entry);
+    },
+    async set(key, entry, retain) {
+      entries.delete(key);
+      entries.set(key, { entry: structuredClone(entry), expiresAt: Date.now() + retain * 1000 });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (typeof oldest !== "string") break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+export function createRedisRestCommandPublicCacheStore(config: { url: string; token: string }): CommandPublicCacheStore {
+  const baseUrl = config.url.replace(/\/+$/, "");
+  const headers = { Authorization: `Bearer ${config.token}` };
+
+  return {
+    async get(key) {
+      const res = await fetch(`${baseUrl}/get/${encodeURIComponent(key)}`, { headers, cache: "no-store" });
+      if (!res.ok) throw new Error(`Shared cache read failed (${res.status})`);
+      const payload = (await res.json()) as { result?: string | null };
+      if (!payload.result) return null;
+      return JSON.parse(payload.result) as CommandPublicCacheEntry;
+    },
+    async set(key, entry, retain) {
+      const res = await fetch(`${baseUrl}/set/${encodeURIComponent(key)}?EX=${Math.ceil(retain)}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(entry),
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(`Shared cache write failed (${res.status})`);
+    },
+  };
+}
+
+function isCommandPublicCacheDisabled() {
+  return String(process.env.COMMAND_PUBLIC_CACHE_DISABLED || "").trim() === "1";
+}
+
+let memoryStore: CommandPublicCacheStore | null = null;
+let sharedStore: CommandPublicCacheStore | null | undefined;
+const inflightRefreshes = new Map<string, Promise<unknown>>();
+
+function getMemoryStore() {
+  if (!memoryStore) memoryStore = createMemoryCommandPublicCacheStore();
+  return memoryStore;
+}
+
+function getSharedStore() {
+  if (typeof sharedStore !== "undefined") return sharedStore;
+  const url = String(process.env.COMMAND_PUBLIC_CACHE_REDIS_REST_URL || "").trim();
+  const token = String(process.env.COMMAND_PUBLIC_CACHE_REDIS_REST_TOKEN || "").trim();
+  sharedStore = url && token ? createRedisRestCommandPublicCacheStore({ url, token }) : null;
+  return sharedStore;
+}
+
+// Lets deployments plug in a different shared store (or null to run memory-only).
+export function setCommandPublicSharedCacheStore(store: CommandPublicCacheStore | null) {
+  sharedStore = store;
+}
+
+export function getCommandPublicCachePolicy(pathname: string): CommandPublicCachePolicy | null {
+  let match: { prefix: string; policy: CommandPublicCachePolicy } | null = null;
+  for (const candidate of COMMAND_PUBLIC_CACHE_POLICIES) {
+    if (!pathname.startsWith(candidate.prefix)) continue;
+    if (!match || candidate.prefix.length > match.prefix.length) match = candidate;
+  }
+  return match?.policy || null;
+}
+
+// FNV-1a. Keeps the integration key out of shared-store keys without pulling a
+// crypto polyfill into client bundles that import commandPublicApi constants.
+function fingerprint(value: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function buildCommandPublicCacheKey(params: { brandScope: string; url: URL }) {
+  const brand = fingerprint(params.brandScope);
+  const query = Array.from(params.url.searchParams.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join("&");
+  return `${KEY_PREFIX}:${brand}:${params.url.pathname}?${query}`;
+}
+
+async function readEntry(key: string) {
+  const memoryHit = await getMemoryStore().get(key);
+  if (memoryHit) return memoryHit;
+
+  const shared = getSharedStore();
+  if (!shared) return null;
+  try {
+    return await shared.get(key);
+  } catch (error) {
+    console.error("[command-public-cache] shared store read failed", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+async function writeEntry(key: string, entry: CommandPublicCacheEntry, policy: CommandPublicCachePolicy) {
+  const retain = retainSeconds(policy);
+  await getMemoryStore().set(key, entry, retain);
+
+  const shared = getSharedStore();
+  if (!shared) return;
+  try {
+    await shared.set(key, entry, retain);
+  } catch (error) {
+    console.error("[command-public-cache] shared store write failed", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function loadAndStore<T>(key: string, policy: CommandPublicCachePolicy, load: () => Promise<T>) {
+  const inflight = inflightRefreshes.get(key);
+  if (inflight) return inflight as Promise<T>;
+
+  const promise = (async () => {
+    try {
+      const value = await load();
+      await writeEntry(key, { value, storedAt: Date.now() }, policy);
+      return value;
+    } finally {
+      inflightRefreshes.delete(key);
+    }
+  })();
+  inflightRefreshes.set(key, promise);
+  return promise;
+}
+
+export async function readThroughCommandPublicCache<T>(params: {
+  key: string;
+  policy: CommandPublicCachePolicy;
+  load: () => Promise<T>;
+  isUpstreamFailure: (error: unknown) => boolean;
+}): Promise<T> {
+  if (isCommandPublicCacheDisabled()) return params.load();
+
+  const { key, policy } = params;
+  const entry = await readEntry(key);
+  const ageSeconds = entry ? (Date.now() - entry.storedAt) / 1000 : Number.POSITIVE_INFINITY;
+
+  if (entry && ageSeconds <= policy.ttlSeconds) {
+    return entry.value as T;
+  }
+
+  if (entry && ageSeconds <= policy.ttlSeconds + policy.staleWhileRevalidateSeconds) {
+    loadAndStore(key, policy, params.load).catch((error) => {
+      console.error("[command-public-cache] background refresh failed", {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+    return entry.value as T;
+  }
+
+  try {
+    return await loadAndStore(key, policy, params.load);
+  } catch (error) {
+    if (entry && ageSeconds <= policy.ttlSeconds + policy.staleIfErrorSeconds && params.isUpstreamFailure(error)) {
+      console.error("[command-public-cache] serving stale entry after upstream failure", {
+        key,
+        ageSeconds: Math.round(ageSeconds),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return entry.value as T;
+    }
+    throw error;
+  }
+}
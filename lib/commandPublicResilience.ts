@@ -0,0 +1,185 @@
+// lib/commandPublicResilience.ts
+// Timeout, retry and circuit-breaker policy for calls to the Command public API.
+//
+// - Every request gets a per-route timeout (longest matching prefix wins).
+//   COMMAND_PUBLIC_API_ROUTE_TIMEOUTS_MS, a JSON map of path prefix to
+//   milliseconds, overrides or adds to the built-in routes below.
+// - Only idempotent GETs are retried, on network errors, timeouts and
+//   502/503/504, with full-jitter exponential backoff.
+// - After enough consecutive upstream failures the breaker opens and requests
+//   fail fast with a 503 until the cool-down passes; then one trial request is
+//   let through (half-open) to decide whether to close it again.
+//
+// Breaker state is process-local: each serverless instance trips on its own.
+
+export type CommandPublicCircuitState = "closed" | "open" | "half-open";
+
+export type CommandPublicCircuitSnapshot = {
+  state: CommandPublicCircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastFailureAt: string | null;
+  lastFailureMessage: string | null;
+  shortCircuitedCount: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 8_000;
+const MAX_GET_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 200;
+const BACKOFF_MAX_MS = 2_000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOL_DOWN_MS = 30_000;
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+type CommandPublicRouteTimeout = { prefix: string; timeoutMs: number };
+
+// Chat waits on model output and requirement uploads hand off files, so they
+// get longer; analytics beacons and host lookups sit in front of page renders
+// and should give up quickly.
+const DEFAULT_ROUTE_TIMEOUTS_MS: CommandPublicRouteTimeout[] = [
+  { prefix: "/api/v1/chat", timeoutMs: 30_000 },
+  { prefix: "/api/v1/analytics/collect", timeoutMs: 3_000 },
+  { prefix: "/api/v1/runtime/host", timeoutMs: 3_000 },
+  { prefix: "/api/v1/partners/requirements/", timeoutMs: 15_000 },
+  { prefix: "/api/v1/sponsors/requirements/", timeoutMs: 15_000 },
+];
+
+function readPositiveIntEnv(key: string, fallback: number) {
+  const parsed = Number.parseInt(String(process.env[key] || "").trim(), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+let routeTimeoutsCache: { raw: string; routes: CommandPublicRouteTimeout[] } | null = null;
+
+// Invalid JSON or non-positive values are ignored (with a warning) rather than
+// failing every Command call over a config typo.
+function getRouteTimeoutsMs() {
+  const raw = String(process.env.COMMAND_PUBLIC_API_ROUTE_TIMEOUTS_MS || "").trim();
+  if (routeTimeoutsCache && routeTimeoutsCache.raw === raw) return routeTimeoutsCache.routes;
+
+  const overrides = new Map<string, number>();
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("expected an object");
+      for (const [prefix, value] of Object.entries(parsed)) {
+        const timeoutMs = typeof value === "number" ? Math.floor(value) : Number.NaN;
+        if (prefix.startsWith("/") && Number.isFinite(timeoutMs) && timeoutMs > 0) {
+          overrides.set(prefix, timeoutMs);
+        } else {
+          console.warn("[command-public-api] ignoring route timeout override", { prefix, value });
+        }
+      }
+    } catch (error) {
+      console.warn("[command-public-api] COMMAND_PUBLIC_API_ROUTE_TIMEOUTS_MS is not a JSON object of path prefix to milliseconds", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const routes = DEFAULT_ROUTE_TIMEOUTS_MS.filter((route) => !overrides.has(route.prefix));
+  overrides.forEach((timeoutMs, prefix) => routes.push({ prefix, timeoutMs }));
+  routeTimeoutsCache = { raw, routes };
+  return routes;
+}
+
+export function getCommandPublicRequestTimeoutMs(pathname: string) {
+  let match: CommandPublicRouteTimeout | null = null;
+  for (const candidate of getRouteTimeoutsMs()) {
+    if (!pathname.startsWith(candidate.prefix)) continue;
+    if (!match || candidate.prefix.length > match.prefix.length) match = candidate;
+  }
+  return match?.timeoutMs ?? readPositiveIntEnv("COMMAND_PUBLIC_API_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+}
+
+export function getCommandPublicMaxAttempts(method: string) {
+  return method === "GET" ? MAX_GET_ATTEMPTS : 1;
+}
+
+export function isRetryableCommandPublicStatus(status: number) {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+export function getCommandPublicRetryDelayMs(attempt: number) {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+export function waitForCommandPublicRetry(attempt: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, getCommandPublicRetryDelayMs(attempt)));
+}
+
+const circuit = {
+  state: "closed" as CommandPublicCircuitState,
+  consecutiveFailures: 0,
+  openedAt: null as number | null,
+  lastFailureAt: null as number | null,
+  lastFailureMessage: null as string | null,
+  shortCircuitedCount: 0,
+  trialInFlight: false,
+};
+
+function getFailureThreshold() {
+  return readPositiveIntEnv("COMMAND_PUBLIC_API_BREAKER_THRESHOLD", DEFAULT_FAILURE_THRESHOLD);
+}
+
+function getCoolDownMs() {
+  return readPositiveIntEnv("COMMAND_PUBLIC_API_BREAKER_COOLDOWN_MS", DEFAULT_COOL_DOWN_MS);
+}
+
+// Returns false when the request should be short-circuited.
+export function acquireCommandPublicCircuit() {
+  if (circuit.state === "open" && circuit.openedAt !== null && Date.now() - circuit.openedAt >= getCoolDownMs()) {
+    circuit.state = "half-open";
+  }
+
+  if (circuit.state === "closed") return true;
+  if (circuit.state === "half-open" && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  circuit.shortCircuitedCount += 1;
+  return false;
+}
+
+export function recordCommandPublicCircuitSuccess() {
+  circuit.state = "closed";
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+export function recordCommandPublicCircuitFailure(message: string) {
+  circuit.consecutiveFailures += 1;
+  circuit.lastFailureAt = Date.now();
+  circuit.lastFailureMessage = message;
+  circuit.trialInFlight = false;
+
+  if (circuit.state !== "half-open" && circuit.consecutiveFailures < getFailureThreshold()) return;
+
+  if (circuit.state !== "open") {
+    console.error("[command-public-api] circuit breaker opened", {
+      consecutiveFailures: circuit.consecutiveFailures,
+      lastFailureMessage: message,
+    });
+  }
+  circuit.state = "open";
+  circuit.openedAt = Date.now();
+}
+
+export function getCommandPublicCircuitSnapshot(): CommandPublicCircuitSnapshot {
+  const toIso = (value: number | null) => (value === null ? null : new Date(value).toISOString());
+  return {
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    failureThreshold: getFailureThreshold(),
+    openedAt: toIso(circuit.openedAt),
+    retryAt: circuit.state === "open" && circuit.openedAt !== null ? toIso(circuit.openedAt + getCoolDownMs()) : null,
+    lastFailureAt: toIso(circuit.lastFailureAt),
+    lastFailureMessage: circuit.lastFailureMessage,
+    shortCircuitedCount: circuit.shortCircuitedCount,
+  };
+}
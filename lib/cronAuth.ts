@@ -0,0 +1,11 @@
+import { timingSafeEqual } from "crypto";
+import type { NextApiRequest } from "next";
+
+// Scheduled callers (Vercel Cron sends this header) must present CRON_SECRET.
+export function isAuthorizedCronRequest(req: NextApiRequest) {
+  const secret = String(process.env.CRON_SECRET || "").trim();
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(String(req.headers.authorization || ""));
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,69 @@
+// lib/partnerApplicationDiff.ts
+// Field-level comparison between two submitted versions of a partner
+// application payload. Safe to import from both the browser and server code.
+
+import type { CommandPartnerApplicationPayload } from "./commandPublicApi";
+
+export type PartnerApplicationFieldChange = {
+  field: string;
+  label: string;
+  previous: string;
+  next: string;
+};
+
+// Fields whose camel-cased names do not read well when split automatically.
+const FIELD_LABELS: Record<string, string> = {
+  formType: "Form type",
+  websiteUrl: "Website",
+  instagramUrl: "Instagram",
+  facebookUrl: "Facebook",
+  livePerformanceVideoUrl: "Live performance video",
+  streamingUrl: "Streaming",
+  otherChannelUrl: "Other channel",
+  otherSocialUrl: "Other social",
+  availableOccurrenceDates: "Available dates",
+  canCommitToEarlyDropoffAndSoundcheck: "Early dropoff / soundcheck",
+  preScreeningAgreementAccepted: "Pre-screening agreement",
+};
+
+export function partnerApplicationFieldLabel(field: string) {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatPartnerApplicationFieldValue(value: unknown): string {
+  if (value === null || typeof value === "undefined" || value === "") return "Not provided";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length > 0 ? value.map((entry) => String(entry)).join(", ") : "Not provided";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// Lists only fields whose displayed value changed, in the order they appear in
+// the newer payload (fields dropped from the form follow at the end).
+export function diffPartnerApplicationPayloads(
+  previous: CommandPartnerApplicationPayload | null,
+  next: CommandPartnerApplicationPayload | null
+): PartnerApplicationFieldChange[] {
+  const before = (previous || {}) as Record<string, unknown>;
+  const after = (next || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(after), ...Object.keys(before)]));
+  // The stage name already shows stage changes; the ID adds nothing readable.
+  const hidden = new Set(["preferredStageId"]);
+
+  const changes: PartnerApplicationFieldChange[] = [];
+  for (const field of fields) {
+    if (hidden.has(field)) continue;
+    const previousValue = formatPartnerApplicationFieldValue(before[field]);
+    const nextValue = formatPartnerApplicationFieldValue(after[field]);
+    if (previousValue === nextValue) continue;
+    changes.push({
+      field,
+      label: partnerApplicationFieldLabel(field),
+      previous: previousValue,
+      next: nextValue,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,297 @@
+// lib/partnerAssetUpload.ts
+// Browser-side upload helpers for partner portal assets: validation against the
+// accepted types and size limits, direct-to-storage PUTs with progress and
+// retry, multipart uploads for large documents, and resume/restart handling.
+//
+// Multipart progress is kept in localStorage under a caller-supplied resume key
+// until the upload session expires, so a retry (or a page reload with the same
+// file re-selected) only sends the parts that are missing. If the session has
+// expired, the upload restarts once on a fresh session.
+
+import type {
+  CommandPartnerAssetKind,
+  CommandPartnerAssetUploadSession,
+  CommandPartnerAssetUploadedPart,
+} from "./commandPublicApi";
+
+export type PartnerUploadRule = {
+  mimeTypes: string[];
+  maxBytes: number;
+  description: string;
+  minImageWidth?: number;
+  minImageHeight?: number;
+};
+
+const MB = 1024 * 1024;
+
+export const PARTNER_UPLOAD_RULES: Record<CommandPartnerAssetKind, PartnerUploadRule> = {
+  DOCUMENT: {
+    mimeTypes: ["application/pdf", "image/jpeg", "image/png", "image/webp", "image/gif"],
+    maxBytes: 50 * MB,
+    description: "PDF, JPG, PNG, WebP or GIF up to 50 MB",
+  },
+  PROFILE_IMAGE: {
+    mimeTypes: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+    maxBytes: 15 * MB,
+    description: "JPG, PNG, WebP or GIF up to 15 MB, at least 400 × 400",
+    minImageWidth: 400,
+    minImageHeight: 400,
+  },
+};
+
+// Profile images are cropped square and scaled down to at most this size.
+export const PROFILE_IMAGE_OUTPUT_SIZE = 1024;
+
+const MAX_PUT_ATTEMPTS = 3;
+// Treat the session as expired a little early so a part is not started on a
+// URL that lapses mid-request.
+const SESSION_EXPIRY_MARGIN_MS = 15_000;
+const RESUME_STORAGE_PREFIX = "partner-upload:";
+
+export class PartnerUploadSessionExpiredError extends Error {
+  constructor() {
+    super("The upload link expired before the file finished uploading.");
+    this.name = "PartnerUploadSessionExpiredError";
+  }
+}
+
+export function formatUploadSize(sizeBytes: number) {
+  if (sizeBytes >= MB) return `${(sizeBytes / MB).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(sizeBytes / 1024))} KB`;
+}
+
+export function partnerUploadAcceptAttribute(kind: CommandPartnerAssetKind) {
+  return PARTNER_UPLOAD_RULES[kind].mimeTypes.join(",");
+}
+
+// Returns a user-facing error, or null when the file can be uploaded.
+export function validatePartnerUploadFile(file: File, kind: CommandPartnerAssetKind): string | null {
+  const rule = PARTNER_UPLOAD_RULES[kind];
+  if (!rule.mimeTypes.includes(file.type)) {
+    return `${file.name} is not an accepted file type. Use ${rule.description}.`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty.`;
+  }
+  if (file.size > rule.maxBytes) {
+    return `${file.name} is ${formatUploadSize(file.size)}. The limit is ${formatUploadSize(rule.maxBytes)}.`;
+  }
+  return null;
+}
+
+export function partnerUploadResumeKey(scopeKey: string, file: File) {
+  return `${scopeKey}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+type ResumeState = {
+  session: CommandPartnerAssetUploadSession;
+  completedParts: CommandPartnerAssetUploadedPart[];
+};
+
+function isSessionExpired(session: CommandPartnerAssetUploadSession) {
+  return Date.now() >= new Date(session.expiresAt).getTime() - SESSION_EXPIRY_MARGIN_MS;
+}
+
+function readResumeState(resumeKey: string | null): ResumeState | null {
+  if (!resumeKey) return null;
+  try {
+    const raw = window.localStorage.getItem(`${RESUME_STORAGE_PREFIX}${resumeKey}`);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as ResumeState;
+    if (!parsed?.session?.multipart || isSessionExpired(parsed.session)) {
+      window.localStorage.removeItem(`${RESUME_STORAGE_PREFIX}${resumeKey}`);
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function writeResumeState(resumeKey: string | null, state: ResumeState | null) {
+  if (!resumeKey) return;
+  try {
+    if (state) window.localStorage.setItem(`${RESUME_STORAGE_PREFIX}${resumeKey}`, JSON.stringify(state));
+    else window.localStorage.removeItem(`${RESUME_STORAGE_PREFIX}${resumeKey}`);
+  } catch {
+    // Private mode or a full quota only costs resumability.
+  }
+}
+
+// Called once the caller has finalized the upload. Until then the uploaded
+// parts stay resumable, so a failed finalize can be retried without
+// re-sending the file.
+export function clearPartnerUploadResume(resumeKey: string | null) {
+  writeResumeState(resumeKey, null);
+}
+
+type PutResult = { status: number; etag: string | null };
+
+function putWithProgress(params: {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: Blob;
+  onProgress: (loadedBytes: number) => void;
+}): Promise<PutResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(params.method, params.url);
+    for (const [key, value] of Object.entries(params.headers)) {
+      xhr.setRequestHeader(key, value);
+    }
+    xhr.upload.onprogress = (event) => params.onProgress(event.loaded);
+    xhr.onload = () => resolve({ status: xhr.status, etag: xhr.getResponseHeader("ETag") });
+    xhr.onerror = () => reject(new Error("Network error while uploading."));
+    xhr.onabort = () => reject(new Error("Upload was cancelled."));
+    xhr.send(params.body);
+  });
+}
+
+async function putWithRetry(params: {
+  session: CommandPartnerAssetUploadSession;
+  url: string;
+  headers: Record<string, string>;
+  body: Blob;
+  onProgress: (loadedBytes: number) => void;
+}) {
+  let lastError: Error | null = null;
+  for (let attempt = 1; attempt <= MAX_PUT_ATTEMPTS; attempt += 1) {
+    if (isSessionExpired(params.session)) throw new PartnerUploadSessionExpiredError();
+    params.onProgress(0);
+    try {
+      const result = await putWithProgress({
+        url: params.url,
+        method: params.session.uploadMethod || "PUT",
+        headers: params.headers,
+        body: params.body,
+        onProgress: params.onProgress,
+      });
+      if (result.status >= 200 && result.status < 300) return result;
+      // Storage answers 403 once a presigned URL has lapsed.
+      if (result.status === 403 && isSessionExpired(params.session)) throw new PartnerUploadSessionExpiredError();
+      lastError = new Error(`Storage rejected the upload (${result.status}).`);
+      if (result.status < 500) break;
+    } catch (error) {
+      if (error instanceof PartnerUploadSessionExpiredError) throw error;
+      lastError = error instanceof Error ? error : new Error("Upload failed.");
+    }
+    if (attempt < MAX_PUT_ATTEMPTS) {
+      await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+    }
+  }
+  throw lastError || new Error("Upload failed.");
+}
+
+async function uploadToSession(params: {
+  file: Blob;
+  session: CommandPartnerAssetUploadSession;
+  completedParts: CommandPartnerAssetUploadedPart[];
+  resumeKey: string | null;
+  onProgress: (fraction: number) => void;
+}): Promise<CommandPartnerAssetUploadedPart[] | null> {
+  const { file, session } = params;
+  const multipart = session.multipart;
+
+  if (!multipart) {
+    await putWithRetry({
+      session,
+      url: session.uploadUrl,
+      headers: session.uploadHeaders || {},
+      body: file,
+      onProgress: (loaded) => params.onProgress(file.size > 0 ? loaded / file.size : 1),
+    });
+    params.onProgress(1);
+    return null;
+  }
+
+  const completed = new Map(params.completedParts.map((part) => [part.partNumber, part.etag]));
+  const partBytes = (partNumber: number) =>
+    Math.max(0, Math.min(multipart.partSizeBytes, file.size - (partNumber - 1) * multipart.partSizeBytes));
+  let doneBytes = multipart.parts.filter((part) => completed.has(part.partNumber)).reduce((total, part) => total + partBytes(part.partNumber), 0);
+  params.onProgress(file.size > 0 ? doneBytes / file.size : 0);
+
+  for (const part of multipart.parts) {
+    if (completed.has(part.partNumber)) continue;
+    const start = (part.partNumber - 1) * multipart.partSizeBytes;
+    const chunk = file.slice(start, start + multipart.partSizeBytes);
+    const result = await putWithRetry({
+      session,
+      url: part.uploadUrl,
+      headers: {},
+      body: chunk,
+      onProgress: (loaded) => params.onProgress((doneBytes + loaded) / file.size),
+    });
+    if (!result.etag) {
+      throw new Error("Storage did not confirm an uploaded part. Check the bucket CORS exposes the ETag header.");
+    }
+    completed.set(part.partNumber, result.etag);
+    doneBytes += chunk.size;
+    writeResumeState(params.resumeKey, {
+      session,
+      completedParts: Array.from(completed, ([partNumber, etag]) => ({ partNumber, etag })),
+    });
+  }
+
+  params.onProgress(1);
+  return multipart.parts.map((part) => ({ partNumber: part.partNumber, etag: completed.get(part.partNumber)! }));
+}
+
+export type PartnerAssetUploadResult = {
+  session: CommandPartnerAssetUploadSession;
+  multipartParts: CommandPartnerAssetUploadedPart[] | null;
+};
+
+// createSession returns null when it has already handled the failure (for
+// example by redirecting to sign in); the upload then resolves to null too.
+// The resume state is left in place; clear it with clearPartnerUploadResume
+// after finalize succeeds.
+export async function runPartnerAssetUpload(params: {
+  file: Blob;
+  resumeKey: string | null;
+  createSession: () => Promise<CommandPartnerAssetUploadSession | null>;
+  onProgress: (fraction: number) => void;
+  onSessionRestart?: () => void;
+}): Promise<PartnerAssetUploadResult | null> {
+  const resumed = readResumeState(params.resumeKey);
+  let session = resumed?.session || (await params.createSession());
+  if (!session) return null;
+  let completedParts = resumed?.completedParts || [];
+
+  for (let restart = 0; ; restart += 1) {
+    try {
+      const multipartParts = await uploadToSession({
+        file: params.file,
+        session,
+        completedParts,
+        resumeKey: params.resumeKey,
+        onProgress: params.onProgress,
+      });
+      return { session, multipartParts };
+    } catch (error) {
+      if (!(error instanceof PartnerUploadSessionExpiredError) || restart >= 1) throw error;
+      writeResumeState(params.resumeKey, null);
+      params.onSessionRestart?.();
+      const nextSession = await params.createSession();
+      if (!nextSession) return null;
+      session = nextSession;
+      completedParts = [];
+    }
+  }
+}
+
+export function readImageDimensions(file: Blob): Promise<{ width: number; height: number } | null> {
+  return new Promise((resolve) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      URL.revokeObjectURL(objectUrl);
+    };
+    image.onerror = () => {
+      resolve(null);
+      URL.revokeObjectURL(objectUrl);
+    };
+    image.src = objectUrl;
+  });
+}
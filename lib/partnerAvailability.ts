@@ -0,0 +1,18 @@
+// lib/partnerAvailability.ts
+// Limits shared by the partner availability calendar and its BFF handler.
+// Safe to import from both the browser and server code.
+
+import type { CommandPartnerAvailabilityUpdate } from "./commandPublicApi";
+
+// A full season of dates fits comfortably; anything larger is a client bug.
+export const MAX_AVAILABILITY_BATCH_ENTRIES = 400;
+
+// Splits updates into batches the BFF accepts, in date order.
+export function chunkAvailabilityUpdates(updates: CommandPartnerAvailabilityUpdate[]) {
+  const sorted = [...updates].sort((a, b) => a.date.localeCompare(b.date));
+  const chunks: CommandPartnerAvailabilityUpdate[][] = [];
+  for (let index = 0; index < sorted.length; index += MAX_AVAILABILITY_BATCH_ENTRIES) {
+    chunks.push(sorted.slice(index, index + MAX_AVAILABILITY_BATCH_ENTRIES));
+  }
+  return chunks;
+}
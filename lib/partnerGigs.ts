@@ -0,0 +1,34 @@
+// lib/partnerGigs.ts
+// Builds a partner's "My Gigs" itinerary from the public schedule: their own
+// assignments plus the load-in and soundcheck windows the event team entered
+// in Command for each one. Safe to import from both the browser and server
+// code.
+
+import type { CommandPublicScheduleItem, CommandPublicScheduleTimeWindow } from "./commandPublicApi";
+import { buildScheduleIcal } from "./scheduleIcal";
+import { sortItineraryItems } from "./scheduleItinerary";
+
+export type PartnerGig = {
+  item: CommandPublicScheduleItem;
+  loadIn: CommandPublicScheduleTimeWindow | null;
+  soundcheck: CommandPublicScheduleTimeWindow | null;
+};
+
+// Keeps the partner's own, non-cancelled assignments, sorted by date and time.
+export function buildPartnerGigs(items: CommandPublicScheduleItem[], partnerProfileId: string): PartnerGig[] {
+  const own = items.filter((item) => item.participant.id === partnerProfileId && item.status !== "CANCELLED");
+  return sortItineraryItems(own).map((item) => ({
+    item,
+    loadIn: item.loadIn || null,
+    soundcheck: item.soundcheck || null,
+  }));
+}
+
+// Only the published set times go into the calendar, matching the public
+// schedule export.
+export function buildPartnerGigsIcal(gigs: PartnerGig[], options: { calendarName: string; uidDomain: string }) {
+  return buildScheduleIcal(
+    gigs.map((gig) => gig.item),
+    options
+  );
+}
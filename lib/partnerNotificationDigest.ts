@@ -0,0 +1,269 @@
+// lib/partnerNotificationDigest.ts
+// Emails partner/sponsor notification digests and requirement expiry reminders
+// through the brand's email config.
+//
+// Command owns the notifications, reminder bookkeeping and each partner's email
+// preferences; this side only renders and sends. Recipients are acknowledged
+// one at a time after their email goes out, so a failed run can simply be
+// retried.
+
+import {
+  commandParticipantAcknowledgeRequirementReminders,
+  commandParticipantListRequirementReminders,
+  commandPartnerAcknowledgeNotificationDigest,
+  commandPartnerListNotificationDigestRecipients,
+  type CommandParticipantRequirementReminderRecipient,
+  type CommandPartnerNotificationDigestFrequency,
+  type CommandPartnerNotificationDigestRecipient,
+  type CommandPartnerPortalScope,
+} from "./commandPublicApi";
+import { resolveBrandEmailConfig, sendBrandEmail, type BrandEmailConfigFailure } from "./brandEmail";
+import type { PublicBrandContext } from "./brandContext";
+
+export type PartnerNotificationDigestFrequency = Exclude<CommandPartnerNotificationDigestFrequency, "OFF">;
+
+export type PartnerNotificationDigestRunResult =
+  | BrandEmailConfigFailure
+  | {
+      ok: true;
+      frequency: PartnerNotificationDigestFrequency;
+      sent: number;
+      failed: number;
+    };
+
+export type PartnerRequirementReminderRunResult =
+  | BrandEmailConfigFailure
+  | {
+      ok: true;
+      leadDays: number[];
+      sent: number;
+      failed: number;
+    };
+
+const DIGEST_SCOPES: CommandPartnerPortalScope[] = ["partners", "sponsors"];
+const DEFAULT_REMINDER_LEAD_DAYS = [30, 14, 3];
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function portalLink(origin: string, scope: CommandPartnerPortalScope, linkPath: string | null) {
+  const path = linkPath && linkPath.startsWith("/") ? linkPath : `/${scope}/notifications`;
+  return `${origin}${path}`;
+}
+
+export function buildPartnerNotificationDigestEmail(params: {
+  brandName: string;
+  origin: string;
+  scope: CommandPartnerPortalScope;
+  frequency: PartnerNotificationDigestFrequency;
+  recipient: CommandPartnerNotificationDigestRecipient;
+}) {
+  const { recipient } = params;
+  const count = recipient.notifications.length;
+  const period = params.frequency === "DAILY" ? "daily" : "weekly";
+  const subject = `${params.brandName}: ${count} new portal update${count === 1 ? "" : "s"}`;
+  const preferencesUrl = `${params.origin}/${params.scope}/profile`;
+  const greeting = recipient.displayName ? `Hi ${recipient.displayName},` : "Hi,";
+
+  const textLines = [
+    greeting,
+    "",
+    `Here is your ${period} summary from the ${params.brandName} portal.`,
+    "",
+    ...recipient.notifications.flatMap((notification) => [
+      `- ${notification.title}`,
+      ...(notification.body ? [`  ${notification.body}`] : []),
+      `  ${portalLink(params.origin, params.scope, notification.linkPath)}`,
+    ]),
+    "",
+    `Change how often you get these emails: ${preferencesUrl}`,
+  ];
+
+  const items = recipient.notifications
+    .map(
+      (notification) =>
+        `<li style="margin-bottom:12px"><a href="${escapeHtml(portalLink(params.origin, params.scope, notification.linkPath))}"><strong>${escapeHtml(
+          notification.title
+        )}</strong></a>${notification.body ? `<br />${escapeHtml(notification.body)}` : ""}</li>`
+    )
+    .join("");
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>Here is your ${period} summary from the ${escapeHtml(params.brandName)} portal.</p>`,
+    `<ul>${items}</ul>`,
+    `<p style="font-size:12px;color:#666">Change how often you get these emails on your <a href="${escapeHtml(
+      preferencesUrl
+    )}">profile page</a>.</p>`,
+  ].join("");
+
+  return { subject, text: textLines.join("\n"), html };
+}
+
+export async function runPartnerNotificationDigest(params: {
+  brand: PublicBrandContext;
+  origin: string;
+  frequency: PartnerNotificationDigestFrequency;
+}): Promise<PartnerNotificationDigestRunResult> {
+  const emailConfig = await resolveBrandEmailConfig(params.brand, "notification");
+  if (!emailConfig.ok) return emailConfig;
+  const { config } = emailConfig;
+
+  let sent = 0;
+  let failed = 0;
+  for (const scope of DIGEST_SCOPES) {
+    const { recipients } = await commandPartnerListNotificationDigestRecipients(scope, {
+      frequency: params.frequency,
+    });
+
+    for (const recipient of recipients) {
+      if (!recipient.email || recipient.notifications.length === 0) continue;
+      const email = buildPartnerNotificationDigestEmail({
+        brandName: config.brandName,
+        origin: params.origin,
+        scope,
+        frequency: params.frequency,
+        recipient,
+      });
+
+      try {
+        const result = await sendBrandEmail({
+          config,
+          to: recipient.email,
+          subject: email.subject,
+          text: email.text,
+          html: email.html,
+          replyTo: config.replyToEmail || config.supportEmails[0] || null,
+        });
+        if (result.error) throw new Error(result.error.message);
+
+        await commandPartnerAcknowledgeNotificationDigest(scope, {
+          partnerUserId: recipient.partnerUserId,
+          notificationIds: recipient.notifications.map((notification) => notification.id),
+        });
+        sent += 1;
+      } catch (error) {
+        failed += 1;
+        console.error(`[${scope}-notification-digest] failed to send digest`, {
+          partnerUserId: recipient.partnerUserId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return { ok: true, frequency: params.frequency, sent, failed };
+}
+
+// PARTNER_REQUIREMENT_REMINDER_LEAD_DAYS is a comma-separated list of days
+// before expiry, e.g. "60,30,7". Invalid entries are ignored.
+export function getPartnerRequirementReminderLeadDays() {
+  const parsed = String(process.env.PARTNER_REQUIREMENT_REMINDER_LEAD_DAYS || "")
+    .split(",")
+    .map((entry) => Number.parseInt(entry.trim(), 10))
+    .filter((value) => Number.isFinite(value) && value > 0 && value <= 365);
+  const leadDays = parsed.length > 0 ? parsed : DEFAULT_REMINDER_LEAD_DAYS;
+  return Array.from(new Set(leadDays)).sort((a, b) => b - a);
+}
+
+function humanizeRequirementType(value: string) {
+  const words = value.replaceAll("_", " ").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function buildPartnerRequirementReminderEmail(params: {
+  brandName: string;
+  origin: string;
+  recipient: CommandParticipantRequirementReminderRecipient;
+}) {
+  const { recipient } = params;
+  const profileUrl = `${params.origin}/partners/profile`;
+  const greeting = recipient.displayName ? `Hi ${recipient.displayName},` : "Hi,";
+  const lines = recipient.reminders.map((reminder) => {
+    const expires = new Date(reminder.expiresAt).toLocaleDateString("en-US", { dateStyle: "long", timeZone: "UTC" });
+    return `${humanizeRequirementType(reminder.requirementType)} expires on ${expires} (in ${reminder.leadDays} day${
+      reminder.leadDays === 1 ? "" : "s"
+    })`;
+  });
+  const subject =
+    recipient.reminders.length === 1
+      ? `${params.brandName}: ${humanizeRequirementType(recipient.reminders[0].requirementType)} expires soon`
+      : `${params.brandName}: ${recipient.reminders.length} documents expire soon`;
+
+  const text = [
+    greeting,
+    "",
+    "These compliance documents on file with us are about to expire:",
+    "",
+    ...lines.map((line) => `- ${line}`),
+    "",
+    `Upload a renewal from your profile page: ${profileUrl}`,
+    "Your current document stays on file until the renewal is reviewed.",
+  ].join("\n");
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    "<p>These compliance documents on file with us are about to expire:</p>",
+    `<ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>`,
+    `<p><a href="${escapeHtml(profileUrl)}">Upload a renewal from your profile page</a>. Your current document stays on file until the renewal is reviewed.</p>`,
+  ].join("");
+
+  return { subject, text, html };
+}
+
+export async function runPartnerRequirementReminders(params: {
+  brand: PublicBrandContext;
+  origin: string;
+  leadDays?: number[];
+}): Promise<PartnerRequirementReminderRunResult> {
+  const emailConfig = await resolveBrandEmailConfig(params.brand, "notification");
+  if (!emailConfig.ok) return emailConfig;
+  const { config } = emailConfig;
+
+  const leadDays = params.leadDays?.length ? params.leadDays : getPartnerRequirementReminderLeadDays();
+  const { recipients } = await commandParticipantListRequirementReminders({ leadDays });
+
+  let sent = 0;
+  let failed = 0;
+  for (const recipient of recipients) {
+    if (!recipient.email || recipient.reminders.length === 0) continue;
+    const email = buildPartnerRequirementReminderEmail({
+      brandName: config.brandName,
+      origin: params.origin,
+      recipient,
+    });
+
+    try {
+      const result = await sendBrandEmail({
+        config,
+        to: recipient.email,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+        replyTo: config.replyToEmail || config.supportEmails[0] || null,
+      });
+      if (result.error) throw new Error(result.error.message);
+
+      await commandParticipantAcknowledgeRequirementReminders({
+        partnerUserId: recipient.partnerUserId,
+        reminders: recipient.reminders.map((reminder) => ({
+          requirementType: reminder.requirementType,
+          leadDays: reminder.leadDays,
+        })),
+      });
+      sent += 1;
+    } catch (error) {
+      failed += 1;
+      console.error("[partners-requirement-reminders] failed to send reminder", {
+        partnerUserId: recipient.partnerUserId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { ok: true, leadDays, sent, failed };
+}
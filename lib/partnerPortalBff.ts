@@ -5,31 +5,70 @@ import {
   commandParticipantGetRequirements,
   commandPartnerCreateProfileImageUploadSession,
   commandPartnerChangePassword,
+  commandPartnerCreateMessageAttachmentUploadSession,
+  commandPartnerDeleteApplicationDraft,
+  commandPartnerFinalizeMessageAttachment,
   commandPartnerFinalizeProfileImage,
   commandPartnerGetAssetAccess,
   commandPartnerGetProfileImage,
   commandPartnerGetProfile,
   commandPartnerGetSession,
+  commandPartnerGetNotificationPreferences,
+  commandPartnerGetUnreadMessages,
+  commandPartnerListApplicationDrafts,
+  commandPartnerListApplicationMessages,
+  commandPartnerListApplicationVersions,
   commandPartnerListApplications,
+  commandPartnerListNotifications,
   commandPartnerLogin,
   commandPartnerLogout,
+  commandPartnerSendLockoutNotice,
+  commandPartnerMarkApplicationMessagesRead,
+  commandPartnerMarkNotificationsRead,
+  commandPartnerPostApplicationMessage,
   commandPartnerRegister,
+  commandPartnerResubmitApplication,
+  commandPartnerSaveApplicationDraft,
   commandPartnerSubmitApplication,
+  commandPartnerUpdateNotificationPreferences,
   commandPartnerUpdateProfile,
   commandPartnerVerifyEmail,
+  commandPartnerWithdrawApplication,
   commandPartnerGetAvailability,
   commandPartnerSetAvailability,
+  commandPartnerUpdateAvailabilityBatch,
+  commandPublicListAllScheduleList,
+  commandPartnerAcceptTeamInvitation,
+  commandPartnerGetTeam,
+  commandPartnerGetTeamInvitation,
+  commandPartnerInviteTeamMember,
+  commandPartnerListActivity,
+  commandPartnerRemoveTeamMember,
+  commandPartnerRevokeTeamInvitation,
+  commandPartnerUpdateTeamMember,
+  COMMAND_PARTNER_TEAM_ROLE_OPTIONS,
   isUnauthorizedCommandError,
   CommandPublicApiError,
   logCommandPublicApiError,
   type CommandParticipantRequirementType,
+  type CommandPartnerApplicationFormType,
+  type CommandPartnerAssetUploadedPart,
+  type CommandPartnerAvailabilityUpdate,
+  type CommandPartnerNotificationDigestFrequency,
+  type CommandPartnerNotificationType,
   type CommandPartnerPortalScope,
+  type CommandPartnerTeamRole,
 } from "./commandPublicApi";
 import {
   clearCommandPartnerBffSessionCookie,
   getCommandPartnerBffSessionToken,
   setCommandPartnerBffSessionCookie,
 } from "./commandPartnerBffSession";
+import { describeAuthRateLimitDecision, lockoutDecision, partnerPortalLoginLimiters } from "./authRateLimit";
+import { MAX_AVAILABILITY_BATCH_ENTRIES } from "./partnerAvailability";
+import { buildPartnerGigs } from "./partnerGigs";
+import { getClientIp } from "./requestIdentity";
+import { scheduleWallClockToUtc } from "./scheduleIcal";
 import { getWebsiteAnalyticsSessionId } from "./websiteAnalytics";
 
 function applyNoStoreHeaders(res: NextApiResponse) {
@@ -112,6 +151,35 @@ export async function handlePartnerPortalVerifyEmail(
   }
 }
 
+// Command only mails the notice when the address belongs to an account with a
+// verified email, so a typed address cannot be used to spam arbitrary inboxes.
+// Failures are logged and swallowed: the 429 must not depend on the notice.
+async function sendPartnerPortalLockoutNotice(
+  req: NextApiRequest,
+  scope: CommandPartnerPortalScope,
+  email: string,
+  lockedUntil: Date
+) {
+  if (!email) return;
+
+  const ip = getClientIp(req);
+  try {
+    await commandPartnerSendLockoutNotice(scope, {
+      email,
+      lockedUntil,
+      ip: ip && ip !== "unknown" ? ip : null,
+    });
+  } catch (error) {
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-lockout-notice`, error, {
+        requestHost: req.headers.host || null,
+      });
+      return;
+    }
+    console.error(`[${scope}-lockout-notice] unexpected error`, error);
+  }
+}
+
 export async function handlePartnerPortalLogin(
   req: NextApiRequest,
   res: NextApiResponse,
@@ -124,14 +192,25 @@ export async function handlePartnerPortalLogin(
     return json(res, 405, { ok: false, error: "Method not allowed" });
   }
 
+  const email = String(req.body?.email || "").trim().toLowerCase();
+  const limiter = partnerPortalLoginLimiters[scope];
+  const limiterSubject = { identifier: email, ip: getClientIp(req) };
+
   try {
+    const decision = await limiter.check(limiterSubject);
+    if (!decision.allowed) {
+      res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+      return json(res, 429, { ok: false, error: describeAuthRateLimitDecision(decision) });
+    }
+
     const result = await commandPartnerLogin(scope, {
-      email: String(req.body?.email || "").trim().toLowerCase(),
+      email,
       password: String(req.body?.password || ""),
       request: req,
       websiteSessionId: getWebsiteAnalyticsSessionId(req),
     });
 
+    await limiter.recordSuccess(email);
     setCommandPartnerBffSessionCookie(res, result.session);
 
     return json(res, 200, {
@@ -143,6 +222,17 @@ export async function handlePartnerPortalLogin(
       logCommandPublicApiError(`${scope}-login`, error, {
         requestHost: req.headers.host || null,
       });
+
+      // Only rejected credentials count; Command outages must not lock people out.
+      if (isUnauthorizedCommandError(error)) {
+        const failure = await limiter.recordFailure(limiterSubject);
+        if (failure.lockedNow && failure.lockedUntil) {
+          await sendPartnerPortalLockoutNotice(req, scope, email, failure.lockedUntil);
+          const locked = lockoutDecision(failure.lockedUntil);
+          res.setHeader("Retry-After", String(locked.retryAfterSeconds));
+          return json(res, 429, { ok: false, error: describeAuthRateLimitDecision(locked) });
+        }
+      }
       return json(res, error.status, { ok: false, error: error.message });
     }
 
@@ -255,6 +345,57 @@ export async function handlePartnerPortalLogout(
   return json(res, 200, { ok: true });
 }
 
+// Invitation links land on /{scope}/join. GET previews the invitation; POST
+// creates the member's own login and signs them in.
+export async function handlePartnerPortalAcceptInvitation(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  try {
+    if (req.method === "GET") {
+      const token = String(req.query.token || "").trim();
+      if (!token) {
+        return json(res, 400, { ok: false, error: "token query parameter is required" });
+      }
+      const result = await commandPartnerGetTeamInvitation(scope, { token, request: req });
+      return json(res, 200, result);
+    }
+
+    if (req.method === "POST") {
+      const result = await commandPartnerAcceptTeamInvitation(scope, {
+        token: String(req.body?.token || "").trim(),
+        memberName: String(req.body?.memberName || "").trim(),
+        password: String(req.body?.password || ""),
+        request: req,
+        websiteSessionId: getWebsiteAnalyticsSessionId(req),
+      });
+
+      setCommandPartnerBffSessionCookie(res, result.session);
+
+      return json(res, 200, {
+        ok: true,
+        account: result.account,
+      });
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error) {
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-accept-invitation`, error, {
+        requestHost: req.headers.host || null,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-accept-invitation] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
 export async function handlePartnerPortalProfile(
   req: NextApiRequest,
   res: NextApiResponse,
@@ -314,7 +455,11 @@ export async function handlePartnerPortalApplications(
 
   try {
     if (req.method === "GET") {
-      const result = await commandPartnerListApplications(scope, sessionToken);
+      // ?applicationId= returns that application's submitted versions for diffing.
+      const applicationId = String(req.query.applicationId || "").trim();
+      const result = applicationId
+        ? await commandPartnerListApplicationVersions(scope, { sessionToken, applicationId })
+        : await commandPartnerListApplications(scope, sessionToken);
       return json(res, 200, result);
     }
 
@@ -327,7 +472,36 @@ export async function handlePartnerPortalApplications(
       return json(res, 201, result);
     }
 
-    res.setHeader("Allow", "GET, POST");
+    if (req.method === "PATCH") {
+      const applicationId = String(req.body?.applicationId || "").trim();
+      const action = String(req.body?.action || "");
+      if (!applicationId) {
+        return json(res, 400, { ok: false, error: "applicationId is required" });
+      }
+
+      if (action === "withdraw") {
+        const result = await commandPartnerWithdrawApplication(scope, {
+          sessionToken,
+          applicationId,
+          reason: typeof req.body?.reason === "string" ? req.body.reason : null,
+        });
+        return json(res, 200, result);
+      }
+
+      if (action === "resubmit") {
+        const result = await commandPartnerResubmitApplication(scope, {
+          sessionToken,
+          applicationId,
+          expectedVersion: Number(req.body?.expectedVersion || 0),
+          applicationPayload: req.body?.applicationPayload,
+        });
+        return json(res, 200, result);
+      }
+
+      return json(res, 400, { ok: false, error: "action must be withdraw or resubmit" });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH");
     return json(res, 405, { ok: false, error: "Method not allowed" });
   } catch (error) {
     if (isUnauthorizedCommandError(error)) {
@@ -346,6 +520,399 @@ export async function handlePartnerPortalApplications(
   }
 }
 
+export async function handlePartnerPortalApplicationMessages(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    const applicationId = Array.isArray(req.query.applicationId) ? req.query.applicationId[0] : req.query.applicationId;
+
+    if (req.method === "GET") {
+      const result = await commandPartnerListApplicationMessages(scope, {
+        sessionToken,
+        applicationId: String(applicationId || ""),
+      });
+      return json(res, 200, result);
+    }
+
+    if (req.method === "POST") {
+      const body = String(req.body?.body || "").trim();
+      const attachmentAssetIds: string[] = Array.isArray(req.body?.attachmentAssetIds)
+        ? req.body.attachmentAssetIds.filter((value: unknown): value is string => typeof value === "string" && value.length > 0)
+        : [];
+      if (!body && attachmentAssetIds.length === 0) {
+        return json(res, 400, { ok: false, error: "Write a message or attach a document" });
+      }
+      const result = await commandPartnerPostApplicationMessage(scope, {
+        sessionToken,
+        applicationId: String(applicationId || ""),
+        body,
+        attachmentAssetIds,
+      });
+      return json(res, 201, result);
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-application-messages`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-application-messages] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+export async function handlePartnerPortalApplicationMessagesRead(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    const applicationId = Array.isArray(req.query.applicationId) ? req.query.applicationId[0] : req.query.applicationId;
+    const result = await commandPartnerMarkApplicationMessagesRead(scope, {
+      sessionToken,
+      applicationId: String(applicationId || ""),
+    });
+    return json(res, 200, result);
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-application-messages-read`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-application-messages-read] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+export async function handlePartnerPortalMessageAttachmentUploadSession(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    const applicationId = Array.isArray(req.query.applicationId) ? req.query.applicationId[0] : req.query.applicationId;
+    const result = await commandPartnerCreateMessageAttachmentUploadSession(scope, {
+      sessionToken,
+      applicationId: String(applicationId || ""),
+      fileName: String(req.body?.fileName || ""),
+      mimeType: String(req.body?.mimeType || ""),
+      sizeBytes: Number(req.body?.sizeBytes || 0),
+    });
+    return json(res, 200, result);
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-message-attachment-upload-session`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-message-attachment-upload-session] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+export async function handlePartnerPortalMessageAttachmentFinalize(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    const applicationId = Array.isArray(req.query.applicationId) ? req.query.applicationId[0] : req.query.applicationId;
+    const result = await commandPartnerFinalizeMessageAttachment(scope, {
+      sessionToken,
+      applicationId: String(applicationId || ""),
+      objectKey: String(req.body?.objectKey || ""),
+      fileName: String(req.body?.fileName || ""),
+      mimeType: String(req.body?.mimeType || ""),
+      sizeBytes: Number(req.body?.sizeBytes || 0),
+      checksumSha256: typeof req.body?.checksumSha256 === "string" ? req.body.checksumSha256 : null,
+    });
+    return json(res, 200, result);
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-message-attachment-finalize`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-message-attachment-finalize] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+export async function handlePartnerPortalUnreadMessages(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    const result = await commandPartnerGetUnreadMessages(scope, sessionToken);
+    return json(res, 200, result);
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-unread-messages`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-unread-messages] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+function parseNotificationIds(value: unknown) {
+  if (!Array.isArray(value)) return undefined;
+  return value.map((entry) => String(entry || "").trim()).filter(Boolean);
+}
+
+export async function handlePartnerPortalNotifications(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    if (req.method === "GET") {
+      const limit = Number.parseInt(String(req.query.limit || ""), 10);
+      const result = await commandPartnerListNotifications(scope, {
+        sessionToken,
+        limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+        unreadOnly: String(req.query.unreadOnly || "") === "1",
+      });
+      return json(res, 200, result);
+    }
+
+    if (req.method === "POST") {
+      const result = await commandPartnerMarkNotificationsRead(scope, {
+        sessionToken,
+        notificationIds: parseNotificationIds(req.body?.notificationIds),
+      });
+      return json(res, 200, result);
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-notifications`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-notifications] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+export async function handlePartnerPortalNotificationPreferences(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    if (req.method === "GET") {
+      const result = await commandPartnerGetNotificationPreferences(scope, sessionToken);
+      return json(res, 200, result);
+    }
+
+    if (req.method === "PATCH") {
+      const frequency = String(req.body?.emailDigestFrequency || "").trim();
+      const emailTypes = parseNotificationIds(req.body?.emailTypes);
+      const result = await commandPartnerUpdateNotificationPreferences(scope, {
+        sessionToken,
+        preferences: {
+          emailDigestFrequency: frequency ? (frequency as CommandPartnerNotificationDigestFrequency) : undefined,
+          emailTypes: emailTypes as CommandPartnerNotificationType[] | undefined,
+        },
+      });
+      return json(res, 200, result);
+    }
+
+    res.setHeader("Allow", "GET, PATCH");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-notification-preferences`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-notification-preferences] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+export async function handlePartnerPortalApplicationDrafts(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    if (req.method === "GET") {
+      const result = await commandPartnerListApplicationDrafts(scope, sessionToken);
+      return json(res, 200, result);
+    }
+
+    if (req.method === "PUT") {
+      const result = await commandPartnerSaveApplicationDraft(scope, {
+        sessionToken,
+        scheduleEventSeriesId: String(req.body?.scheduleEventSeriesId || ""),
+        formType: String(req.body?.formType || "") as CommandPartnerApplicationFormType,
+        applicationPayload: req.body?.applicationPayload,
+      });
+      return json(res, 200, result);
+    }
+
+    if (req.method === "DELETE") {
+      const scheduleEventSeriesId = String(req.query.scheduleEventSeriesId || "").trim();
+      const formType = String(req.query.formType || "").trim();
+      if (!scheduleEventSeriesId || !formType) {
+        return json(res, 400, { ok: false, error: "scheduleEventSeriesId and formType query parameters are required" });
+      }
+      const result = await commandPartnerDeleteApplicationDraft(scope, {
+        sessionToken,
+        scheduleEventSeriesId,
+        formType: formType as CommandPartnerApplicationFormType,
+      });
+      return json(res, 200, result);
+    }
+
+    res.setHeader("Allow", "GET, PUT, DELETE");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-application-drafts`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-application-drafts] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
 export async function handlePartnerPortalProfileImage(
   req: NextApiRequest,
   res: NextApiResponse,
@@ -591,6 +1158,16 @@ export async function handleParticipantPortalRequirementUploadSession(
   }
 }
 
+function parseUploadedParts(value: unknown): CommandPartnerAssetUploadedPart[] | null {
+  if (!Array.isArray(value)) return null;
+  return value
+    .map((entry) => ({
+      partNumber: Number(entry?.partNumber),
+      etag: String(entry?.etag || ""),
+    }))
+    .filter((entry) => Number.isInteger(entry.partNumber) && entry.partNumber > 0 && entry.etag);
+}
+
 export async function handleParticipantPortalRequirementFinalize(
   req: NextApiRequest,
   res: NextApiResponse
@@ -618,6 +1195,9 @@ export async function handleParticipantPortalRequirementFinalize(
       sizeBytes: Number(req.body?.sizeBytes || 0),
       checksumSha256: typeof req.body?.checksumSha256 === "string" ? req.body.checksumSha256 : null,
       expiresAt: String(req.body?.expiresAt || ""),
+      renewal: req.body?.renewal === true,
+      multipartUploadId: typeof req.body?.multipartUploadId === "string" ? req.body.multipartUploadId : null,
+      multipartParts: parseUploadedParts(req.body?.multipartParts),
     });
     return json(res, 200, result);
   } catch (error) {
@@ -637,6 +1217,16 @@ export async function handleParticipantPortalRequirementFinalize(
   }
 }
 
+function parseAvailabilityUpdates(value: unknown): CommandPartnerAvailabilityUpdate[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => ({
+      date: String(entry?.date || "").trim(),
+      available: entry?.available === true,
+    }))
+    .filter((entry) => /^\d{4}-\d{2}-\d{2}$/.test(entry.date));
+}
+
 // HUMAN-REVIEW: Wave 12 — partner availability calendar BFF handler
 export async function handlePartnerPortalAvailability(
   req: NextApiRequest,
@@ -663,6 +1253,25 @@ export async function handlePartnerPortalAvailability(
       return json(res, 200, result);
     }
 
+    if (req.method === "POST" && Array.isArray(req.body?.entries)) {
+      const entries = parseAvailabilityUpdates(req.body.entries);
+      if (entries.length === 0) {
+        return json(res, 400, { ok: false, error: "entries must include at least one YYYY-MM-DD date" });
+      }
+      if (entries.length > MAX_AVAILABILITY_BATCH_ENTRIES) {
+        return json(res, 400, {
+          ok: false,
+          error: `A batch can update at most ${MAX_AVAILABILITY_BATCH_ENTRIES} dates`,
+        });
+      }
+      const result = await commandPartnerUpdateAvailabilityBatch(scope, {
+        sessionToken,
+        eventSeriesId: String(req.body?.eventSeriesId || ""),
+        entries,
+      });
+      return json(res, 200, result);
+    }
+
     if (req.method === "POST") {
       const result = await commandPartnerSetAvailability(scope, {
         sessionToken,
@@ -691,3 +1300,176 @@ export async function handlePartnerPortalAvailability(
     return json(res, 500, { ok: false, error: "Server error" });
   }
 }
+
+const GIGS_LOOKAHEAD_DAYS = 365;
+
+function offsetTodayDateOnly(days: number) {
+  const value = new Date();
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+// Upcoming assignments for the signed-in participant, read from the public
+// schedule filtered to their partner profile, reading every page.
+export async function handleParticipantPortalGigs(req: NextApiRequest, res: NextApiResponse) {
+  applyNoStoreHeaders(res);
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    const { account } = await commandPartnerGetSession("partners", sessionToken);
+    // Start a day back so tonight's gigs stay listed whatever the UTC date is;
+    // anything that has already ended is dropped below.
+    const items = await commandPublicListAllScheduleList({
+      from: offsetTodayDateOnly(-1),
+      to: offsetTodayDateOnly(GIGS_LOOKAHEAD_DAYS),
+      participantId: account.partnerProfileId,
+    });
+    const now = Date.now();
+    const upcoming = items.filter((item) => {
+      const end = scheduleWallClockToUtc(item.end, item.timezone);
+      return !end || end.getTime() > now;
+    });
+    return json(res, 200, { ok: true, gigs: buildPartnerGigs(upcoming, account.partnerProfileId) });
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError("partners-gigs", error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error("[partners-gigs] unexpected error", error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+function parseTeamRole(value: unknown): CommandPartnerTeamRole | null {
+  const role = String(value || "").trim().toUpperCase();
+  return (COMMAND_PARTNER_TEAM_ROLE_OPTIONS as string[]).includes(role) ? (role as CommandPartnerTeamRole) : null;
+}
+
+// Command enforces the roles (only owners manage the team); errors pass through.
+export async function handlePartnerPortalTeam(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    if (req.method === "GET") {
+      const result = await commandPartnerGetTeam(scope, sessionToken);
+      return json(res, 200, result);
+    }
+
+    if (req.method === "POST") {
+      const email = String(req.body?.email || "").trim().toLowerCase();
+      const role = parseTeamRole(req.body?.role);
+      if (!email || !role) {
+        return json(res, 400, { ok: false, error: "email and a valid role are required" });
+      }
+      const result = await commandPartnerInviteTeamMember(scope, { sessionToken, email, role });
+      return json(res, 201, result);
+    }
+
+    if (req.method === "PATCH") {
+      const partnerUserId = String(req.body?.partnerUserId || "").trim();
+      const role = parseTeamRole(req.body?.role);
+      if (!partnerUserId || !role) {
+        return json(res, 400, { ok: false, error: "partnerUserId and a valid role are required" });
+      }
+      const result = await commandPartnerUpdateTeamMember(scope, { sessionToken, partnerUserId, role });
+      return json(res, 200, result);
+    }
+
+    if (req.method === "DELETE") {
+      const partnerUserId = String(req.query.partnerUserId || "").trim();
+      const invitationId = String(req.query.invitationId || "").trim();
+      if (partnerUserId) {
+        const result = await commandPartnerRemoveTeamMember(scope, { sessionToken, partnerUserId });
+        return json(res, 200, result);
+      }
+      if (invitationId) {
+        const result = await commandPartnerRevokeTeamInvitation(scope, { sessionToken, invitationId });
+        return json(res, 200, result);
+      }
+      return json(res, 400, { ok: false, error: "partnerUserId or invitationId query parameter is required" });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-team`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-team] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
+
+export async function handlePartnerPortalActivity(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  scope: CommandPartnerPortalScope
+) {
+  applyNoStoreHeaders(res);
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  const sessionToken = getCommandPartnerBffSessionToken(req);
+  if (!sessionToken) {
+    return unauthorized(res);
+  }
+
+  try {
+    const limit = Number.parseInt(String(req.query.limit || ""), 10);
+    const result = await commandPartnerListActivity(scope, {
+      sessionToken,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    });
+    return json(res, 200, result);
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      return unauthorized(res);
+    }
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError(`${scope}-activity`, error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: true,
+      });
+      return json(res, error.status, { ok: false, error: error.message });
+    }
+
+    console.error(`[${scope}-activity] unexpected error`, error);
+    return json(res, 500, { ok: false, error: "Server error" });
+  }
+}
@@ -0,0 +1,54 @@
+import { partnerPortalLoginLimiters } from "./authRateLimit";
+import { recordBackofficeAuditEvent, type BackofficeAuditActor } from "./backofficeAudit";
+import type { CommandPartnerPortalScope } from "./commandPublicApi";
+import { prisma } from "./prisma";
+
+export type PartnerPortalSignInLockRecord = {
+  scope: CommandPartnerPortalScope;
+  email: string;
+  lockedUntil: string | null;
+};
+
+// Portal limiters are keyed by the lowercased email as typed on the sign-in
+// form, so lookups and unlocks normalize the same way.
+function normalizePortalEmail(value: unknown) {
+  const email = String(value || "").trim().toLowerCase();
+  if (!email) throw new Error("Email is required");
+  return email;
+}
+
+export function parsePartnerPortalScope(value: unknown): CommandPartnerPortalScope {
+  if (value === "partners" || value === "sponsors") return value;
+  throw new Error("Scope must be partners or sponsors");
+}
+
+export async function getPartnerPortalSignInLock(
+  scope: CommandPartnerPortalScope,
+  emailInput: unknown
+): Promise<PartnerPortalSignInLockRecord> {
+  const email = normalizePortalEmail(emailInput);
+  const lockedUntil = await partnerPortalLoginLimiters[scope].getLockedUntil(email);
+  return { scope, email, lockedUntil: lockedUntil ? lockedUntil.toISOString() : null };
+}
+
+export async function unlockPartnerPortalSignIn(
+  actor: BackofficeAuditActor,
+  scope: CommandPartnerPortalScope,
+  emailInput: unknown
+): Promise<PartnerPortalSignInLockRecord> {
+  const before = await getPartnerPortalSignInLock(scope, emailInput);
+
+  // Locks live in the rate-limit store, outside the database, so the audit row
+  // goes first: if it cannot be written nothing is unlocked.
+  await recordBackofficeAuditEvent(prisma, actor, {
+    action: "PARTNER_PORTAL_SIGN_IN_UNLOCKED",
+    targetType: "PartnerPortalLogin",
+    targetId: `${scope}:${before.email}`,
+    targetLabel: before.email,
+    before: { scope, signInLockedUntil: before.lockedUntil },
+    after: { scope, signInLockedUntil: null },
+  });
+  await partnerPortalLoginLimiters[scope].unlock(before.email);
+
+  return { ...before, lockedUntil: null };
+}
@@ -0,0 +1,107 @@
+// lib/publicPartnerProfile.ts
+// Server-side loader for the public /partners/profiles/[slug] and
+// /sponsors/profiles/[slug] pages, plus the video embed helper they share. The
+// profiles/ prefix keeps partner-chosen slugs clear of the portal's own routes
+// (signin, profile, team, ...).
+
+import type { GetServerSidePropsContext } from "next";
+import {
+  CommandPublicApiError,
+  commandPublicGetPartnerProfile,
+  type CommandPartnerPortalScope,
+  type CommandPublicPartnerProfile,
+  type CommandPublicScheduleItem,
+} from "./commandPublicApi";
+import { buildScheduleDetailCanonicalUrl, loadUpcomingScheduleItems } from "./publicScheduleDetail";
+
+export type PublicPartnerProfilePageProps = {
+  scope: CommandPartnerPortalScope;
+  profile: CommandPublicPartnerProfile | null;
+  items: CommandPublicScheduleItem[];
+  canonicalUrl: string | null;
+};
+
+export type PublicProfileVideoEmbed = {
+  provider: "youtube" | "vimeo";
+  embedUrl: string;
+};
+
+const YOUTUBE_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+// Turns YouTube and Vimeo share links into privacy-friendly embed URLs. Other
+// hosts return null and are shown as a plain link instead.
+export function resolveProfileVideoEmbed(value: string | null): PublicProfileVideoEmbed | null {
+  if (!value) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www|m)\./, "");
+  let youtubeId: string | null = null;
+  if (host === "youtu.be") {
+    youtubeId = url.pathname.slice(1).split("/")[0];
+  } else if (host === "youtube.com" || host === "music.youtube.com") {
+    youtubeId = url.pathname === "/watch" ? url.searchParams.get("v") : url.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/)?.[1] || null;
+  }
+  if (youtubeId && YOUTUBE_ID_PATTERN.test(youtubeId)) {
+    return { provider: "youtube", embedUrl: `https://www.youtube-nocookie.com/embed/${youtubeId}` };
+  }
+
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const vimeoId = url.pathname.match(/(?:^|\/)(\d+)(?:\/|$)/)?.[1];
+    if (vimeoId) return { provider: "vimeo", embedUrl: `https://player.vimeo.com/video/${vimeoId}?dnt=1` };
+  }
+
+  return null;
+}
+
+export async function loadPublicPartnerProfilePage(
+  ctx: GetServerSidePropsContext,
+  scope: CommandPartnerPortalScope
+): Promise<{ notFound: true } | { props: PublicPartnerProfilePageProps }> {
+  const slug = typeof ctx.params?.slug === "string" ? ctx.params.slug : "";
+  if (!slug) return { notFound: true };
+
+  const canonicalUrl = buildScheduleDetailCanonicalUrl(ctx.req, `/${scope}/profiles/${encodeURIComponent(slug)}`);
+
+  let profile: CommandPublicPartnerProfile;
+  try {
+    profile = (await commandPublicGetPartnerProfile({ scope, slug, request: ctx.req })).profile;
+  } catch (error: any) {
+    if (error instanceof CommandPublicApiError && error.status === 404) return { notFound: true };
+    // Same as the schedule detail pages: an outage renders a banner rather than
+    // a 404 so crawlers do not drop the page.
+    console.error("[public-partner-profile] failed to load profile", {
+      scope,
+      slug,
+      error: error instanceof Error ? error.message : String(error),
+      status: typeof error?.status === "number" ? error.status : null,
+    });
+    return { props: { scope, profile: null, items: [], canonicalUrl } };
+  }
+
+  // Sponsors are not booked on the schedule; their page lists the series they
+  // support instead.
+  let items: CommandPublicScheduleItem[] = [];
+  if (profile.partnerKind === "PARTICIPANT") {
+    try {
+      items = await loadUpcomingScheduleItems({
+        participantId: profile.partnerProfileId,
+        match: (item) => item.status !== "CANCELLED",
+      });
+    } catch (error: any) {
+      console.error("[public-partner-profile] failed to load schedule", {
+        scope,
+        slug,
+        error: error instanceof Error ? error.message : String(error),
+        status: typeof error?.status === "number" ? error.status : null,
+      });
+    }
+  }
+
+  return { props: { scope, profile, items, canonicalUrl } };
+}
@@ -0,0 +1,93 @@
+// lib/publicScheduleDetail.ts
+// Server-side loaders shared by the public schedule participant and resource detail pages.
+
+import type { IncomingMessage } from "http";
+import {
+  commandPublicGetScheduleFeed,
+  commandPublicListAllScheduleList,
+  type CommandPublicScheduleFeedResponse,
+  type CommandPublicScheduleItem,
+  type CommandPublicSchedulePartnerProfileFeedItem,
+} from "./commandPublicApi";
+import { buildOrigin, getApiRequestHost, getApiRequestProtocol } from "./requestHost";
+
+const DETAIL_LOOKAHEAD_DAYS = 365;
+
+function toIsoDateOnly(value: Date) {
+  return `${value.getUTCFullYear()}-${String(value.getUTCMonth() + 1).padStart(2, "0")}-${String(value.getUTCDate()).padStart(2, "0")}`;
+}
+
+function compareScheduleItems(a: CommandPublicScheduleItem, b: CommandPublicScheduleItem) {
+  return (
+    a.occursOn.localeCompare(b.occursOn) ||
+    a.startsAtMinutes - b.startsAtMinutes ||
+    a.title.localeCompare(b.title)
+  );
+}
+
+export function getSchedulePartnerProfileFeedId() {
+  return String(process.env.SCHEDULE_PARTNER_PROFILE_FEED_ID || "").trim();
+}
+
+// Filtering happens in Command and every page is read, so a busy schedule
+// cannot push a participant's or resource's slots past a single-page limit.
+export async function loadUpcomingScheduleItems(params: {
+  resource?: string;
+  participant?: string;
+  participantId?: string;
+  match?: (item: CommandPublicScheduleItem) => boolean;
+}) {
+  const today = new Date();
+  const horizon = new Date(today.getTime());
+  horizon.setUTCDate(horizon.getUTCDate() + DETAIL_LOOKAHEAD_DAYS);
+
+  const items = await commandPublicListAllScheduleList({
+    from: toIsoDateOnly(today),
+    to: toIsoDateOnly(horizon),
+    resource: params.resource,
+    participant: params.participant,
+    participantId: params.participantId,
+  });
+
+  return (params.match ? items.filter(params.match) : items).sort(compareScheduleItems);
+}
+
+export async function loadSchedulePartnerProfileFeed(request: Pick<IncomingMessage, "headers">) {
+  const feedId = getSchedulePartnerProfileFeedId();
+  if (!feedId) return null;
+
+  try {
+    return await commandPublicGetScheduleFeed({ feedId, request });
+  } catch (error: any) {
+    console.error("[schedule-detail] failed to load partner profile feed", {
+      feedId,
+      error: error instanceof Error ? error.message : String(error),
+      status: typeof error?.status === "number" ? error.status : null,
+    });
+    return null;
+  }
+}
+
+export function findPartnerProfileFeedItem(
+  feed: CommandPublicScheduleFeedResponse | null,
+  participant: CommandPublicScheduleItem["participant"]
+): CommandPublicSchedulePartnerProfileFeedItem | null {
+  if (!feed || feed.source !== "PARTNER_PROFILES") return null;
+
+  const profiles = feed.items.filter(
+    (item): item is CommandPublicSchedulePartnerProfileFeedItem => item.source === "PARTNER_PROFILES"
+  );
+  const normalizedName = participant.displayName.trim().toLowerCase();
+
+  return (
+    profiles.find((item) => item.partnerProfileId === participant.id) ||
+    profiles.find((item) => item.displayName.trim().toLowerCase() === normalizedName) ||
+    null
+  );
+}
+
+export function buildScheduleDetailCanonicalUrl(req: Pick<IncomingMessage, "headers">, pathname: string) {
+  const host = getApiRequestHost(req);
+  if (!host) return null;
+  return `${buildOrigin(getApiRequestProtocol(req), host)}${pathname}`;
+}
@@ -0,0 +1,99 @@
+// lib/scheduleBoard.ts
+// Pure helpers for the venue "now / up next" board. Schedule items carry
+// wall-clock times in their own `timezone`, so "now" is resolved per zone
+// rather than from the screen's local clock.
+
+import type { CommandPublicScheduleItem } from "./commandPublicApi";
+
+export type ZonedClock = {
+  date: string;
+  minutes: number;
+};
+
+export type StageBoardEntry = {
+  resource: CommandPublicScheduleItem["resource"];
+  current: CommandPublicScheduleItem | null;
+  next: CommandPublicScheduleItem | null;
+};
+
+export function isValidTimeZone(value: string) {
+  if (!value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getZonedClock(timeZone: string, now: Date = new Date()): ZonedClock {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  const read = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value || "00";
+  return {
+    date: `${read("year")}-${read("month")}-${read("day")}`,
+    minutes: Number(read("hour")) * 60 + Number(read("minute")),
+  };
+}
+
+export function formatZonedClock(timeZone: string, now: Date = new Date()) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(now);
+}
+
+function isLive(item: CommandPublicScheduleItem, clock: ZonedClock) {
+  if (item.occursOn !== clock.date) return false;
+  if (item.allDay) return true;
+  return item.startsAtMinutes <= clock.minutes && clock.minutes < item.endsAtMinutes;
+}
+
+function isUpcoming(item: CommandPublicScheduleItem, clock: ZonedClock) {
+  if (item.occursOn !== clock.date) return item.occursOn > clock.date;
+  return !item.allDay && item.startsAtMinutes > clock.minutes;
+}
+
+function compareItems(a: CommandPublicScheduleItem, b: CommandPublicScheduleItem) {
+  return a.occursOn.localeCompare(b.occursOn) || a.startsAtMinutes - b.startsAtMinutes || a.title.localeCompare(b.title);
+}
+
+// Groups STAGE items by resource and picks what is on now and what follows.
+// Stages keep their place on the board even when nothing else is scheduled.
+export function buildStageBoard(items: CommandPublicScheduleItem[], now: Date = new Date()): StageBoardEntry[] {
+  const clocks = new Map<string, ZonedClock>();
+  const clockFor = (timeZone: string) => {
+    let clock = clocks.get(timeZone);
+    if (!clock) {
+      clock = getZonedClock(timeZone, now);
+      clocks.set(timeZone, clock);
+    }
+    return clock;
+  };
+
+  const stages = new Map<string, StageBoardEntry>();
+  for (const item of [...items].sort(compareItems)) {
+    if (item.resource.type !== "STAGE" || item.status === "CANCELLED") continue;
+
+    const entry = stages.get(item.resource.id) || { resource: item.resource, current: null, next: null };
+    stages.set(item.resource.id, entry);
+
+    const clock = clockFor(item.timezone);
+    if (!entry.current && isLive(item, clock)) {
+      entry.current = item;
+    } else if (!entry.next && isUpcoming(item, clock)) {
+      entry.next = item;
+    }
+  }
+
+  return Array.from(stages.values()).sort((a, b) => a.resource.name.localeCompare(b.resource.name));
+}
@@ -0,0 +1,78 @@
+// lib/scheduleEmbed.ts
+// Shared contract for the schedule widgets partners frame on their own sites
+// (/embed/[widget], loaded directly or through public/schedule-embed.js).
+
+import type { CommandPublicScheduleResourceType } from "./commandPublicApi";
+import type { RuntimeHostConfig } from "./runtimeHostConfig";
+
+export const SCHEDULE_EMBED_WIDGETS = ["lineup", "schedule", "sponsor-names", "sponsor-images"] as const;
+
+export type ScheduleEmbedWidget = (typeof SCHEDULE_EMBED_WIDGETS)[number];
+
+// postMessage type the widget uses to report its height to public/schedule-embed.js.
+export const SCHEDULE_EMBED_RESIZE_MESSAGE = "xdragon-schedule-embed:resize";
+
+export type ScheduleEmbedTheme = {
+  brandName: string;
+  publicOrigin: string | null;
+  accentColor: string;
+};
+
+export type ScheduleEmbedFilters = {
+  eventSeries: string;
+  participantType: string;
+  resource: string;
+  resourceType: string;
+  days: number;
+};
+
+type EmbedQuery = Partial<Record<string, string | string[] | undefined>>;
+
+const DEFAULT_ACCENT_COLOR = "#dc2626";
+const DEFAULT_EMBED_DAYS = 14;
+const MAX_EMBED_DAYS = 90;
+const RESOURCE_TYPES: CommandPublicScheduleResourceType[] = ["STAGE", "FOOD_SPOT", "MARKET_SPOT", "OTHER"];
+
+function readQueryValue(value: string | string[] | undefined) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function parseScheduleEmbedWidget(value: unknown): ScheduleEmbedWidget | null {
+  return SCHEDULE_EMBED_WIDGETS.find((widget) => widget === value) || null;
+}
+
+export function parseScheduleEmbedFilters(query: EmbedQuery): ScheduleEmbedFilters {
+  const days = Number.parseInt(readQueryValue(query.days), 10);
+  const resourceType = readQueryValue(query.resourceType).toUpperCase();
+
+  return {
+    eventSeries: readQueryValue(query.eventSeries),
+    participantType: readQueryValue(query.participantType).toUpperCase(),
+    resource: readQueryValue(query.resource),
+    resourceType: RESOURCE_TYPES.includes(resourceType as CommandPublicScheduleResourceType) ? resourceType : "",
+    days: Number.isFinite(days) && days > 0 ? Math.min(days, MAX_EMBED_DAYS) : DEFAULT_EMBED_DAYS,
+  };
+}
+
+// Feed IDs are opaque Command identifiers; anything else is rejected before it
+// reaches the upstream path.
+export function parseScheduleEmbedFeedId(value: unknown) {
+  const feedId = typeof value === "string" ? value.trim() : "";
+  return /^[A-Za-z0-9_-]{1,128}$/.test(feedId) ? feedId : "";
+}
+
+function parseAccentColor(value: string) {
+  return /^#?[0-9a-fA-F]{6}$/.test(value) ? `#${value.replace(/^#/, "").toLowerCase()}` : null;
+}
+
+// Brand name and canonical host come from the brand registry via the runtime
+// host config; embedders may only override the accent colour.
+export function resolveScheduleEmbedTheme(config: RuntimeHostConfig, query: EmbedQuery): ScheduleEmbedTheme {
+  const publicHost = config.runtime?.canonicalPublicHost || config.canonicalPublicHost;
+
+  return {
+    brandName: config.runtime?.brandName || "X Dragon",
+    publicOrigin: publicHost ? `https://${publicHost}` : null,
+    accentColor: parseAccentColor(readQueryValue(query.accent)) || DEFAULT_ACCENT_COLOR,
+  };
+}
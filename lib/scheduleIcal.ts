@@ -0,0 +1,240 @@
+// lib/scheduleIcal.ts
+// Serializes public schedule items into an RFC 5545 iCalendar document so the
+// schedule can be subscribed to from calendar apps.
+
+import type { CommandPublicScheduleItem } from "./commandPublicApi";
+
+const ICAL_LINE_LIMIT = 75;
+const ICAL_PRODUCT_ID = "-//X Dragon//Public Schedule//EN";
+
+export const SCHEDULE_ICAL_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+export type ScheduleIcalOptions = {
+  calendarName: string;
+  calendarDescription?: string | null;
+  uidDomain: string;
+  refreshIntervalMinutes?: number;
+  generatedAt?: Date;
+};
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,");
+}
+
+// Folds content lines at 75 octets as required by RFC 5545 section 3.1.
+// Continuation lines start with a single space, so they get one octet less.
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= ICAL_LINE_LIMIT) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  let limit = ICAL_LINE_LIMIT;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = ICAL_LINE_LIMIT - 1;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+
+  if (current) parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+function formatUtcStamp(value: Date) {
+  return (
+    `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}` +
+    `T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}Z`
+  );
+}
+
+function formatDateValue(value: string) {
+  return value.slice(0, 10).replace(/-/g, "");
+}
+
+function addDaysToDateOnly(value: string, days: number) {
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+  const next = new Date(Date.UTC(year, (month || 1) - 1, day || 1));
+  next.setUTCDate(next.getUTCDate() + days);
+  return `${next.getUTCFullYear()}-${pad(next.getUTCMonth() + 1)}-${pad(next.getUTCDate())}`;
+}
+
+type WallClock = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+function parseWallClock(value: string): WallClock | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(value.trim());
+  if (!match) return null;
+
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] || 0),
+    minute: Number(match[5] || 0),
+    second: Number(match[6] || 0),
+  };
+}
+
+function timeZoneOffsetMs(timeZone: string, instant: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+
+  const lookup = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value || 0);
+
+  const asUtc = Date.UTC(
+    lookup("year"),
+    lookup("month") - 1,
+    lookup("day"),
+    lookup("hour"),
+    lookup("minute"),
+    lookup("second")
+  );
+
+  return asUtc - instant.getTime();
+}
+
+// Schedule items carry wall-clock start/end values in the item's timezone.
+// Resolve them to UTC instants so calendar clients do not need a VTIMEZONE.
+export function scheduleWallClockToUtc(value: string, timeZone: string): Date | null {
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(value.trim())) {
+    const explicit = new Date(value);
+    return Number.isNaN(explicit.getTime()) ? null : explicit;
+  }
+
+  const wallClock = parseWallClock(value);
+  if (!wallClock) return null;
+
+  const naiveUtc = Date.UTC(
+    wallClock.year,
+    wallClock.month - 1,
+    wallClock.day,
+    wallClock.hour,
+    wallClock.minute,
+    wallClock.second
+  );
+
+  try {
+    const firstGuess = naiveUtc - timeZoneOffsetMs(timeZone, new Date(naiveUtc));
+    const corrected = naiveUtc - timeZoneOffsetMs(timeZone, new Date(firstGuess));
+    return new Date(corrected);
+  } catch {
+    return new Date(naiveUtc);
+  }
+}
+
+export function buildScheduleItemUid(item: Pick<CommandPublicScheduleItem, "id">, uidDomain: string) {
+  return `schedule-item-${item.id}@${uidDomain}`;
+}
+
+function buildEventLines(item: CommandPublicScheduleItem, options: ScheduleIcalOptions, stamp: string) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${buildScheduleItemUid(item, options.uidDomain)}`,
+    `DTSTAMP:${stamp}`,
+  ];
+
+  if (item.allDay) {
+    const startDate = item.occursOn || item.start;
+    const endDate = item.end && item.end.slice(0, 10) > startDate.slice(0, 10) ? item.end : addDaysToDateOnly(startDate, 1);
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(startDate)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDateValue(endDate)}`);
+  } else {
+    const start = scheduleWallClockToUtc(item.start, item.timezone);
+    const end = scheduleWallClockToUtc(item.end, item.timezone);
+    if (!start) return [];
+    lines.push(`DTSTART:${formatUtcStamp(start)}`);
+    if (end && end.getTime() > start.getTime()) {
+      lines.push(`DTEND:${formatUtcStamp(end)}`);
+    }
+  }
+
+  const summary = item.participant.displayName && item.participant.displayName !== item.title
+    ? `${item.title} — ${item.participant.displayName}`
+    : item.title;
+  lines.push(`SUMMARY:${escapeText(summary)}`);
+
+  const description = [item.subtitle, item.description, item.eventSeries.name]
+    .filter((value): value is string => Boolean(value && value.trim()))
+    .join("\n\n");
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+
+  if (item.locationLabel) {
+    lines.push(`LOCATION:${escapeText(item.locationLabel)}`);
+  }
+
+  if (item.url) {
+    lines.push(`URL:${item.url}`);
+  }
+
+  lines.push(`CATEGORIES:${escapeText(item.eventSeries.name)},${escapeText(item.participant.type.replace(/_/g, " "))}`);
+  lines.push(item.status === "CANCELLED" ? "STATUS:CANCELLED" : "STATUS:CONFIRMED");
+  lines.push("TRANSP:OPAQUE");
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+export function buildScheduleIcal(items: CommandPublicScheduleItem[], options: ScheduleIcalOptions) {
+  const stamp = formatUtcStamp(options.generatedAt || new Date());
+  const refreshMinutes = Math.max(15, Math.round(options.refreshIntervalMinutes || 60));
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICAL_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+    `NAME:${escapeText(options.calendarName)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`,
+    `X-PUBLISHED-TTL:PT${refreshMinutes}M`,
+  ];
+
+  if (options.calendarDescription) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.calendarDescription)}`);
+  }
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) continue;
+    seen.add(item.id);
+    lines.push(...buildEventLines(item, options, stamp));
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
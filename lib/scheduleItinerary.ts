@@ -0,0 +1,51 @@
+// lib/scheduleItinerary.ts
+// Pure helpers for the attendee "My Schedule" itinerary. Safe to import from
+// both the browser and server code.
+
+import type { CommandPublicScheduleItem } from "./commandPublicApi";
+
+type ItineraryItem = Pick<
+  CommandPublicScheduleItem,
+  "id" | "allDay" | "occursOn" | "startsAtMinutes" | "endsAtMinutes"
+>;
+
+export function scheduleItemsOverlap(a: ItineraryItem, b: ItineraryItem) {
+  if (a.id === b.id || a.occursOn !== b.occursOn) return false;
+  // Full-day vendor spots run alongside everything else; they never conflict.
+  if (a.allDay || b.allDay) return false;
+  return a.startsAtMinutes < b.endsAtMinutes && b.startsAtMinutes < a.endsAtMinutes;
+}
+
+// Returns, for each item id, the ids of the other items it overlaps with.
+export function findScheduleConflicts(items: ItineraryItem[]) {
+  const conflicts = new Map<string, string[]>();
+  const byDay = new Map<string, ItineraryItem[]>();
+
+  for (const item of items) {
+    const list = byDay.get(item.occursOn) || [];
+    list.push(item);
+    byDay.set(item.occursOn, list);
+  }
+
+  for (const dayItems of Array.from(byDay.values())) {
+    for (let i = 0; i < dayItems.length; i += 1) {
+      for (let j = i + 1; j < dayItems.length; j += 1) {
+        if (!scheduleItemsOverlap(dayItems[i], dayItems[j])) continue;
+        conflicts.set(dayItems[i].id, [...(conflicts.get(dayItems[i].id) || []), dayItems[j].id]);
+        conflicts.set(dayItems[j].id, [...(conflicts.get(dayItems[j].id) || []), dayItems[i].id]);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+export function sortItineraryItems<T extends ItineraryItem & { title: string }>(items: T[]) {
+  return [...items].sort(
+    (a, b) =>
+      a.occursOn.localeCompare(b.occursOn) ||
+      Number(b.allDay) - Number(a.allDay) ||
+      a.startsAtMinutes - b.startsAtMinutes ||
+      a.title.localeCompare(b.title)
+  );
+}
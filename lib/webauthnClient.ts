@@ -0,0 +1,95 @@
+// Browser helpers for the backoffice security key flows. The server sends and
+// expects base64url strings; navigator.credentials works with ArrayBuffers.
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = window.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes.buffer;
+}
+
+function toBase64Url(value: ArrayBuffer | null): string | null {
+  if (!value) return null;
+  const bytes = new Uint8Array(value);
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 1) {
+    binary += String.fromCharCode(bytes[index]);
+  }
+  return window.btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+}
+
+type CredentialDescriptorJSON = {
+  type: "public-key";
+  id: string;
+  transports?: string[];
+};
+
+function toCredentialDescriptors(values: CredentialDescriptorJSON[] | undefined): PublicKeyCredentialDescriptor[] {
+  return (values || []).map((value) => ({
+    type: value.type,
+    id: fromBase64Url(value.id),
+    transports: value.transports as AuthenticatorTransport[] | undefined,
+  }));
+}
+
+export function isWebauthnSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.PublicKeyCredential === "function" && Boolean(navigator.credentials);
+}
+
+export function describeWebauthnError(error: any, fallback: string): string {
+  if (error?.name === "NotAllowedError") return "The security key request was cancelled or timed out.";
+  if (error?.name === "InvalidStateError") return "This security key is already registered on your account.";
+  if (error?.name === "SecurityError") return "Security keys are not available on this address.";
+  return error?.message || fallback;
+}
+
+export async function createWebauthnCredential(options: any) {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      excludeCredentials: toCredentialDescriptors(options.excludeCredentials),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No security key response was returned.");
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: typeof response.getTransports === "function" ? response.getTransports() : [],
+    },
+  };
+}
+
+export async function getWebauthnAssertion(options: any) {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: toCredentialDescriptors(options.allowCredentials),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No security key response was returned.");
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: toBase64Url(response.userHandle),
+    },
+  };
+}
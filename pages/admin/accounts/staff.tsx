@@ -2,7 +2,10 @@ import { BackofficeMfaMethod, BackofficeRole, BackofficeUserStatus, BrandStatus
 import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
 import { useEffect, useMemo, useState } from "react";
 import AdminLayout from "../../../components/admin/AdminLayout";
+import BackofficeSessionList, { type BackofficeSessionSummary } from "../../../components/admin/BackofficeSessionList";
 import LibraryCardHeader from "../../../components/admin/LibraryCardHeader";
+import PortalSignInLockPanel from "../../../components/admin/PortalSignInLockPanel";
+import StaffMfaPolicyPanel, { MfaCompliancePill, type StaffMfaCompliance } from "../../../components/admin/StaffMfaPolicyPanel";
 import { useToast } from "../../../components/ui/toast";
 import { requireBackofficePage } from "../../../lib/backofficeAuth";
 import { fmtDate } from "../../../components/admin/AccountsDirectoryPage";
@@ -16,10 +19,13 @@ type StaffAccountRecord = {
   mfaMethod: BackofficeMfaMethod | null;
   mfaState: "DISABLED" | "PENDING" | "ENABLED";
   mfaEnabledAt: string | null;
+  webauthnCredentialCount: number;
+  mfaCompliance: StaffMfaCompliance;
   mfaRecoveryCodesGeneratedAt: string | null;
   createdAt: string;
   updatedAt: string;
   lastLoginAt: string | null;
+  signInLockedUntil: string | null;
   brandAccessCount: number;
   brandIds: string[];
   brandKeys: string[];
@@ -99,6 +105,19 @@ function StatusPill({ status }: { status: BackofficeUserStatus }) {
   return <span className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-semibold ${cls}`}>{status}</span>;
 }
 
+function isSignInLocked(user: Pick<StaffAccountRecord, "signInLockedUntil">) {
+  return Boolean(user.signInLockedUntil && new Date(user.signInLockedUntil).getTime() > Date.now());
+}
+
+function SignInLockPill({ user }: { user: Pick<StaffAccountRecord, "signInLockedUntil"> }) {
+  if (!isSignInLocked(user)) return null;
+  return (
+    <span className="inline-flex rounded-full border border-red-200 bg-red-50 px-2.5 py-1 text-xs font-semibold text-red-700">
+      LOCKED
+    </span>
+  );
+}
+
 function RolePill({ role }: { role: BackofficeRole }) {
   const cls =
     role === BackofficeRole.SUPERADMIN
@@ -146,7 +165,10 @@ export default function StaffAccountsPage({
   const [search, setSearch] = useState("");
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [busyAction, setBusyAction] = useState<"block" | "unblock" | "delete" | "resetmfa" | null>(null);
+  const [busyAction, setBusyAction] = useState<"block" | "unblock" | "delete" | "resetmfa" | "unlocksignin" | null>(null);
+  const [sessions, setSessions] = useState<BackofficeSessionSummary[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [sessionBusy, setSessionBusy] = useState<string | null>(null);
   const [linkBusy, setLinkBusy] = useState<"invite" | "reset" | null>(null);
   const [generatedLink, setGeneratedLink] = useState<GeneratedStaffLink | null>(null);
   const [err, setErr] = useState("");
@@ -235,6 +257,61 @@ export default function StaffAccountsPage({
 
   const selectedUser =
     selectedId && selectedId !== NEW_STAFF_ID ? users.find((user) => user.id === selectedId) || null : null;
+  const selectedUserId = selectedUser?.id || null;
+
+  useEffect(() => {
+    if (!canManageStaff || !selectedUserId) {
+      setSessions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setSessionsLoading(true);
+    (async () => {
+      try {
+        const res = await fetch(`/api/admin/users/${encodeURIComponent(selectedUserId)}/sessions`);
+        const body = await res.json().catch(() => null);
+        if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to load sessions");
+        if (!cancelled) setSessions(body.sessions);
+      } catch (error: any) {
+        if (!cancelled) toast("error", error?.message || "Failed to load sessions");
+      } finally {
+        if (!cancelled) setSessionsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canManageStaff, selectedUserId]);
+
+  async function revokeSessions(session: BackofficeSessionSummary | null) {
+    if (!selectedUser) return;
+    const ok = window.confirm(
+      session
+        ? `Sign ${selectedUser.username} out of ${session.device}?`
+        : `Sign ${selectedUser.username} out of every device? They will need to sign in again.`
+    );
+    if (!ok) return;
+
+    setSessionBusy(session ? session.id : "all");
+    setErr("");
+    try {
+      const query = session ? `?sessionId=${encodeURIComponent(session.id)}` : "";
+      const res = await fetch(`/api/admin/users/${encodeURIComponent(selectedUser.id)}/sessions${query}`, { method: "DELETE" });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to sign out sessions");
+      setSessions(body.sessions);
+      toast("success", session ? "Session signed out." : `${selectedUser.username} was signed out everywhere.`);
+    } catch (error: any) {
+      const message = error?.message || "Failed to sign out sessions";
+      setErr(message);
+      toast("error", message);
+    } finally {
+      setSessionBusy(null);
+    }
+  }
   const isNewStaff = selectedId === NEW_STAFF_ID;
   const isDirty = useMemo(() => {
     if (!form) return false;
@@ -352,7 +429,7 @@ export default function StaffAccountsPage({
     }
   }
 
-  async function runAction(action: "block" | "unblock" | "delete" | "resetmfa") {
+  async function runAction(action: "block" | "unblock" | "delete" | "resetmfa" | "unlocksignin") {
     if (!selectedUser) return;
 
     if (action === "delete") {
@@ -362,7 +439,7 @@ export default function StaffAccountsPage({
 
     if (action === "resetmfa") {
       const ok = window.confirm(
-        `Clear authenticator MFA for "${selectedUser.username}"? They will need to set it up again if they want MFA enabled.`
+        `Clear MFA for "${selectedUser.username}"? This removes their authenticator app and all security keys. They will need to set MFA up again.`
       );
       if (!ok) return;
     }
@@ -387,8 +464,10 @@ export default function StaffAccountsPage({
         action === "delete"
           ? "Staff account deleted."
           : action === "resetmfa"
-            ? "Authenticator MFA cleared."
-            : "Staff account updated.";
+            ? "MFA cleared."
+            : action === "unlocksignin"
+              ? "Sign-in unlocked."
+              : "Staff account updated.";
       toast("success", successMessage);
       await loadData(action === "delete" ? null : selectedUser.id);
     } catch (error: any) {
@@ -502,6 +581,19 @@ export default function StaffAccountsPage({
           <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{err}</div>
         ) : null}
 
+        <StaffMfaPolicyPanel
+          users={users}
+          brands={brands}
+          canManage={canManageStaff}
+          onSelectUser={(userId) => {
+            const user = users.find((entry) => entry.id === userId);
+            if (user) selectUser(user);
+          }}
+          onPolicySaved={() => void loadData(selectedId)}
+        />
+
+        {canManageStaff ? <PortalSignInLockPanel /> : null}
+
         <div className="grid gap-6 xl:grid-cols-[minmax(0,0.95fr)_minmax(0,1.35fr)]">
           <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
             <LibraryCardHeader
@@ -583,6 +675,8 @@ export default function StaffAccountsPage({
                           <RolePill role={user.role} />
                           <StatusPill status={user.status} />
                           <MfaPill state={user.mfaState} />
+                          <MfaCompliancePill compliance={user.mfaCompliance} />
+                          <SignInLockPill user={user} />
                         </div>
                       </div>
 
@@ -674,12 +768,28 @@ export default function StaffAccountsPage({
                     </div>
                   ) : null}
 
+                  {selectedUser && isSignInLocked(selectedUser) ? (
+                    <div className="flex flex-col gap-3 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        Sign-in is locked after repeated failed password or MFA attempts until {fmtDate(selectedUser.signInLockedUntil)}.
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => void runAction("unlocksignin")}
+                        className="rounded-xl border border-red-300 bg-white px-3 py-2 text-sm font-semibold text-red-800 hover:bg-red-100"
+                        disabled={!canManageStaff || Boolean(busyAction)}
+                      >
+                        {busyAction === "unlocksignin" ? "Unlocking…" : "Unlock Sign-In"}
+                      </button>
+                    </div>
+                  ) : null}
+
                   <div className="rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
                     <div className="flex items-center justify-between gap-3">
                       <div>
-                        <h2 className="text-sm font-semibold text-neutral-900">Authenticator App MFA</h2>
+                        <h2 className="text-sm font-semibold text-neutral-900">Multi-Factor Authentication</h2>
                         <p className="mt-1 text-sm text-neutral-600">
-                          Staff users enroll their own authenticator app from Settings / Security. Superadmins can clear the setup here if it needs to be reset.
+                          Staff users enroll their own authenticator app and security keys from Settings / Security. Superadmins can clear both here if they need to be reset.
                         </p>
                       </div>
                       <div className="flex flex-wrap items-center justify-end gap-2">
@@ -697,7 +807,7 @@ export default function StaffAccountsPage({
                       </div>
                     </div>
 
-                    <div className="mt-4 grid gap-4 md:grid-cols-3">
+                    <div className="mt-4 grid gap-4 md:grid-cols-4">
                       <div className="rounded-xl border border-neutral-200 bg-white px-4 py-3">
                         <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Method</div>
                         <div className="mt-2 text-sm text-neutral-800">
@@ -714,9 +824,43 @@ export default function StaffAccountsPage({
                           {selectedUser ? fmtDate(selectedUser.mfaRecoveryCodesGeneratedAt) : "—"}
                         </div>
                       </div>
+                      <div className="rounded-xl border border-neutral-200 bg-white px-4 py-3">
+                        <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Security Keys</div>
+                        <div className="mt-2 text-sm text-neutral-800">{selectedUser ? selectedUser.webauthnCredentialCount : "—"}</div>
+                      </div>
                     </div>
                   </div>
 
+                  {selectedUser && canManageStaff ? (
+                    <div className="rounded-2xl border border-neutral-200 bg-neutral-50 p-4">
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <h2 className="text-sm font-semibold text-neutral-900">Active Sessions</h2>
+                          <p className="mt-1 text-sm text-neutral-600">
+                            Devices signed in with this account. Signing a session out takes effect on its next request.
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => void revokeSessions(null)}
+                          className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-800 hover:bg-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={sessionBusy !== null || sessions.length === 0}
+                        >
+                          {sessionBusy === "all" ? "Signing out…" : "Sign Out Everywhere"}
+                        </button>
+                      </div>
+
+                      <div className="mt-4">
+                        <BackofficeSessionList
+                          sessions={sessions}
+                          loading={sessionsLoading}
+                          busyId={sessionBusy}
+                          onRevoke={(session) => void revokeSessions(session)}
+                        />
+                      </div>
+                    </div>
+                  ) : null}
+
                   {generatedLink ? (
                     <div className="rounded-2xl border border-sky-200 bg-sky-50 p-4">
                       <div className="flex items-start justify-between gap-4">
@@ -4,17 +4,21 @@ import { getServerSession } from "next-auth/next";
 import { useMemo, useState } from "react";
 import { useRouter } from "next/router";
 import { authOptions } from "../api/auth/[...nextauth]";
-import { isBackofficeSession, requiresBackofficeMfaChallenge } from "../../lib/authScopes";
+import { getSessionUserId, isBackofficeSession, requiresBackofficeMfaChallenge } from "../../lib/authScopes";
 import {
   hasVerifiedBackofficeMfaForRequest,
   resolveBackofficePostAuthDestination,
 } from "../../lib/backofficeAuth";
+import { getBackofficeMfaFactors } from "../../lib/backofficeMfaService";
 import { getRuntimeHostConfig } from "../../lib/runtimeHostConfig";
 import { getApiRequestHost } from "../../lib/requestHost";
+import { describeWebauthnError, getWebauthnAssertion, isWebauthnSupported } from "../../lib/webauthnClient";
 
 type BackofficeMfaPageProps = {
   callbackUrl: string;
   username: string;
+  hasAuthenticator: boolean;
+  hasPasskeys: boolean;
   allowedHosts: string[];
   recommendedAdminHost: string | null;
 };
@@ -68,11 +72,15 @@ export const getServerSideProps: GetServerSideProps<BackofficeMfaPageProps> = as
     };
   }
 
+  const factors = await getBackofficeMfaFactors(getSessionUserId(session) || "").catch(() => null);
+
   return {
     props: {
       callbackUrl: destination,
       username:
         String((session as any)?.user?.email || (session as any)?.user?.username || (session as any)?.user?.name || "staff"),
+      hasAuthenticator: factors ? factors.authenticator : true,
+      hasPasskeys: factors ? factors.passkeyCount > 0 : false,
       allowedHosts: runtimeHost.allowedHosts,
       recommendedAdminHost: runtimeHost.canonicalAdminHost,
     },
@@ -82,6 +90,8 @@ export const getServerSideProps: GetServerSideProps<BackofficeMfaPageProps> = as
 export default function AdminMfaChallengePage({
   callbackUrl: initialCallbackUrl,
   username,
+  hasAuthenticator,
+  hasPasskeys,
   allowedHosts,
   recommendedAdminHost,
 }: InferGetServerSidePropsType<typeof getServerSideProps>) {
@@ -93,6 +103,7 @@ export default function AdminMfaChallengePage({
 
   const [code, setCode] = useState("");
   const [busy, setBusy] = useState(false);
+  const [passkeyBusy, setPasskeyBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
@@ -135,6 +146,42 @@ export default function AdminMfaChallengePage({
     }
   }
 
+  async function onPasskey() {
+    setError(null);
+    setSuccess(null);
+    if (!isWebauthnSupported()) {
+      setError("This browser does not support security keys or passkeys.");
+      return;
+    }
+
+    setPasskeyBusy(true);
+    try {
+      const optionsRes = await fetch("/api/admin/mfa/challenge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "passkey-options" }),
+      });
+      const optionsBody = await optionsRes.json().catch(() => null);
+      if (!optionsRes.ok || !optionsBody?.ok) throw new Error(optionsBody?.error || "Security key verification failed");
+
+      const credential = await getWebauthnAssertion(optionsBody.options);
+      const res = await fetch("/api/admin/mfa/challenge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "passkey", credential }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Security key verification failed");
+
+      setSuccess("Security key verified. You have been signed in.");
+      window.location.assign(callbackUrl || "/admin/library");
+    } catch (nextError: any) {
+      setError(describeWebauthnError(nextError, "Security key verification failed"));
+    } finally {
+      setPasskeyBusy(false);
+    }
+  }
+
   return (
     <>
       <Head>
@@ -167,9 +214,17 @@ export default function AdminMfaChallengePage({
           </div>
 
           <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
-            <h1 className="text-lg font-semibold">Authenticator Check</h1>
+            <h1 className="text-lg font-semibold">{hasAuthenticator ? "Authenticator Check" : "Security Key Check"}</h1>
             <p className="mt-1 text-sm text-neutral-600">
-              Enter the 6-digit code from your authenticator app, or use a recovery code for <span className="font-medium">{username}</span>.
+              {hasAuthenticator ? (
+                <>
+                  Enter the 6-digit code from your authenticator app, or use a recovery code for <span className="font-medium">{username}</span>.
+                </>
+              ) : (
+                <>
+                  Use one of the security keys or passkeys registered to <span className="font-medium">{username}</span>.
+                </>
+              )}
             </p>
 
             {error ? (
@@ -184,27 +239,44 @@ export default function AdminMfaChallengePage({
               </div>
             ) : null}
 
-            <form onSubmit={onSubmit} className="mt-6 space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-neutral-700">Authenticator or recovery code</label>
-                <input
-                  className="mt-1 w-full rounded-lg border border-neutral-300 bg-white px-3 py-2 text-neutral-900 placeholder-neutral-400 shadow-sm outline-none focus:border-neutral-900 focus:ring-2 focus:ring-neutral-900"
-                  type="text"
-                  autoComplete="one-time-code"
-                  value={code}
-                  onChange={(event) => setCode(event.target.value)}
-                  placeholder="123456 or ABCD-EFGH-IJKL"
-                />
-              </div>
-
+            {hasPasskeys ? (
               <button
-                type="submit"
-                disabled={busy}
-                className="w-full rounded-lg bg-neutral-900 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-neutral-800 disabled:cursor-not-allowed disabled:opacity-60"
+                type="button"
+                onClick={() => void onPasskey()}
+                disabled={busy || passkeyBusy}
+                className={`mt-6 w-full rounded-lg px-4 py-2.5 text-sm font-semibold shadow-sm disabled:cursor-not-allowed disabled:opacity-60 ${
+                  hasAuthenticator
+                    ? "border border-neutral-300 bg-white text-neutral-900 hover:bg-neutral-50"
+                    : "bg-neutral-900 text-white hover:bg-neutral-800"
+                }`}
               >
-                {busy ? "Verifying…" : "Verify Sign In"}
+                {passkeyBusy ? "Waiting for security key…" : "Use security key or passkey"}
               </button>
-            </form>
+            ) : null}
+
+            {hasAuthenticator ? (
+              <form onSubmit={onSubmit} className="mt-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700">Authenticator or recovery code</label>
+                  <input
+                    className="mt-1 w-full rounded-lg border border-neutral-300 bg-white px-3 py-2 text-neutral-900 placeholder-neutral-400 shadow-sm outline-none focus:border-neutral-900 focus:ring-2 focus:ring-neutral-900"
+                    type="text"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(event) => setCode(event.target.value)}
+                    placeholder="123456 or ABCD-EFGH-IJKL"
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="w-full rounded-lg bg-neutral-900 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-neutral-800 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {busy ? "Verifying…" : "Verify Sign In"}
+                </button>
+              </form>
+            ) : null}
 
             <div className="mt-6 rounded-lg border border-neutral-200 bg-neutral-50 px-4 py-3 text-xs text-neutral-600">
               Use the same admin host throughout sign-in and verification.
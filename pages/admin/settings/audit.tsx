@@ -0,0 +1,331 @@
+import { BackofficeRole } from "@prisma/client";
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import AdminLayout from "../../../components/admin/AdminLayout";
+import LibraryCardHeader from "../../../components/admin/LibraryCardHeader";
+import { useToast } from "../../../components/ui/toast";
+import { BACKOFFICE_AUDIT_ACTIONS } from "../../../lib/backofficeAudit";
+import { requireBackofficePage } from "../../../lib/backofficeAuth";
+
+type AuditPageProps = {
+  loggedInAs: string | null;
+  canViewAudit: boolean;
+  actions: string[];
+};
+
+type AuditEvent = {
+  id: string;
+  action: string;
+  actorUserId: string | null;
+  actorUsername: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  targetLabel: string | null;
+  brandId: string | null;
+  before: unknown;
+  after: unknown;
+  metadata: unknown;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
+type AuditFilters = {
+  action: string;
+  actorUserId: string;
+  brandId: string;
+  from: string;
+  to: string;
+  q: string;
+};
+
+const EMPTY_FILTERS: AuditFilters = { action: "", actorUserId: "", brandId: "", from: "", to: "", q: "" };
+
+export const getServerSideProps: GetServerSideProps<AuditPageProps> = async (ctx) => {
+  const auth = await requireBackofficePage(ctx, {
+    callbackUrl: "/admin/settings/audit",
+  });
+  if (!auth.ok) return auth.response;
+
+  return {
+    props: {
+      loggedInAs: auth.loggedInAs,
+      canViewAudit: auth.principal.role === BackofficeRole.SUPERADMIN,
+      actions: [...BACKOFFICE_AUDIT_ACTIONS],
+    },
+  };
+};
+
+function formatDate(value: string | null) {
+  if (!value) return "—";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "—";
+  return date.toLocaleString();
+}
+
+function formatAction(action: string) {
+  return action
+    .toLowerCase()
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function toQueryString(filters: AuditFilters, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filters, ...extra })) {
+    if (value) params.set(key, value);
+  }
+  return params.toString();
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  if (value === null || value === undefined) return null;
+  return (
+    <div>
+      <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">{label}</div>
+      <pre className="mt-1 max-h-64 overflow-auto rounded-xl border border-neutral-200 bg-neutral-50 p-3 text-xs text-neutral-800">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+export default function AuditLogPage({ loggedInAs, canViewAudit, actions }: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actors, setActors] = useState<Array<{ id: string; username: string }>>([]);
+  const [brands, setBrands] = useState<Array<{ id: string; name: string }>>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const brandNames = useMemo(() => new Map(brands.map((brand) => [brand.id, brand.name])), [brands]);
+
+  async function loadEvents(nextFilters: AuditFilters, cursor?: string | null) {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/admin/audit?${toQueryString(nextFilters, cursor ? { cursor } : {})}`);
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to load audit log");
+
+      const page = Array.isArray(body.events) ? (body.events as AuditEvent[]) : [];
+      setEvents((current) => (cursor ? [...current, ...page] : page));
+      setActors(Array.isArray(body.actors) ? body.actors : []);
+      setNextCursor(body.nextCursor || null);
+      setApplied(nextFilters);
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to load audit log";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!canViewAudit) return;
+    void loadEvents(EMPTY_FILTERS);
+
+    (async () => {
+      const res = await fetch("/api/admin/brands");
+      const body = await res.json().catch(() => null);
+      if (res.ok && body?.ok && Array.isArray(body.brands)) setBrands(body.brands);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canViewAudit]);
+
+  const inputClass =
+    "w-full rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm outline-none focus:border-neutral-500 focus:ring-2 focus:ring-neutral-200";
+
+  return (
+    <AdminLayout title="X Dragon Command — Audit Log" sectionLabel="Settings / Audit Log" loggedInAs={loggedInAs} active="settings">
+      <div className="space-y-6">
+        {error ? (
+          <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+        ) : null}
+
+        <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
+          <LibraryCardHeader
+            title="Audit Log"
+            description="Who changed staff accounts, brand access, MFA, prompt statuses and login data, with before and after values. Entries cannot be edited or deleted."
+            actionsTop={
+              canViewAudit ? (
+                <>
+                  <a
+                    href={`/api/admin/audit/export?${toQueryString(applied, { format: "csv" })}`}
+                    className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                  >
+                    Export CSV
+                  </a>
+                  <a
+                    href={`/api/admin/audit/export?${toQueryString(applied, { format: "json" })}`}
+                    className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                  >
+                    Export JSON
+                  </a>
+                </>
+              ) : null
+            }
+          />
+
+          {!canViewAudit ? (
+            <div className="mt-4 rounded-xl border border-neutral-200 bg-neutral-50 px-4 py-3 text-sm text-neutral-700">
+              Only superadmins can view the audit log.
+            </div>
+          ) : (
+            <>
+              <form
+                className="mt-6 grid gap-3 md:grid-cols-3 xl:grid-cols-6"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  void loadEvents(filters);
+                }}
+              >
+                <select
+                  value={filters.action}
+                  onChange={(event) => setFilters({ ...filters, action: event.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All actions</option>
+                  {actions.map((action) => (
+                    <option key={action} value={action}>
+                      {formatAction(action)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={filters.actorUserId}
+                  onChange={(event) => setFilters({ ...filters, actorUserId: event.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All actors</option>
+                  {actors.map((actor) => (
+                    <option key={actor.id} value={actor.id}>
+                      {actor.username}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={filters.brandId}
+                  onChange={(event) => setFilters({ ...filters, brandId: event.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All brands</option>
+                  {brands.map((brand) => (
+                    <option key={brand.id} value={brand.id}>
+                      {brand.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={filters.from}
+                  onChange={(event) => setFilters({ ...filters, from: event.target.value })}
+                  className={inputClass}
+                  aria-label="From date"
+                />
+                <input
+                  type="date"
+                  value={filters.to}
+                  onChange={(event) => setFilters({ ...filters, to: event.target.value })}
+                  className={inputClass}
+                  aria-label="To date"
+                />
+                <div className="flex gap-2">
+                  <input
+                    value={filters.q}
+                    onChange={(event) => setFilters({ ...filters, q: event.target.value })}
+                    placeholder="Actor, target, IP…"
+                    className={inputClass}
+                  />
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="rounded-xl border border-neutral-900 bg-neutral-900 px-3 py-2 text-sm font-semibold text-white hover:bg-neutral-800 disabled:opacity-60"
+                  >
+                    Filter
+                  </button>
+                </div>
+              </form>
+
+              <div className="mt-6 overflow-x-auto rounded-2xl border border-neutral-200">
+                <table className="min-w-full divide-y divide-neutral-200 text-sm">
+                  <thead className="bg-neutral-50 text-left text-xs font-semibold uppercase tracking-wide text-neutral-500">
+                    <tr>
+                      <th className="px-4 py-3">When</th>
+                      <th className="px-4 py-3">Action</th>
+                      <th className="px-4 py-3">Actor</th>
+                      <th className="px-4 py-3">Target</th>
+                      <th className="px-4 py-3">Brand</th>
+                      <th className="px-4 py-3">IP</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-neutral-200">
+                    {events.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-6 text-center text-neutral-500">
+                          {loading ? "Loading…" : "No audit entries match these filters."}
+                        </td>
+                      </tr>
+                    ) : (
+                      events.map((event) => (
+                        <Fragment key={event.id}>
+                          <tr
+                            onClick={() => setExpandedId((current) => (current === event.id ? null : event.id))}
+                            className="cursor-pointer hover:bg-neutral-50"
+                          >
+                            <td className="whitespace-nowrap px-4 py-3 text-neutral-600">{formatDate(event.createdAt)}</td>
+                            <td className="whitespace-nowrap px-4 py-3 font-semibold text-neutral-900">{formatAction(event.action)}</td>
+                            <td className="px-4 py-3 text-neutral-700">{event.actorUsername || "—"}</td>
+                            <td className="px-4 py-3 text-neutral-700">{event.targetLabel || event.targetId || event.targetType || "—"}</td>
+                            <td className="px-4 py-3 text-neutral-700">
+                              {event.brandId ? brandNames.get(event.brandId) || event.brandId : "—"}
+                            </td>
+                            <td className="whitespace-nowrap px-4 py-3 text-neutral-600">{event.ip || "—"}</td>
+                          </tr>
+                          {expandedId === event.id ? (
+                            <tr className="bg-white">
+                              <td colSpan={6} className="space-y-3 px-4 py-4">
+                                <div className="text-xs text-neutral-500">
+                                  {event.targetType ? `${event.targetType} ${event.targetId || ""}` : null}
+                                  {event.userAgent ? ` · ${event.userAgent}` : null}
+                                </div>
+                                <div className="grid gap-3 lg:grid-cols-3">
+                                  <JsonBlock label="Before" value={event.before} />
+                                  <JsonBlock label="After" value={event.after} />
+                                  <JsonBlock label="Details" value={event.metadata} />
+                                </div>
+                              </td>
+                            </tr>
+                          ) : null}
+                        </Fragment>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {nextCursor ? (
+                <div className="mt-4 flex justify-center">
+                  <button
+                    type="button"
+                    disabled={loading}
+                    onClick={() => void loadEvents(applied, nextCursor)}
+                    className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50 disabled:opacity-60"
+                  >
+                    {loading ? "Loading…" : "Load more"}
+                  </button>
+                </div>
+              ) : null}
+            </>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,16 +1,22 @@
 import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
 import { useEffect, useState } from "react";
 import AdminLayout from "../../../components/admin/AdminLayout";
+import BackofficeSessionList, { type BackofficeSessionSummary } from "../../../components/admin/BackofficeSessionList";
 import LibraryCardHeader from "../../../components/admin/LibraryCardHeader";
 import { useToast } from "../../../components/ui/toast";
 import { requireBackofficePage } from "../../../lib/backofficeAuth";
+import { resolveBackofficeMfaCompliance, type BackofficeMfaCompliance } from "../../../lib/backofficeMfaPolicy";
+import { createWebauthnCredential, describeWebauthnError, isWebauthnSupported } from "../../../lib/webauthnClient";
 
 type SecurityPageProps = {
   loggedInAs: string | null;
+  mfaCompliance: BackofficeMfaCompliance;
 };
 
 type MfaStatus = {
   state: "DISABLED" | "PENDING" | "ENABLED";
+  authenticatorState: "DISABLED" | "PENDING" | "ENABLED";
+  passkeyCount: number;
   method: "AUTHENTICATOR_APP" | null;
   enabledAt: string | null;
   recoveryCodesGeneratedAt: string | null;
@@ -21,15 +27,33 @@ type MfaStatus = {
   recoveryCodes: string[] | null;
 };
 
+type PasskeySummary = {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
 export const getServerSideProps: GetServerSideProps<SecurityPageProps> = async (ctx) => {
   const auth = await requireBackofficePage(ctx, {
     callbackUrl: "/admin/settings/security",
+    allowMfaEnrollment: true,
   });
   if (!auth.ok) return auth.response;
 
+  const compliance = await resolveBackofficeMfaCompliance({
+    role: auth.principal.role,
+    createdAt: auth.principal.createdAt,
+    brandIds: auth.principal.allowedBrandIds,
+    mfaState: auth.principal.mfaState,
+  });
+
   return {
     props: {
       loggedInAs: auth.loggedInAs,
+      mfaCompliance: compliance,
     },
   };
 };
@@ -52,7 +76,7 @@ function StatusPill({ state }: { state: MfaStatus["state"] }) {
   return <span className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-semibold ${cls}`}>MFA {state}</span>;
 }
 
-export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType<typeof getServerSideProps>) {
+export default function SecurityPage({ loggedInAs, mfaCompliance }: InferGetServerSidePropsType<typeof getServerSideProps>) {
   const { toast } = useToast();
   const [status, setStatus] = useState<MfaStatus | null>(null);
   const [error, setError] = useState("");
@@ -61,6 +85,14 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
   const [code, setCode] = useState("");
   const [qrCodeSrc, setQrCodeSrc] = useState<string | null>(null);
   const [qrLoading, setQrLoading] = useState(false);
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+  const [passkeyName, setPasskeyName] = useState("");
+  const [passkeyBusy, setPasskeyBusy] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [sessions, setSessions] = useState<BackofficeSessionSummary[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
+  const [sessionBusy, setSessionBusy] = useState<string | null>(null);
 
   async function loadStatus() {
     setLoading(true);
@@ -70,6 +102,11 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
       const body = await res.json().catch(() => null);
       if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to load MFA status");
       setStatus(body.status);
+
+      const passkeysRes = await fetch("/api/admin/mfa/passkeys");
+      const passkeysBody = await passkeysRes.json().catch(() => null);
+      if (!passkeysRes.ok || !passkeysBody?.ok) throw new Error(passkeysBody?.error || "Failed to load security keys");
+      setPasskeys(passkeysBody.credentials);
     } catch (nextError: any) {
       const message = nextError?.message || "Failed to load MFA status";
       setError(message);
@@ -79,14 +116,31 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
     }
   }
 
+  async function loadSessions() {
+    setSessionsLoading(true);
+    try {
+      const res = await fetch("/api/admin/sessions");
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to load sessions");
+      setSessions(body.sessions);
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to load sessions";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setSessionsLoading(false);
+    }
+  }
+
   useEffect(() => {
     void loadStatus();
+    void loadSessions();
   }, []);
 
   useEffect(() => {
     let active = true;
 
-    if (status?.state !== "PENDING" || !status.otpAuthUrl) {
+    if (status?.authenticatorState !== "PENDING" || !status.otpAuthUrl) {
       setQrCodeSrc(null);
       setQrLoading(false);
       return () => {
@@ -123,7 +177,7 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
     return () => {
       active = false;
     };
-  }, [status?.otpAuthUrl, status?.state]);
+  }, [status?.otpAuthUrl, status?.authenticatorState]);
 
   async function runAction(action: "start" | "verify" | "cancel") {
     if (action === "verify" && !code.trim()) {
@@ -158,6 +212,141 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
     }
   }
 
+  async function addPasskey() {
+    if (!isWebauthnSupported()) {
+      const message = "This browser does not support security keys or passkeys.";
+      setError(message);
+      toast("error", message);
+      return;
+    }
+
+    setPasskeyBusy("add");
+    setError("");
+    try {
+      const optionsRes = await fetch("/api/admin/mfa/passkeys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "options" }),
+      });
+      const optionsBody = await optionsRes.json().catch(() => null);
+      if (!optionsRes.ok || !optionsBody?.ok) throw new Error(optionsBody?.error || "Failed to start security key setup");
+
+      const credential = await createWebauthnCredential(optionsBody.options);
+      const res = await fetch("/api/admin/mfa/passkeys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "register", name: passkeyName.trim(), credential }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to register security key");
+
+      setPasskeys(body.credentials);
+      setPasskeyName("");
+      toast("success", `${body.credential?.name || "Security key"} added.`);
+      await loadStatus();
+    } catch (nextError: any) {
+      const message = describeWebauthnError(nextError, "Failed to register security key");
+      setError(message);
+      toast("error", message);
+    } finally {
+      setPasskeyBusy(null);
+    }
+  }
+
+  async function renamePasskey(id: string) {
+    setPasskeyBusy(id);
+    setError("");
+    try {
+      const res = await fetch("/api/admin/mfa/passkeys", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, name: renameValue.trim() }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to rename security key");
+      setPasskeys(body.credentials);
+      setRenamingId(null);
+      toast("success", "Security key renamed.");
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to rename security key";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setPasskeyBusy(null);
+    }
+  }
+
+  async function removePasskey(passkey: PasskeySummary) {
+    const lastFactor = passkeys.length === 1 && status?.authenticatorState !== "ENABLED";
+    const ok = window.confirm(
+      lastFactor
+        ? `Remove "${passkey.name}"? It is your only second factor, so MFA will be turned off for this account.`
+        : `Remove "${passkey.name}"? It will no longer work for backoffice sign-in.`
+    );
+    if (!ok) return;
+
+    setPasskeyBusy(passkey.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/admin/mfa/passkeys?id=${encodeURIComponent(passkey.id)}`, { method: "DELETE" });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to remove security key");
+      setPasskeys(body.credentials);
+      toast("success", "Security key removed.");
+      await loadStatus();
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to remove security key";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setPasskeyBusy(null);
+    }
+  }
+
+  async function revokeSession(session: BackofficeSessionSummary) {
+    if (!window.confirm(`Sign out ${session.device}? It will need to sign in again.`)) return;
+
+    setSessionBusy(session.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/admin/sessions?id=${encodeURIComponent(session.id)}`, { method: "DELETE" });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to sign out session");
+      setSessions(body.sessions);
+      toast("success", "Session signed out.");
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to sign out session";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setSessionBusy(null);
+    }
+  }
+
+  async function signOutOtherSessions() {
+    if (!window.confirm("Sign out every other device? They will need to sign in again.")) return;
+
+    setSessionBusy("others");
+    setError("");
+    try {
+      const res = await fetch("/api/admin/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "signOutOthers" }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to sign out other sessions");
+      setSessions(body.sessions);
+      toast("success", body.revoked ? `Signed out ${body.revoked} other session${body.revoked === 1 ? "" : "s"}.` : "No other sessions were open.");
+    } catch (nextError: any) {
+      const message = nextError?.message || "Failed to sign out other sessions";
+      setError(message);
+      toast("error", message);
+    } finally {
+      setSessionBusy(null);
+    }
+  }
+
   async function copyValue(value: string, label: string) {
     try {
       await navigator.clipboard.writeText(value);
@@ -170,6 +359,20 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
   return (
     <AdminLayout title="X Dragon Command — Security" sectionLabel="Settings / Security" loggedInAs={loggedInAs} active="settings">
       <div className="space-y-6">
+        {(mfaCompliance.status === "OVERDUE" || mfaCompliance.status === "GRACE") && status?.state !== "ENABLED" ? (
+          <div
+            className={`rounded-xl border px-4 py-3 text-sm ${
+              mfaCompliance.status === "OVERDUE"
+                ? "border-red-200 bg-red-50 text-red-800"
+                : "border-amber-200 bg-amber-50 text-amber-800"
+            }`}
+          >
+            {mfaCompliance.status === "OVERDUE"
+              ? "Your organization requires MFA for this account. Set up an authenticator app or security key to continue using the backoffice."
+              : `Your organization requires MFA for this account. Set it up before ${formatDate(mfaCompliance.deadline)} to keep backoffice access.`}
+          </div>
+        ) : null}
+
         {error ? (
           <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
         ) : null}
@@ -177,7 +380,7 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
         <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
           <LibraryCardHeader
             title="Security"
-            description="Set up your own authenticator-app MFA for backoffice access. Once enabled, new backoffice sign-ins must complete this second step."
+            description="Set up your own authenticator app or security keys for backoffice MFA. Once either is enabled, new backoffice sign-ins must complete this second step."
             actionsTop={
               <button
                 type="button"
@@ -204,7 +407,12 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
                 <div className="rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-3">
                   <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">Method</div>
                   <div className="mt-2 text-sm text-neutral-800">
-                    {status.method === "AUTHENTICATOR_APP" ? "Authenticator App" : "Not configured"}
+                    {[
+                      status.method === "AUTHENTICATOR_APP" ? "Authenticator App" : null,
+                      status.passkeyCount > 0 ? `${status.passkeyCount} security key${status.passkeyCount === 1 ? "" : "s"}` : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" + ") || "Not configured"}
                   </div>
                 </div>
                 <div className="rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-3">
@@ -223,7 +431,7 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
                 </div>
               ) : null}
 
-              {status.state === "DISABLED" ? (
+              {status.authenticatorState === "DISABLED" ? (
                 <div className="rounded-2xl border border-neutral-200 bg-neutral-50 p-5">
                   <div className="text-sm text-neutral-700">
                     Authenticator MFA is not configured on this account yet. Start setup to generate a secret and recovery codes.
@@ -241,7 +449,7 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
                 </div>
               ) : null}
 
-              {status.state === "PENDING" ? (
+              {status.authenticatorState === "PENDING" ? (
                 <div className="space-y-6">
                   <div className="rounded-2xl border border-amber-200 bg-amber-50 p-5">
                     <div className="text-sm font-semibold text-amber-900">Setup In Progress</div>
@@ -359,7 +567,7 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
                 </div>
               ) : null}
 
-              {status.state === "ENABLED" ? (
+              {status.authenticatorState === "ENABLED" ? (
                 <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-5">
                   <div className="text-sm font-semibold text-emerald-900">Authenticator MFA Enabled</div>
                   <p className="mt-2 text-sm text-emerald-800">
@@ -370,6 +578,131 @@ export default function SecurityPage({ loggedInAs }: InferGetServerSidePropsType
             </div>
           )}
         </div>
+
+        <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
+          <LibraryCardHeader
+            title="Security Keys & Passkeys"
+            description="Register hardware security keys or device passkeys. Each one works as a second factor, and passkeys can also sign you in without a password."
+          />
+
+          <div className="mt-6 space-y-4">
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <input
+                value={passkeyName}
+                onChange={(event) => setPasskeyName(event.target.value.slice(0, 64))}
+                placeholder="Name, e.g. YubiKey or Work laptop"
+                className="w-full rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm outline-none focus:border-neutral-500 focus:ring-2 focus:ring-neutral-200 sm:max-w-xs"
+              />
+              <button
+                type="button"
+                onClick={() => void addPasskey()}
+                disabled={passkeyBusy !== null || !status}
+                className="rounded-xl border border-neutral-900 bg-neutral-900 px-4 py-2 text-sm font-semibold text-white hover:bg-neutral-800 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {passkeyBusy === "add" ? "Waiting for key…" : "Add Security Key"}
+              </button>
+            </div>
+
+            {passkeys.length === 0 ? (
+              <div className="rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-6 text-sm text-neutral-500">
+                {loading ? "Loading…" : "No security keys or passkeys registered yet."}
+              </div>
+            ) : (
+              <div className="divide-y divide-neutral-200 rounded-2xl border border-neutral-200">
+                {passkeys.map((passkey) => (
+                  <div key={passkey.id} className="flex flex-col gap-3 px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="min-w-0">
+                      {renamingId === passkey.id ? (
+                        <input
+                          value={renameValue}
+                          onChange={(event) => setRenameValue(event.target.value.slice(0, 64))}
+                          className="w-full rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm outline-none focus:border-neutral-500 focus:ring-2 focus:ring-neutral-200"
+                          autoFocus
+                        />
+                      ) : (
+                        <div className="text-sm font-semibold text-neutral-900">{passkey.name}</div>
+                      )}
+                      <div className="mt-1 text-xs text-neutral-500">
+                        Added {formatDate(passkey.createdAt)} · Last used {formatDate(passkey.lastUsedAt)}
+                        {passkey.backedUp ? " · Synced passkey" : ""}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {renamingId === passkey.id ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => void renamePasskey(passkey.id)}
+                            disabled={passkeyBusy !== null}
+                            className="rounded-xl border border-neutral-900 bg-neutral-900 px-3 py-2 text-sm font-semibold text-white hover:bg-neutral-800 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            {passkeyBusy === passkey.id ? "Saving…" : "Save"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setRenamingId(null)}
+                            disabled={passkeyBusy !== null}
+                            className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setRenamingId(passkey.id);
+                              setRenameValue(passkey.name);
+                            }}
+                            disabled={passkeyBusy !== null}
+                            className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                          >
+                            Rename
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => void removePasskey(passkey)}
+                            disabled={passkeyBusy !== null}
+                            className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-800 hover:bg-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            {passkeyBusy === passkey.id ? "Removing…" : "Remove"}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm">
+          <LibraryCardHeader
+            title="Active Sessions"
+            description="Devices currently signed in to the backoffice with this account. Signing a device out takes effect on its next request."
+            actionsTop={
+              <button
+                type="button"
+                onClick={() => void signOutOtherSessions()}
+                disabled={sessionBusy !== null || !sessions.some((session) => !session.current)}
+                className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-800 hover:bg-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {sessionBusy === "others" ? "Signing out…" : "Sign Out Other Sessions"}
+              </button>
+            }
+          />
+
+          <div className="mt-6">
+            <BackofficeSessionList
+              sessions={sessions}
+              loading={sessionsLoading}
+              busyId={sessionBusy}
+              onRevoke={(session) => void revokeSession(session)}
+            />
+          </div>
+        </div>
       </div>
     </AdminLayout>
   );
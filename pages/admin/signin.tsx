@@ -7,6 +7,7 @@ import { useRouter } from "next/router";
 import { authOptions } from "../api/auth/[...nextauth]";
 import {
   BACKOFFICE_CREDENTIALS_PROVIDER_ID,
+  BACKOFFICE_PASSKEY_PROVIDER_ID,
   isBackofficeSession,
   requiresBackofficeMfaChallenge,
 } from "../../lib/authScopes";
@@ -16,6 +17,7 @@ import {
 } from "../../lib/backofficeAuth";
 import { getRuntimeHostConfig } from "../../lib/runtimeHostConfig";
 import { getApiRequestHost } from "../../lib/requestHost";
+import { describeWebauthnError, getWebauthnAssertion, isWebauthnSupported } from "../../lib/webauthnClient";
 
 type AdminSignInProps = {
   allowedHosts: string[];
@@ -71,6 +73,7 @@ export default function AdminCommandSignIn({ allowedHosts, recommendedAdminHost
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(initialErr);
   const [busy, setBusy] = useState(false);
+  const [passkeyBusy, setPasskeyBusy] = useState(false);
 
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -126,6 +129,55 @@ export default function AdminCommandSignIn({ allowedHosts, recommendedAdminHost
     }
   }
 
+  async function onPasskeySignIn() {
+    setError(null);
+    if (!isWebauthnSupported()) {
+      setError("This browser does not support passkeys.");
+      return;
+    }
+
+    setPasskeyBusy(true);
+    try {
+      const optionsRes = await fetch("/api/admin/auth/passkey-options", { method: "POST" });
+      const optionsBody = await optionsRes.json().catch(() => null);
+      if (!optionsRes.ok || !optionsBody?.ok) throw new Error(optionsBody?.error || "Passkey sign-in is unavailable.");
+
+      const credential = await getWebauthnAssertion(optionsBody.options);
+      const res = await signIn(BACKOFFICE_PASSKEY_PROVIDER_ID, {
+        redirect: false,
+        credential: JSON.stringify(credential),
+        callbackUrl,
+      });
+      if (!res?.ok) {
+        setError("That passkey is not registered to an active admin account.");
+        return;
+      }
+
+      const session = await getSession();
+      if (!isBackofficeSession(session)) {
+        setError("Signed in, but your admin session was not established. Please try again.");
+        return;
+      }
+
+      const target = callbackUrl || resolveBackofficePostAuthDestination(session);
+      const challengeRes = await fetch("/api/admin/mfa/challenge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "passkey-signin" }),
+      });
+      if (!challengeRes.ok) {
+        window.location.assign(`/admin/mfa?callbackUrl=${encodeURIComponent(target)}`);
+        return;
+      }
+
+      window.location.assign(target);
+    } catch (nextError: any) {
+      setError(describeWebauthnError(nextError, "Passkey sign-in failed. Please try again."));
+    } finally {
+      setPasskeyBusy(false);
+    }
+  }
+
   return (
     <>
       <Head>
@@ -207,6 +259,21 @@ export default function AdminCommandSignIn({ allowedHosts, recommendedAdminHost
               </button>
             </form>
 
+            <div className="mt-4 flex items-center gap-3 text-xs uppercase tracking-wide text-neutral-400">
+              <div className="h-px flex-1 bg-neutral-200" />
+              or
+              <div className="h-px flex-1 bg-neutral-200" />
+            </div>
+
+            <button
+              type="button"
+              onClick={() => void onPasskeySignIn()}
+              disabled={busy || passkeyBusy}
+              className="mt-4 w-full rounded-lg border border-neutral-300 bg-white px-4 py-2.5 text-sm font-semibold text-neutral-900 shadow-sm hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {passkeyBusy ? "Waiting for passkey…" : "Sign in with a passkey"}
+            </button>
+
             <div className="mt-6 rounded-lg border border-neutral-200 bg-neutral-50 px-4 py-3 text-xs text-neutral-600">
               Tip: if you get signed-in but bounced back here, double-check that you always use the same canonical domain
               (recommended: <span className="font-medium">{"https://" + (recommendedAdminHost || "your-admin-host")}</span>) and that
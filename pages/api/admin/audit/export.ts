@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { exportBackofficeAuditEvents, type BackofficeAuditRecord } from "../../../../lib/backofficeAudit";
+import { requireBackofficeApi } from "../../../../lib/backofficeAuth";
+
+const CSV_HEADER = [
+  "id",
+  "createdAt",
+  "action",
+  "actorUserId",
+  "actorUsername",
+  "targetType",
+  "targetId",
+  "targetLabel",
+  "brandId",
+  "before",
+  "after",
+  "metadata",
+  "ip",
+  "userAgent",
+].join(",");
+
+function toCsvLines(rows: BackofficeAuditRecord[]) {
+  const esc = (v: any) => `"${String(v ?? "").replaceAll('"', '""')}"`;
+  const json = (v: unknown) => (v === null || v === undefined ? "" : JSON.stringify(v));
+  return rows.map((r) =>
+    [
+      esc(r.id),
+      esc(r.createdAt),
+      esc(r.action),
+      esc(r.actorUserId),
+      esc(r.actorUsername),
+      esc(r.targetType),
+      esc(r.targetId),
+      esc(r.targetLabel),
+      esc(r.brandId),
+      esc(json(r.before)),
+      esc(json(r.after)),
+      esc(json(r.metadata)),
+      esc(r.ip),
+      esc(r.userAgent),
+    ].join(",")
+  );
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await requireBackofficeApi(req, res, { superadminOnly: true });
+  if (!auth.ok) return res.status(401).json({ ok: false, error: "Unauthorized" });
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const format = String(req.query.format || "csv").toLowerCase() === "json" ? "json" : "csv";
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  // The export is streamed page by page, so headers go out with the first
+  // page; until then a bad filter can still be answered with a 400.
+  let started = false;
+  let written = 0;
+  const start = () => {
+    if (started) return;
+    started = true;
+    res.setHeader("Content-Type", format === "json" ? "application/json; charset=utf-8" : "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="backoffice-audit-${stamp}.${format}"`);
+    res.status(200);
+    res.write(format === "json" ? "[" : CSV_HEADER);
+  };
+
+  try {
+    await exportBackofficeAuditEvents(req.query, (events) => {
+      start();
+      if (format === "json") {
+        const entries = events.map((event) => JSON.stringify(event, null, 2));
+        res.write(`${written > 0 ? "," : ""}\n${entries.join(",\n")}`);
+      } else {
+        res.write(`\n${toCsvLines(events).join("\n")}`);
+      }
+      written += events.length;
+    });
+  } catch (error: any) {
+    if (!started) return res.status(400).json({ ok: false, error: error?.message || "Server error" });
+    // Part of the file has been sent; abort the download rather than end it
+    // looking complete.
+    console.error("[backoffice-audit] export failed part way", {
+      written,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+
+  start();
+  res.end(format === "json" ? "\n]" : "");
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listBackofficeAuditActors, listBackofficeAuditEvents } from "../../../../lib/backofficeAudit";
+import { requireBackofficeApi } from "../../../../lib/backofficeAuth";
+
+function json(res: NextApiResponse, status: number, payload: any) {
+  return res.status(status).json(payload);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await requireBackofficeApi(req, res, { superadminOnly: true });
+  if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  try {
+    const [page, actors] = await Promise.all([listBackofficeAuditEvents(req.query), listBackofficeAuditActors()]);
+    return json(res, 200, { ok: true, events: page.events, nextCursor: page.nextCursor, actors });
+  } catch (error: any) {
+    const message = typeof error?.message === "string" ? error.message : "Server error";
+    return json(res, 400, { ok: false, error: message });
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { setBackofficeWebauthnChallengeCookie } from "../../../../lib/backofficeMfaChallenge";
+import { resolveBackofficeWebauthnRelyingParty } from "../../../../lib/backofficeWebauthn";
+import { buildBackofficeWebauthnAuthenticationOptions } from "../../../../lib/backofficeWebauthnService";
+
+function json(res: NextApiResponse, status: number, payload: any) {
+  return res.status(status).json(payload);
+}
+
+// Starts a passwordless passkey sign-in. The assertion is verified by the
+// backoffice-passkey NextAuth provider.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  }
+
+  try {
+    const options = await buildBackofficeWebauthnAuthenticationOptions({
+      userId: null,
+      rp: resolveBackofficeWebauthnRelyingParty(req),
+    });
+    setBackofficeWebauthnChallengeCookie(res, { ceremony: "authenticate", userId: null, challenge: options.challenge });
+    return json(res, 200, { ok: true, options });
+  } catch (error: any) {
+    const message = typeof error?.message === "string" ? error.message : "Server error";
+    return json(res, 400, { ok: false, error: message });
+  }
+}
@@ -1,5 +1,6 @@
 // pages/api/admin/backfill-login-geo.ts
 import type { NextApiRequest, NextApiResponse } from "next";
+import { buildBackofficeAuditActor, recordBackofficeAuditEvent } from "../../../lib/backofficeAudit";
 import { requireBackofficeApi } from "../../../lib/backofficeAuth";
 import { prisma } from "../../../lib/prisma";
 
@@ -203,29 +204,41 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     }
   }
 
-  if (!dryRun) {
+  const missingWhere = { OR: [{ countryIso2: null }, { countryName: null }] };
+  let remainingMissing: number;
+
+  // Dry runs change nothing, so only real runs are audited. The updates and
+  // their audit row commit together.
+  if (dryRun) {
+    remainingMissing = await prisma.loginEvent.count({ where: missingWhere });
+  } else {
+    const actor = buildBackofficeAuditActor(req, auth.principal);
     // Avoid iterating MapIterator directly (can fail under TS downlevel targets)
     const batches = Array.from(updatesByKey.values());
-    for (let i = 0; i < batches.length; i++) {
-      const { iso2, name, ids } = batches[i];
-      if (!ids.length) continue;
-      const result = await prisma.loginEvent.updateMany({
-        where: { id: { in: ids } },
-        data: {
-          countryIso2: iso2 || null,
-          countryName: name || null,
-        },
+    remainingMissing = await prisma.$transaction(async (tx) => {
+      for (let i = 0; i < batches.length; i++) {
+        const { iso2, name, ids } = batches[i];
+        if (!ids.length) continue;
+        const result = await tx.loginEvent.updateMany({
+          where: { id: { in: ids } },
+          data: {
+            countryIso2: iso2 || null,
+            countryName: name || null,
+          },
+        });
+        updated += result.count;
+      }
+
+      const remaining = await tx.loginEvent.count({ where: missingWhere });
+      await recordBackofficeAuditEvent(tx, actor, {
+        action: "LOGIN_GEO_BACKFILL_RUN",
+        targetType: "LoginEvent",
+        metadata: { limit, processed, updated, unresolved, remainingMissing: remaining },
       });
-      updated += result.count;
-    }
+      return remaining;
+    });
   }
 
-  const remainingMissing = await prisma.loginEvent.count({
-    where: {
-      OR: [{ countryIso2: null }, { countryName: null }],
-    },
-  });
-
   return res.status(200).json({
     ok: true,
     processed,
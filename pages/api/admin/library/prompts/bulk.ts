@@ -5,6 +5,7 @@ import {
   resolveBackofficeReadFilter,
   resolveBackofficeWriteBrandId,
 } from "../../../../../lib/backofficeAuth";
+import { buildBackofficeAuditActor, recordBackofficeAuditEvent } from "../../../../../lib/backofficeAudit";
 
 const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
 const prisma = globalForPrisma.prisma ?? new PrismaClient();
@@ -32,13 +33,31 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           ...brandWhere,
           id: { in: ids },
         },
-        select: { id: true },
+        select: { id: true, brandId: true, status: true },
       });
       const allowedIds = allowed.map((row) => row.id);
 
-      await prisma.prompt.updateMany({
-        where: { id: { in: allowedIds } },
-        data: { status },
+      // One entry per brand so the log can be filtered by brand.
+      const actor = buildBackofficeAuditActor(req, auth.principal);
+      const brandIds = Array.from(new Set(allowed.map((row) => row.brandId)));
+      await prisma.$transaction(async (tx) => {
+        await tx.prompt.updateMany({
+          where: { id: { in: allowedIds } },
+          data: { status },
+        });
+
+        for (const brandId of brandIds) {
+          const rows = allowed.filter((row) => row.brandId === brandId);
+          await recordBackofficeAuditEvent(tx, actor, {
+            action: "PROMPT_STATUS_BULK_CHANGED",
+            targetType: "Prompt",
+            targetLabel: `${rows.length} prompt${rows.length === 1 ? "" : "s"}`,
+            brandId,
+            before: { statuses: Object.fromEntries(rows.map((row) => [row.id, row.status])) },
+            after: { status },
+            metadata: { promptIds: rows.map((row) => row.id) },
+          });
+        }
       });
 
       return res.status(200).json({ ok: true });
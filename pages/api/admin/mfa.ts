@@ -12,7 +12,7 @@ function json(res: NextApiResponse, status: number, payload: any) {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const auth = await requireBackofficeApi(req, res);
+  const auth = await requireBackofficeApi(req, res, { allowMfaEnrollment: true });
   if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
 
   try {
@@ -1,10 +1,22 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { sendAuthLockoutEmail } from "../../../../lib/authLockoutEmail";
+import { backofficeMfaLimiter, describeAuthRateLimitDecision, lockoutDecision } from "../../../../lib/authRateLimit";
+import { getBackofficeMfaChallenge, getBackofficeMfaPasskeyChallenge } from "../../../../lib/authScopes";
 import { requireBackofficeApi } from "../../../../lib/backofficeAuth";
 import {
   clearBackofficeMfaChallengeCookie,
+  clearBackofficeWebauthnChallengeCookie,
+  readBackofficeWebauthnChallengeCookie,
   setBackofficeMfaChallengeCookie,
+  setBackofficeWebauthnChallengeCookie,
 } from "../../../../lib/backofficeMfaChallenge";
-import { verifyBackofficeMfaChallenge } from "../../../../lib/backofficeMfaService";
+import { BackofficeMfaInvalidCodeError, verifyBackofficeMfaChallenge } from "../../../../lib/backofficeMfaService";
+import { resolveBackofficeWebauthnRelyingParty } from "../../../../lib/backofficeWebauthn";
+import {
+  buildBackofficeWebauthnAuthenticationOptions,
+  verifyBackofficeWebauthnAssertion,
+} from "../../../../lib/backofficeWebauthnService";
+import { getClientIp } from "../../../../lib/requestIdentity";
 
 function json(res: NextApiResponse, status: number, payload: any) {
   return res.status(status).json(payload);
@@ -19,13 +31,79 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (auth.principal.mfaState !== "ENABLED") {
     clearBackofficeMfaChallengeCookie(res);
-    return json(res, 400, { ok: false, error: "Authenticator MFA is not enabled on this account" });
+    return json(res, 400, { ok: false, error: "MFA is not enabled on this account" });
   }
 
   try {
     if (req.method === "POST") {
       const body = typeof req.body === "string" ? JSON.parse(req.body || "{}") : req.body || {};
-      const result = await verifyBackofficeMfaChallenge(auth.principal.id, String(body.code || ""));
+      const action = String(body.action || "").toLowerCase();
+      const userId = auth.principal.id;
+
+      if (action === "passkey-options") {
+        const options = await buildBackofficeWebauthnAuthenticationOptions({
+          userId,
+          rp: resolveBackofficeWebauthnRelyingParty(req),
+        });
+        setBackofficeWebauthnChallengeCookie(res, { ceremony: "authenticate", userId, challenge: options.challenge });
+        return json(res, 200, { ok: true, options });
+      }
+
+      if (action === "passkey") {
+        const challenge = readBackofficeWebauthnChallengeCookie(req, { ceremony: "authenticate", userId });
+        clearBackofficeWebauthnChallengeCookie(res);
+        if (!challenge) throw new Error("Security key request expired. Please try again.");
+
+        await verifyBackofficeWebauthnAssertion({
+          userId,
+          credential: body.credential,
+          challenge: challenge.challenge,
+          challengeIssuedAt: challenge.issuedAt,
+          rp: resolveBackofficeWebauthnRelyingParty(req),
+        });
+        setBackofficeMfaChallengeCookie(res, auth.session);
+        return json(res, 200, { ok: true, result: { usedPasskey: true } });
+      }
+
+      // Passwordless passkey sign-in already verified the key inside NextAuth;
+      // this only converts that into the MFA cookie for the same session.
+      if (action === "passkey-signin") {
+        clearBackofficeWebauthnChallengeCookie(res);
+        const passkeyChallenge = getBackofficeMfaPasskeyChallenge(auth.session);
+        if (!passkeyChallenge || passkeyChallenge !== getBackofficeMfaChallenge(auth.session)) {
+          throw new Error("This session was not opened with a passkey");
+        }
+        setBackofficeMfaChallengeCookie(res, auth.session);
+        return json(res, 200, { ok: true, result: { usedPasskey: true } });
+      }
+
+      const limiterSubject = { identifier: userId, ip: getClientIp(req) };
+      const decision = await backofficeMfaLimiter.check(limiterSubject);
+      if (!decision.allowed) {
+        res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+        return json(res, 429, { ok: false, error: describeAuthRateLimitDecision(decision) });
+      }
+
+      let result: Awaited<ReturnType<typeof verifyBackofficeMfaChallenge>>;
+      try {
+        result = await verifyBackofficeMfaChallenge(userId, String(body.code || ""));
+      } catch (error) {
+        if (!(error instanceof BackofficeMfaInvalidCodeError)) throw error;
+        const failure = await backofficeMfaLimiter.recordFailure(limiterSubject);
+        if (!failure.lockedNow || !failure.lockedUntil) throw error;
+
+        await sendAuthLockoutEmail({
+          req,
+          to: auth.principal.email,
+          accountLabel: `the backoffice account ${auth.principal.username}`,
+          lockedUntil: failure.lockedUntil,
+        });
+        const locked = lockoutDecision(failure.lockedUntil);
+        res.setHeader("Retry-After", String(locked.retryAfterSeconds));
+        return json(res, 429, { ok: false, error: describeAuthRateLimitDecision(locked) });
+      }
+
+      await backofficeMfaLimiter.recordSuccess(userId);
       setBackofficeMfaChallengeCookie(res, auth.session);
       return json(res, 200, { ok: true, result });
     }
@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireBackofficeApi } from "../../../../lib/backofficeAuth";
+import {
+  clearBackofficeWebauthnChallengeCookie,
+  readBackofficeWebauthnChallengeCookie,
+  setBackofficeWebauthnChallengeCookie,
+} from "../../../../lib/backofficeMfaChallenge";
+import { resolveBackofficeWebauthnRelyingParty } from "../../../../lib/backofficeWebauthn";
+import {
+  buildBackofficeWebauthnRegistrationOptions,
+  deleteBackofficeWebauthnCredential,
+  listBackofficeWebauthnCredentials,
+  registerBackofficeWebauthnCredential,
+  renameBackofficeWebauthnCredential,
+} from "../../../../lib/backofficeWebauthnService";
+
+function json(res: NextApiResponse, status: number, payload: any) {
+  return res.status(status).json(payload);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await requireBackofficeApi(req, res, { allowMfaEnrollment: true });
+  if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
+
+  const userId = auth.principal.id;
+
+  try {
+    if (req.method === "GET") {
+      const credentials = await listBackofficeWebauthnCredentials(userId);
+      return json(res, 200, { ok: true, credentials });
+    }
+
+    const body = typeof req.body === "string" ? JSON.parse(req.body || "{}") : req.body || {};
+
+    if (req.method === "POST") {
+      const action = String(body.action || "").toLowerCase();
+      const rp = resolveBackofficeWebauthnRelyingParty(req);
+
+      if (action === "options") {
+        const options = await buildBackofficeWebauthnRegistrationOptions({ userId, rp });
+        setBackofficeWebauthnChallengeCookie(res, { ceremony: "register", userId, challenge: options.challenge });
+        return json(res, 200, { ok: true, options });
+      }
+
+      if (action === "register") {
+        const challenge = readBackofficeWebauthnChallengeCookie(req, { ceremony: "register", userId });
+        clearBackofficeWebauthnChallengeCookie(res);
+        if (!challenge) throw new Error("Security key setup expired. Please try again.");
+
+        const credential = await registerBackofficeWebauthnCredential({
+          userId,
+          name: body.name,
+          credential: body.credential,
+          challenge: challenge.challenge,
+          rp,
+        });
+        const credentials = await listBackofficeWebauthnCredentials(userId);
+        return json(res, 200, { ok: true, credential, credentials });
+      }
+    }
+
+    if (req.method === "PATCH") {
+      const credential = await renameBackofficeWebauthnCredential(userId, String(body.id || ""), body.name);
+      const credentials = await listBackofficeWebauthnCredentials(userId);
+      return json(res, 200, { ok: true, credential, credentials });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String((Array.isArray(req.query.id) ? req.query.id[0] : req.query.id) || body.id || "");
+      await deleteBackofficeWebauthnCredential(userId, id);
+      const credentials = await listBackofficeWebauthnCredentials(userId);
+      return json(res, 200, { ok: true, credentials });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error: any) {
+    const message = typeof error?.message === "string" ? error.message : "Server error";
+    return json(res, 400, { ok: false, error: message });
+  }
+}
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { BackofficeRole } from "@prisma/client";
+import { buildBackofficeAuditActor } from "../../../../lib/backofficeAudit";
+import { requireBackofficeApi } from "../../../../lib/backofficeAuth";
+import {
+  evaluateBackofficeMfaCompliance,
+  getBackofficeMfaPolicy,
+  updateBackofficeMfaPolicy,
+} from "../../../../lib/backofficeMfaPolicy";
+
+function json(res: NextApiResponse, status: number, payload: any) {
+  return res.status(status).json(payload);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Reading the policy is part of enrollment; changing it needs a fully
+  // verified session.
+  const auth = await requireBackofficeApi(req, res, { allowMfaEnrollment: req.method === "GET" });
+  if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
+
+  try {
+    if (req.method === "GET") {
+      const policy = await getBackofficeMfaPolicy();
+      const compliance = evaluateBackofficeMfaCompliance(policy, {
+        role: auth.principal.role,
+        createdAt: auth.principal.createdAt,
+        brandIds: auth.principal.allowedBrandIds,
+        mfaState: auth.principal.mfaState,
+      });
+      return json(res, 200, { ok: true, policy, compliance });
+    }
+
+    if (req.method === "PUT") {
+      if (auth.principal.role !== BackofficeRole.SUPERADMIN) return json(res, 403, { ok: false, error: "Forbidden" });
+      const body = typeof req.body === "string" ? JSON.parse(req.body || "{}") : req.body || {};
+      const policy = await updateBackofficeMfaPolicy(body, buildBackofficeAuditActor(req, auth.principal));
+      return json(res, 200, { ok: true, policy });
+    }
+
+    res.setHeader("Allow", "GET, PUT");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error: any) {
+    const message = typeof error?.message === "string" ? error.message : "Server error";
+    return json(res, 400, { ok: false, error: message });
+  }
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { BackofficeRole } from "@prisma/client";
+import { buildBackofficeAuditActor } from "../../../lib/backofficeAudit";
+import { requireBackofficeApi } from "../../../lib/backofficeAuth";
+import {
+  getPartnerPortalSignInLock,
+  parsePartnerPortalScope,
+  unlockPartnerPortalSignIn,
+} from "../../../lib/partnerPortalSignInLocks";
+
+function json(res: NextApiResponse, status: number, payload: any) {
+  return res.status(status).json(payload);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await requireBackofficeApi(req, res);
+  if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
+  if (auth.principal.role !== BackofficeRole.SUPERADMIN) return json(res, 403, { ok: false, error: "Forbidden" });
+
+  try {
+    if (req.method === "GET") {
+      const scope = parsePartnerPortalScope(req.query.scope);
+      const email = Array.isArray(req.query.email) ? req.query.email[0] : req.query.email;
+      const lock = await getPartnerPortalSignInLock(scope, email);
+      return json(res, 200, { ok: true, lock });
+    }
+
+    if (req.method === "POST") {
+      const body = typeof req.body === "string" ? JSON.parse(req.body || "{}") : req.body || {};
+      const lock = await unlockPartnerPortalSignIn(
+        buildBackofficeAuditActor(req, auth.principal),
+        parsePartnerPortalScope(body.scope),
+        body.email
+      );
+      return json(res, 200, { ok: true, lock });
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error: any) {
+    const message = typeof error?.message === "string" ? error.message : "Server error";
+    return json(res, 400, { ok: false, error: message });
+  }
+}
@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getBackofficeSessionId } from "../../../lib/authScopes";
+import { requireBackofficeApi } from "../../../lib/backofficeAuth";
+import {
+  listBackofficeSessions,
+  revokeBackofficeSession,
+  revokeOtherBackofficeSessions,
+} from "../../../lib/backofficeSessions";
+
+function json(res: NextApiResponse, status: number, payload: any) {
+  return res.status(status).json(payload);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await requireBackofficeApi(req, res, { allowMfaEnrollment: true });
+  if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
+
+  const userId = auth.principal.id;
+  const currentSessionId = getBackofficeSessionId(auth.session);
+
+  try {
+    if (req.method === "GET") {
+      const sessions = await listBackofficeSessions(userId, currentSessionId);
+      return json(res, 200, { ok: true, sessions });
+    }
+
+    if (req.method === "POST") {
+      const body = typeof req.body === "string" ? JSON.parse(req.body || "{}") : req.body || {};
+      const action = String(body.action || "").toLowerCase();
+      if (action !== "signoutothers") throw new Error("Unknown action");
+
+      const revoked = await revokeOtherBackofficeSessions(userId, currentSessionId);
+      const sessions = await listBackofficeSessions(userId, currentSessionId);
+      return json(res, 200, { ok: true, revoked, sessions });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String((Array.isArray(req.query.id) ? req.query.id[0] : req.query.id) || "");
+      if (!id) throw new Error("Missing session id");
+      if (id === currentSessionId) throw new Error("Use Sign Out to end the current session");
+
+      await revokeBackofficeSession(userId, id);
+      const sessions = await listBackofficeSessions(userId, currentSessionId);
+      return json(res, 200, { ok: true, sessions });
+    }
+
+    res.setHeader("Allow", "GET, POST, DELETE");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error: any) {
+    const message = typeof error?.message === "string" ? error.message : "Server error";
+    return json(res, 400, { ok: false, error: message });
+  }
+}
@@ -1,12 +1,14 @@
 import { BackofficeUserStatus } from "@prisma/client";
 import type { NextApiRequest, NextApiResponse } from "next";
 import { requireAdminApi } from "../../../../lib/auth";
+import { buildBackofficeAuditActor } from "../../../../lib/backofficeAudit";
 import {
   createManagedBackofficePasswordLink,
   deleteManagedBackofficeUser,
   getManagedBackofficeUser,
   resetManagedBackofficeUserMfa,
   setManagedBackofficeUserStatus,
+  unlockManagedBackofficeUserSignIn,
   updateManagedBackofficeUser,
 } from "../../../../lib/backofficeAdminUsers";
 import { buildOrigin, getApiRequestHost, getApiRequestProtocol } from "../../../../lib/requestHost";
@@ -20,6 +22,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const auth = await requireAdminApi(req, res);
   if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
 
+  const actor = buildBackofficeAuditActor(req, auth.principal);
+
   const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
   if (!id) return json(res, 400, { ok: false, error: "Missing id" });
 
@@ -32,7 +36,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     if (req.method === "DELETE") {
       if (auth.principal.role !== "SUPERADMIN") return json(res, 403, { ok: false, error: "Forbidden" });
-      await deleteManagedBackofficeUser(auth.principal.id, id);
+      await deleteManagedBackofficeUser(actor, id);
       return json(res, 200, { ok: true });
     }
 
@@ -43,7 +47,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       if (action === "block" || action === "unblock") {
         const user = await setManagedBackofficeUserStatus(
-          auth.principal.id,
+          actor,
           id,
           action === "block" ? BackofficeUserStatus.BLOCKED : BackofficeUserStatus.ACTIVE
         );
@@ -56,16 +60,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           getApiRequestProtocol(req),
           runtimeHost.canonicalAdminHost || getApiRequestHost(req)
         );
-        const invite = await createManagedBackofficePasswordLink(id, "reset", origin);
+        const invite = await createManagedBackofficePasswordLink(actor, id, "reset", origin);
         return json(res, 200, { ok: true, invite });
       }
 
       if (action === "resetmfa") {
-        const user = await resetManagedBackofficeUserMfa(id);
+        const user = await resetManagedBackofficeUserMfa(actor, id);
+        return json(res, 200, { ok: true, user });
+      }
+
+      if (action === "unlocksignin") {
+        const user = await unlockManagedBackofficeUserSignIn(actor, id);
         return json(res, 200, { ok: true, user });
       }
 
-      const user = await updateManagedBackofficeUser(auth.principal.id, id, body);
+      const user = await updateManagedBackofficeUser(actor, id, body);
       return json(res, 200, { ok: true, user });
     }
 
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdminApi } from "../../../../../lib/auth";
+import { buildBackofficeAuditActor } from "../../../../../lib/backofficeAudit";
+import {
+  listManagedBackofficeUserSessions,
+  revokeManagedBackofficeUserSessions,
+} from "../../../../../lib/backofficeAdminUsers";
+
+function json(res: NextApiResponse, status: number, payload: any) {
+  return res.status(status).json(payload);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await requireAdminApi(req, res);
+  if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
+  if (auth.principal.role !== "SUPERADMIN") return json(res, 403, { ok: false, error: "Forbidden" });
+
+  const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+  if (!id) return json(res, 400, { ok: false, error: "Missing id" });
+
+  try {
+    if (req.method === "GET") {
+      const sessions = await listManagedBackofficeUserSessions(id);
+      return json(res, 200, { ok: true, sessions });
+    }
+
+    if (req.method === "DELETE") {
+      const sessionId = Array.isArray(req.query.sessionId) ? req.query.sessionId[0] : req.query.sessionId;
+      const sessions = await revokeManagedBackofficeUserSessions(buildBackofficeAuditActor(req, auth.principal), id, sessionId);
+      return json(res, 200, { ok: true, sessions });
+    }
+
+    res.setHeader("Allow", "GET, DELETE");
+    return json(res, 405, { ok: false, error: "Method not allowed" });
+  } catch (error: any) {
+    const message = typeof error?.message === "string" ? error.message : "Server error";
+    return json(res, 400, { ok: false, error: message });
+  }
+}
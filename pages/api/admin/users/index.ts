@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { requireAdminApi } from "../../../../lib/auth";
+import { buildBackofficeAuditActor } from "../../../../lib/backofficeAudit";
 import {
   createManagedBackofficeInvite,
   createManagedBackofficePasswordLink,
@@ -17,6 +18,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const auth = await requireAdminApi(req, res);
   if (!auth.ok) return json(res, 401, { ok: false, error: "Unauthorized" });
 
+  const actor = buildBackofficeAuditActor(req, auth.principal);
+
   try {
     if (req.method === "GET") {
       const users = await listManagedBackofficeUsers();
@@ -29,17 +32,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const action = String(body.action || "").toLowerCase();
 
       if (action === "createinvite") {
-        const user = await createManagedBackofficeInvite(body);
+        const user = await createManagedBackofficeInvite(actor, body);
         const runtimeHost = await getRuntimeHostConfig(getApiRequestHost(req));
         const origin = buildOrigin(
           getApiRequestProtocol(req),
           runtimeHost.canonicalAdminHost || getApiRequestHost(req)
         );
-        const invite = await createManagedBackofficePasswordLink(user.id, "invite", origin);
+        const invite = await createManagedBackofficePasswordLink(actor, user.id, "invite", origin);
         return json(res, 200, { ok: true, user, invite });
       }
 
-      const user = await createManagedBackofficeUser(body);
+      const user = await createManagedBackofficeUser(actor, body);
       return json(res, 200, { ok: true, user });
     }
 
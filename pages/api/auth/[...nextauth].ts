@@ -8,14 +8,17 @@ import { getRuntimeHostConfig } from "../../../lib/runtimeHostConfig";
 import {
   BACKOFFICE_AUTH_SCOPE,
   BACKOFFICE_CREDENTIALS_PROVIDER_ID,
+  BACKOFFICE_PASSKEY_PROVIDER_ID,
   EXTERNAL_AUTH_SCOPE,
   EXTERNAL_CREDENTIALS_PROVIDER_ID,
   EXTERNAL_LEGACY_AUTH_SCOPE,
 } from "../../../lib/authScopes";
 import {
   authorizeBackofficeCredentials,
+  authorizeBackofficePasskey,
   refreshBackofficeIdentity,
 } from "../../../lib/backofficeIdentity";
+import { isBackofficeSessionActive, revokeBackofficeSession } from "../../../lib/backofficeSessions";
 import { authorizeExternalCredentials, refreshExternalIdentity } from "../../../lib/externalIdentity";
 
 const IS_PREVIEW = process.env.VERCEL_ENV === "preview";
@@ -87,8 +90,18 @@ export const authOptions: NextAuthOptions = {
         email: { label: "Username or email", type: "text" },
         password: { label: "Password", type: "password" },
       },
-      async authorize(credentials) {
-        return authorizeBackofficeCredentials(credentials);
+      async authorize(credentials, req) {
+        return authorizeBackofficeCredentials(credentials, req as NextApiRequest);
+      },
+    }),
+    CredentialsProvider({
+      id: BACKOFFICE_PASSKEY_PROVIDER_ID,
+      name: "Backoffice Passkey",
+      credentials: {
+        credential: { label: "Passkey assertion", type: "text" },
+      },
+      async authorize(credentials, req) {
+        return authorizeBackofficePasskey(credentials, req as NextApiRequest);
       },
     }),
   ],
@@ -114,6 +127,11 @@ export const authOptions: NextAuthOptions = {
         (token as any).lastSelectedBrandKey = (user as any).lastSelectedBrandKey || null;
         (token as any).backofficeMfaChallenge =
           backofficeMfaState === "ENABLED" ? crypto.randomUUID() : null;
+        (token as any).backofficeMfaPasskeyChallenge = (user as any).passkeyVerified
+          ? (token as any).backofficeMfaChallenge
+          : null;
+        (token as any).backofficeSessionId = (user as any).sessionId || null;
+        (token as any).backofficeSessionVersion = (user as any).sessionVersion ?? null;
       }
 
       const authScope = (token as any).authScope;
@@ -123,8 +141,17 @@ export const authOptions: NextAuthOptions = {
           sub: typeof token.sub === "string" ? token.sub : null,
           email: typeof token.email === "string" ? token.email : null,
         });
+        // Revoked, signed-out-elsewhere and pre-registry tokens are treated like
+        // a blocked account so the next request lands on the sign-in page.
+        const sessionActive = refreshed
+          ? await isBackofficeSessionActive({
+              userId: refreshed.id,
+              sessionId: (token as any).backofficeSessionId,
+              sessionVersion: (token as any).backofficeSessionVersion,
+            })
+          : false;
 
-        if (!refreshed) {
+        if (!refreshed || !sessionActive) {
           (token as any).status = "BLOCKED";
           (token as any).mfaMethod = null;
           (token as any).mfaState = "DISABLED";
@@ -132,6 +159,8 @@ export const authOptions: NextAuthOptions = {
           (token as any).allowedBrandKeys = [];
           (token as any).allowedBrandIds = [];
           (token as any).backofficeMfaChallenge = null;
+          (token as any).backofficeMfaPasskeyChallenge = null;
+          (token as any).backofficeSessionId = null;
           return token;
         }
 
@@ -156,6 +185,9 @@ export const authOptions: NextAuthOptions = {
                 ? (token as any).backofficeMfaChallenge
                 : crypto.randomUUID())
             : null;
+        if ((token as any).backofficeMfaPasskeyChallenge !== (token as any).backofficeMfaChallenge) {
+          (token as any).backofficeMfaPasskeyChallenge = null;
+        }
         return token;
       }
 
@@ -205,6 +237,8 @@ export const authOptions: NextAuthOptions = {
       (sessionUser as any).backofficeMfaRequired =
         (token as any).authScope === BACKOFFICE_AUTH_SCOPE && (token as any).mfaState === "ENABLED";
       (sessionUser as any).backofficeMfaChallenge = (token as any).backofficeMfaChallenge || null;
+      (sessionUser as any).backofficeMfaPasskeyChallenge = (token as any).backofficeMfaPasskeyChallenge || null;
+      (sessionUser as any).backofficeSessionId = (token as any).backofficeSessionId || null;
       (sessionUser as any).brandKey = (token as any).brandKey || null;
       (sessionUser as any).username = (token as any).username || null;
       (sessionUser as any).allowedBrandKeys = Array.isArray((token as any).allowedBrandKeys)
@@ -222,6 +256,8 @@ export const authOptions: NextAuthOptions = {
       (session as any).backofficeMfaRequired =
         (token as any).authScope === BACKOFFICE_AUTH_SCOPE && (token as any).mfaState === "ENABLED";
       (session as any).backofficeMfaChallenge = (token as any).backofficeMfaChallenge || null;
+      (session as any).backofficeMfaPasskeyChallenge = (token as any).backofficeMfaPasskeyChallenge || null;
+      (session as any).backofficeSessionId = (token as any).backofficeSessionId || null;
       (session as any).brandKey = (token as any).brandKey || null;
       (session as any).allowedBrandKeys = Array.isArray((token as any).allowedBrandKeys)
         ? (token as any).allowedBrandKeys
@@ -247,6 +283,18 @@ export const authOptions: NextAuthOptions = {
     },
   },
 
+  events: {
+    async signOut({ token }) {
+      const sessionId = (token as any)?.backofficeSessionId;
+      if ((token as any)?.authScope !== BACKOFFICE_AUTH_SCOPE || typeof sessionId !== "string" || typeof token.sub !== "string") {
+        return;
+      }
+
+      // Drop the row so the device no longer shows under Active Sessions.
+      await revokeBackofficeSession(token.sub, sessionId).catch(() => undefined);
+    },
+  },
+
   logger: {
     error(code, metadata) {
       console.error("NextAuth error", code, metadata);
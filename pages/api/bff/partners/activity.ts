@@ -0,0 +1,6 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { handlePartnerPortalActivity } from "../../../../lib/partnerPortalBff";
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  return handlePartnerPortalActivity(req, res, "partners");
+}
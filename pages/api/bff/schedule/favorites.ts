@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  commandPublicListScheduleFavorites,
+  commandPublicReplaceScheduleFavorites,
+  isCommandPublicApiEnabled,
+  isUnauthorizedCommandError,
+  CommandPublicApiError,
+  logCommandPublicApiError,
+  type CommandPublicScheduleFavorite,
+} from "../../../../lib/commandPublicApi";
+import { clearCommandBffSessionCookie, getCommandBffSessionToken } from "../../../../lib/commandBffSession";
+
+const MAX_FAVORITES = 500;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseFavorites(value: unknown): Array<Pick<CommandPublicScheduleFavorite, "scheduleItemId" | "occursOn">> | null {
+  if (!Array.isArray(value) || value.length > MAX_FAVORITES) return null;
+
+  const seen = new Set<string>();
+  const favorites: Array<Pick<CommandPublicScheduleFavorite, "scheduleItemId" | "occursOn">> = [];
+  for (const entry of value) {
+    const scheduleItemId = String(entry?.scheduleItemId || "").trim();
+    const occursOn = String(entry?.occursOn || "").trim();
+    if (!scheduleItemId || !ISO_DATE_PATTERN.test(occursOn)) return null;
+    if (seen.has(scheduleItemId)) continue;
+    seen.add(scheduleItemId);
+    favorites.push({ scheduleItemId, occursOn });
+  }
+
+  return favorites;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader("Cache-Control", "private, no-store, max-age=0, must-revalidate");
+  res.setHeader("Vary", "Cookie");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  if (!isCommandPublicApiEnabled()) {
+    return res.status(503).json({ ok: false, error: "Command public API is not configured" });
+  }
+
+  const sessionToken = getCommandBffSessionToken(req);
+  if (!sessionToken) {
+    return res.status(401).json({ ok: false, error: "Unauthorized" });
+  }
+
+  try {
+    if (req.method === "GET") {
+      const result = await commandPublicListScheduleFavorites(sessionToken);
+      return res.status(200).json({ ok: true, favorites: result.favorites });
+    }
+
+    const favorites = parseFavorites(req.body?.favorites);
+    if (!favorites) {
+      return res.status(400).json({ ok: false, error: "Invalid favorites payload" });
+    }
+
+    const result = await commandPublicReplaceScheduleFavorites({ sessionToken, favorites });
+    return res.status(200).json({ ok: true, favorites: result.favorites });
+  } catch (error) {
+    if (isUnauthorizedCommandError(error)) {
+      clearCommandBffSessionCookie(res);
+      return res.status(401).json({ ok: false, error: "Unauthorized" });
+    }
+
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError("bff-schedule-favorites", error, {
+        requestHost: req.headers.host || null,
+        method: req.method,
+      });
+      return res.status(error.status).json({ ok: false, error: error.message });
+    }
+
+    console.error("[bff-schedule-favorites] unexpected error", error);
+    return res.status(500).json({ ok: false, error: "Server error" });
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ensurePublicBrandRequest, getCanonicalPublicOrigin } from "../../../lib/brandContext";
+import { CommandPublicApiError, logCommandPublicApiError } from "../../../lib/commandPublicApi";
+import { isAuthorizedCronRequest } from "../../../lib/cronAuth";
+import {
+  runPartnerNotificationDigest,
+  type PartnerNotificationDigestFrequency,
+} from "../../../lib/partnerNotificationDigest";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader("Cache-Control", "private, no-store, max-age=0, must-revalidate");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  if (!isAuthorizedCronRequest(req)) {
+    return res.status(401).json({ ok: false, error: "Unauthorized" });
+  }
+
+  const frequency = String(req.query.frequency || "DAILY").trim().toUpperCase();
+  if (frequency !== "DAILY" && frequency !== "WEEKLY") {
+    return res.status(400).json({ ok: false, error: "frequency must be DAILY or WEEKLY" });
+  }
+
+  const ensured = await ensurePublicBrandRequest(req, res);
+  if (!ensured) return;
+
+  try {
+    const result = await runPartnerNotificationDigest({
+      brand: ensured.brand,
+      origin: getCanonicalPublicOrigin(req, ensured.brand),
+      frequency: frequency as PartnerNotificationDigestFrequency,
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({ ok: false, code: result.code, error: result.error });
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError("partner-notification-digest", error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: false,
+      });
+      return res.status(error.status).json({ ok: false, error: error.message });
+    }
+
+    console.error("[partner-notification-digest] unexpected error", error);
+    return res.status(500).json({ ok: false, error: "Server error" });
+  }
+}
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ensurePublicBrandRequest, getCanonicalPublicOrigin } from "../../../lib/brandContext";
+import { CommandPublicApiError, logCommandPublicApiError } from "../../../lib/commandPublicApi";
+import { isAuthorizedCronRequest } from "../../../lib/cronAuth";
+import { runPartnerRequirementReminders } from "../../../lib/partnerNotificationDigest";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader("Cache-Control", "private, no-store, max-age=0, must-revalidate");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  if (!isAuthorizedCronRequest(req)) {
+    return res.status(401).json({ ok: false, error: "Unauthorized" });
+  }
+
+  const ensured = await ensurePublicBrandRequest(req, res);
+  if (!ensured) return;
+
+  try {
+    const result = await runPartnerRequirementReminders({
+      brand: ensured.brand,
+      origin: getCanonicalPublicOrigin(req, ensured.brand),
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({ ok: false, code: result.code, error: result.error });
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof CommandPublicApiError) {
+      logCommandPublicApiError("partners-requirement-reminders", error, {
+        requestHost: req.headers.host || null,
+        hasSessionCookie: false,
+      });
+      return res.status(error.status).json({ ok: false, error: error.message });
+    }
+
+    console.error("[partners-requirement-reminders] unexpected error", error);
+    return res.status(500).json({ ok: false, error: "Server error" });
+  }
+}
@@ -4,7 +4,11 @@ import {
   CommandPublicApiError,
 } from "../../../lib/commandPublicApi";
 
-function getSchedulePageFeedId() {
+function getSchedulePageFeedId(feed: unknown) {
+  if (feed === "sponsor") {
+    return String(process.env.SCHEDULE_PAGE_SPONSOR_FEED_ID || "").trim();
+  }
+
   return String(process.env.SCHEDULE_PAGE_FEED_ID || "").trim();
 }
 
@@ -14,7 +18,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ ok: false, error: "Method not allowed" });
   }
 
-  const feedId = getSchedulePageFeedId();
+  const feedId = getSchedulePageFeedId(req.query.feed);
   if (!feedId) {
     return res.status(503).json({ ok: false, error: "Schedule feed is not configured" });
   }
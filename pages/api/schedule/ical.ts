@@ -0,0 +1,105 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  commandPublicListScheduleCalendar,
+  CommandPublicApiError,
+  type CommandPublicScheduleItem,
+  type CommandPublicScheduleParticipantType,
+} from "../../../lib/commandPublicApi";
+import { getApiRequestHost } from "../../../lib/requestHost";
+import { getRuntimeHostConfig } from "../../../lib/runtimeHostConfig";
+import { buildScheduleIcal, SCHEDULE_ICAL_CONTENT_TYPE } from "../../../lib/scheduleIcal";
+
+const SUBSCRIPTION_LOOKBACK_DAYS = 7;
+const SUBSCRIPTION_LOOKAHEAD_DAYS = 365;
+const SUBSCRIPTION_ITEM_LIMIT = 1000;
+
+const participantTypeLabels: Record<CommandPublicScheduleParticipantType, string> = {
+  ENTERTAINMENT: "Entertainment",
+  FOOD_VENDOR: "Food Vendors",
+  MARKET_VENDOR: "Market Vendors",
+};
+
+function queryString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function toIsoDateOnly(value: Date) {
+  return `${value.getUTCFullYear()}-${String(value.getUTCMonth() + 1).padStart(2, "0")}-${String(value.getUTCDate()).padStart(2, "0")}`;
+}
+
+function offsetToday(days: number) {
+  const value = new Date();
+  value.setUTCDate(value.getUTCDate() + days);
+  return toIsoDateOnly(value);
+}
+
+function buildCalendarName(
+  brandName: string | null,
+  filters: { eventSeries?: string; participantType?: string; resource?: string },
+  items: CommandPublicScheduleItem[]
+) {
+  const parts: string[] = [];
+
+  if (filters.eventSeries) {
+    parts.push(items.find((item) => item.eventSeries.slug === filters.eventSeries)?.eventSeries.name || filters.eventSeries);
+  }
+
+  if (filters.resource) {
+    parts.push(items.find((item) => item.resource.slug === filters.resource)?.resource.name || filters.resource);
+  }
+
+  if (filters.participantType) {
+    parts.push(
+      participantTypeLabels[filters.participantType as CommandPublicScheduleParticipantType] || filters.participantType
+    );
+  }
+
+  const base = brandName ? `${brandName} Schedule` : "Schedule";
+  return parts.length > 0 ? `${base} — ${parts.join(" / ")}` : base;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.setHeader("Allow", "GET, HEAD");
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const filters = {
+    eventSeries: queryString(req.query.eventSeries),
+    participantType: queryString(req.query.participantType),
+    resource: queryString(req.query.resource),
+    resourceType: queryString(req.query.resourceType),
+  };
+
+  try {
+    const requestHost = getApiRequestHost(req);
+    const [response, hostConfig] = await Promise.all([
+      commandPublicListScheduleCalendar({
+        from: queryString(req.query.from) || offsetToday(-SUBSCRIPTION_LOOKBACK_DAYS),
+        to: queryString(req.query.to) || offsetToday(SUBSCRIPTION_LOOKAHEAD_DAYS),
+        eventSeries: filters.eventSeries,
+        participantType: filters.participantType,
+        resource: filters.resource,
+        resourceType: filters.resourceType,
+        limit: SUBSCRIPTION_ITEM_LIMIT,
+      }),
+      getRuntimeHostConfig(requestHost),
+    ]);
+
+    const calendar = buildScheduleIcal(response.items, {
+      calendarName: buildCalendarName(hostConfig.runtime?.brandName || null, filters, response.items),
+      uidDomain: hostConfig.canonicalPublicHost || requestHost || "schedule.invalid",
+    });
+
+    res.setHeader("Content-Type", SCHEDULE_ICAL_CONTENT_TYPE);
+    res.setHeader("Content-Disposition", 'inline; filename="schedule.ics"');
+    res.setHeader("Cache-Control", "public, max-age=0, s-maxage=300, stale-while-revalidate=600");
+    return res.status(200).send(req.method === "HEAD" ? "" : calendar);
+  } catch (error) {
+    if (error instanceof CommandPublicApiError) {
+      return res.status(error.status).json({ ok: false, error: error.message });
+    }
+
+    return res.status(500).json({ ok: false, error: "Server error" });
+  }
+}
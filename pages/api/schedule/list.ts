@@ -29,7 +29,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       resourceType: typeof req.query.resourceType === "string" ? req.query.resourceType : undefined,
       q: typeof req.query.q === "string" ? req.query.q : undefined,
       sequence: typeof req.query.sequence === "string" ? req.query.sequence : undefined,
+      participant: typeof req.query.participant === "string" ? req.query.participant : undefined,
+      ids: typeof req.query.ids === "string" ? req.query.ids.split(",").filter(Boolean) : undefined,
       limit: parseLimit(req.query.limit),
+      cursor: typeof req.query.cursor === "string" ? req.query.cursor : undefined,
     });
 
     return res.status(200).json(response);
@@ -0,0 +1,248 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import Head from "next/head";
+import { useEffect, useMemo } from "react";
+import PublicScheduleFeedList from "../../components/publicSchedule/PublicScheduleFeedList";
+import PublicScheduleSponsorImageTicker from "../../components/publicSchedule/PublicScheduleSponsorImageTicker";
+import PublicScheduleSponsorNameTicker from "../../components/publicSchedule/PublicScheduleSponsorNameTicker";
+import {
+  commandPublicGetScheduleFeed,
+  commandPublicListScheduleList,
+  type CommandPublicScheduleFeedResponse,
+  type CommandPublicScheduleItem,
+  type CommandPublicScheduleParticipantType,
+  type CommandPublicScheduleResourceType,
+} from "../../lib/commandPublicApi";
+import { getApiRequestHost } from "../../lib/requestHost";
+import { getRuntimeHostConfig } from "../../lib/runtimeHostConfig";
+import {
+  parseScheduleEmbedFeedId,
+  parseScheduleEmbedFilters,
+  parseScheduleEmbedWidget,
+  resolveScheduleEmbedTheme,
+  SCHEDULE_EMBED_RESIZE_MESSAGE,
+  type ScheduleEmbedTheme,
+  type ScheduleEmbedWidget,
+} from "../../lib/scheduleEmbed";
+
+type PageProps = {
+  widget: ScheduleEmbedWidget;
+  title: string;
+  embedId: string;
+  theme: ScheduleEmbedTheme;
+  feed: CommandPublicScheduleFeedResponse | null;
+  items: CommandPublicScheduleItem[];
+  unavailable: boolean;
+};
+
+const EMBED_SCHEDULE_LIMIT = 50;
+
+function readQueryValue(value: string | string[] | undefined) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function toIsoDateOnly(value: Date) {
+  return value.toISOString().slice(0, 10);
+}
+
+function addDays(value: string, days: number) {
+  const next = new Date(`${value}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toIsoDateOnly(next);
+}
+
+function formatDateLabel(value: string) {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  }).format(date);
+}
+
+function defaultTitle(widget: ScheduleEmbedWidget) {
+  if (widget === "lineup") return "Lineup";
+  if (widget === "schedule") return "Upcoming schedule";
+  return "Our sponsors";
+}
+
+function CompactScheduleList({ items, theme }: { items: CommandPublicScheduleItem[]; theme: ScheduleEmbedTheme }) {
+  const groups = useMemo(() => {
+    const map = new Map<string, CommandPublicScheduleItem[]>();
+    for (const item of items) {
+      const list = map.get(item.occursOn) || [];
+      list.push(item);
+      map.set(item.occursOn, list);
+    }
+    return Array.from(map.entries());
+  }, [items]);
+
+  if (items.length === 0) {
+    return (
+      <div className="rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-4 text-sm text-neutral-600">
+        Nothing is scheduled for these dates yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {groups.map(([occursOn, dayItems]) => (
+        <div key={occursOn} className="grid gap-2">
+          <div className="text-xs font-semibold uppercase tracking-[0.16em]" style={{ color: theme.accentColor }}>
+            {formatDateLabel(occursOn)}
+          </div>
+          {dayItems.map((item) => {
+            const detailHref = theme.publicOrigin
+              ? `${theme.publicOrigin}/schedule/participants/${encodeURIComponent(item.participant.slug)}`
+              : null;
+            return (
+              <div key={item.id} className="flex items-start justify-between gap-3 rounded-2xl border border-neutral-200 bg-white px-4 py-3">
+                <div className="min-w-0">
+                  {detailHref ? (
+                    <a href={detailHref} target="_blank" rel="noreferrer" className="font-semibold text-neutral-900 hover:underline">
+                      {item.participant.displayName}
+                    </a>
+                  ) : (
+                    <div className="font-semibold text-neutral-900">{item.participant.displayName}</div>
+                  )}
+                  <div className="truncate text-xs text-neutral-600">{item.locationLabel}</div>
+                </div>
+                <div className="shrink-0 text-right text-xs font-semibold text-neutral-700">{item.timeLabel}</div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ScheduleEmbedPage({
+  widget,
+  title,
+  embedId,
+  theme,
+  feed,
+  items,
+  unavailable,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  // The host page sizes the iframe from these messages; they only carry a height.
+  useEffect(() => {
+    if (window.parent === window) return;
+
+    const postHeight = () => {
+      window.parent.postMessage(
+        { type: SCHEDULE_EMBED_RESIZE_MESSAGE, embedId, height: document.documentElement.scrollHeight },
+        "*"
+      );
+    };
+
+    postHeight();
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(postHeight);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, [embedId]);
+
+  return (
+    <>
+      <Head>
+        <title>{`${title} — ${theme.brandName}`}</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div className="grid gap-3 bg-transparent p-2 text-neutral-900">
+        {unavailable ? (
+          <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            The schedule is temporarily unavailable. Please check back soon.
+          </div>
+        ) : widget === "lineup" ? (
+          <PublicScheduleFeedList title={title} feed={feed} />
+        ) : widget === "sponsor-names" ? (
+          <PublicScheduleSponsorNameTicker title={title} feed={feed} surfaceKey="EMBED_SPONSOR_NAME_TICKER" />
+        ) : widget === "sponsor-images" ? (
+          <PublicScheduleSponsorImageTicker title={title} feed={feed} surfaceKey="EMBED_SPONSOR_IMAGE_TICKER" />
+        ) : (
+          <section className="grid gap-3 rounded-[2rem] border border-neutral-200 bg-white p-4 shadow-sm">
+            <h2 className="text-lg font-semibold text-neutral-900">{title}</h2>
+            <CompactScheduleList items={items} theme={theme} />
+          </section>
+        )}
+
+        {theme.publicOrigin ? (
+          <a
+            href={`${theme.publicOrigin}/schedule`}
+            target="_blank"
+            rel="noreferrer"
+            className="justify-self-end text-xs font-semibold"
+            style={{ color: theme.accentColor }}
+          >
+            Full schedule on {theme.brandName} →
+          </a>
+        ) : null}
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<PageProps> = async (ctx) => {
+  const widget = parseScheduleEmbedWidget(ctx.params?.widget);
+  if (!widget) return { notFound: true };
+
+  // Widgets are meant to be framed by partner and sponsor sites.
+  ctx.res.setHeader("Content-Security-Policy", "frame-ancestors *");
+  ctx.res.setHeader("Cache-Control", "public, max-age=0, s-maxage=120, stale-while-revalidate=600");
+
+  const hostConfig = await getRuntimeHostConfig(getApiRequestHost(ctx.req));
+  const theme = resolveScheduleEmbedTheme(hostConfig, ctx.query);
+  const title = readQueryValue(ctx.query.title).slice(0, 80) || defaultTitle(widget);
+  const embedId = readQueryValue(ctx.query.embedId).slice(0, 64);
+
+  let feed: CommandPublicScheduleFeedResponse | null = null;
+  let items: CommandPublicScheduleItem[] = [];
+  let unavailable = false;
+
+  try {
+    if (widget === "schedule") {
+      const filters = parseScheduleEmbedFilters(ctx.query);
+      const today = toIsoDateOnly(new Date());
+      const response = await commandPublicListScheduleList({
+        from: today,
+        to: addDays(today, filters.days),
+        eventSeries: filters.eventSeries,
+        participantType: filters.participantType as CommandPublicScheduleParticipantType | "",
+        resource: filters.resource,
+        resourceType: filters.resourceType as CommandPublicScheduleResourceType | "",
+        limit: EMBED_SCHEDULE_LIMIT,
+      });
+      items = response.items;
+    } else {
+      const fallbackFeedId =
+        widget === "lineup" ? process.env.SCHEDULE_PAGE_FEED_ID : process.env.SCHEDULE_PAGE_SPONSOR_FEED_ID;
+      const feedId = parseScheduleEmbedFeedId(ctx.query.feed) || parseScheduleEmbedFeedId(fallbackFeedId);
+      if (feedId) {
+        feed = await commandPublicGetScheduleFeed({ feedId, request: ctx.req });
+      }
+    }
+  } catch (error: any) {
+    unavailable = true;
+    console.error("[schedule-embed] failed to load widget data", {
+      widget,
+      error: error instanceof Error ? error.message : String(error),
+      status: typeof error?.status === "number" ? error.status : null,
+    });
+  }
+
+  return {
+    props: {
+      widget,
+      title,
+      embedId,
+      theme,
+      feed,
+      items,
+      unavailable,
+    },
+  };
+};
@@ -0,0 +1,19 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import PortalGigsPage from "../../components/partnerPortal/PortalGigsPage";
+import { requirePartnerPortalPageSession } from "../../lib/partnerPortalPage";
+
+export const getServerSideProps: GetServerSideProps = async (ctx) => {
+  const result = await requirePartnerPortalPageSession(ctx, "partners");
+  if ("redirect" in result) return result;
+  return {
+    props: {
+      account: result.account,
+    },
+  };
+};
+
+export default function PartnerGigsRoute({
+  account,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  return <PortalGigsPage account={account} />;
+}
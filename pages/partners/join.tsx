@@ -0,0 +1,5 @@
+import PortalJoinPage from "../../components/partnerPortal/PortalJoinPage";
+
+export default function PartnerJoinRoute() {
+  return <PortalJoinPage scope="partners" />;
+}
@@ -0,0 +1,19 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import PortalTeamPage from "../../components/partnerPortal/PortalTeamPage";
+import { requirePartnerPortalPageSession } from "../../lib/partnerPortalPage";
+
+export const getServerSideProps: GetServerSideProps = async (ctx) => {
+  const result = await requirePartnerPortalPageSession(ctx, "partners");
+  if ("redirect" in result) return result;
+  return {
+    props: {
+      account: result.account,
+    },
+  };
+};
+
+export default function PartnerTeamRoute({
+  account,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  return <PortalTeamPage scope="partners" account={account} />;
+}
@@ -0,0 +1,266 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import BrandHead from "../../components/BrandHead";
+import PublicScheduleSponsorImageTicker from "../../components/publicSchedule/PublicScheduleSponsorImageTicker";
+import PublicScheduleSponsorNameTicker from "../../components/publicSchedule/PublicScheduleSponsorNameTicker";
+import {
+  commandPublicGetScheduleFeed,
+  commandPublicListScheduleList,
+  type CommandPublicScheduleFeedResponse,
+  type CommandPublicScheduleItem,
+  type CommandPublicScheduleResponse,
+} from "../../lib/commandPublicApi";
+import { buildStageBoard, formatZonedClock, getZonedClock, isValidTimeZone } from "../../lib/scheduleBoard";
+
+type BoardFooter = "names" | "images" | "both" | "none";
+
+type PageProps = {
+  initialItems: CommandPublicScheduleItem[];
+  initialError: string | null;
+  initialSponsorFeed: CommandPublicScheduleFeedResponse | null;
+  occurrenceDate: string;
+  timeZone: string;
+  footer: BoardFooter;
+  pollSeconds: number;
+  generatedAt: string;
+};
+
+const CLOCK_TICK_MS = 15_000;
+const DEFAULT_POLL_SECONDS = 60;
+const MIN_POLL_SECONDS = 15;
+const DEFAULT_BOARD_TIME_ZONE = "UTC";
+
+function readQueryValue(value: string | string[] | undefined) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseFooter(value: string): BoardFooter {
+  return value === "names" || value === "images" || value === "none" ? value : "both";
+}
+
+function parsePollSeconds(value: string) {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed)) return DEFAULT_POLL_SECONDS;
+  return Math.max(MIN_POLL_SECONDS, parsed);
+}
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60) % 24;
+  const suffix = hours >= 12 ? "PM" : "AM";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, "0")} ${suffix}`;
+}
+
+function BoardSlot({
+  label,
+  item,
+  today,
+  emptyMessage,
+  emphasis,
+}: {
+  label: string;
+  item: CommandPublicScheduleItem | null;
+  today: string;
+  emptyMessage: string;
+  emphasis: boolean;
+}) {
+  return (
+    <div className={emphasis ? "grid gap-1 rounded-3xl bg-red-600 p-5 text-white" : "grid gap-1 rounded-3xl bg-neutral-800 p-5 text-neutral-100"}>
+      <div className={emphasis ? "text-xs font-semibold uppercase tracking-[0.18em] text-red-100" : "text-xs font-semibold uppercase tracking-[0.18em] text-neutral-400"}>
+        {label}
+      </div>
+      {item ? (
+        <>
+          <div className="text-2xl font-semibold leading-tight lg:text-3xl">{item.participant.displayName}</div>
+          {item.title !== item.participant.displayName ? <div className="text-base opacity-90">{item.title}</div> : null}
+          <div className="text-sm font-semibold opacity-90">
+            {item.allDay ? "All day" : `${formatMinutes(item.startsAtMinutes)} – ${formatMinutes(item.endsAtMinutes)}`}
+            {item.occursOn !== today ? ` · ${item.occursOn}` : ""}
+          </div>
+        </>
+      ) : (
+        <div className="text-lg opacity-70">{emptyMessage}</div>
+      )}
+    </div>
+  );
+}
+
+export default function ScheduleBoardPage({
+  initialItems,
+  initialError,
+  initialSponsorFeed,
+  occurrenceDate: initialOccurrenceDate,
+  timeZone,
+  footer,
+  pollSeconds,
+  generatedAt,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  const [items, setItems] = useState(initialItems);
+  const [error, setError] = useState(initialError);
+  const [sponsorFeed, setSponsorFeed] = useState(initialSponsorFeed);
+  const [occurrenceDate, setOccurrenceDate] = useState(initialOccurrenceDate);
+  const [now, setNow] = useState(() => new Date(generatedAt));
+
+  const board = useMemo(() => buildStageBoard(items, now), [items, now]);
+  const clock = getZonedClock(timeZone, now);
+
+  const loadBoard = useCallback(async (date: string) => {
+    try {
+      const params = new URLSearchParams({ occurrenceDate: date, resourceType: "STAGE", limit: "300" });
+      const res = await fetch(`/api/schedule/list?${params.toString()}`);
+      const payload = (await res.json().catch(() => null)) as CommandPublicScheduleResponse | { ok: false; error?: string } | null;
+      if (!res.ok || !payload?.ok) {
+        throw new Error((payload as any)?.error || "Failed to refresh the board");
+      }
+      setItems(payload.items);
+      setError(null);
+    } catch (nextError: any) {
+      // Keep showing the last good board; venue screens should never go blank.
+      setError(nextError?.message || "Failed to refresh the board");
+    }
+  }, []);
+
+  const loadSponsorFeed = useCallback(async () => {
+    try {
+      const res = await fetch("/api/schedule/feed?feed=sponsor");
+      const payload = (await res.json().catch(() => null)) as CommandPublicScheduleFeedResponse | null;
+      if (res.ok && payload?.ok) setSponsorFeed(payload);
+    } catch {
+      // The footer keeps its previous feed.
+    }
+  }, []);
+
+  useEffect(() => {
+    setNow(new Date());
+    const timer = window.setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Roll over to the next day's occurrence once midnight passes in the venue zone.
+  useEffect(() => {
+    if (clock.date !== occurrenceDate) setOccurrenceDate(clock.date);
+  }, [clock.date, occurrenceDate]);
+
+  useEffect(() => {
+    if (occurrenceDate !== initialOccurrenceDate) void loadBoard(occurrenceDate);
+    const timer = window.setInterval(() => void loadBoard(occurrenceDate), pollSeconds * 1000);
+    return () => window.clearInterval(timer);
+  }, [initialOccurrenceDate, loadBoard, occurrenceDate, pollSeconds]);
+
+  useEffect(() => {
+    if (footer === "none") return;
+    const timer = window.setInterval(() => void loadSponsorFeed(), pollSeconds * 5 * 1000);
+    return () => window.clearInterval(timer);
+  }, [footer, loadSponsorFeed, pollSeconds]);
+
+  return (
+    <>
+      <BrandHead title="Now on stage — X Dragon" description="What is on now and up next on every stage." />
+
+      <div className="flex min-h-screen flex-col bg-neutral-950 text-white">
+        <header className="flex flex-wrap items-end justify-between gap-4 px-6 pb-4 pt-6 lg:px-10">
+          <div>
+            <div className="text-sm font-semibold uppercase tracking-[0.18em] text-red-500">Live board</div>
+            <h1 className="text-3xl font-semibold lg:text-4xl">Happening now</h1>
+          </div>
+          <div className="text-right">
+            <div className="text-4xl font-semibold tabular-nums lg:text-5xl">{formatZonedClock(timeZone, now)}</div>
+            <div className="text-xs uppercase tracking-[0.16em] text-neutral-400">{timeZone}</div>
+          </div>
+        </header>
+
+        {error ? (
+          <div className="mx-6 rounded-2xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800 lg:mx-10">
+            Live updates are paused ({error}). Showing the last known schedule.
+          </div>
+        ) : null}
+
+        <main className="grid flex-1 content-start gap-4 px-6 py-4 md:grid-cols-2 xl:grid-cols-3 lg:px-10">
+          {board.length === 0 ? (
+            <div className="rounded-[2rem] border border-neutral-800 p-8 text-lg text-neutral-400 md:col-span-2 xl:col-span-3">
+              No stage performances are scheduled today.
+            </div>
+          ) : null}
+
+          {board.map((entry) => (
+            <section key={entry.resource.id} className="grid content-start gap-3 rounded-[2rem] border border-neutral-800 bg-neutral-900 p-5">
+              <h2 className="text-xl font-semibold">{entry.resource.name}</h2>
+              <BoardSlot label="Now" item={entry.current} today={clock.date} emptyMessage="Nothing on right now" emphasis />
+              <BoardSlot label="Up next" item={entry.next} today={clock.date} emptyMessage="That's all for today" emphasis={false} />
+            </section>
+          ))}
+        </main>
+
+        {footer !== "none" ? (
+          <footer className="grid gap-3 px-6 pb-6 lg:px-10">
+            {footer === "names" || footer === "both" ? <PublicScheduleSponsorNameTicker title="Our sponsors" feed={sponsorFeed} /> : null}
+            {footer === "images" || footer === "both" ? <PublicScheduleSponsorImageTicker feed={sponsorFeed} /> : null}
+          </footer>
+        ) : null}
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<PageProps> = async (ctx) => {
+  // The venue zone is fixed for the life of the page. It must not follow the
+  // fetched items: an empty refresh would change the zone, then the date.
+  const queryTimeZone = readQueryValue(ctx.query.tz);
+  const configuredTimeZone = String(process.env.SCHEDULE_BOARD_TIMEZONE || "").trim();
+  const timeZone = isValidTimeZone(queryTimeZone)
+    ? queryTimeZone
+    : isValidTimeZone(configuredTimeZone)
+      ? configuredTimeZone
+      : DEFAULT_BOARD_TIME_ZONE;
+  const footer = parseFooter(readQueryValue(ctx.query.footer));
+  const pollSeconds = parsePollSeconds(readQueryValue(ctx.query.poll));
+  const occurrenceDate = getZonedClock(timeZone).date;
+  const sponsorFeedId = String(process.env.SCHEDULE_PAGE_SPONSOR_FEED_ID || "").trim();
+
+  let initialItems: CommandPublicScheduleItem[] = [];
+  let initialError: string | null = null;
+  try {
+    const response = await commandPublicListScheduleList({
+      occurrenceDate,
+      resourceType: "STAGE",
+      limit: 300,
+    });
+    initialItems = response.items;
+  } catch (error: any) {
+    initialError = "Schedule is temporarily unavailable";
+    console.error("[schedule-board] failed to load stage schedule", {
+      occurrenceDate,
+      error: error instanceof Error ? error.message : String(error),
+      status: typeof error?.status === "number" ? error.status : null,
+    });
+  }
+
+  let initialSponsorFeed: CommandPublicScheduleFeedResponse | null = null;
+  if (footer !== "none" && sponsorFeedId) {
+    try {
+      initialSponsorFeed = await commandPublicGetScheduleFeed({
+        feedId: sponsorFeedId,
+        request: ctx.req,
+      });
+    } catch (error: any) {
+      console.error("[schedule-board] failed to load sponsor feed", {
+        feedId: sponsorFeedId,
+        error: error instanceof Error ? error.message : String(error),
+        status: typeof error?.status === "number" ? error.status : null,
+      });
+    }
+  }
+
+  return {
+    props: {
+      initialItems,
+      initialError,
+      initialSponsorFeed,
+      occurrenceDate,
+      timeZone,
+      footer,
+      pollSeconds,
+      generatedAt: new Date().toISOString(),
+    },
+  };
+};
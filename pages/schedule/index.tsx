@@ -1,11 +1,19 @@
 import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
 import dynamic from "next/dynamic";
-import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useEffect, useMemo, useRef, useState } from "react";
 import BrandHead from "../../components/BrandHead";
 import PublicSiteHeader from "../../components/PublicSiteHeader";
+import PublicScheduleAppHead from "../../components/publicSchedule/PublicScheduleAppHead";
 import PublicScheduleFeedList from "../../components/publicSchedule/PublicScheduleFeedList";
 import PublicScheduleSponsorImageTicker from "../../components/publicSchedule/PublicScheduleSponsorImageTicker";
 import PublicScheduleSponsorNameTicker from "../../components/publicSchedule/PublicScheduleSponsorNameTicker";
+import { useScheduleFavorites } from "../../components/publicSchedule/useScheduleFavorites";
+import {
+  readScheduleCachedAt,
+  useScheduleOfflineSupport,
+} from "../../components/publicSchedule/useScheduleOfflineSupport";
 import {
   commandPublicGetScheduleFeed,
   commandPublicListScheduleCalendar,
@@ -16,6 +24,7 @@ import {
   type CommandPublicScheduleResourceType,
   type CommandPublicScheduleResponse,
 } from "../../lib/commandPublicApi";
+import { findScheduleConflicts } from "../../lib/scheduleItinerary";
 
 const PublicScheduleCalendar = dynamic(
   () => import("../../components/publicSchedule/PublicScheduleCalendar"),
@@ -33,15 +42,33 @@ type PageProps = {
   initialFeedError: string | null;
   initialSponsorFeed: CommandPublicScheduleFeedResponse | null;
   initialSponsorFeedError: string | null;
-  initialFilters: {
+  generatedAt: string;
+  initialFilters: ScheduleFilters;
+  initialQuery: string;
+  defaultRange: {
     from: string;
     to: string;
-    eventSeries: string;
-    participantType: string;
-    resourceType: string;
   };
 };
 
+type ScheduleFilters = {
+  from: string;
+  to: string;
+  eventSeries: string;
+  participantType: string;
+  resourceType: string;
+};
+
+type ScheduleFilterKey = keyof ScheduleFilters | "range" | "q";
+
+type AppliedFilterChip = {
+  key: ScheduleFilterKey;
+  label: string;
+  removable: boolean;
+};
+
+type ScheduleQuery = Partial<Record<string, string | string[] | undefined>>;
+
 const participantTypeLabels: Record<CommandPublicScheduleParticipantType, string> = {
   ENTERTAINMENT: "Entertainment",
   FOOD_VENDOR: "Food Vendors",
@@ -77,6 +104,63 @@ function formatDateLabel(value: string) {
   }).format(date);
 }
 
+function readQueryValue(query: ScheduleQuery, key: string) {
+  const value = query[key];
+  if (Array.isArray(value)) return value[0] || "";
+  return typeof value === "string" ? value : "";
+}
+
+function parseScheduleQuery(query: ScheduleQuery, defaultRange: { from: string; to: string }) {
+  const from = readQueryValue(query, "from") || defaultRange.from;
+  const explicitTo = readQueryValue(query, "to");
+  const filters: ScheduleFilters = {
+    from,
+    to: explicitTo || (from === defaultRange.from ? defaultRange.to : addDays(from, 45)),
+    eventSeries: readQueryValue(query, "eventSeries"),
+    participantType: readQueryValue(query, "participantType"),
+    resourceType: readQueryValue(query, "resourceType"),
+  };
+
+  return {
+    filters,
+    q: readQueryValue(query, "q"),
+  };
+}
+
+// Only non-default values go into the URL so the bare /schedule link keeps
+// tracking "today" instead of freezing whatever range was open when shared.
+function buildScheduleQuery(filters: ScheduleFilters, q: string, defaultRange: { from: string; to: string }) {
+  const query: Record<string, string> = {};
+  if (filters.from && filters.from !== defaultRange.from) query.from = filters.from;
+  if (filters.to && (filters.to !== defaultRange.to || query.from)) query.to = filters.to;
+  if (filters.eventSeries) query.eventSeries = filters.eventSeries;
+  if (filters.participantType) query.participantType = filters.participantType;
+  if (filters.resourceType) query.resourceType = filters.resourceType;
+  if (q.trim()) query.q = q.trim();
+  return query;
+}
+
+function sameScheduleFilters(a: ScheduleFilters, b: ScheduleFilters) {
+  return (
+    a.from === b.from &&
+    a.to === b.to &&
+    a.eventSeries === b.eventSeries &&
+    a.participantType === b.participantType &&
+    a.resourceType === b.resourceType
+  );
+}
+
+function formatUpdatedAt(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(date);
+}
+
 function wallClockUtc(value: string, allDay: boolean) {
   if (allDay) return value;
   return value.endsWith("Z") ? value : `${value}Z`;
@@ -106,16 +190,27 @@ export default function PublicSchedulePage({
   initialFeedError,
   initialSponsorFeed,
   initialSponsorFeedError,
+  generatedAt,
   initialFilters,
+  initialQuery,
+  defaultRange: serverDefaultRange,
 }: InferGetServerSidePropsType<typeof getServerSideProps>) {
-  const [apiFilters, setApiFilters] = useState(initialFilters);
-  const [draftFilters, setDraftFilters] = useState(initialFilters);
-  const [localQuery, setLocalQuery] = useState("");
+  const router = useRouter();
+  // A plain visit adopts the calendar's first month-grid range as its default,
+  // so that range stays out of the URL and the plain link keeps following today.
+  const [defaultRange, setDefaultRange] = useState(serverDefaultRange);
+  const [apiFilters, setApiFilters] = useState<ScheduleFilters>(initialFilters);
+  const [draftFilters, setDraftFilters] = useState<ScheduleFilters>(initialFilters);
+  const [localQuery, setLocalQuery] = useState(initialQuery);
   const [calendarFeed, setCalendarFeed] = useState(initialCalendar);
   const [listFeed, setListFeed] = useState(initialList);
   const [selectedId, setSelectedId] = useState<string | null>(initialList.items[0]?.id || initialCalendar.items[0]?.id || null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [feed, setFeed] = useState(initialFeed);
+  const [sponsorFeed, setSponsorFeed] = useState(initialSponsorFeed);
+  const [dataUpdatedAt, setDataUpdatedAt] = useState(generatedAt);
+  const [servedFromCache, setServedFromCache] = useState(false);
 
   const allItems = useMemo(() => {
     const seen = new Map<string, CommandPublicScheduleItem>();
@@ -200,7 +295,13 @@ export default function PublicSchedulePage({
   const selectedItem =
     allItems.find((item) => item.id === selectedId) || filteredListItems[0] || calendarFeed.items[0] || null;
 
-  const appliedFilterTrail = useMemo(() => {
+  const { favorites, isFavorite, toggleFavorite } = useScheduleFavorites();
+  const favoriteConflicts = useMemo(
+    () => findScheduleConflicts(allItems.filter((item) => isFavorite(item.id))),
+    [allItems, isFavorite]
+  );
+
+  const appliedFilterTrail = useMemo<AppliedFilterChip[]>(() => {
     const seriesName =
       apiFilters.eventSeries
         ? eventSeriesOptions.find((item) => item.slug === apiFilters.eventSeries)?.name || apiFilters.eventSeries
@@ -215,15 +316,120 @@ export default function PublicSchedulePage({
       : "All Resources";
 
     return [
-      `${formatDateLabel(apiFilters.from)} - ${formatDateLabel(apiFilters.to)}`,
-      seriesName,
-      participantLabel,
-      resourceLabel,
-      localQuery.trim() ? `Search: ${localQuery.trim()}` : "Search: All",
+      {
+        key: "range",
+        label: `${formatDateLabel(apiFilters.from)} - ${formatDateLabel(apiFilters.to)}`,
+        removable: apiFilters.from !== defaultRange.from || apiFilters.to !== defaultRange.to,
+      },
+      { key: "eventSeries", label: seriesName, removable: Boolean(apiFilters.eventSeries) },
+      { key: "participantType", label: participantLabel, removable: Boolean(apiFilters.participantType) },
+      { key: "resourceType", label: resourceLabel, removable: Boolean(apiFilters.resourceType) },
+      {
+        key: "q",
+        label: localQuery.trim() ? `Search: ${localQuery.trim()}` : "Search: All",
+        removable: Boolean(localQuery.trim()),
+      },
     ];
-  }, [apiFilters, eventSeriesOptions, localQuery]);
+  }, [apiFilters, defaultRange.from, defaultRange.to, eventSeriesOptions, localQuery]);
+
+  // Refs let the router listeners compare against the latest state without
+  // re-subscribing on every keystroke.
+  const apiFiltersRef = useRef(apiFilters);
+  apiFiltersRef.current = apiFilters;
+  const localQueryRef = useRef(localQuery);
+  localQueryRef.current = localQuery;
+  // The calendar reports its month-grid range once on mount; only later
+  // reports come from the user paging through months.
+  const calendarRangeReportedRef = useRef(false);
+
+  function syncUrl(nextFilters: ScheduleFilters, nextQuery: string, mode: "push" | "replace") {
+    const query = buildScheduleQuery(nextFilters, nextQuery, defaultRange);
+    const current = buildScheduleQuery(
+      parseScheduleQuery(router.query, defaultRange).filters,
+      readQueryValue(router.query, "q"),
+      defaultRange
+    );
+    if (JSON.stringify(query) === JSON.stringify(current)) return;
+
+    const navigate = mode === "push" ? router.push : router.replace;
+    void navigate({ pathname: router.pathname, query }, undefined, { shallow: true, scroll: false });
+  }
+
+  // Browser back/forward lands on a shallow history entry; reload whatever
+  // filter state that entry encodes.
+  useEffect(() => {
+    if (!router.isReady) return;
+    const parsed = parseScheduleQuery(router.query, defaultRange);
+
+    if (parsed.q !== localQueryRef.current.trim()) {
+      setLocalQuery(parsed.q);
+    }
 
-  async function loadSchedule(nextFilters = draftFilters) {
+    if (!sameScheduleFilters(parsed.filters, apiFiltersRef.current)) {
+      setDraftFilters(parsed.filters);
+      void loadSchedule(parsed.filters, "none");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.asPath, router.isReady]);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      syncUrl(apiFiltersRef.current, localQuery, "replace");
+    }, 400);
+    return () => window.clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [localQuery]);
+
+  function removeFilter(key: ScheduleFilterKey) {
+    if (key === "q") {
+      setLocalQuery("");
+      syncUrl(apiFilters, "", "push");
+      return;
+    }
+
+    const nextFilters =
+      key === "range" || key === "from" || key === "to"
+        ? { ...apiFilters, from: defaultRange.from, to: defaultRange.to }
+        : { ...apiFilters, [key]: "" };
+    setDraftFilters(nextFilters);
+    void loadSchedule(nextFilters);
+  }
+
+  const subscriptionHref = useMemo(() => {
+    const params = new URLSearchParams();
+    if (apiFilters.eventSeries) params.set("eventSeries", apiFilters.eventSeries);
+    if (apiFilters.participantType) params.set("participantType", apiFilters.participantType);
+    if (apiFilters.resourceType) params.set("resourceType", apiFilters.resourceType);
+    const query = params.toString();
+    return query ? `/api/schedule/ical?${query}` : "/api/schedule/ical";
+  }, [apiFilters.eventSeries, apiFilters.participantType, apiFilters.resourceType]);
+
+  async function refreshFeeds() {
+    const [nextFeed, nextSponsorFeed] = await Promise.all(
+      [feed ? "/api/schedule/feed" : null, sponsorFeed ? "/api/schedule/feed?feed=sponsor" : null].map(async (url) => {
+        if (!url) return null;
+        try {
+          const res = await fetch(url);
+          const payload = await res.json().catch(() => null);
+          return res.ok && payload?.ok ? (payload as CommandPublicScheduleFeedResponse) : null;
+        } catch {
+          return null;
+        }
+      })
+    );
+
+    if (nextFeed) setFeed(nextFeed);
+    if (nextSponsorFeed) setSponsorFeed(nextSponsorFeed);
+  }
+
+  const { online } = useScheduleOfflineSupport({
+    onReconnect: () => {
+      void loadSchedule(apiFiltersRef.current, "none");
+      void refreshFeeds();
+    },
+  });
+
+  async function loadSchedule(nextFilters = draftFilters, history: "push" | "replace" | "none" = "push") {
     setLoading(true);
     setError("");
 
@@ -253,8 +459,14 @@ export default function PublicSchedulePage({
       }
 
       setApiFilters(nextFilters);
+      if (history !== "none") {
+        syncUrl(nextFilters, localQueryRef.current, history);
+      }
       setCalendarFeed(calendarPayload as CommandPublicScheduleResponse);
       setListFeed(listPayload as CommandPublicScheduleResponse);
+      const cachedAt = readScheduleCachedAt(listRes) || readScheduleCachedAt(calendarRes);
+      setServedFromCache(Boolean(cachedAt));
+      setDataUpdatedAt(cachedAt || new Date().toISOString());
       setSelectedId((current) => {
         const stillVisible = (listPayload.items as CommandPublicScheduleItem[]).find((item) => item.id === current);
         return stillVisible?.id || (listPayload.items as CommandPublicScheduleItem[])[0]?.id || (calendarPayload.items as CommandPublicScheduleItem[])[0]?.id || null;
@@ -272,29 +484,58 @@ export default function PublicSchedulePage({
         title="Events & Schedule — X Dragon"
         description="Browse upcoming entertainment, market vendors, and food vendors on the X Dragon schedule."
       />
+      <PublicScheduleAppHead />
 
       <div className="min-h-screen bg-neutral-50 text-neutral-900">
         <PublicSiteHeader />
 
         <main className="mx-auto grid max-w-7xl gap-6 px-4 py-6 sm:px-6 lg:px-8">
+          {!online || servedFromCache ? (
+            <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              {online ? "Showing a saved copy of the schedule" : "You are offline. Showing the saved schedule"} — last updated{" "}
+              {formatUpdatedAt(dataUpdatedAt)}.{online ? "" : " It will refresh automatically when you reconnect."}
+            </div>
+          ) : null}
           {initialCalendarError ? (
             <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
               The live schedule is temporarily unavailable. Please check back shortly.
             </div>
           ) : null}
           <div className="flex flex-wrap items-center justify-between gap-3">
-            <div className="text-base font-semibold uppercase tracking-[0.2em] text-red-600">Live Schedule</div>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="text-base font-semibold uppercase tracking-[0.2em] text-red-600">Live Schedule</div>
+              <Link
+                href="/schedule/my"
+                className="rounded-full border border-neutral-300 bg-white px-3 py-1 text-xs font-semibold text-neutral-800 hover:bg-neutral-50"
+              >
+                ★ My Schedule ({favorites.length})
+              </Link>
+            </div>
             <div className="flex flex-wrap items-center justify-end gap-x-3 gap-y-1 text-xs font-medium text-neutral-500">
-              {appliedFilterTrail.map((item, index) => (
-                <div key={item} className="flex items-center gap-3">
-                  {index > 0 ? <span className="text-neutral-300">/</span> : null}
-                  <span className={index === 0 ? "font-semibold text-neutral-800" : undefined}>{item}</span>
-                </div>
-              ))}
+              {appliedFilterTrail.map((item, index) =>
+                item.removable ? (
+                  <button
+                    key={item.key}
+                    type="button"
+                    onClick={() => removeFilter(item.key)}
+                    disabled={loading}
+                    aria-label={`Remove filter: ${item.label}`}
+                    className="inline-flex items-center gap-1 rounded-full border border-red-200 bg-red-50 px-3 py-1 font-semibold text-red-700 hover:bg-red-100"
+                  >
+                    <span>{item.label}</span>
+                    <span aria-hidden="true">×</span>
+                  </button>
+                ) : (
+                  <div key={item.key} className="flex items-center gap-3">
+                    {index > 0 ? <span className="text-neutral-300">/</span> : null}
+                    <span className={index === 0 ? "font-semibold text-neutral-800" : undefined}>{item.label}</span>
+                  </div>
+                )
+              )}
             </div>
           </div>
 
-          <PublicScheduleSponsorNameTicker title="Sponsor Feed1" feed={initialSponsorFeed} />
+          <PublicScheduleSponsorNameTicker title="Sponsor Feed1" feed={sponsorFeed} />
           {initialSponsorFeedError ? (
             <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
               {initialSponsorFeedError}
@@ -382,8 +623,8 @@ export default function PublicSchedulePage({
                     type="button"
                     onClick={() => {
                       const reset = {
-                        from: initialFilters.from,
-                        to: initialFilters.to,
+                        from: defaultRange.from,
+                        to: defaultRange.to,
                         eventSeries: "",
                         participantType: "",
                         resourceType: "",
@@ -395,6 +636,12 @@ export default function PublicSchedulePage({
                   >
                     Reset
                   </button>
+                  <a
+                    href={subscriptionHref}
+                    className="rounded-2xl border border-neutral-300 bg-white px-3 py-2 text-[11px] font-semibold text-neutral-800 hover:bg-neutral-50"
+                  >
+                    Subscribe (.ics)
+                  </a>
                 </div>
             </div>
           </section>
@@ -403,8 +650,8 @@ export default function PublicSchedulePage({
 
           <section className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_minmax(0,1.9fr)] xl:items-start">
             <div className="grid gap-3">
-              <PublicScheduleFeedList title="Friday Stage List" feed={initialFeed} />
-              <PublicScheduleSponsorImageTicker feed={initialSponsorFeed} />
+              <PublicScheduleFeedList title="Friday Stage List" feed={feed} />
+              <PublicScheduleSponsorImageTicker feed={sponsorFeed} />
               {initialFeedError ? (
                 <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
                   {initialFeedError}
@@ -416,11 +663,23 @@ export default function PublicSchedulePage({
               <PublicScheduleCalendar
                 events={calendarEvents}
                 loading={loading}
+                initialDate={initialFilters.from}
                 onRangeChange={(range) => {
+                  if (!calendarRangeReportedRef.current) {
+                    calendarRangeReportedRef.current = true;
+                    // A shared link with an explicit range wins over the grid.
+                    if (initialFilters.from !== serverDefaultRange.from) return;
+                    if (range.from === apiFilters.from && range.to === apiFilters.to) return;
+                    const nextFilters = { ...draftFilters, from: range.from, to: range.to };
+                    setDefaultRange({ from: range.from, to: range.to });
+                    setDraftFilters(nextFilters);
+                    void loadSchedule(nextFilters, "none");
+                    return;
+                  }
                   if (range.from === apiFilters.from && range.to === apiFilters.to) return;
                   const nextFilters = { ...draftFilters, from: range.from, to: range.to };
                   setDraftFilters(nextFilters);
-                  void loadSchedule(nextFilters);
+                  void loadSchedule(nextFilters, "replace");
                 }}
                 onEventOpen={(id) => setSelectedId(id)}
               />
@@ -484,6 +743,12 @@ export default function PublicSchedulePage({
                             </div>
 
                             <div className="flex flex-wrap gap-2 text-xs font-semibold text-neutral-600">
+                              {isFavorite(item.id) ? (
+                                <span className="rounded-full border border-red-200 bg-red-50 px-3 py-1 text-red-700">★ Starred</span>
+                              ) : null}
+                              {favoriteConflicts.has(item.id) ? (
+                                <span className="rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-amber-800">Overlaps another starred slot</span>
+                              ) : null}
                               <span className="rounded-full border border-neutral-200 bg-neutral-50 px-3 py-1">{item.participant.type.replace("_", " ")}</span>
                               <span className="rounded-full border border-neutral-200 bg-neutral-50 px-3 py-1">{item.resource.name}</span>
                             </div>
@@ -509,11 +774,44 @@ export default function PublicSchedulePage({
                       {selectedItem.subtitle ? <div className="mt-2 text-sm text-neutral-600">{selectedItem.subtitle}</div> : null}
                     </div>
 
+                    <button
+                      type="button"
+                      onClick={() => toggleFavorite(selectedItem)}
+                      aria-pressed={isFavorite(selectedItem.id)}
+                      className={
+                        isFavorite(selectedItem.id)
+                          ? "inline-flex w-fit rounded-2xl bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700"
+                          : "inline-flex w-fit rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                      }
+                    >
+                      {isFavorite(selectedItem.id) ? "★ In My Schedule" : "☆ Add to My Schedule"}
+                    </button>
+
+                    {favoriteConflicts.has(selectedItem.id) ? (
+                      <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                        This slot overlaps with{" "}
+                        {(favoriteConflicts.get(selectedItem.id) || [])
+                          .map((id) => allItems.find((item) => item.id === id)?.title || "another starred slot")
+                          .join(", ")}
+                        .
+                      </div>
+                    ) : null}
+
                     <div className="grid gap-2 rounded-3xl border border-neutral-200 bg-neutral-50 p-4 text-sm text-neutral-700">
                       <div><span className="font-semibold text-neutral-900">Date:</span> {formatDateLabel(selectedItem.occursOn)}</div>
                       <div><span className="font-semibold text-neutral-900">Time:</span> {selectedItem.timeLabel}</div>
-                      <div><span className="font-semibold text-neutral-900">Location:</span> {selectedItem.locationLabel}</div>
-                      <div><span className="font-semibold text-neutral-900">Participant:</span> {selectedItem.participant.displayName}</div>
+                      <div>
+                        <span className="font-semibold text-neutral-900">Location:</span>{" "}
+                        <Link href={`/schedule/resources/${encodeURIComponent(selectedItem.resource.slug)}`} className="hover:text-red-600">
+                          {selectedItem.locationLabel}
+                        </Link>
+                      </div>
+                      <div>
+                        <span className="font-semibold text-neutral-900">Participant:</span>{" "}
+                        <Link href={`/schedule/participants/${encodeURIComponent(selectedItem.participant.slug)}`} className="hover:text-red-600">
+                          {selectedItem.participant.displayName}
+                        </Link>
+                      </div>
                       <div><span className="font-semibold text-neutral-900">Type:</span> {selectedItem.participant.type.replace("_", " ")}</div>
                       {selectedItem.sequence ? <div><span className="font-semibold text-neutral-900">Sequence:</span> {selectedItem.sequence}</div> : null}
                       <div><span className="font-semibold text-neutral-900">Timezone:</span> {selectedItem.timezone}</div>
@@ -535,6 +833,21 @@ export default function PublicSchedulePage({
                         Open website
                       </a>
                     ) : null}
+
+                    <div className="flex flex-wrap gap-2">
+                      <a
+                        href={`/api/schedule/ical?resource=${encodeURIComponent(selectedItem.resource.slug)}`}
+                        className="inline-flex w-fit rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                      >
+                        Subscribe to {selectedItem.resource.name}
+                      </a>
+                      <a
+                        href={`/api/schedule/ical?eventSeries=${encodeURIComponent(selectedItem.eventSeries.slug)}`}
+                        className="inline-flex w-fit rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                      >
+                        Subscribe to {selectedItem.eventSeries.name}
+                      </a>
+                    </div>
                   </div>
                 ) : (
                   <div className="mt-4 rounded-3xl border border-neutral-200 bg-neutral-50 p-4 text-sm text-neutral-600">
@@ -552,15 +865,8 @@ export default function PublicSchedulePage({
 
 export const getServerSideProps: GetServerSideProps<PageProps> = async (ctx) => {
   const today = toIsoDateOnly(new Date());
-  const defaultFrom = typeof ctx.query.from === "string" && ctx.query.from ? ctx.query.from : today;
-  const defaultTo = typeof ctx.query.to === "string" && ctx.query.to ? ctx.query.to : addDays(defaultFrom, 45);
-  const initialFilters = {
-    from: defaultFrom,
-    to: defaultTo,
-    eventSeries: typeof ctx.query.eventSeries === "string" ? ctx.query.eventSeries : "",
-    participantType: typeof ctx.query.participantType === "string" ? ctx.query.participantType : "",
-    resourceType: typeof ctx.query.resourceType === "string" ? ctx.query.resourceType : "",
-  };
+  const defaultRange = { from: today, to: addDays(today, 45) };
+  const { filters: initialFilters, q: initialQuery } = parseScheduleQuery(ctx.query, defaultRange);
 
   const schedulePageFeedId = String(process.env.SCHEDULE_PAGE_FEED_ID || "").trim();
   const schedulePageSponsorFeedId = String(process.env.SCHEDULE_PAGE_SPONSOR_FEED_ID || "").trim();
@@ -660,7 +966,10 @@ export const getServerSideProps: GetServerSideProps<PageProps> = async (ctx) =>
       initialFeedError,
       initialSponsorFeed,
       initialSponsorFeedError,
+      generatedAt: new Date().toISOString(),
       initialFilters,
+      initialQuery,
+      defaultRange,
     },
   };
 };
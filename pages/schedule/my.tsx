@@ -0,0 +1,254 @@
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import BrandHead from "../../components/BrandHead";
+import PublicSiteHeader from "../../components/PublicSiteHeader";
+import PublicScheduleAppHead from "../../components/publicSchedule/PublicScheduleAppHead";
+import { useScheduleFavorites } from "../../components/publicSchedule/useScheduleFavorites";
+import type { CommandPublicScheduleItem, CommandPublicScheduleResponse } from "../../lib/commandPublicApi";
+import { findScheduleConflicts, sortItineraryItems } from "../../lib/scheduleItinerary";
+import { buildScheduleIcal } from "../../lib/scheduleIcal";
+
+function formatDateLabel(value: string) {
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  }).format(date);
+}
+
+const FAVORITE_LOOKUP_CHUNK = 100;
+
+// Looks starred items up by id, following every page, so "no longer on the
+// published schedule" only ever means the item really is gone.
+async function loadFavoriteItems(ids: string[], range: { from: string; to: string }) {
+  const items: CommandPublicScheduleItem[] = [];
+  for (let index = 0; index < ids.length; index += FAVORITE_LOOKUP_CHUNK) {
+    let cursor: string | null = null;
+    do {
+      const params = new URLSearchParams({
+        from: range.from,
+        to: range.to,
+        ids: ids.slice(index, index + FAVORITE_LOOKUP_CHUNK).join(","),
+        limit: String(FAVORITE_LOOKUP_CHUNK),
+      });
+      if (cursor) params.set("cursor", cursor);
+      const res = await fetch(`/api/schedule/list?${params.toString()}`);
+      const payload = (await res.json().catch(() => null)) as CommandPublicScheduleResponse | { ok: false; error?: string } | null;
+      if (!res.ok || !payload?.ok) {
+        throw new Error((payload as any)?.error || "Failed to load your schedule");
+      }
+      items.push(...payload.items);
+      cursor = payload.nextCursor || null;
+    } while (cursor);
+  }
+  return items;
+}
+
+export default function MySchedulePage() {
+  const { favorites, ready, accountSynced, syncError, removeFavorites } = useScheduleFavorites();
+  const [items, setItems] = useState<CommandPublicScheduleItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [lookupComplete, setLookupComplete] = useState(false);
+  const [error, setError] = useState("");
+
+  const favoriteRange = useMemo(() => {
+    const days = favorites.map((entry) => entry.occursOn).sort();
+    if (days.length === 0) return null;
+    return { from: days[0], to: days[days.length - 1] };
+  }, [favorites]);
+
+  useEffect(() => {
+    if (!ready || !favoriteRange) return;
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      setLookupComplete(false);
+      setError("");
+      try {
+        const loaded = await loadFavoriteItems(
+          favorites.map((entry) => entry.scheduleItemId),
+          favoriteRange
+        );
+        if (!cancelled) {
+          setItems(loaded);
+          setLookupComplete(true);
+        }
+      } catch (nextError: any) {
+        if (!cancelled) setError(nextError?.message || "Failed to load your schedule");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // favoriteRange already changes whenever the starred set does.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready, favoriteRange]);
+
+  const itineraryItems = useMemo(() => {
+    const ids = new Set(favorites.map((entry) => entry.scheduleItemId));
+    return sortItineraryItems(items.filter((item) => ids.has(item.id)));
+  }, [favorites, items]);
+
+  const missingFavorites = useMemo(() => {
+    if (!lookupComplete || loading || error) return [];
+    const loadedIds = new Set(items.map((item) => item.id));
+    return favorites.filter((entry) => !loadedIds.has(entry.scheduleItemId));
+  }, [error, favorites, items, loading, lookupComplete]);
+
+  const conflicts = useMemo(() => findScheduleConflicts(itineraryItems), [itineraryItems]);
+
+  const groupedItems = useMemo(() => {
+    const map = new Map<string, CommandPublicScheduleItem[]>();
+    for (const item of itineraryItems) {
+      const list = map.get(item.occursOn) || [];
+      list.push(item);
+      map.set(item.occursOn, list);
+    }
+    return Array.from(map.entries());
+  }, [itineraryItems]);
+
+  function downloadIcs() {
+    const body = buildScheduleIcal(itineraryItems, {
+      calendarName: "My Schedule",
+      uidDomain: window.location.host,
+    });
+    const url = URL.createObjectURL(new Blob([body], { type: "text/calendar;charset=utf-8" }));
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = "my-schedule.ics";
+    anchor.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <>
+      <BrandHead title="My Schedule — X Dragon" description="Your starred slots from the X Dragon schedule." />
+      <PublicScheduleAppHead />
+
+      <div className="min-h-screen bg-neutral-50 text-neutral-900 print:bg-white">
+        <div className="print:hidden">
+          <PublicSiteHeader />
+        </div>
+
+        <main className="mx-auto grid max-w-4xl gap-6 px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+            <Link href="/schedule" className="text-sm font-semibold text-red-600 hover:text-red-700">
+              ← Back to schedule
+            </Link>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => window.print()}
+                disabled={itineraryItems.length === 0}
+                className="rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50 disabled:opacity-50"
+              >
+                Print
+              </button>
+              <button
+                type="button"
+                onClick={downloadIcs}
+                disabled={itineraryItems.length === 0}
+                className="rounded-2xl bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                Download .ics
+              </button>
+            </div>
+          </div>
+
+          <section className="grid gap-2 rounded-[2rem] border border-neutral-200 bg-white p-8 shadow-sm print:border-0 print:p-0 print:shadow-none">
+            <div className="text-sm font-semibold uppercase tracking-[0.16em] text-red-600">Itinerary</div>
+            <h1 className="text-3xl font-semibold text-neutral-900">My Schedule</h1>
+            <div className="text-sm text-neutral-600 print:hidden">
+              {accountSynced
+                ? "Starred slots are saved to your account."
+                : "Starred slots are saved on this device. Sign in to keep them in sync across devices."}
+            </div>
+          </section>
+
+          {syncError ? (
+            <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 print:hidden">{syncError}</div>
+          ) : null}
+          {error ? <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div> : null}
+
+          {ready && favorites.length === 0 ? (
+            <div className="rounded-2xl border border-neutral-200 bg-white px-4 py-5 text-sm text-neutral-600">
+              You have not starred any slots yet. Open an entry on the schedule and choose “Add to My Schedule”.
+            </div>
+          ) : null}
+
+          {loading ? <div className="text-sm text-neutral-600">Loading your schedule...</div> : null}
+
+          {groupedItems.map(([occursOn, dayItems]) => (
+            <section key={occursOn} className="grid gap-3 break-inside-avoid">
+              <div className="text-sm font-semibold uppercase tracking-[0.16em] text-neutral-500">{formatDateLabel(occursOn)}</div>
+              {dayItems.map((item) => {
+                const overlaps = conflicts.get(item.id) || [];
+                return (
+                  <div
+                    key={item.id}
+                    className={
+                      overlaps.length > 0
+                        ? "grid gap-2 rounded-3xl border border-amber-300 bg-amber-50 p-5 shadow-sm print:shadow-none"
+                        : "grid gap-2 rounded-3xl border border-neutral-200 bg-white p-5 shadow-sm print:shadow-none"
+                    }
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div>
+                        <div className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">{item.eventSeries.name}</div>
+                        <div className="mt-1 text-lg font-semibold text-neutral-900">{item.title}</div>
+                        <div className="mt-1 text-sm text-neutral-600">{item.participant.displayName}</div>
+                      </div>
+                      <div className="text-right text-sm text-neutral-600">
+                        <div className="font-semibold text-neutral-900">{item.timeLabel}</div>
+                        <div>{item.locationLabel}</div>
+                      </div>
+                    </div>
+
+                    {overlaps.length > 0 ? (
+                      <div className="text-sm font-semibold text-amber-800">
+                        Overlaps with{" "}
+                        {overlaps.map((id) => itineraryItems.find((other) => other.id === id)?.title || "another slot").join(", ")}
+                      </div>
+                    ) : null}
+
+                    <div className="print:hidden">
+                      <button
+                        type="button"
+                        onClick={() => removeFavorites([item.id])}
+                        className="text-xs font-semibold text-neutral-500 hover:text-red-600"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+
+          {missingFavorites.length > 0 ? (
+            <div className="grid gap-2 rounded-2xl border border-neutral-200 bg-white px-4 py-4 text-sm text-neutral-600 print:hidden">
+              <div>
+                {missingFavorites.length} starred slot{missingFavorites.length === 1 ? " is" : "s are"} no longer on the published schedule.
+              </div>
+              <button
+                type="button"
+                onClick={() => removeFavorites(missingFavorites.map((entry) => entry.scheduleItemId))}
+                className="w-fit text-xs font-semibold text-red-600 hover:text-red-700"
+              >
+                Clear them
+              </button>
+            </div>
+          ) : null}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import Link from "next/link";
+import BrandHead from "../../../components/BrandHead";
+import PublicSiteHeader from "../../../components/PublicSiteHeader";
+import PublicScheduleDetailUnavailable from "../../../components/publicSchedule/PublicScheduleDetailUnavailable";
+import PublicScheduleUpcomingList from "../../../components/publicSchedule/PublicScheduleUpcomingList";
+import {
+  CommandPublicApiError,
+  commandPublicGetScheduleParticipant,
+  type CommandPublicScheduleItem,
+  type CommandPublicScheduleParticipantType,
+  type CommandPublicSchedulePartnerProfileFeedItem,
+} from "../../../lib/commandPublicApi";
+import {
+  buildScheduleDetailCanonicalUrl,
+  findPartnerProfileFeedItem,
+  loadSchedulePartnerProfileFeed,
+  loadUpcomingScheduleItems,
+} from "../../../lib/publicScheduleDetail";
+
+type PageProps = {
+  participant: CommandPublicScheduleItem["participant"] | null;
+  items: CommandPublicScheduleItem[];
+  profile: CommandPublicSchedulePartnerProfileFeedItem | null;
+  canonicalUrl: string | null;
+};
+
+const participantTypeLabels: Record<CommandPublicScheduleParticipantType, string> = {
+  ENTERTAINMENT: "Entertainment",
+  FOOD_VENDOR: "Food Vendor",
+  MARKET_VENDOR: "Market Vendor",
+};
+
+function formatSocialLabel(key: string) {
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+export default function PublicScheduleParticipantPage({
+  participant,
+  items,
+  profile,
+  canonicalUrl,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  if (!participant) {
+    return <PublicScheduleDetailUnavailable />;
+  }
+
+  const typeLabel = participantTypeLabels[participant.type] || participant.type;
+  const description =
+    profile?.description ||
+    `${participant.displayName} (${typeLabel}) — ${items.length} upcoming appearance${items.length === 1 ? "" : "s"} on the X Dragon schedule.`;
+  const venues = Array.from(new Map(items.map((item) => [item.resource.slug, item.resource])).values());
+  const socialLinks = Object.entries(profile?.socialLinks || {}).filter(([, url]) => Boolean(url));
+
+  return (
+    <>
+      <BrandHead
+        title={`${participant.displayName} — Schedule — X Dragon`}
+        description={description}
+        canonicalUrl={canonicalUrl}
+        imageUrl={profile?.profileImageUrl || null}
+        ogType="profile"
+      />
+
+      <div className="min-h-screen bg-neutral-50 text-neutral-900">
+        <PublicSiteHeader />
+
+        <main className="mx-auto grid max-w-7xl gap-6 px-4 py-6 sm:px-6 lg:px-8">
+          <Link href="/schedule" className="text-sm font-semibold text-red-600 hover:text-red-700">
+            ← Back to schedule
+          </Link>
+
+          <section className="grid gap-6 rounded-[2rem] border border-neutral-200 bg-white p-8 shadow-sm md:grid-cols-[auto_minmax(0,1fr)] md:items-start">
+            {profile?.profileImageUrl ? (
+              <img
+                src={profile.profileImageUrl}
+                alt={participant.displayName}
+                className="h-40 w-40 rounded-3xl border border-neutral-200 object-cover"
+              />
+            ) : null}
+
+            <div className="grid gap-4">
+              <div>
+                <div className="text-sm font-semibold uppercase tracking-[0.16em] text-red-600">{typeLabel}</div>
+                <h1 className="mt-2 text-3xl font-semibold text-neutral-900">{participant.displayName}</h1>
+              </div>
+
+              {profile?.description ? (
+                <div className="text-sm leading-6 text-neutral-700">{profile.description}</div>
+              ) : null}
+
+              {venues.length > 0 ? (
+                <div className="flex flex-wrap gap-2 text-xs font-semibold text-neutral-600">
+                  {venues.map((resource) => (
+                    <Link
+                      key={resource.slug}
+                      href={`/schedule/resources/${encodeURIComponent(resource.slug)}`}
+                      className="rounded-full border border-neutral-200 bg-neutral-50 px-3 py-1 hover:bg-neutral-100"
+                    >
+                      {resource.name}
+                    </Link>
+                  ))}
+                </div>
+              ) : null}
+
+              {profile?.websiteUrl || socialLinks.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {profile?.websiteUrl ? (
+                    <a
+                      href={profile.websiteUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex w-fit rounded-2xl bg-black px-4 py-2 text-sm font-semibold text-white hover:opacity-90"
+                    >
+                      Open website
+                    </a>
+                  ) : null}
+                  {socialLinks.map(([key, url]) => (
+                    <a
+                      key={key}
+                      href={url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex w-fit rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+                    >
+                      {formatSocialLabel(key)}
+                    </a>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          </section>
+
+          <PublicScheduleUpcomingList
+            title="Upcoming Slots"
+            items={items}
+            linkTo="resource"
+            emptyMessage="No upcoming slots are scheduled right now."
+          />
+        </main>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<PageProps> = async (ctx) => {
+  const slug = typeof ctx.params?.slug === "string" ? ctx.params.slug : "";
+  if (!slug) return { notFound: true };
+
+  const canonicalUrl = buildScheduleDetailCanonicalUrl(ctx.req, `/schedule/participants/${encodeURIComponent(slug)}`);
+
+  let participant: CommandPublicScheduleItem["participant"];
+  let items: CommandPublicScheduleItem[];
+  try {
+    // The participant is resolved on its own so one with no upcoming slots
+    // still gets a page with the empty state instead of a 404.
+    participant = (await commandPublicGetScheduleParticipant(slug)).participant;
+    items = await loadUpcomingScheduleItems({ participant: slug });
+  } catch (error: any) {
+    if (error instanceof CommandPublicApiError && error.status === 404) return { notFound: true };
+    // Degrade to an outage banner instead of a 404 so a Command outage does not
+    // tell crawlers and visitors that the participant page is gone.
+    console.error("[schedule-participant-page] failed to load schedule", {
+      slug,
+      error: error instanceof Error ? error.message : String(error),
+      status: typeof error?.status === "number" ? error.status : null,
+    });
+    return { props: { participant: null, items: [], profile: null, canonicalUrl } };
+  }
+
+  const profileFeed = await loadSchedulePartnerProfileFeed(ctx.req);
+
+  return {
+    props: {
+      participant,
+      items,
+      profile: findPartnerProfileFeedItem(profileFeed, participant),
+      canonicalUrl,
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import Link from "next/link";
+import BrandHead from "../../../components/BrandHead";
+import PublicSiteHeader from "../../../components/PublicSiteHeader";
+import PublicScheduleDetailUnavailable from "../../../components/publicSchedule/PublicScheduleDetailUnavailable";
+import PublicScheduleUpcomingList from "../../../components/publicSchedule/PublicScheduleUpcomingList";
+import type { CommandPublicScheduleItem, CommandPublicScheduleResourceType } from "../../../lib/commandPublicApi";
+import { buildScheduleDetailCanonicalUrl, loadUpcomingScheduleItems } from "../../../lib/publicScheduleDetail";
+
+type PageProps = {
+  resource: CommandPublicScheduleItem["resource"] | null;
+  locationLabel: string | null;
+  items: CommandPublicScheduleItem[];
+  canonicalUrl: string | null;
+};
+
+const resourceTypeLabels: Record<CommandPublicScheduleResourceType, string> = {
+  STAGE: "Stage",
+  FOOD_SPOT: "Food Spot",
+  MARKET_SPOT: "Market Spot",
+  OTHER: "Venue",
+};
+
+export default function PublicScheduleResourcePage({
+  resource,
+  locationLabel,
+  items,
+  canonicalUrl,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  if (!resource) {
+    return <PublicScheduleDetailUnavailable />;
+  }
+
+  const typeLabel = resourceTypeLabels[resource.type] || resource.type;
+  const seriesNames = Array.from(new Set(items.map((item) => item.eventSeries.name)));
+  const description = `${resource.name} (${typeLabel}) — ${items.length} upcoming slot${items.length === 1 ? "" : "s"}${
+    seriesNames.length > 0 ? ` across ${seriesNames.join(", ")}` : ""
+  }.`;
+
+  return (
+    <>
+      <BrandHead
+        title={`${resource.name} — Schedule — X Dragon`}
+        description={description}
+        canonicalUrl={canonicalUrl}
+        ogType="website"
+      />
+
+      <div className="min-h-screen bg-neutral-50 text-neutral-900">
+        <PublicSiteHeader />
+
+        <main className="mx-auto grid max-w-7xl gap-6 px-4 py-6 sm:px-6 lg:px-8">
+          <Link href="/schedule" className="text-sm font-semibold text-red-600 hover:text-red-700">
+            ← Back to schedule
+          </Link>
+
+          <section className="grid gap-4 rounded-[2rem] border border-neutral-200 bg-white p-8 shadow-sm">
+            <div>
+              <div className="text-sm font-semibold uppercase tracking-[0.16em] text-red-600">{typeLabel}</div>
+              <h1 className="mt-2 text-3xl font-semibold text-neutral-900">{resource.name}</h1>
+              {locationLabel && locationLabel !== resource.name ? (
+                <div className="mt-2 text-sm text-neutral-600">{locationLabel}</div>
+              ) : null}
+            </div>
+
+            {seriesNames.length > 0 ? (
+              <div className="flex flex-wrap gap-2 text-xs font-semibold text-neutral-600">
+                {seriesNames.map((name) => (
+                  <span key={name} className="rounded-full border border-neutral-200 bg-neutral-50 px-3 py-1">
+                    {name}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+
+            <a
+              href={`/api/schedule/ical?resource=${encodeURIComponent(resource.slug)}`}
+              className="inline-flex w-fit rounded-2xl border border-neutral-300 bg-white px-4 py-2 text-sm font-semibold text-neutral-800 hover:bg-neutral-50"
+            >
+              Subscribe (.ics)
+            </a>
+          </section>
+
+          <PublicScheduleUpcomingList
+            title="Upcoming Lineup"
+            items={items}
+            linkTo="participant"
+            emptyMessage="Nothing is scheduled here right now."
+          />
+        </main>
+      </div>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<PageProps> = async (ctx) => {
+  const slug = typeof ctx.params?.slug === "string" ? ctx.params.slug : "";
+  if (!slug) return { notFound: true };
+
+  const canonicalUrl = buildScheduleDetailCanonicalUrl(ctx.req, `/schedule/resources/${encodeURIComponent(slug)}`);
+
+  let items: CommandPublicScheduleItem[];
+  try {
+    items = await loadUpcomingScheduleItems({ resource: slug });
+  } catch (error: any) {
+    console.error("[schedule-resource-page] failed to load schedule", {
+      slug,
+      error: error instanceof Error ? error.message : String(error),
+      status: typeof error?.status === "number" ? error.status : null,
+    });
+    return { props: { resource: null, locationLabel: null, items: [], canonicalUrl } };
+  }
+
+  const resource = items[0]?.resource;
+  if (!resource) return { notFound: true };
+
+  return {
+    props: {
+      resource,
+      locationLabel: items[0]?.locationLabel || null,
+      items,
+      canonicalUrl,
+    },
+  };
+};
@@ -0,0 +1,5 @@
+import PortalJoinPage from "../../components/partnerPortal/PortalJoinPage";
+
+export default function SponsorJoinRoute() {
+  return <PortalJoinPage scope="sponsors" />;
+}
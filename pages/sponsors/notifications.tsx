@@ -0,0 +1,19 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import PortalNotificationsPage from "../../components/partnerPortal/PortalNotificationsPage";
+import { requirePartnerPortalPageSession } from "../../lib/partnerPortalPage";
+
+export const getServerSideProps: GetServerSideProps = async (ctx) => {
+  const result = await requirePartnerPortalPageSession(ctx, "sponsors");
+  if ("redirect" in result) return result;
+  return {
+    props: {
+      account: result.account,
+    },
+  };
+};
+
+export default function SponsorNotificationsRoute({
+  account,
+}: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  return <PortalNotificationsPage scope="sponsors" account={account} />;
+}
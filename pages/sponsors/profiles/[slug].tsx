@@ -0,0 +1,10 @@
+import type { GetServerSideProps, InferGetServerSidePropsType } from "next";
+import PublicPartnerProfilePage from "../../../components/publicSchedule/PublicPartnerProfilePage";
+import { loadPublicPartnerProfilePage, type PublicPartnerProfilePageProps } from "../../../lib/publicPartnerProfile";
+
+export const getServerSideProps: GetServerSideProps<PublicPartnerProfilePageProps> = (ctx) =>
+  loadPublicPartnerProfilePage(ctx, "sponsors");
+
+export default function SponsorPublicProfileRoute(props: InferGetServerSidePropsType<typeof getServerSideProps>) {
+  return <PublicPartnerProfilePage {...props} />;
+}
@@ -0,0 +1,28 @@
+-- Add WebAuthn security keys and passkeys as a backoffice MFA method.
+
+CREATE TABLE "BackofficeWebauthnCredential" (
+    "id" TEXT NOT NULL,
+    "backofficeUserId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "signCount" INTEGER NOT NULL DEFAULT 0,
+    "transports" TEXT[],
+    "aaguid" TEXT,
+    "backedUp" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BackofficeWebauthnCredential_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "BackofficeWebauthnCredential_credentialId_key"
+ON "BackofficeWebauthnCredential"("credentialId");
+
+CREATE INDEX "BackofficeWebauthnCredential_backofficeUserId_idx"
+ON "BackofficeWebauthnCredential"("backofficeUserId");
+
+ALTER TABLE "BackofficeWebauthnCredential"
+ADD CONSTRAINT "BackofficeWebauthnCredential_backofficeUserId_fkey"
+FOREIGN KEY ("backofficeUserId") REFERENCES "BackofficeUser"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- Add an organization-wide MFA enforcement policy for backoffice staff.
+
+CREATE TYPE "BackofficeMfaPolicyMode" AS ENUM ('OPTIONAL', 'ALL_STAFF', 'SCOPED');
+
+CREATE TABLE "BackofficeMfaPolicy" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "mode" "BackofficeMfaPolicyMode" NOT NULL DEFAULT 'OPTIONAL',
+    "requiredRoles" "BackofficeRole"[],
+    "requiredBrandIds" TEXT[],
+    "gracePeriodDays" INTEGER NOT NULL DEFAULT 7,
+    "enforcedSince" TIMESTAMP(3),
+    "updatedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BackofficeMfaPolicy_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,37 @@
+-- Add an append-only audit log for privileged backoffice actions.
+
+CREATE TABLE "BackofficeAuditLog" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorUserId" TEXT,
+    "actorUsername" TEXT,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "targetLabel" TEXT,
+    "brandId" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "metadata" JSONB,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BackofficeAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "BackofficeAuditLog_createdAt_idx" ON "BackofficeAuditLog"("createdAt");
+CREATE INDEX "BackofficeAuditLog_action_createdAt_idx" ON "BackofficeAuditLog"("action", "createdAt");
+CREATE INDEX "BackofficeAuditLog_actorUserId_createdAt_idx" ON "BackofficeAuditLog"("actorUserId", "createdAt");
+CREATE INDEX "BackofficeAuditLog_targetType_targetId_idx" ON "BackofficeAuditLog"("targetType", "targetId");
+CREATE INDEX "BackofficeAuditLog_brandId_createdAt_idx" ON "BackofficeAuditLog"("brandId", "createdAt");
+
+-- Entries are never edited or removed by the application; reject it at the database too.
+CREATE FUNCTION "BackofficeAuditLog_reject_change"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'BackofficeAuditLog is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "BackofficeAuditLog_append_only"
+    BEFORE UPDATE OR DELETE ON "BackofficeAuditLog"
+    FOR EACH ROW EXECUTE FUNCTION "BackofficeAuditLog_reject_change"();
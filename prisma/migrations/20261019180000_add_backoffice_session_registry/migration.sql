@@ -0,0 +1,14 @@
+-- Track backoffice sign-ins so sessions can be listed and revoked.
+
+ALTER TABLE "BackofficeUser" ADD COLUMN "sessionVersion" INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE "BackofficeSession"
+    ADD COLUMN "ip" TEXT,
+    ADD COLUMN "countryIso2" TEXT,
+    ADD COLUMN "countryName" TEXT,
+    ADD COLUMN "userAgent" TEXT,
+    ADD COLUMN "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    ADD COLUMN "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    ADD COLUMN "revokedAt" TIMESTAMP(3);
+
+CREATE INDEX "BackofficeSession_backofficeUserId_revokedAt_idx" ON "BackofficeSession"("backofficeUserId", "revokedAt");
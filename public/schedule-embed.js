@@ -0,0 +1,77 @@
+// public/schedule-embed.js
+// Drop-in loader for the schedule widgets served from /embed/[widget].
+//
+//   <div data-xdragon-schedule-embed="sponsor-images" data-feed="FEED_ID"></div>
+//   <script async src="https://<public host>/schedule-embed.js"></script>
+//
+// Widgets: lineup, schedule, sponsor-names, sponsor-images. Optional
+// attributes: data-feed, data-title, data-accent, and for "schedule" the
+// filters data-event-series, data-participant-type, data-resource,
+// data-resource-type and data-days. Each placeholder is replaced with an
+// iframe that resizes itself to the widget's height.
+
+(function () {
+  var RESIZE_MESSAGE = "xdragon-schedule-embed:resize";
+  var ATTRIBUTE_PARAMS = {
+    feed: "feed",
+    title: "title",
+    accent: "accent",
+    eventSeries: "eventSeries",
+    participantType: "participantType",
+    resource: "resource",
+    resourceType: "resourceType",
+    days: "days",
+  };
+
+  var script = document.currentScript;
+  var origin = script && script.src ? new URL(script.src).origin : window.location.origin;
+  var frames = {};
+  var counter = 0;
+
+  function mount(placeholder) {
+    var widget = placeholder.getAttribute("data-xdragon-schedule-embed");
+    if (!widget || placeholder.getAttribute("data-xdragon-mounted") === "true") return;
+
+    counter += 1;
+    var embedId = "xdragon-schedule-embed-" + counter;
+    var url = new URL("/embed/" + encodeURIComponent(widget), origin);
+    url.searchParams.set("embedId", embedId);
+
+    Object.keys(ATTRIBUTE_PARAMS).forEach(function (key) {
+      var value = placeholder.dataset[key];
+      if (value) url.searchParams.set(ATTRIBUTE_PARAMS[key], value);
+    });
+
+    var iframe = document.createElement("iframe");
+    iframe.src = url.toString();
+    iframe.title = placeholder.getAttribute("data-title") || "Schedule";
+    iframe.loading = "lazy";
+    iframe.style.width = "100%";
+    iframe.style.border = "0";
+    iframe.style.height = placeholder.getAttribute("data-height") || "420px";
+    iframe.setAttribute("scrolling", "no");
+
+    frames[embedId] = iframe;
+    placeholder.setAttribute("data-xdragon-mounted", "true");
+    placeholder.appendChild(iframe);
+  }
+
+  window.addEventListener("message", function (event) {
+    if (event.origin !== origin) return;
+    var data = event.data;
+    if (!data || data.type !== RESIZE_MESSAGE || typeof data.height !== "number") return;
+    var iframe = frames[data.embedId];
+    if (iframe) iframe.style.height = Math.ceil(data.height) + "px";
+  });
+
+  function mountAll() {
+    var placeholders = document.querySelectorAll("[data-xdragon-schedule-embed]");
+    for (var i = 0; i < placeholders.length; i += 1) mount(placeholders[i]);
+  }
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountAll);
+  } else {
+    mountAll();
+  }
+})();
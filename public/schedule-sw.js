@@ -0,0 +1,183 @@
+// public/schedule-sw.js
+// Service worker for the installable /schedule experience.
+//
+// - /schedule page navigations and /api/schedule/{calendar,list,feed} reads are
+//   network-first with the last good response kept as an offline fallback.
+//   A network that has not answered within NETWORK_TIMEOUT_MS is treated as
+//   offline when a cached copy exists; the request keeps running and refreshes
+//   the cache when it lands.
+// - Responses served from the cache carry X-Schedule-Cached-At so the page can
+//   show how old the data is.
+// - Hashed Next.js build assets are cache-first; they never change in place.
+//   Each deploy adds new hashes, so the oldest entries are evicted past
+//   MAX_ASSET_ENTRIES.
+
+const CACHE_VERSION = "v1";
+const PAGE_CACHE = `schedule-pages-${CACHE_VERSION}`;
+const DATA_CACHE = `schedule-data-${CACHE_VERSION}`;
+const ASSET_CACHE = `schedule-assets-${CACHE_VERSION}`;
+const KNOWN_CACHES = [PAGE_CACHE, DATA_CACHE, ASSET_CACHE];
+const CACHED_AT_HEADER = "X-Schedule-Cached-At";
+const MAX_DATA_ENTRIES = 60;
+const MAX_ASSET_ENTRIES = 150;
+const NETWORK_TIMEOUT_MS = 4000;
+
+const PRECACHE_URLS = ["/schedule", "/schedule.webmanifest", "/android-chrome-192x192.png", "/logo.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(PAGE_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("schedule-") && !KNOWN_CACHES.includes(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+function isScheduleDataRequest(url) {
+  return /^\/api\/schedule\/(calendar|list|feed)$/.test(url.pathname);
+}
+
+function isSchedulePageRequest(request, url) {
+  return request.mode === "navigate" && (url.pathname === "/schedule" || url.pathname.startsWith("/schedule/"));
+}
+
+// Client-side transitions between schedule pages fetch getServerSideProps
+// payloads from /_next/data instead of HTML.
+function isSchedulePagePropsRequest(url) {
+  return /^\/_next\/data\/[^/]+\/schedule(\/.*)?\.json$/.test(url.pathname);
+}
+
+function isBuildAssetRequest(url) {
+  return url.pathname.startsWith("/_next/static/");
+}
+
+async function stampResponse(response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, new Date().toISOString());
+  const body = await response.clone().blob();
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  if (keys.length <= maxEntries) return;
+  await Promise.all(keys.slice(0, keys.length - maxEntries).map((key) => cache.delete(key)));
+}
+
+async function fetchAndCache(request, cache, cacheName) {
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, await stampResponse(response));
+    if (cacheName === DATA_CACHE) void trimCache(DATA_CACHE, MAX_DATA_ENTRIES);
+  }
+  return response;
+}
+
+async function matchCached(request, cache, cacheName) {
+  const cached = await cache.match(request, { ignoreVary: true });
+  if (cached) return cached;
+
+  // Any cached schedule page is better than the browser offline screen.
+  if (cacheName === PAGE_CACHE) {
+    return cache.match("/schedule", { ignoreSearch: true, ignoreVary: true });
+  }
+  return undefined;
+}
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const network = fetchAndCache(request, cache, cacheName);
+
+  // Captive portals and bad venue wifi can leave a request hanging for a
+  // long time; fall back to the cache instead of waiting on them.
+  let timer;
+  const timedOut = await Promise.race([
+    network.then(
+      () => false,
+      () => false
+    ),
+    new Promise((resolve) => {
+      timer = setTimeout(() => resolve(true), NETWORK_TIMEOUT_MS);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (timedOut) {
+    const cached = await matchCached(request, cache, cacheName);
+    if (cached) {
+      network.catch(() => undefined);
+      return cached;
+    }
+  }
+
+  try {
+    const response = await network;
+    if (response.ok) return response;
+
+    // Upstream outages surface as 5xx from the BFF; keep showing the last good copy.
+    if (response.status >= 500) {
+      const cached = await cache.match(request, { ignoreVary: true });
+      if (cached) return cached;
+    }
+    return response;
+  } catch (error) {
+    const cached = await matchCached(request, cache, cacheName);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    void trimCache(ASSET_CACHE, MAX_ASSET_ENTRIES);
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (isScheduleDataRequest(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+    return;
+  }
+
+  if (isSchedulePageRequest(request, url) || isSchedulePagePropsRequest(url)) {
+    event.respondWith(networkFirst(request, PAGE_CACHE));
+    return;
+  }
+
+  if (isBuildAssetRequest(url)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,1401 @@
+#!/usr/bin/env node
+
+// scripts/mock-command-api.js
+// Local stand-in for the Command public API so the site and its BFF routes can
+// run without a Command deployment. State lives in memory and is re-seeded on
+// start (or POST /__mock/reset).
+//
+//   npm run mock:command
+//   COMMAND_PUBLIC_API_BASE_URL=http://127.0.0.1:4010 COMMAND_PUBLIC_INTEGRATION_KEY=local-mock-key npm run dev
+//
+// Scenario toggles (env at start, or POST /__mock/scenario at runtime):
+//   MOCK_COMMAND_DELAY_MS=1500                     delay every response
+//   MOCK_COMMAND_FAIL=/api/v1/schedule=503,/api/v1/chat=500@0.5
+//                                                  fail matching path prefixes
+//                                                  with a status, optionally at
+//                                                  a rate between 0 and 1
+//   MOCK_COMMAND_HANG=/api/v1/runtime/host         never answer (timeouts)
+//
+// Upload toggles (env at start only):
+//   MOCK_COMMAND_UPLOAD_TTL_SECONDS=30             upload URLs expire sooner
+//                                                  (default 900)
+//   MOCK_COMMAND_MULTIPART_THRESHOLD_BYTES=1048576 documents at least this big
+//                                                  get multipart sessions
+//                                                  (default 8 MB, 5 MB parts)
+
+const crypto = require("crypto");
+const http = require("http");
+const { addDays, buildSeedState } = require("./mock-command-api/fixtures");
+
+const PORT = Number.parseInt(process.env.MOCK_COMMAND_PORT || "4010", 10);
+const INTEGRATION_KEY = process.env.MOCK_COMMAND_INTEGRATION_KEY || "local-mock-key";
+const ORIGIN = `http://127.0.0.1:${PORT}`;
+const UPLOAD_TTL_MS = (Number.parseInt(process.env.MOCK_COMMAND_UPLOAD_TTL_SECONDS || "", 10) || 900) * 1000;
+const MULTIPART_THRESHOLD_BYTES = Number.parseInt(process.env.MOCK_COMMAND_MULTIPART_THRESHOLD_BYTES || "", 10) || 8 * 1024 * 1024;
+const MULTIPART_PART_BYTES = Math.min(5 * 1024 * 1024, MULTIPART_THRESHOLD_BYTES);
+
+let state = buildSeedState();
+let scenario = readScenarioFromEnv();
+
+class MockHttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function parsePrefixList(value) {
+  return String(value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function readScenarioFromEnv() {
+  return {
+    delayMs: Number.parseInt(process.env.MOCK_COMMAND_DELAY_MS || "0", 10) || 0,
+    failures: parsePrefixList(process.env.MOCK_COMMAND_FAIL).map((entry) => {
+      const [prefix, spec = "503"] = entry.split("=");
+      const [status, rate = "1"] = spec.split("@");
+      return { prefix, status: Number(status) || 503, rate: Number(rate) };
+    }),
+    hang: parsePrefixList(process.env.MOCK_COMMAND_HANG),
+  };
+}
+
+function sendJson(res, status, payload) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(payload));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+async function readJsonBody(req) {
+  const raw = await readBody(req);
+  if (!raw.length) return {};
+  try {
+    return JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw new MockHttpError(400, "Invalid JSON body");
+  }
+}
+
+function newToken(prefix) {
+  return `${prefix}_${crypto.randomBytes(18).toString("hex")}`;
+}
+
+function sessionExpiry() {
+  return new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function requireSession(req, kind, scope) {
+  const token = req.headers["x-command-session"];
+  const session = typeof token === "string" ? state.sessions[token] : null;
+  if (!session || session.kind !== kind || (scope && session.scope !== scope)) {
+    throw new MockHttpError(401, "Unauthorized");
+  }
+  return session;
+}
+
+function requirePublicAccount(req) {
+  const session = requireSession(req, "public");
+  return state.publicAccounts.find((entry) => entry.account.id === session.accountId).account;
+}
+
+function requirePartner(req, scope) {
+  const session = requireSession(req, "partner", scope);
+  return state.partners.find((entry) => entry.account.id === session.accountId);
+}
+
+// Team member sessions point accountId at the owner's partner (so every data
+// route works unchanged) and memberId at the member's own login.
+function requirePartnerActor(req, scope) {
+  const partner = requirePartner(req, scope);
+  const session = state.sessions[req.headers["x-command-session"]];
+  const member = session.memberId ? state.teamMembers.find((entry) => entry.account.id === session.memberId) : null;
+  if (session.memberId && !member) throw new MockHttpError(401, "Unauthorized");
+  return { partner, actor: member ? member.account : partner.account };
+}
+
+const EDITOR_ROLES = ["OWNER", "EDITOR"];
+
+function requirePartnerRole(req, scope, roles) {
+  const result = requirePartnerActor(req, scope);
+  if (!roles.includes(result.actor.teamRole)) {
+    throw new MockHttpError(403, roles.includes("EDITOR") ? "Viewers cannot make changes" : "Only owners can manage the team");
+  }
+  return result;
+}
+
+function recordPartnerActivity(partner, actor, action, summary) {
+  const entry = {
+    id: `act_${crypto.randomBytes(6).toString("hex")}`,
+    action,
+    summary,
+    actor: actor ? { partnerUserId: actor.id, email: actor.email, memberName: actor.memberName } : null,
+    occurredAt: new Date().toISOString(),
+  };
+  state.partnerActivity[partner.account.id] = [entry, ...(state.partnerActivity[partner.account.id] || [])];
+}
+
+function publicTeamMember(account) {
+  const status = account.status || "ACTIVE";
+  return {
+    partnerUserId: account.id,
+    email: account.email,
+    memberName: account.memberName,
+    role: account.teamRole,
+    status,
+    joinedAt: account.createdAt,
+    lastLoginAt: account.lastLoginAt,
+  };
+}
+
+function publicTeamInvitation({ token, scope, ownerAccountId, ...invitation }) {
+  return invitation;
+}
+
+function findTeamInvitation(scope, token) {
+  const invitation = state.teamInvitations.find((entry) => entry.scope === scope && entry.token === token);
+  if (!invitation || invitation.expiresAt <= new Date().toISOString()) {
+    throw new MockHttpError(404, "This invitation is invalid or has expired");
+  }
+  return invitation;
+}
+
+function partnerEmailTaken(email) {
+  return [...state.partners, ...state.teamMembers].some((entry) => entry.account.email === email);
+}
+
+// ---------------------------------------------------------------------------
+// Schedule
+
+function filterScheduleItems(query) {
+  const from = query.get("from") || state.today;
+  const to = query.get("to") || addDays(from, 30);
+  const date = query.get("date") || query.get("occurrenceDate");
+  const needle = (query.get("q") || "").trim().toLowerCase();
+  const limit = Number.parseInt(query.get("limit") || "150", 10) || 150;
+  const offset = Math.max(0, Number.parseInt(query.get("cursor") || "0", 10) || 0);
+  const ids = (query.get("ids") || "").split(",").filter(Boolean);
+
+  const items = state.scheduleItems.filter((item) => {
+    if (date ? item.occursOn !== date : item.occursOn < from || item.occursOn > to) return false;
+    if (query.get("eventSeries") && item.eventSeries.slug !== query.get("eventSeries")) return false;
+    if (query.get("participantType") && item.participant.type !== query.get("participantType")) return false;
+    if (query.get("resource") && item.resource.slug !== query.get("resource")) return false;
+    if (query.get("resourceType") && item.resource.type !== query.get("resourceType")) return false;
+    if (query.get("participant") && item.participant.slug !== query.get("participant")) return false;
+    if (query.get("participantId") && item.participant.id !== query.get("participantId")) return false;
+    if (ids.length > 0 && !ids.includes(item.id)) return false;
+    if (query.get("location") && !item.locationLabel.toLowerCase().includes(query.get("location").toLowerCase())) return false;
+    if (needle && !`${item.title} ${item.locationLabel} ${item.participant.displayName}`.toLowerCase().includes(needle)) return false;
+    return true;
+  });
+
+  items.sort((a, b) => a.occursOn.localeCompare(b.occursOn) || a.startsAtMinutes - b.startsAtMinutes);
+  return {
+    ok: true,
+    range: { from: date || from, to: date || to },
+    items: items.slice(offset, offset + limit),
+    nextCursor: offset + limit < items.length ? String(offset + limit) : null,
+  };
+}
+
+function sponsorImageUrl(sponsorId) {
+  return `${ORIGIN}/__mock/images/${encodeURIComponent(sponsorId)}.svg`;
+}
+
+function buildFeed(feedId) {
+  if (feedId === "lineup") {
+    const horizon = addDays(state.today, 7);
+    return {
+      ok: true,
+      feedId,
+      source: "ASSIGNMENTS",
+      includeProfileImages: false,
+      onlyProfileImages: false,
+      items: state.scheduleItems
+        .filter((item) => !item.allDay && item.occursOn <= horizon)
+        .map((item) => ({
+          source: "ASSIGNMENTS",
+          occurrenceDate: item.occursOn,
+          resourceName: item.resource.name,
+          participantName: item.participant.displayName,
+          timeslot: item.timeLabel,
+          locationId: state.resources.find((resource) => resource.id === item.resource.id).locationId,
+        })),
+    };
+  }
+
+  if (feedId === "sponsors") {
+    const series = state.eventSeries[0];
+    return {
+      ok: true,
+      feedId,
+      source: "SPONSORS",
+      includeProfileImages: true,
+      onlyProfileImages: false,
+      items: state.sponsors.map((sponsor) => ({
+        source: "SPONSORS",
+        partnerKind: "SPONSOR",
+        partnerProfileId: sponsor.id,
+        displayName: sponsor.name,
+        description: `${sponsor.name} supports live music in the city.`,
+        websiteUrl: sponsor.website,
+        socialLinks: null,
+        eventSeriesId: series.id,
+        eventSeriesName: series.name,
+        sponsorName: sponsor.name,
+        sponsorWebsite: sponsor.website,
+        sponsorDescription: `${sponsor.name} supports live music in the city.`,
+        profileImageUrl: sponsorImageUrl(sponsor.id),
+        hasProfileImage: true,
+      })),
+    };
+  }
+
+  if (feedId === "partner-profiles") {
+    const series = state.eventSeries[0];
+    return {
+      ok: true,
+      feedId,
+      source: "PARTNER_PROFILES",
+      includeProfileImages: false,
+      onlyProfileImages: false,
+      items: state.participants.map((participant) => ({
+        source: "PARTNER_PROFILES",
+        partnerKind: "PARTICIPANT",
+        partnerProfileId: participant.id,
+        displayName: participant.displayName,
+        description: `${participant.displayName} is a regular at ${series.name}.`,
+        websiteUrl: "https://example.com",
+        socialLinks: { instagram: "https://instagram.com/example" },
+        profileImageUrl: null,
+        hasProfileImage: false,
+        eventSeriesId: series.id,
+        eventSeriesName: series.name,
+        participantType: participant.type,
+      })),
+    };
+  }
+
+  throw new MockHttpError(404, "Feed not found");
+}
+
+function sponsorSlug(sponsor) {
+  return sponsor.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// Public profile pages: signed-up partners use their portal profile, the rest of
+// the seeded schedule participants and sponsors get a minimal one.
+function buildPublicPartnerProfile(scope, slug) {
+  const partner = state.partners.find((entry) => entry.scope === scope && entry.account.slug === slug);
+  const series = state.eventSeries[0];
+  const base = {
+    summary: null,
+    description: null,
+    websiteUrl: null,
+    socialLinks: null,
+    profileImageUrl: null,
+    hasProfileImage: false,
+    livePerformanceVideoUrl: null,
+    participantType: null,
+    entertainmentGenres: [],
+    foodStyle: null,
+    marketType: null,
+    productServiceType: null,
+    eventSeries: [{ id: series.id, name: series.name }],
+  };
+
+  if (partner) {
+    const profile = state.partnerProfiles[partner.account.id];
+    const image = Object.values(state.assets).find((entry) => entry.ownerId === partner.account.id && entry.kind === "PROFILE_IMAGE");
+    const latestPayload = (state.applications[partner.account.id] || [])[0]?.applicationPayload;
+    return {
+      ...base,
+      partnerProfileId: partner.account.partnerProfileId,
+      partnerKind: partner.account.kind,
+      slug: profile.slug,
+      displayName: profile.displayName,
+      summary: profile.summary || null,
+      description: profile.description,
+      websiteUrl: profile.mainWebsiteUrl,
+      socialLinks: profile.socialLinks,
+      profileImageUrl: image ? `${ORIGIN}/__mock/uploads/${image.objectKey}` : partner.account.kind === "SPONSOR" ? sponsorImageUrl(partner.account.partnerProfileId) : null,
+      hasProfileImage: Boolean(image) || partner.account.kind === "SPONSOR",
+      livePerformanceVideoUrl: latestPayload?.livePerformanceVideoUrl || profile.socialLinks?.youtube || null,
+      participantType: profile.participantType || null,
+      entertainmentGenres: profile.entertainmentGenres || [],
+      foodStyle: profile.foodStyle || null,
+      marketType: profile.marketType || null,
+      productServiceType: profile.productServiceType || null,
+    };
+  }
+
+  if (scope === "sponsors") {
+    const sponsor = state.sponsors.find((entry) => sponsorSlug(entry) === slug);
+    if (!sponsor) throw new MockHttpError(404, "Profile not found");
+    return {
+      ...base,
+      partnerProfileId: sponsor.id,
+      partnerKind: "SPONSOR",
+      slug,
+      displayName: sponsor.name,
+      description: `${sponsor.name} supports live music in the city.`,
+      websiteUrl: sponsor.website,
+      profileImageUrl: sponsorImageUrl(sponsor.id),
+      hasProfileImage: true,
+    };
+  }
+
+  const participant = state.participants.find((entry) => entry.slug === slug);
+  if (!participant) throw new MockHttpError(404, "Profile not found");
+  return {
+    ...base,
+    partnerProfileId: participant.id,
+    partnerKind: "PARTICIPANT",
+    slug,
+    displayName: participant.displayName,
+    description: `${participant.displayName} is a regular at ${series.name}.`,
+    participantType: participant.type,
+  };
+}
+
+function renderSponsorImage(sponsorId) {
+  const sponsor = state.sponsors.find((entry) => entry.id === sponsorId);
+  if (!sponsor) throw new MockHttpError(404, "Image not found");
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="160" viewBox="0 0 320 160"><rect width="320" height="160" rx="16" fill="${sponsor.color}"/><text x="160" y="88" font-family="sans-serif" font-size="22" font-weight="700" fill="#fff" text-anchor="middle">${sponsor.name.replace(/&/g, "&amp;")}</text></svg>`;
+}
+
+// ---------------------------------------------------------------------------
+// Partner portal
+
+function partnerAvailability(partner, eventSeriesId) {
+  const series = state.eventSeries.find((entry) => entry.id === eventSeriesId);
+  if (!series) throw new MockHttpError(404, "Event series not found");
+  const key = `${partner.account.id}:${eventSeriesId}`;
+  const available = new Set(state.availability[key] || []);
+  const assigned = new Set(
+    state.scheduleItems
+      .filter((item) => item.participant.id === partner.account.partnerProfileId && item.eventSeries.id === eventSeriesId)
+      .map((item) => item.occursOn)
+  );
+
+  return {
+    ok: true,
+    eventSeriesId,
+    eventSeriesName: series.name,
+    entries: state.occurrenceDates.map((date) => ({
+      date,
+      available: available.has(date),
+      assigned: assigned.has(date),
+    })),
+  };
+}
+
+function createUploadSession(assetKind, body) {
+  const objectKey = `mock/${assetKind.toLowerCase()}/${crypto.randomBytes(8).toString("hex")}/${encodeURIComponent(body.fileName || "upload")}`;
+  const expiresAtMs = Date.now() + UPLOAD_TTL_MS;
+  const sizeBytes = Number(body.sizeBytes) || 0;
+  let multipart = null;
+  if (assetKind === "DOCUMENT" && sizeBytes >= MULTIPART_THRESHOLD_BYTES) {
+    const uploadId = `mpu_${crypto.randomBytes(6).toString("hex")}`;
+    const partCount = Math.ceil(sizeBytes / MULTIPART_PART_BYTES);
+    multipart = {
+      uploadId,
+      partSizeBytes: MULTIPART_PART_BYTES,
+      parts: Array.from({ length: partCount }, (_, index) => ({
+        partNumber: index + 1,
+        uploadUrl: `${ORIGIN}/__mock/uploads/${objectKey}?uploadId=${uploadId}&partNumber=${index + 1}&expires=${expiresAtMs}`,
+      })),
+    };
+  }
+  return {
+    assetKind,
+    storageBucket: assetKind === "PROFILE_IMAGE" ? "PUBLIC_MEDIA" : "PRIVATE_DOCUMENTS",
+    objectKey,
+    uploadMethod: "PUT",
+    uploadUrl: `${ORIGIN}/__mock/uploads/${objectKey}?expires=${expiresAtMs}`,
+    uploadHeaders: { "Content-Type": body.mimeType || "application/octet-stream" },
+    expiresAt: new Date(expiresAtMs).toISOString(),
+    anticipatedPublicUrl: assetKind === "PROFILE_IMAGE" ? `${ORIGIN}/__mock/uploads/${objectKey}` : null,
+    multipart,
+  };
+}
+
+// Stitches uploaded parts together the way S3 CompleteMultipartUpload does.
+function completeMultipartUpload(body) {
+  const parts = Array.isArray(body.multipartParts) ? body.multipartParts : [];
+  const stored = multipartUploads.get(body.multipartUploadId) || new Map();
+  const buffers = [];
+  for (const part of parts.slice().sort((a, b) => a.partNumber - b.partNumber)) {
+    const entry = stored.get(Number(part.partNumber));
+    if (!entry || entry.etag !== part.etag) throw new MockHttpError(400, `Part ${part.partNumber} is missing or its ETag does not match`);
+    buffers.push(entry.body);
+  }
+  if (buffers.length === 0) throw new MockHttpError(400, "multipartParts is required");
+  uploads.set(body.objectKey, { body: Buffer.concat(buffers), contentType: body.mimeType || "application/octet-stream" });
+  multipartUploads.delete(body.multipartUploadId);
+}
+
+function finalizeAsset(partner, assetKind, body) {
+  if (!body.objectKey) throw new MockHttpError(400, "objectKey is required");
+  if (body.multipartUploadId) completeMultipartUpload(body);
+  const now = new Date().toISOString();
+  const asset = {
+    id: `asset_${crypto.randomBytes(6).toString("hex")}`,
+    kind: assetKind,
+    storageBucket: assetKind === "PROFILE_IMAGE" ? "PUBLIC_MEDIA" : "PRIVATE_DOCUMENTS",
+    fileName: body.fileName || "upload",
+    mimeType: body.mimeType || "application/octet-stream",
+    sizeBytes: Number(body.sizeBytes) || 0,
+    imageWidth: body.imageWidth ?? null,
+    imageHeight: body.imageHeight ?? null,
+    publicUrl: assetKind === "PROFILE_IMAGE" ? `${ORIGIN}/__mock/uploads/${body.objectKey}` : null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  state.assets[asset.id] = { ...asset, objectKey: body.objectKey, ownerId: partner.account.id };
+  return asset;
+}
+
+const PENDING_APPLICATION_STATUSES = new Set(["SUBMITTED", "IN_REVIEW"]);
+
+function findPartnerApplication(partner, applicationId) {
+  const application = (state.applications[partner.account.id] || []).find((entry) => entry.id === decodeURIComponent(applicationId));
+  if (!application) throw new MockHttpError(404, "Application not found");
+  return application;
+}
+
+function publicAsset(asset) {
+  const { objectKey, ownerId, ...summary } = asset;
+  return summary;
+}
+
+const NOTIFICATION_TYPES = ["APPLICATION_STATUS_CHANGED", "APPLICATION_MESSAGE", "REQUIREMENT_REJECTED", "REQUIREMENT_EXPIRING", "REQUIREMENT_EXPIRED"];
+
+function humanizeRequirementType(value) {
+  const words = value.replaceAll("_", " ").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function daysBetween(fromDate, toDate) {
+  return Math.round((Date.parse(`${toDate.slice(0, 10)}T00:00:00Z`) - Date.parse(`${fromDate.slice(0, 10)}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+function notificationPreferences(partnerUserId) {
+  return state.notificationPreferences[partnerUserId] || { emailDigestFrequency: "OFF", emailTypes: [...NOTIFICATION_TYPES] };
+}
+
+function publicNotification(notification) {
+  const { emailedAt, ...summary } = notification;
+  return summary;
+}
+
+function pushNotification(partnerUserId, fields) {
+  const notification = {
+    id: `ntf_${crypto.randomBytes(6).toString("hex")}`,
+    body: "",
+    linkPath: null,
+    applicationId: null,
+    requirementType: null,
+    createdAt: new Date().toISOString(),
+    readAt: null,
+    emailedAt: null,
+    ...fields,
+  };
+  state.notifications[partnerUserId] = [notification, ...(state.notifications[partnerUserId] || [])];
+  return notification;
+}
+
+// ---------------------------------------------------------------------------
+// Routes. Each handler receives { req, url, params, body } and returns a JSON
+// payload, or undefined for 204.
+
+const PARTNER_SCOPE = "(partners|sponsors)";
+
+const routes = [
+  ["GET", "/api/v1/runtime/host", ({ url }) => {
+    const host = (url.searchParams.get("host") || "").toLowerCase();
+    // Loopback hosts stay unmapped so middleware never redirects local dev.
+    const isLocal = !host || host.startsWith("localhost") || host.startsWith("127.");
+    if (isLocal) {
+      return {
+        ok: true,
+        config: { requestHost: host, brandKey: null, runtime: null, canonicalPublicHost: host || null, canonicalAdminHost: host || null, allowedHosts: host ? [host] : [], resolvedFromBrandRegistry: false },
+      };
+    }
+    const apexHost = host.replace(/^(www|admin)\./, "");
+    const runtime = {
+      source: "database",
+      ...state.brand,
+      status: "ACTIVE",
+      environment: "preview",
+      matchedHost: host,
+      canonicalPublicHost: `www.${apexHost}`,
+      canonicalAdminHost: `admin.${apexHost}`,
+      apexHost,
+      isAdminHost: host.startsWith("admin."),
+    };
+    return {
+      ok: true,
+      config: {
+        requestHost: host,
+        brandKey: state.brand.brandKey,
+        runtime,
+        canonicalPublicHost: runtime.canonicalPublicHost,
+        canonicalAdminHost: runtime.canonicalAdminHost,
+        allowedHosts: [apexHost, runtime.canonicalPublicHost, runtime.canonicalAdminHost],
+        resolvedFromBrandRegistry: true,
+      },
+    };
+  }],
+
+  // Public accounts
+  ["POST", "/api/v1/auth/register", ({ body }) => {
+    if (!body.email || !body.password) throw new MockHttpError(400, "Email and password are required");
+    if (state.publicAccounts.some((entry) => entry.account.email === String(body.email).toLowerCase())) {
+      throw new MockHttpError(409, "An account with this email already exists");
+    }
+    const now = new Date().toISOString();
+    const account = { id: `acct_${crypto.randomBytes(6).toString("hex")}`, brandKey: state.brand.brandKey, email: String(body.email).toLowerCase(), name: body.name || null, status: "ACTIVE", emailVerified: false, createdAt: now, updatedAt: now, lastLoginAt: null };
+    const token = newToken("verify");
+    state.publicAccounts.push({ password: body.password, account, verificationToken: token });
+    console.log(`[mock-command] verification link token for ${account.email}: ${token}`);
+    return { ok: true, verificationRequired: true };
+  }],
+  ["POST", "/api/v1/auth/verify-email", ({ body }) => {
+    const entry = state.publicAccounts.find((candidate) => candidate.verificationToken && candidate.verificationToken === body.token);
+    if (!entry) throw new MockHttpError(400, "Verification link is invalid or expired");
+    entry.account.emailVerified = true;
+    entry.verificationToken = null;
+    return { ok: true, verified: true };
+  }],
+  ["POST", "/api/v1/auth/password/forgot", ({ body }) => {
+    console.log(`[mock-command] password reset requested for ${body.email}`);
+    return { ok: true };
+  }],
+  ["POST", "/api/v1/auth/password/reset", () => ({ ok: true })],
+  ["POST", "/api/v1/auth/login", ({ body }) => {
+    const entry = state.publicAccounts.find((candidate) => candidate.account.email === String(body.email || "").toLowerCase());
+    if (!entry || entry.password !== body.password) throw new MockHttpError(401, "Invalid email or password");
+    if (!entry.account.emailVerified) throw new MockHttpError(403, "Verify your email before signing in");
+    entry.account.lastLoginAt = new Date().toISOString();
+    const token = newToken("pub");
+    const expiresAt = sessionExpiry();
+    state.sessions[token] = { kind: "public", accountId: entry.account.id, expiresAt };
+    return { ok: true, session: { token, expiresAt }, account: entry.account };
+  }],
+  ["GET", "/api/v1/auth/session", ({ req }) => ({ ok: true, account: requirePublicAccount(req) })],
+  ["POST", "/api/v1/auth/logout", ({ req }) => {
+    delete state.sessions[req.headers["x-command-session"]];
+  }],
+  ["GET", "/api/v1/account/schedule-favorites", ({ req }) => {
+    const account = requirePublicAccount(req);
+    return { ok: true, favorites: state.favorites[account.id] || [] };
+  }],
+  ["POST", "/api/v1/account/schedule-favorites", ({ req, body }) => {
+    const account = requirePublicAccount(req);
+    const now = new Date().toISOString();
+    state.favorites[account.id] = (Array.isArray(body.favorites) ? body.favorites : []).map((favorite) => ({
+      scheduleItemId: favorite.scheduleItemId,
+      occursOn: favorite.occursOn,
+      createdAt: favorite.createdAt || now,
+    }));
+    return { ok: true, favorites: state.favorites[account.id] };
+  }],
+
+  // Public content
+  ["GET", "/api/v1/schedule/calendar", ({ url }) => filterScheduleItems(url.searchParams)],
+  ["GET", "/api/v1/schedule/list", ({ url }) => filterScheduleItems(url.searchParams)],
+  ["GET", /^\/api\/v1\/schedule\/participants\/([^/]+)$/, ({ params }) => {
+    const participant = state.participants.find((entry) => entry.slug === decodeURIComponent(params[0]));
+    if (!participant) throw new MockHttpError(404, "Participant not found");
+    return {
+      ok: true,
+      participant: { id: participant.id, slug: participant.slug, displayName: participant.displayName, type: participant.type },
+    };
+  }],
+  ["GET", /^\/api\/v1\/schedule\/feeds\/([^/]+)$/, ({ params }) => buildFeed(decodeURIComponent(params[0]))],
+  ["GET", "/api/v1/resources/prompts", ({ req }) => {
+    requirePublicAccount(req);
+    return { ok: true, items: state.prompts };
+  }],
+  ["GET", "/api/v1/resources/guides", ({ req }) => {
+    requirePublicAccount(req);
+    return { ok: true, items: state.guides.map(({ body, ...item }) => item) };
+  }],
+  ["GET", /^\/api\/v1\/resources\/guides\/([^/]+)$/, ({ req, params }) => {
+    requirePublicAccount(req);
+    const item = state.guides.find((guide) => guide.slug === decodeURIComponent(params[0]));
+    if (!item) throw new MockHttpError(404, "Guide not found");
+    return { ok: true, item };
+  }],
+  ["POST", "/api/v1/contact", ({ body }) => {
+    console.log("[mock-command] contact submission", { name: body.name, email: body.email });
+    return { ok: true, id: `contact_${Date.now()}`, notification: "deferred" };
+  }],
+  ["POST", "/api/v1/chat", ({ body }) => {
+    const lastMessage = Array.isArray(body.messages) ? body.messages[body.messages.length - 1] : null;
+    return {
+      ok: true,
+      reply: `This is the local mock assistant. You said: "${lastMessage?.content || ""}"`,
+      lead: { name: null, email: null, phone: null, company: null, website: null, preferred_contact: null, ...(body.lead || {}) },
+      returnId: body.conversationId || `conv_${Date.now()}`,
+      emailed: false,
+    };
+  }],
+  ["GET", "/api/v1/analytics/consent-notice", () => ({
+    ok: true,
+    notice: { id: "notice_local", version: 1, status: "PUBLISHED", title: "Analytics on this site", message: "We use first-party analytics to improve the schedule.", acceptLabel: "Accept", declineLabel: "Decline", publishedAt: state.occurrenceDates[0], updatedAt: state.occurrenceDates[0] },
+  })],
+  ["POST", "/api/v1/analytics/collect", ({ req, body }) => ({
+    ok: true,
+    sessionId: String(req.headers["x-command-website-session"] || "mock-website-session"),
+    acceptedEvents: Array.isArray(body.events) ? body.events.length : 0,
+    duplicateEvents: 0,
+  })],
+
+  // Partner and sponsor portals
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/auth/register$`), ({ body }) => {
+    console.log("[mock-command] partner registration", { email: body.email, kind: body.kind });
+    return { ok: true, verificationRequired: true };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/auth/verify-email$`), () => ({ ok: true, verified: true })],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/auth/login$`), ({ params, body }) => {
+    const email = String(body.email || "").toLowerCase();
+    const entry = [...state.partners, ...state.teamMembers].find((candidate) => candidate.scope === params[0] && candidate.account.email === email);
+    if (!entry || entry.password !== body.password) throw new MockHttpError(401, "Invalid email or password");
+    entry.account.lastLoginAt = new Date().toISOString();
+    const token = newToken("ptr");
+    const expiresAt = sessionExpiry();
+    state.sessions[token] = entry.ownerAccountId
+      ? { kind: "partner", scope: params[0], accountId: entry.ownerAccountId, memberId: entry.account.id, expiresAt }
+      : { kind: "partner", scope: params[0], accountId: entry.account.id, expiresAt };
+    return { ok: true, session: { token, expiresAt }, account: entry.account };
+  }],
+  // Server-to-server (integration key only): mails only verified account addresses.
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/auth/lockout-notice$`), ({ params, body }) => {
+    const email = String(body.email || "").toLowerCase();
+    const entry = [...state.partners, ...state.teamMembers].find((candidate) => candidate.scope === params[0] && candidate.account.email === email);
+    if (entry && entry.account.emailVerifiedAt) {
+      console.log("[mock-command] lockout notice", { email, lockedUntil: body.lockedUntil, ip: body.ip || null });
+    }
+    return { ok: true };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/auth/session$`), ({ req, params }) => ({ ok: true, account: requirePartnerActor(req, params[0]).actor })],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/auth/change-password$`), ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerActor(req, params[0]);
+    const login = [partner, ...state.teamMembers].find((entry) => entry.account === actor);
+    login.password = String(body.password || login.password);
+    login.account.passwordChangeRequired = false;
+    return { ok: true, account: login.account };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/auth/logout$`), ({ req }) => {
+    delete state.sessions[req.headers["x-command-session"]];
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/public-profiles/([^/]+)$`), ({ params }) => ({
+    ok: true,
+    profile: buildPublicPartnerProfile(params[0], decodeURIComponent(params[1])),
+  })],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/profile$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    return { ok: true, profile: state.partnerProfiles[partner.account.id] };
+  }],
+  ["PATCH", new RegExp(`^/api/v1/${PARTNER_SCOPE}/profile$`), ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], EDITOR_ROLES);
+    recordPartnerActivity(partner, actor, "PROFILE_UPDATED", "updated the profile");
+    const profile = { ...state.partnerProfiles[partner.account.id], ...body, account: partner.account };
+    state.partnerProfiles[partner.account.id] = profile;
+    return { ok: true, profile };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    return { ok: true, account: partner.account, applications: state.applications[partner.account.id] || [], availableEvents: state.eventOptions };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications$`), ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], EDITOR_ROLES);
+    const event = state.eventOptions.find((option) => option.id === body.scheduleEventSeriesId);
+    if (!event) throw new MockHttpError(400, "Unknown event series");
+    recordPartnerActivity(partner, actor, "APPLICATION_SUBMITTED", `submitted an application for ${event.name}`);
+    const now = new Date().toISOString();
+    const application = {
+      id: `app_${crypto.randomBytes(6).toString("hex")}`,
+      applicationKind: partner.account.kind,
+      status: "SUBMITTED",
+      applicationVersion: 1,
+      applicationPayload: body.applicationPayload || null,
+      submittedProfileSnapshot: state.partnerProfiles[partner.account.id],
+      submittedAt: now,
+      approvedAt: null,
+      rejectedAt: null,
+      withdrawnAt: null,
+      event,
+      externalNotes: [],
+    };
+    state.applications[partner.account.id] = [application, ...(state.applications[partner.account.id] || [])];
+    state.applicationVersions[application.id] = [{ applicationVersion: 1, applicationPayload: application.applicationPayload, submittedAt: now }];
+    state.applicationDrafts[partner.account.id] = (state.applicationDrafts[partner.account.id] || []).filter(
+      (draft) => draft.scheduleEventSeriesId !== event.id
+    );
+    return { ok: true, application };
+  }],
+  ["PATCH", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)$`), ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], EDITOR_ROLES);
+    const application = findPartnerApplication(partner, params[1]);
+    if (!PENDING_APPLICATION_STATUSES.has(application.status)) throw new MockHttpError(409, "Only pending applications can be edited");
+    if (Number(body.expectedVersion) !== application.applicationVersion) throw new MockHttpError(409, "Application version has changed");
+    recordPartnerActivity(partner, actor, "APPLICATION_RESUBMITTED", `resubmitted the ${application.event.name} application`);
+    const now = new Date().toISOString();
+    Object.assign(application, {
+      status: "SUBMITTED",
+      applicationVersion: application.applicationVersion + 1,
+      applicationPayload: body.applicationPayload || application.applicationPayload,
+      submittedAt: now,
+    });
+    state.applicationVersions[application.id] = [
+      ...(state.applicationVersions[application.id] || []),
+      { applicationVersion: application.applicationVersion, applicationPayload: application.applicationPayload, submittedAt: now },
+    ];
+    return { ok: true, application };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)/withdraw$`), ({ req, params }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], EDITOR_ROLES);
+    const application = findPartnerApplication(partner, params[1]);
+    if (!PENDING_APPLICATION_STATUSES.has(application.status)) throw new MockHttpError(409, "Only pending applications can be withdrawn");
+    recordPartnerActivity(partner, actor, "APPLICATION_WITHDRAWN", `withdrew the ${application.event.name} application`);
+    Object.assign(application, { status: "WITHDRAWN", withdrawnAt: new Date().toISOString() });
+    return { ok: true, application };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)/versions$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    const application = findPartnerApplication(partner, params[1]);
+    return { ok: true, applicationId: application.id, versions: state.applicationVersions[application.id] || [] };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)/messages$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    const application = findPartnerApplication(partner, params[1]);
+    const reads = state.messageReads[partner.account.id] || {};
+    return { ok: true, applicationId: application.id, messages: application.externalNotes, lastReadAt: reads[application.id] || null };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)/messages$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    const application = findPartnerApplication(partner, params[1]);
+    const attachments = (Array.isArray(body.attachmentAssetIds) ? body.attachmentAssetIds : []).map((assetId) => {
+      const asset = state.assets[assetId];
+      if (!asset || asset.ownerId !== partner.account.id) throw new MockHttpError(400, "Unknown attachment");
+      return publicAsset(asset);
+    });
+    const now = new Date().toISOString();
+    const message = {
+      id: `note_${crypto.randomBytes(6).toString("hex")}`,
+      visibility: "EXTERNAL",
+      body: String(body.body || ""),
+      authorBackofficeUserId: null,
+      authorPartnerUserId: partner.account.id,
+      authorDisplayName: partner.account.displayName,
+      createdAt: now,
+      updatedAt: now,
+      attachments,
+    };
+    application.externalNotes.push(message);
+    return { ok: true, message };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)/messages/read$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    const application = findPartnerApplication(partner, params[1]);
+    const lastReadAt = new Date().toISOString();
+    state.messageReads[partner.account.id] = { ...(state.messageReads[partner.account.id] || {}), [application.id]: lastReadAt };
+    return { ok: true, lastReadAt };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)/messages/attachments/upload-session$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    findPartnerApplication(partner, params[1]);
+    return { ok: true, upload: createUploadSession("DOCUMENT", body) };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/([^/]+)/messages/attachments/finalize$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    findPartnerApplication(partner, params[1]);
+    return { ok: true, asset: publicAsset(finalizeAsset(partner, "DOCUMENT", body)) };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/messages/unread$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    const reads = state.messageReads[partner.account.id] || {};
+    const applications = (state.applications[partner.account.id] || [])
+      .map((application) => ({
+        applicationId: application.id,
+        unreadCount: application.externalNotes.filter(
+          (note) => !note.authorPartnerUserId && (!reads[application.id] || note.createdAt > reads[application.id])
+        ).length,
+      }))
+      .filter((entry) => entry.unreadCount > 0);
+    return { ok: true, unreadCount: applications.reduce((total, entry) => total + entry.unreadCount, 0), applications };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/notifications$`), ({ req, params, url }) => {
+    const partner = requirePartner(req, params[0]);
+    const all = state.notifications[partner.account.id] || [];
+    const limit = Number(url.searchParams.get("limit")) || 50;
+    const filtered = url.searchParams.get("unreadOnly") === "1" ? all.filter((entry) => !entry.readAt) : all;
+    return {
+      ok: true,
+      notifications: filtered.slice(0, limit).map(publicNotification),
+      unreadCount: all.filter((entry) => !entry.readAt).length,
+    };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/notifications/read$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    const all = state.notifications[partner.account.id] || [];
+    const ids = Array.isArray(body.notificationIds) ? new Set(body.notificationIds) : null;
+    const now = new Date().toISOString();
+    for (const notification of all) {
+      if (!notification.readAt && (!ids || ids.has(notification.id))) notification.readAt = now;
+    }
+    return { ok: true, unreadCount: all.filter((entry) => !entry.readAt).length };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/notification-preferences$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    return { ok: true, preferences: notificationPreferences(partner.account.id) };
+  }],
+  ["PATCH", new RegExp(`^/api/v1/${PARTNER_SCOPE}/notification-preferences$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    const current = notificationPreferences(partner.account.id);
+    if (body.emailDigestFrequency && !["OFF", "DAILY", "WEEKLY"].includes(body.emailDigestFrequency)) {
+      throw new MockHttpError(400, "emailDigestFrequency must be OFF, DAILY or WEEKLY");
+    }
+    const preferences = {
+      emailDigestFrequency: body.emailDigestFrequency || current.emailDigestFrequency,
+      emailTypes: Array.isArray(body.emailTypes) ? body.emailTypes.filter((type) => NOTIFICATION_TYPES.includes(type)) : current.emailTypes,
+    };
+    state.notificationPreferences[partner.account.id] = preferences;
+    return { ok: true, preferences };
+  }],
+  // Digest endpoints are server-to-server (integration key only, no partner session).
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/notifications/digest$`), ({ params, url }) => {
+    const frequency = url.searchParams.get("frequency");
+    if (frequency !== "DAILY" && frequency !== "WEEKLY") throw new MockHttpError(400, "frequency must be DAILY or WEEKLY");
+    const recipients = state.partners
+      .filter((entry) => entry.scope === params[0])
+      .map((entry) => {
+        const preferences = notificationPreferences(entry.account.id);
+        if (preferences.emailDigestFrequency !== frequency) return null;
+        const notifications = (state.notifications[entry.account.id] || []).filter(
+          (notification) => !notification.emailedAt && !notification.readAt && preferences.emailTypes.includes(notification.type)
+        );
+        if (notifications.length === 0) return null;
+        return {
+          partnerUserId: entry.account.id,
+          email: entry.account.email,
+          displayName: entry.account.displayName,
+          notifications: notifications.map(publicNotification),
+        };
+      })
+      .filter(Boolean);
+    return { ok: true, recipients };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/notifications/digest/ack$`), ({ body }) => {
+    const ids = new Set(Array.isArray(body.notificationIds) ? body.notificationIds : []);
+    const now = new Date().toISOString();
+    for (const notification of state.notifications[body.partnerUserId] || []) {
+      if (ids.has(notification.id)) notification.emailedAt = now;
+    }
+    return { ok: true };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/drafts$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    return { ok: true, drafts: state.applicationDrafts[partner.account.id] || [] };
+  }],
+  ["PUT", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/drafts$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    if (!state.eventOptions.some((option) => option.id === body.scheduleEventSeriesId)) {
+      throw new MockHttpError(400, "Unknown event series");
+    }
+    if (!body.formType || !body.applicationPayload || body.applicationPayload.formType !== body.formType) {
+      throw new MockHttpError(400, "formType and a matching applicationPayload are required");
+    }
+    const drafts = state.applicationDrafts[partner.account.id] || [];
+    const now = new Date().toISOString();
+    const existing = drafts.find((draft) => draft.scheduleEventSeriesId === body.scheduleEventSeriesId && draft.formType === body.formType);
+    const draft = existing
+      ? Object.assign(existing, { applicationPayload: body.applicationPayload, updatedAt: now })
+      : { id: `draft_${crypto.randomBytes(6).toString("hex")}`, scheduleEventSeriesId: body.scheduleEventSeriesId, formType: body.formType, applicationPayload: body.applicationPayload, createdAt: now, updatedAt: now };
+    if (!existing) state.applicationDrafts[partner.account.id] = [draft, ...drafts];
+    return { ok: true, draft };
+  }],
+  ["DELETE", new RegExp(`^/api/v1/${PARTNER_SCOPE}/applications/drafts$`), ({ req, params, url }) => {
+    const partner = requirePartner(req, params[0]);
+    const drafts = state.applicationDrafts[partner.account.id] || [];
+    const remaining = drafts.filter(
+      (draft) => !(draft.scheduleEventSeriesId === url.searchParams.get("scheduleEventSeriesId") && draft.formType === url.searchParams.get("formType"))
+    );
+    state.applicationDrafts[partner.account.id] = remaining;
+    return { ok: true, deleted: remaining.length !== drafts.length };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/profile/image$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    const asset = Object.values(state.assets).find((entry) => entry.ownerId === partner.account.id && entry.kind === "PROFILE_IMAGE");
+    return { ok: true, asset: asset ? publicAsset(asset) : null };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/profile/image/upload-session$`), ({ req, params, body }) => {
+    requirePartner(req, params[0]);
+    return { ok: true, upload: createUploadSession("PROFILE_IMAGE", body) };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/profile/image/finalize$`), ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], EDITOR_ROLES);
+    recordPartnerActivity(partner, actor, "PROFILE_IMAGE_UPDATED", "replaced the profile image");
+    for (const [id, asset] of Object.entries(state.assets)) {
+      if (asset.ownerId === partner.account.id && asset.kind === "PROFILE_IMAGE") delete state.assets[id];
+    }
+    return { ok: true, asset: finalizeAsset(partner, "PROFILE_IMAGE", body) };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/assets/([^/]+)/access$`), ({ req, params }) => {
+    const partner = requirePartner(req, params[0]);
+    const asset = state.assets[decodeURIComponent(params[1])];
+    if (!asset || asset.ownerId !== partner.account.id) throw new MockHttpError(404, "Asset not found");
+    return {
+      ok: true,
+      access: { assetId: asset.id, fileName: asset.fileName, mimeType: asset.mimeType, storageBucket: asset.storageBucket, url: `${ORIGIN}/__mock/uploads/${asset.objectKey}`, expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString() },
+    };
+  }],
+  ["GET", /^\/api\/v1\/partners\/requirements$/, ({ req }) => {
+    const partner = requirePartner(req, "partners");
+    return { ok: true, account: partner.account, participantType: partner.participantType, requirements: state.requirements[partner.account.id] || [] };
+  }],
+  ["POST", /^\/api\/v1\/partners\/requirements\/([^/]+)\/upload-session$/, ({ req, body }) => {
+    requirePartner(req, "partners");
+    return { ok: true, upload: createUploadSession("DOCUMENT", body) };
+  }],
+  ["POST", /^\/api\/v1\/partners\/requirements\/([^/]+)\/finalize$/, ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerRole(req, "partners", EDITOR_ROLES);
+    const requirement = (state.requirements[partner.account.id] || []).find((entry) => entry.requirementType === params[0]);
+    if (!requirement) throw new MockHttpError(404, "Requirement not found");
+    recordPartnerActivity(partner, actor, "REQUIREMENT_UPLOADED", `uploaded ${body.renewal ? "a renewal for " : ""}${humanizeRequirementType(requirement.requirementType).toLowerCase()}`);
+    const asset = publicAsset(finalizeAsset(partner, "DOCUMENT", body));
+    if (body.renewal && requirement.state === "APPROVED") {
+      if (!body.expiresAt || (requirement.expiresAt && body.expiresAt <= requirement.expiresAt.slice(0, 10))) {
+        throw new MockHttpError(400, "Renewal must expire later than the current document");
+      }
+      requirement.pendingRenewal = { state: "PENDING_REVIEW", reviewerNotes: null, expiresAt: body.expiresAt, submittedAt: new Date().toISOString(), asset };
+      return { ok: true, requirement };
+    }
+    requirement.asset = asset;
+    requirement.state = "PENDING_REVIEW";
+    requirement.reviewerState = "PENDING_REVIEW";
+    requirement.reviewerNotes = null;
+    requirement.expiresAt = body.expiresAt || null;
+    requirement.pendingRenewal = null;
+    return { ok: true, requirement };
+  }],
+  // Reminder endpoints are server-to-server. A requirement is due for the
+  // smallest lead that has reached its expiry window and is below the last
+  // lead reminded, so a skipped cron day still sends one reminder.
+  ["GET", /^\/api\/v1\/partners\/requirements\/reminders$/, ({ url }) => {
+    const leadDays = String(url.searchParams.get("leadDays") || "")
+      .split(",")
+      .map((entry) => Number.parseInt(entry, 10))
+      .filter((value) => value > 0);
+    const recipients = state.partners
+      .filter((entry) => entry.scope === "partners")
+      .map((entry) => {
+        if (!notificationPreferences(entry.account.id).emailTypes.includes("REQUIREMENT_EXPIRING")) return null;
+        const sent = state.requirementReminders[entry.account.id] || {};
+        const reminders = (state.requirements[entry.account.id] || [])
+          .filter((requirement) => requirement.state === "APPROVED" && requirement.expiresAt)
+          .map((requirement) => {
+            const daysLeft = daysBetween(state.today, requirement.expiresAt);
+            const due = leadDays
+              .filter((lead) => daysLeft >= 0 && daysLeft <= lead && (sent[requirement.requirementType] === undefined || lead < sent[requirement.requirementType]))
+              .sort((a, b) => a - b)[0];
+            return due ? { requirementType: requirement.requirementType, expiresAt: requirement.expiresAt, leadDays: due } : null;
+          })
+          .filter(Boolean);
+        if (reminders.length === 0) return null;
+        return { partnerUserId: entry.account.id, email: entry.account.email, displayName: entry.account.displayName, reminders };
+      })
+      .filter(Boolean);
+    return { ok: true, recipients };
+  }],
+  ["POST", /^\/api\/v1\/partners\/requirements\/reminders\/ack$/, ({ body }) => {
+    const partnerUserId = String(body.partnerUserId || "");
+    const sent = (state.requirementReminders[partnerUserId] = state.requirementReminders[partnerUserId] || {});
+    for (const reminder of Array.isArray(body.reminders) ? body.reminders : []) {
+      sent[reminder.requirementType] = reminder.leadDays;
+      const requirement = (state.requirements[partnerUserId] || []).find((entry) => entry.requirementType === reminder.requirementType);
+      const daysLeft = requirement && requirement.expiresAt ? daysBetween(state.today, requirement.expiresAt) : reminder.leadDays;
+      pushNotification(partnerUserId, {
+        type: "REQUIREMENT_EXPIRING",
+        title: `${humanizeRequirementType(reminder.requirementType)} expires in ${daysLeft} days`,
+        body: "Upload a renewal before it lapses. Your current document stays on file until the renewal is reviewed.",
+        linkPath: "/partners/profile",
+        requirementType: reminder.requirementType,
+        emailedAt: new Date().toISOString(),
+      });
+    }
+    return { ok: true };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/availability$`), ({ req, params, url }) => {
+    const partner = requirePartner(req, params[0]);
+    return partnerAvailability(partner, url.searchParams.get("eventSeriesId"));
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/availability$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    const key = `${partner.account.id}:${body.eventSeriesId}`;
+    const dates = new Set(state.availability[key] || []);
+    const requested = Array.isArray(body.dates) ? body.dates : [];
+    let changed = 0;
+    for (const date of requested) {
+      if (body.action === "remove" ? dates.delete(date) : !dates.has(date) && dates.add(date)) changed += 1;
+    }
+    state.availability[key] = Array.from(dates).sort();
+    return body.action === "remove" ? { ok: true, removed: changed } : { ok: true, added: changed };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/availability/batch$`), ({ req, params, body }) => {
+    const partner = requirePartner(req, params[0]);
+    partnerAvailability(partner, body.eventSeriesId);
+    const key = `${partner.account.id}:${body.eventSeriesId}`;
+    const dates = new Set(state.availability[key] || []);
+    let updated = 0;
+    for (const entry of Array.isArray(body.entries) ? body.entries : []) {
+      if (entry.available === true ? !dates.has(entry.date) && dates.add(entry.date) : dates.delete(entry.date)) updated += 1;
+    }
+    state.availability[key] = Array.from(dates).sort();
+    return { ...partnerAvailability(partner, body.eventSeriesId), updated };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/team$`), ({ req, params }) => {
+    const { partner } = requirePartnerActor(req, params[0]);
+    const members = state.teamMembers.filter((entry) => entry.ownerAccountId === partner.account.id).map((entry) => entry.account);
+    return {
+      ok: true,
+      members: [partner.account, ...members].map(publicTeamMember),
+      invitations: state.teamInvitations.filter((entry) => entry.ownerAccountId === partner.account.id).map(publicTeamInvitation),
+    };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/team/invitations$`), ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], ["OWNER"]);
+    const email = String(body.email || "").trim().toLowerCase();
+    if (!email.includes("@")) throw new MockHttpError(400, "A valid email is required");
+    if (partnerEmailTaken(email)) throw new MockHttpError(409, "That email already has a portal login");
+    state.teamInvitations = state.teamInvitations.filter((entry) => !(entry.ownerAccountId === partner.account.id && entry.email === email));
+    const invitation = {
+      id: `inv_${crypto.randomBytes(6).toString("hex")}`,
+      token: newToken("inv"),
+      scope: params[0],
+      ownerAccountId: partner.account.id,
+      email,
+      role: body.role,
+      invitedByName: actor.memberName || actor.displayName,
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    state.teamInvitations.push(invitation);
+    recordPartnerActivity(partner, actor, "TEAM_MEMBER_INVITED", `invited ${email} as ${body.role.toLowerCase()}`);
+    console.log("[mock-command] team invitation", { email, joinPath: `/${params[0]}/join?token=${invitation.token}` });
+    return { ok: true, invitation: publicTeamInvitation(invitation) };
+  }],
+  ["DELETE", new RegExp(`^/api/v1/${PARTNER_SCOPE}/team/invitations/([^/]+)$`), ({ req, params }) => {
+    const { partner } = requirePartnerRole(req, params[0], ["OWNER"]);
+    const id = decodeURIComponent(params[1]);
+    const before = state.teamInvitations.length;
+    state.teamInvitations = state.teamInvitations.filter((entry) => !(entry.ownerAccountId === partner.account.id && entry.id === id));
+    if (state.teamInvitations.length === before) throw new MockHttpError(404, "Invitation not found");
+    return { ok: true };
+  }],
+  ["PATCH", new RegExp(`^/api/v1/${PARTNER_SCOPE}/team/members/([^/]+)$`), ({ req, params, body }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], ["OWNER"]);
+    const member = state.teamMembers.find((entry) => entry.ownerAccountId === partner.account.id && entry.account.id === decodeURIComponent(params[1]));
+    if (params[1] === partner.account.id) throw new MockHttpError(409, "The account owner's role cannot be changed");
+    if (!member) throw new MockHttpError(404, "Team member not found");
+    if (member.account.id === actor.id) throw new MockHttpError(409, "You cannot change your own role");
+    member.account.teamRole = body.role;
+    recordPartnerActivity(partner, actor, "TEAM_MEMBER_ROLE_CHANGED", `made ${member.account.memberName || member.account.email} ${body.role.toLowerCase()}`);
+    return { ok: true, member: publicTeamMember(member.account) };
+  }],
+  ["DELETE", new RegExp(`^/api/v1/${PARTNER_SCOPE}/team/members/([^/]+)$`), ({ req, params }) => {
+    const { partner, actor } = requirePartnerRole(req, params[0], ["OWNER"]);
+    const member = state.teamMembers.find((entry) => entry.ownerAccountId === partner.account.id && entry.account.id === decodeURIComponent(params[1]));
+    if (params[1] === partner.account.id) throw new MockHttpError(409, "The account owner cannot be removed");
+    if (!member) throw new MockHttpError(404, "Team member not found");
+    if (member.account.id === actor.id) throw new MockHttpError(409, "You cannot remove yourself");
+    state.teamMembers = state.teamMembers.filter((entry) => entry !== member);
+    for (const [token, session] of Object.entries(state.sessions)) {
+      if (session.memberId === member.account.id) delete state.sessions[token];
+    }
+    recordPartnerActivity(partner, actor, "TEAM_MEMBER_REMOVED", `removed ${member.account.memberName || member.account.email} from the team`);
+    return { ok: true };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/team/invitations/lookup$`), ({ params, url }) => {
+    const invitation = findTeamInvitation(params[0], url.searchParams.get("token"));
+    const owner = state.partners.find((entry) => entry.account.id === invitation.ownerAccountId);
+    return {
+      ok: true,
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        profileDisplayName: owner.account.displayName,
+        invitedByName: invitation.invitedByName,
+        expiresAt: invitation.expiresAt,
+      },
+    };
+  }],
+  ["POST", new RegExp(`^/api/v1/${PARTNER_SCOPE}/team/invitations/accept$`), ({ params, body }) => {
+    const invitation = findTeamInvitation(params[0], body.token);
+    if (!String(body.memberName || "").trim()) throw new MockHttpError(400, "Your name is required");
+    if (String(body.password || "").length < 8) throw new MockHttpError(400, "Password must be at least 8 characters");
+    if (partnerEmailTaken(invitation.email)) throw new MockHttpError(409, "That email already has a portal login");
+    const owner = state.partners.find((entry) => entry.account.id === invitation.ownerAccountId);
+    const now = new Date().toISOString();
+    const member = {
+      scope: invitation.scope,
+      password: body.password,
+      ownerAccountId: owner.account.id,
+      account: {
+        ...owner.account,
+        id: `pu_${crypto.randomBytes(6).toString("hex")}`,
+        email: invitation.email,
+        teamRole: invitation.role,
+        memberName: String(body.memberName).trim(),
+        emailVerifiedAt: now,
+        createdAt: now,
+        updatedAt: now,
+        lastLoginAt: now,
+        passwordChangeRequired: false,
+      },
+    };
+    state.teamMembers.push(member);
+    state.teamInvitations = state.teamInvitations.filter((entry) => entry !== invitation);
+    recordPartnerActivity(owner, member.account, "TEAM_MEMBER_JOINED", `joined the team as ${invitation.role.toLowerCase()}`);
+    const token = newToken("ptr");
+    const expiresAt = sessionExpiry();
+    state.sessions[token] = { kind: "partner", scope: params[0], accountId: owner.account.id, memberId: member.account.id, expiresAt };
+    return { ok: true, session: { token, expiresAt }, account: member.account };
+  }],
+  ["GET", new RegExp(`^/api/v1/${PARTNER_SCOPE}/activity$`), ({ req, params, url }) => {
+    const { partner } = requirePartnerActor(req, params[0]);
+    const limit = Number.parseInt(url.searchParams.get("limit") || "50", 10) || 50;
+    return { ok: true, activity: (state.partnerActivity[partner.account.id] || []).slice(0, limit) };
+  }],
+];
+
+// ---------------------------------------------------------------------------
+// Mock control + storage surface (no integration key required).
+
+const uploads = new Map();
+// uploadId -> partNumber -> { body, etag }
+const multipartUploads = new Map();
+
+async function handleMockControl(req, res, url) {
+  if (url.pathname === "/__mock/scenario") {
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      scenario = {
+        delayMs: Number(body.delayMs) || 0,
+        failures: Array.isArray(body.failures) ? body.failures : [],
+        hang: Array.isArray(body.hang) ? body.hang : [],
+      };
+    }
+    return sendJson(res, 200, { ok: true, scenario });
+  }
+
+  if (url.pathname === "/__mock/reset" && req.method === "POST") {
+    state = buildSeedState();
+    scenario = readScenarioFromEnv();
+    uploads.clear();
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (url.pathname.startsWith("/__mock/uploads/")) {
+    // Browsers PUT here directly from the dev site's origin.
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, PUT, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Expose-Headers", "ETag");
+    if (req.method === "OPTIONS") {
+      res.statusCode = 204;
+      return res.end();
+    }
+    const key = url.pathname.slice("/__mock/uploads/".length);
+    if (req.method === "PUT") {
+      // Presigned URLs answer 403 once they lapse, like S3.
+      if (Date.now() > Number(url.searchParams.get("expires") || 0)) {
+        res.statusCode = 403;
+        return res.end("Request has expired");
+      }
+      const body = await readBody(req);
+      const uploadId = url.searchParams.get("uploadId");
+      if (uploadId) {
+        const etag = `"${crypto.createHash("md5").update(body).digest("hex")}"`;
+        if (!multipartUploads.has(uploadId)) multipartUploads.set(uploadId, new Map());
+        multipartUploads.get(uploadId).set(Number(url.searchParams.get("partNumber")), { body, etag });
+        res.setHeader("ETag", etag);
+        res.statusCode = 200;
+        return res.end();
+      }
+      uploads.set(key, { body, contentType: req.headers["content-type"] || "application/octet-stream" });
+      res.statusCode = 200;
+      return res.end();
+    }
+    const upload = uploads.get(key);
+    if (!upload) return sendJson(res, 404, { ok: false, error: "Upload not found" });
+    res.setHeader("Content-Type", upload.contentType);
+    return res.end(upload.body);
+  }
+
+  // Simulates the event team replying on an application thread.
+  const replyMatch = url.pathname.match(/^\/__mock\/applications\/([^/]+)\/reply$/);
+  if (replyMatch && req.method === "POST") {
+    const body = await readJsonBody(req);
+    const application = Object.values(state.applications)
+      .flat()
+      .find((entry) => entry.id === decodeURIComponent(replyMatch[1]));
+    if (!application) return sendJson(res, 404, { ok: false, error: "Application not found" });
+    const now = new Date().toISOString();
+    const message = {
+      id: `note_${crypto.randomBytes(6).toString("hex")}`,
+      visibility: "EXTERNAL",
+      body: String(body.body || "Thanks, we'll take a look."),
+      authorBackofficeUserId: "bo_reviewer",
+      authorPartnerUserId: null,
+      authorDisplayName: "Booking team",
+      createdAt: now,
+      updatedAt: now,
+      attachments: [],
+    };
+    application.externalNotes.push(message);
+    const ownerId = Object.keys(state.applications).find((id) => state.applications[id].includes(application));
+    const owner = state.partners.find((entry) => entry.account.id === ownerId);
+    if (owner) {
+      pushNotification(owner.account.id, {
+        type: "APPLICATION_MESSAGE",
+        title: `New message from ${message.authorDisplayName}`,
+        body: message.body,
+        linkPath: `/${owner.scope}/applications`,
+        applicationId: application.id,
+      });
+    }
+    return sendJson(res, 200, { ok: true, message });
+  }
+
+  // Simulates backoffice reviewing a requirement (or its pending renewal).
+  const reviewMatch = url.pathname.match(/^\/__mock\/requirements\/([^/]+)\/([^/]+)\/review$/);
+  if (reviewMatch && req.method === "POST") {
+    const body = await readJsonBody(req);
+    const partnerUserId = decodeURIComponent(reviewMatch[1]);
+    const requirement = (state.requirements[partnerUserId] || []).find((entry) => entry.requirementType === decodeURIComponent(reviewMatch[2]));
+    if (!requirement) return sendJson(res, 404, { ok: false, error: "Requirement not found" });
+    const approved = body.decision !== "REJECTED";
+    const notes = body.notes ? String(body.notes) : null;
+    if (requirement.pendingRenewal) {
+      if (approved) {
+        Object.assign(requirement, {
+          asset: requirement.pendingRenewal.asset,
+          expiresAt: requirement.pendingRenewal.expiresAt,
+          reviewerNotes: notes,
+          lastReviewedAt: new Date().toISOString(),
+          pendingRenewal: null,
+        });
+        delete (state.requirementReminders[partnerUserId] || {})[requirement.requirementType];
+      } else {
+        requirement.pendingRenewal = { ...requirement.pendingRenewal, state: "REJECTED", reviewerNotes: notes };
+      }
+    } else {
+      const reviewed = approved ? "APPROVED" : "REJECTED";
+      Object.assign(requirement, { state: reviewed, reviewerState: reviewed, reviewerNotes: notes, lastReviewedAt: new Date().toISOString() });
+      if (approved) delete (state.requirementReminders[partnerUserId] || {})[requirement.requirementType];
+    }
+    if (!approved) {
+      pushNotification(partnerUserId, {
+        type: "REQUIREMENT_REJECTED",
+        title: `${humanizeRequirementType(requirement.requirementType)} was not accepted`,
+        body: notes || "",
+        linkPath: "/partners/profile",
+        requirementType: requirement.requirementType,
+      });
+    }
+    return sendJson(res, 200, { ok: true, requirement });
+  }
+
+  const imageMatch = url.pathname.match(/^\/__mock\/images\/([^/]+)\.svg$/);
+  if (imageMatch && req.method === "GET") {
+    res.setHeader("Content-Type", "image/svg+xml");
+    return res.end(renderSponsorImage(decodeURIComponent(imageMatch[1])));
+  }
+
+  return sendJson(res, 404, { ok: false, error: "Not found" });
+}
+
+function matchRoute(method, pathname) {
+  for (const [routeMethod, pattern, handler] of routes) {
+    if (routeMethod !== method) continue;
+    if (typeof pattern === "string") {
+      if (pattern === pathname) return { handler, params: [] };
+      continue;
+    }
+    const match = pathname.match(pattern);
+    if (match) return { handler, params: match.slice(1) };
+  }
+  return null;
+}
+
+function findScenarioFailure(pathname) {
+  return scenario.failures.find((entry) => pathname.startsWith(entry.prefix) && Math.random() < (entry.rate ?? 1)) || null;
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", ORIGIN);
+  const startedAt = Date.now();
+  res.on("finish", () => {
+    console.log(`[mock-command] ${req.method} ${url.pathname}${url.search} -> ${res.statusCode} (${Date.now() - startedAt}ms)`);
+  });
+
+  try {
+    if (url.pathname.startsWith("/__mock/")) {
+      return await handleMockControl(req, res, url);
+    }
+
+    if (req.headers["x-command-integration-key"] !== INTEGRATION_KEY) {
+      return sendJson(res, 401, { ok: false, error: "Invalid integration key" });
+    }
+
+    if (scenario.hang.some((prefix) => url.pathname.startsWith(prefix))) return;
+    if (scenario.delayMs > 0) await new Promise((resolve) => setTimeout(resolve, scenario.delayMs));
+
+    const failure = findScenarioFailure(url.pathname);
+    if (failure) {
+      return sendJson(res, failure.status, { ok: false, error: `Mock scenario failure (${failure.status})` });
+    }
+
+    const route = matchRoute(req.method || "GET", url.pathname);
+    if (!route) {
+      return sendJson(res, 404, { ok: false, error: `No mock route for ${req.method} ${url.pathname}` });
+    }
+
+    const body = req.method === "GET" || req.method === "DELETE" ? {} : await readJsonBody(req);
+    const payload = await route.handler({ req, url, params: route.params, body });
+    if (typeof payload === "undefined") {
+      res.statusCode = 204;
+      return res.end();
+    }
+    return sendJson(res, 200, payload);
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      return sendJson(res, error.status, { ok: false, error: error.message });
+    }
+    console.error("[mock-command] handler failed", error);
+    return sendJson(res, 500, { ok: false, error: "Mock server error" });
+  }
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+  console.log(`[mock-command] listening on ${ORIGIN}`);
+  console.log(`[mock-command] integration key: ${INTEGRATION_KEY}`);
+  console.log("[mock-command] accounts (password password123): visitor@example.test, band@example.test, food@example.test, market@example.test, sponsor@example.test");
+  console.log("[mock-command] feeds: lineup, sponsors, partner-profiles");
+});
@@ -0,0 +1,491 @@
+// scripts/mock-command-api/fixtures.js
+// Seed data for the local Command API stand-in. Dates are generated relative
+// to today so the schedule, board and partner calendars always have content.
+
+const TIMEZONE = "America/Chicago";
+const SCHEDULE_DAYS = 28;
+const DEFAULT_PASSWORD = "password123";
+
+const BRAND = {
+  brandId: "brand_xdragon",
+  brandKey: "xdragon",
+  brandName: "X Dragon",
+};
+
+const EVENT_SERIES = [
+  { id: "es_summer_nights", slug: "summer-nights", name: "Summer Nights" },
+  { id: "es_makers_market", slug: "makers-market", name: "Makers Market" },
+];
+
+const RESOURCES = [
+  { id: "res_main_stage", slug: "main-stage", name: "Main Stage", type: "STAGE", locationId: "LOC-MAIN" },
+  { id: "res_patio_stage", slug: "patio-stage", name: "Patio Stage", type: "STAGE", locationId: "LOC-PATIO" },
+  { id: "res_food_row", slug: "food-row-a", name: "Food Row A", type: "FOOD_SPOT", locationId: "LOC-FOOD-A" },
+  { id: "res_market_aisle", slug: "market-aisle-1", name: "Market Aisle 1", type: "MARKET_SPOT", locationId: "LOC-MARKET-1" },
+];
+
+const PARTICIPANTS = [
+  { id: "pp_midnight_owls", slug: "the-midnight-owls", displayName: "The Midnight Owls", type: "ENTERTAINMENT" },
+  { id: "pp_dj_sol", slug: "dj-sol", displayName: "DJ Sol", type: "ENTERTAINMENT" },
+  { id: "pp_laura_vega", slug: "laura-vega-trio", displayName: "Laura Vega Trio", type: "ENTERTAINMENT" },
+  { id: "pp_comedy_hour", slug: "late-comedy-hour", displayName: "Late Comedy Hour", type: "ENTERTAINMENT" },
+  { id: "pp_taco_loco", slug: "taco-loco", displayName: "Taco Loco", type: "FOOD_VENDOR" },
+  { id: "pp_smoke_oak", slug: "smoke-and-oak", displayName: "Smoke & Oak BBQ", type: "FOOD_VENDOR" },
+  { id: "pp_clay_co", slug: "clay-and-co", displayName: "Clay & Co", type: "MARKET_VENDOR" },
+  { id: "pp_northside_candles", slug: "northside-candles", displayName: "Northside Candles", type: "MARKET_VENDOR" },
+];
+
+const SPONSORS = [
+  { id: "sp_lone_star_credit", name: "Lone Star Credit Union", website: "https://example.com/lone-star", color: "#1d4ed8" },
+  { id: "sp_riverbend_brewing", name: "Riverbend Brewing", website: "https://example.com/riverbend", color: "#b45309" },
+  { id: "sp_metro_radio", name: "Metro 101.7 FM", website: null, color: "#7c3aed" },
+  { id: "sp_greenway_dental", name: "Greenway Dental", website: "https://example.com/greenway", color: "#047857" },
+];
+
+// [resourceId, participantId, start "HH:MM", end "HH:MM"] per event night.
+const NIGHTLY_SLOTS = [
+  ["res_main_stage", "pp_midnight_owls", "18:00", "19:30"],
+  ["res_main_stage", "pp_laura_vega", "20:00", "21:30"],
+  ["res_main_stage", "pp_dj_sol", "22:00", "23:30"],
+  ["res_patio_stage", "pp_comedy_hour", "18:30", "19:30"],
+  ["res_patio_stage", "pp_laura_vega", "22:00", "23:00"],
+];
+
+const FULL_DAY_SPOTS = [
+  ["res_food_row", "pp_taco_loco", "es_summer_nights"],
+  ["res_food_row", "pp_smoke_oak", "es_summer_nights"],
+  ["res_market_aisle", "pp_clay_co", "es_makers_market"],
+  ["res_market_aisle", "pp_northside_candles", "es_makers_market"],
+];
+
+function pad(value) {
+  return String(value).padStart(2, "0");
+}
+
+function todayInTimezone() {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date());
+  const read = (type) => parts.find((part) => part.type === type).value;
+  return `${read("year")}-${read("month")}-${read("day")}`;
+}
+
+function addDays(value, days) {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function weekday(value) {
+  return new Date(`${value}T00:00:00Z`).getUTCDay();
+}
+
+function toMinutes(value) {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatClock(minutes) {
+  const hours = Math.floor(minutes / 60) % 24;
+  const suffix = hours >= 12 ? "PM" : "AM";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${pad(minutes % 60)} ${suffix}`;
+}
+
+// Event nights are Fridays and Saturdays, plus today so the live board is
+// never empty while developing.
+function buildOccurrenceDates() {
+  const today = todayInTimezone();
+  const dates = [];
+  for (let offset = 0; offset < SCHEDULE_DAYS; offset += 1) {
+    const date = addDays(today, offset);
+    if (offset === 0 || weekday(date) === 5 || weekday(date) === 6) dates.push(date);
+  }
+  return dates;
+}
+
+function findById(list, id) {
+  return list.find((entry) => entry.id === id);
+}
+
+function buildTimeWindow(startsAtMinutes, endsAtMinutes) {
+  return { startsAtMinutes, endsAtMinutes, label: `${formatClock(startsAtMinutes)} – ${formatClock(endsAtMinutes)}` };
+}
+
+function buildScheduleItem({ date, resourceId, participantId, seriesId, start, end }) {
+  const resource = findById(RESOURCES, resourceId);
+  const participant = findById(PARTICIPANTS, participantId);
+  const series = findById(EVENT_SERIES, seriesId);
+  const allDay = !start;
+  const startsAtMinutes = allDay ? 0 : toMinutes(start);
+  const endsAtMinutes = allDay ? 24 * 60 : toMinutes(end);
+
+  return {
+    id: `si_${date.replace(/-/g, "")}_${resourceId}_${participantId}_${startsAtMinutes}`,
+    kind: allDay ? "FULL_DAY" : "TIMED_SLOT",
+    status: "PUBLISHED",
+    allDay,
+    occursOn: date,
+    timezone: TIMEZONE,
+    start: allDay ? date : `${date}T${start}:00`,
+    end: allDay ? addDays(date, 1) : `${date}T${end}:00`,
+    startsAtMinutes,
+    endsAtMinutes,
+    timeLabel: allDay ? "All day" : `${formatClock(startsAtMinutes)} – ${formatClock(endsAtMinutes)}`,
+    occurrenceWindowLabel: "5:00 PM – 11:30 PM",
+    sequence: null,
+    title: participant.displayName,
+    subtitle: allDay ? resource.name : null,
+    description: `${participant.displayName} at ${series.name}.`,
+    locationLabel: resource.name,
+    url: null,
+    eventSeries: { id: series.id, slug: series.slug, name: series.name },
+    occurrence: { id: `occ_${series.id}_${date}`, name: `${series.name} ${date}`, status: "PUBLISHED" },
+    resource: { id: resource.id, slug: resource.slug, name: resource.name, type: resource.type },
+    participant: { id: participant.id, slug: participant.slug, displayName: participant.displayName, type: participant.type },
+    // Stage slots carry windows set by the event team; full-day spots have none.
+    loadIn: resource.type === "STAGE" && !allDay ? buildTimeWindow(startsAtMinutes - 60, startsAtMinutes - 30) : null,
+    soundcheck: resource.type === "STAGE" && !allDay ? buildTimeWindow(startsAtMinutes - 30, startsAtMinutes - 10) : null,
+  };
+}
+
+function buildScheduleItems(occurrenceDates) {
+  const items = [];
+  for (const date of occurrenceDates) {
+    for (const [resourceId, participantId, start, end] of NIGHTLY_SLOTS) {
+      items.push(buildScheduleItem({ date, resourceId, participantId, seriesId: "es_summer_nights", start, end }));
+    }
+    for (const [resourceId, participantId, seriesId] of FULL_DAY_SPOTS) {
+      items.push(buildScheduleItem({ date, resourceId, participantId, seriesId }));
+    }
+  }
+  return items;
+}
+
+function buildEventOptions(occurrenceDates) {
+  return EVENT_SERIES.map((series) => ({
+    id: series.id,
+    slug: series.slug,
+    name: series.name,
+    seasonStartsOn: occurrenceDates[0],
+    seasonEndsOn: occurrenceDates[occurrenceDates.length - 1],
+    applicationFormOptions: {
+      stageOptions: RESOURCES.filter((resource) => resource.type === "STAGE").map((resource) => ({
+        id: resource.id,
+        name: resource.name,
+        slug: resource.slug,
+        locationId: resource.locationId,
+      })),
+      occurrenceDateOptions: occurrenceDates.map((date) => ({
+        occurrenceId: `occ_${series.id}_${date}`,
+        occursOn: date,
+        label: new Intl.DateTimeFormat("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" }).format(
+          new Date(`${date}T00:00:00Z`)
+        ),
+      })),
+    },
+  }));
+}
+
+function buildPartnerAccounts(now) {
+  const base = {
+    ...BRAND,
+    status: "ACTIVE",
+    emailVerifiedAt: now,
+    createdAt: now,
+    updatedAt: now,
+    lastLoginAt: null,
+    passwordChangeRequired: false,
+    teamRole: "OWNER",
+    memberName: null,
+  };
+
+  return [
+    {
+      scope: "partners",
+      password: DEFAULT_PASSWORD,
+      participantType: "ENTERTAINMENT",
+      account: { ...base, id: "pu_band", partnerProfileId: "pp_midnight_owls", email: "band@example.test", kind: "PARTICIPANT", displayName: "The Midnight Owls", slug: "the-midnight-owls" },
+    },
+    {
+      scope: "partners",
+      password: DEFAULT_PASSWORD,
+      participantType: "FOOD_VENDOR",
+      account: { ...base, id: "pu_food", partnerProfileId: "pp_taco_loco", email: "food@example.test", kind: "PARTICIPANT", displayName: "Taco Loco", slug: "taco-loco" },
+    },
+    {
+      scope: "partners",
+      password: DEFAULT_PASSWORD,
+      participantType: "MARKET_VENDOR",
+      account: { ...base, id: "pu_market", partnerProfileId: "pp_clay_co", email: "market@example.test", kind: "PARTICIPANT", displayName: "Clay & Co", slug: "clay-and-co" },
+    },
+    {
+      scope: "sponsors",
+      password: DEFAULT_PASSWORD,
+      participantType: null,
+      account: { ...base, id: "pu_sponsor", partnerProfileId: "sp_riverbend_brewing", email: "sponsor@example.test", kind: "SPONSOR", displayName: "Riverbend Brewing", slug: "riverbend-brewing" },
+    },
+  ];
+}
+
+// Extra logins on a partner profile. Their sessions act on the owner's data.
+function buildTeamMembers(partners) {
+  const band = partners.find((entry) => entry.account.id === "pu_band");
+  return [
+    {
+      scope: "partners",
+      password: DEFAULT_PASSWORD,
+      ownerAccountId: band.account.id,
+      account: { ...band.account, id: "pu_band_drums", email: "drums@example.test", teamRole: "EDITOR", memberName: "Sam Ortiz" },
+    },
+  ];
+}
+
+function buildPartnerActivity(now) {
+  return {
+    pu_band: [
+      {
+        id: "act_band_1",
+        action: "TEAM_MEMBER_JOINED",
+        summary: "joined the team as editor",
+        actor: { partnerUserId: "pu_band_drums", email: "drums@example.test", memberName: "Sam Ortiz" },
+        occurredAt: now,
+      },
+    ],
+  };
+}
+
+function buildPartnerProfile(entry) {
+  const shared = {
+    account: entry.account,
+    contactName: "Alex Rivera",
+    contactPhone: "555-0100",
+    displayName: entry.account.displayName,
+    slug: entry.account.slug,
+    description: `${entry.account.displayName} has been part of X Dragon events since 2021.`,
+    mainWebsiteUrl: "https://example.com",
+    socialLinks: { instagram: "https://instagram.com/example" },
+    profileCompletedAt: entry.account.createdAt,
+  };
+
+  if (entry.account.kind === "SPONSOR") {
+    return {
+      ...shared,
+      kind: "SPONSOR",
+      productServiceType: "Craft beverages",
+      audienceProfile: "Adults 21-45 in the metro area",
+      marketingGoals: "Brand awareness and sampling",
+      onsitePlacement: "Beer garden",
+      signageInformation: "Two 3x6 banners",
+      staffed: true,
+      sponsorType: "DIRECT",
+      requests: null,
+    };
+  }
+
+  return {
+    ...shared,
+    kind: "PARTICIPANT",
+    summary: "Local favourites.",
+    socialLinks:
+      entry.participantType === "ENTERTAINMENT"
+        ? { ...shared.socialLinks, youtube: "https://www.youtube.com/watch?v=aqz-KE-bpKQ" }
+        : shared.socialLinks,
+    participantType: entry.participantType,
+    entertainmentType: entry.participantType === "ENTERTAINMENT" ? "LIVE_BAND" : null,
+    entertainmentActType: entry.participantType === "ENTERTAINMENT" ? "FULL_BAND" : null,
+    entertainmentGenres: entry.participantType === "ENTERTAINMENT" ? ["ROCK", "INDIE_ALTERNATIVE"] : [],
+    entertainmentStyle: null,
+    foodStyle: entry.participantType === "FOOD_VENDOR" ? "Street tacos" : null,
+    foodSetupType: entry.participantType === "FOOD_VENDOR" ? "TRUCK" : null,
+    marketType: entry.participantType === "MARKET_VENDOR" ? "DECOR" : null,
+    specialRequirements: null,
+  };
+}
+
+function buildRequirements(participantType, today) {
+  if (participantType === "FOOD_VENDOR") {
+    return [
+      { requirementType: "BUSINESS_LICENSE", state: "APPROVED", reviewerState: "APPROVED", reviewerNotes: null, expiresAt: addDays(today, 20), lastReviewedAt: addDays(today, -30), asset: null },
+      { requirementType: "HEALTH_PERMIT", state: "MISSING", reviewerState: null, reviewerNotes: null, expiresAt: null, lastReviewedAt: null, asset: null },
+      { requirementType: "BUSINESS_INSURANCE", state: "PENDING_REVIEW", reviewerState: "PENDING_REVIEW", reviewerNotes: null, expiresAt: addDays(today, 200), lastReviewedAt: null, asset: null },
+      { requirementType: "FIRE_PERMIT", state: "EXPIRED", reviewerState: "EXPIRED", reviewerNotes: "Please upload this year's permit.", expiresAt: addDays(today, -5), lastReviewedAt: addDays(today, -90), asset: null },
+    ];
+  }
+
+  if (participantType === "MARKET_VENDOR") {
+    return [
+      { requirementType: "BUSINESS_LICENSE", state: "MISSING", reviewerState: null, reviewerNotes: null, expiresAt: null, lastReviewedAt: null, asset: null },
+      { requirementType: "BUSINESS_INSURANCE", state: "APPROVED", reviewerState: "APPROVED", reviewerNotes: null, expiresAt: addDays(today, 120), lastReviewedAt: addDays(today, -10), asset: null },
+    ];
+  }
+
+  return [];
+}
+
+function buildNotifications(now) {
+  const base = { readAt: null, emailedAt: null, applicationId: null, requirementType: null, createdAt: now };
+  return {
+    pu_band: [
+      { ...base, id: "ntf_band_status", type: "APPLICATION_STATUS_CHANGED", title: "Application is in review", body: "The booking team started reviewing your Summer Nights application.", linkPath: "/partners/applications", applicationId: "app_band_1" },
+      { ...base, id: "ntf_band_message", type: "APPLICATION_MESSAGE", title: "New message from Booking team", body: "Thanks! Could you add a live performance video link and a longer song list?", linkPath: "/partners/applications", applicationId: "app_band_1" },
+    ],
+    pu_food: [
+      { ...base, id: "ntf_food_fire", type: "REQUIREMENT_EXPIRED", title: "Fire permit expired", body: "Please upload this year's permit.", linkPath: "/partners/profile", requirementType: "FIRE_PERMIT" },
+      { ...base, id: "ntf_food_license", type: "REQUIREMENT_EXPIRING", title: "Business license expires in 20 days", body: "Upload a renewed license before it lapses.", linkPath: "/partners/profile", requirementType: "BUSINESS_LICENSE" },
+    ],
+  };
+}
+
+function buildSeedState() {
+  const now = new Date().toISOString();
+  const today = todayInTimezone();
+  const occurrenceDates = buildOccurrenceDates();
+  const scheduleItems = buildScheduleItems(occurrenceDates);
+  const eventOptions = buildEventOptions(occurrenceDates);
+  const partners = buildPartnerAccounts(now);
+
+  const bandStage = eventOptions[0].applicationFormOptions.stageOptions[0];
+  const bandPayload = {
+    formType: "ENTERTAINMENT",
+    typeOfAct: "FULL_BAND",
+    performerName: "The Midnight Owls",
+    mainContact: "Riley Chen",
+    email: "band@example.test",
+    phone: "+15125550101",
+    citiesOfResidence: ["Austin"],
+    shortBio: "Four-piece soul and funk band playing original songs and deep-cut covers.",
+    genres: ["RNB_SOUL", "ROCK"],
+    preferredStageId: bandStage ? bandStage.id : "",
+    preferredStageName: bandStage ? bandStage.name : "",
+    songList: "Night Shift\nRiver Road\nSlow Burn",
+    typicalPerformanceFeeRange: "$400 - $600",
+    availableOccurrenceDates: occurrenceDates.slice(1, 4),
+    canCommitToEarlyDropoffAndSoundcheck: true,
+    instagramUrl: "https://instagram.com/example",
+    facebookUrl: null,
+    livePerformanceVideoUrl: null,
+    streamingUrl: null,
+    websiteUrl: "https://example.com",
+    otherChannelUrl: null,
+    willShareEvent: true,
+    fanbaseSummary: "Regular draw of 80-120 at local venues.",
+    agreementAccepted: true,
+  };
+
+  const applications = {
+    pu_band: [
+      {
+        id: "app_band_1",
+        applicationKind: "PARTICIPANT",
+        status: "IN_REVIEW",
+        applicationVersion: 1,
+        applicationPayload: bandPayload,
+        submittedProfileSnapshot: null,
+        submittedAt: now,
+        approvedAt: null,
+        rejectedAt: null,
+        withdrawnAt: null,
+        event: eventOptions[0],
+        externalNotes: [
+          {
+            id: "note_band_1",
+            visibility: "EXTERNAL",
+            body: "Thanks! Could you add a live performance video link and a longer song list?",
+            authorBackofficeUserId: "bo_reviewer",
+            authorPartnerUserId: null,
+            authorDisplayName: "Booking team",
+            createdAt: now,
+            updatedAt: now,
+            attachments: [],
+          },
+        ],
+      },
+    ],
+  };
+
+  const applicationVersions = {
+    app_band_1: [{ applicationVersion: 1, applicationPayload: bandPayload, submittedAt: now }],
+  };
+
+  return {
+    brand: BRAND,
+    timezone: TIMEZONE,
+    today,
+    occurrenceDates,
+    eventSeries: EVENT_SERIES,
+    eventOptions,
+    resources: RESOURCES,
+    participants: PARTICIPANTS,
+    sponsors: SPONSORS,
+    scheduleItems,
+    publicAccounts: [
+      {
+        password: DEFAULT_PASSWORD,
+        account: {
+          id: "acct_visitor",
+          brandKey: BRAND.brandKey,
+          email: "visitor@example.test",
+          name: "Visiting Guest",
+          status: "ACTIVE",
+          emailVerified: true,
+          createdAt: now,
+          updatedAt: now,
+          lastLoginAt: null,
+        },
+      },
+    ],
+    partners,
+    teamMembers: buildTeamMembers(partners),
+    teamInvitations: [
+      {
+        id: "inv_band_manager",
+        token: "mock-invite-band",
+        scope: "partners",
+        ownerAccountId: "pu_band",
+        email: "manager@example.test",
+        role: "VIEWER",
+        invitedByName: "The Midnight Owls",
+        createdAt: now,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    ],
+    partnerActivity: buildPartnerActivity(now),
+    partnerProfiles: Object.fromEntries(partners.map((entry) => [entry.account.id, buildPartnerProfile(entry)])),
+    applications,
+    applicationVersions,
+    messageReads: {},
+    requirements: Object.fromEntries(
+      partners.map((entry) => [
+        entry.account.id,
+        buildRequirements(entry.participantType, today).map((requirement) => ({ ...requirement, pendingRenewal: null })),
+      ])
+    ),
+    // partnerUserId -> requirementType -> smallest reminder lead (days) already sent.
+    requirementReminders: { pu_food: { BUSINESS_LICENSE: 30 } },
+    applicationDrafts: {},
+    notifications: buildNotifications(now),
+    notificationPreferences: {},
+    availability: {},
+    assets: {},
+    favorites: {},
+    sessions: {},
+    prompts: [
+      { id: "prompt_1", title: "Event recap email", description: "Summarise a night for the newsletter.", category: "Marketing", content: "Write a short recap of {event}..." },
+      { id: "prompt_2", title: "Vendor welcome", description: null, category: "Operations", content: "Welcome {vendor} to the market..." },
+    ],
+    guides: [
+      { id: "guide_1", title: "Load-in checklist", slug: "load-in-checklist", summary: "What to bring and when to arrive.", updatedAt: now, category: { id: "cat_ops", name: "Operations", slug: "operations" }, tags: ["vendors"], body: "# Load-in checklist\n\nArrive 90 minutes before doors." },
+      { id: "guide_2", title: "Stage plot basics", slug: "stage-plot-basics", summary: "Send us a stage plot that works.", updatedAt: now, category: null, tags: null, body: "# Stage plot basics\n\nKeep it to one page." },
+    ],
+  };
+}
+
+module.exports = {
+  DEFAULT_PASSWORD,
+  addDays,
+  buildSeedState,
+};